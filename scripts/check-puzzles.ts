@@ -0,0 +1,48 @@
+import { readFileSync } from 'node:fs';
+import { parseArgs } from 'node:util';
+import { checkPack, isRecord, PUZZLE_PACKS } from '../src/puzzles';
+
+const USAGE = `Checks puzzle packs: their shape, their cards, and that every puzzle can be
+won for certain in exactly its number of moves.
+
+Usage: npm run puzzles -- [pack.json ...]
+
+  With no files, checks the packs the game ships with. A file given here is
+  checked on its own and against the shipped packs for clashing puzzle ids.
+
+  -h, --help   show this
+`;
+
+const { values, positionals } = parseArgs({
+  options: { help: { type: 'boolean', short: 'h' } },
+  allowPositionals: true,
+});
+
+if (values.help) {
+  console.log(USAGE);
+  process.exit(0);
+}
+
+const packs: { source: string; raw: unknown }[] = positionals.length > 0
+  ? positionals.map(file => {
+    try {
+      return { source: file, raw: JSON.parse(readFileSync(file, 'utf8')) };
+    } catch (err) {
+      console.error(`puzzles: cannot read ${file}: ${(err as Error).message}`);
+      process.exit(1);
+    }
+  })
+  : PUZZLE_PACKS.map(pack => ({ source: pack.id, raw: pack }));
+
+let failed = 0;
+for (const { source, raw } of packs) {
+  const report = checkPack(raw, PUZZLE_PACKS);
+  const count = isRecord(raw) && Array.isArray(raw.puzzles) ? raw.puzzles.length : 0;
+  const bad = Object.entries(report);
+  console.log(`${source}: ${count - bad.length}/${count} puzzles ok`);
+  for (const [id, problems] of bad) {
+    problems.forEach(problem => console.log(`  ${id}: ${problem}`));
+  }
+  failed += bad.length;
+}
+process.exit(failed > 0 ? 1 : 0);
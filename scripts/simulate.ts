@@ -0,0 +1,154 @@
+import { writeFileSync } from 'node:fs';
+import { parseArgs } from 'node:util';
+import { Difficulty, Inventory, RuleSet } from '../src/types';
+import { AI_LEVELS, getAiLevel } from '../src/ai';
+import { findItem } from '../src/items';
+import { RULE_OPTIONS, RULE_PRESETS } from '../src/rules';
+import {
+  gamesToCsv, ItemImpact, itemImpact, Interval, reportToCsv, runSimulation, SimConfig, SimGame, SimReport,
+  SimSeat, summarizeSimulation, withoutItems,
+} from '../src/simulation';
+
+const USAGE = `Plays seeded games between AI seats and reports how they went.
+
+Usage: npm run simulate -- [options]
+
+  -n, --games <n>        games to play (default 200)
+  -s, --seed <text>      run seed; game i is dealt from <seed>-i (default "sim")
+  -r, --rules <preset>   ${RULE_PRESETS.map(preset => preset.id).join(' | ')} (default classic)
+      --rule <key=on|off>  change one rule on top of the preset; repeatable
+                         keys: ${RULE_OPTIONS.map(option => option.key).join(', ')}
+      --seat <spec>      an AI seat; repeatable, two normal seats by default.
+                         <level>[:none | :<item>=<n>,...], level is ${AI_LEVELS.map(level => level.id).join(' | ')};
+                         without ":" a seat carries its level's usual items
+  -f, --format <fmt>     table | csv | json (default table)
+  -o, --out <file>       write the report here instead of stdout
+      --detail <file>    also write one CSV row per game here
+      --compare-items    replay the same deals without items and report the difference
+  -h, --help             show this
+`;
+
+const fail = (message: string): never => {
+  console.error(`simulate: ${message}\n`);
+  console.error(USAGE);
+  process.exit(1);
+};
+
+const parseRules = (presetId: string, changes: string[]): RuleSet => {
+  const preset = RULE_PRESETS.find(p => p.id === presetId) ?? fail(`unknown rule preset "${presetId}"`);
+  const rules = { ...preset.rules };
+  changes.forEach(change => {
+    const [key, value] = change.split('=');
+    const option = RULE_OPTIONS.find(o => o.key === key) ?? fail(`unknown rule "${key}"`);
+    if (value !== 'on' && value !== 'off') fail(`rule "${key}" must be on or off`);
+    rules[option.key] = value === 'on';
+  });
+  // Same as the rules panel: a rule that needs another is off without it
+  RULE_OPTIONS.forEach(option => {
+    if (option.requires && !rules[option.requires]) rules[option.key] = false;
+  });
+  return rules;
+};
+
+const parseSeat = (spec: string): SimSeat => {
+  const [level, items] = spec.split(':');
+  if (!AI_LEVELS.some(l => l.id === level)) fail(`unknown AI level "${level}"`);
+  if (items === undefined) return { level: level as Difficulty, items: { ...getAiLevel(level as Difficulty).items } };
+  const inventory: Inventory = {};
+  if (items !== 'none') {
+    items.split(',').forEach(entry => {
+      const [itemId, count] = entry.split('=');
+      if (!findItem(itemId)) fail(`unknown item "${itemId}"`);
+      const n = Number(count ?? 1);
+      if (!Number.isInteger(n) || n < 0) fail(`bad item count in "${entry}"`);
+      inventory[itemId] = n;
+    });
+  }
+  return { level: level as Difficulty, items: inventory };
+};
+
+const percent = (value: number) => `${(value * 100).toFixed(1)}%`;
+const range = ({ low, high }: Interval, format: (value: number) => string) => `${format(low)}–${format(high)}`;
+const signed = (value: number) => `${value >= 0 ? '+' : ''}${(value * 100).toFixed(1)}pt`;
+const inventoryText = (inventory: Inventory) =>
+  Object.entries(inventory).filter(([, n]) => n > 0).map(([itemId, n]) => `${itemId}×${n}`).join(' ') || '-';
+
+const formatTable = (report: SimReport, impact: ItemImpact[] | null): string => {
+  const lines = [
+    `${report.games} games, rules: ${report.preset}${report.preset === 'custom' ? ` ${JSON.stringify(report.rules)}` : ''}`,
+    '',
+    ...report.seats.map((seat, i) => [
+      `${seat.seat} ${seat.level.padEnd(6)}`,
+      `wins ${String(seat.wins).padStart(5)}  ${percent(seat.winRate).padStart(6)} (95% ${range(seat.winInterval, percent)})`,
+      `stars/game ${seat.averageStars.toFixed(2)}`,
+      `items ${inventoryText(seat.items)}, used ${inventoryText(seat.itemsUsed)}`,
+      impact ? `item impact ${signed(impact[i].difference)} (95% ${range(impact[i].interval, signed)})` : '',
+    ].filter(Boolean).join('  ')),
+    '',
+    `turns per game   ${report.averageTurns.toFixed(1)} (95% ${range(report.turnsInterval, v => v.toFixed(1))})`,
+    `deck ran out     ${percent(report.deckRanOutRate)} of games (95% ${range(report.deckRanOutInterval, percent)})`,
+    `drawn games      ${report.draws}`,
+  ];
+  if (report.stalled > 0) lines.push(`stalled games    ${report.stalled} (stopped at the move limit)`);
+  return lines.join('\n') + '\n';
+};
+
+const { values } = (() => {
+  try {
+    return parseArgs({
+      options: {
+        games: { type: 'string', short: 'n', default: '200' },
+        seed: { type: 'string', short: 's', default: 'sim' },
+        rules: { type: 'string', short: 'r', default: 'classic' },
+        rule: { type: 'string', multiple: true, default: [] },
+        seat: { type: 'string', multiple: true, default: [] },
+        format: { type: 'string', short: 'f', default: 'table' },
+        out: { type: 'string', short: 'o' },
+        detail: { type: 'string' },
+        'compare-items': { type: 'boolean', default: false },
+        help: { type: 'boolean', short: 'h', default: false },
+      },
+    });
+  } catch (error) {
+    return fail((error as Error).message);
+  }
+})();
+
+if (values.help) {
+  console.log(USAGE);
+  process.exit(0);
+}
+
+const games = Number(values.games);
+if (!Number.isInteger(games) || games < 1) fail('--games must be a positive whole number');
+if (!['table', 'csv', 'json'].includes(values.format)) fail(`unknown format "${values.format}"`);
+
+const seats = values.seat.length > 0 ? values.seat.map(parseSeat) : [parseSeat('normal'), parseSeat('normal')];
+if (seats.length < 2 || seats.length > 6) fail('a table has 2 to 6 seats');
+
+const config: SimConfig = { seed: values.seed, games, rules: parseRules(values.rules, values.rule), seats };
+
+// Progress goes to stderr so stdout stays clean for CSV and JSON
+const progress = (label: string) => (_game: SimGame, i: number) => {
+  if ((i + 1) % 50 === 0 || i + 1 === games) process.stderr.write(`\r${label} ${i + 1}/${games}`);
+  if (i + 1 === games) process.stderr.write('\n');
+};
+
+const played = runSimulation(config, progress('playing'));
+const report = summarizeSimulation(config, played);
+
+let impact: ItemImpact[] | null = null;
+if (values['compare-items']) {
+  const control = withoutItems(config);
+  impact = itemImpact(report, summarizeSimulation(control, runSimulation(control, progress('without items'))));
+}
+
+const output = values.format === 'json'
+  ? JSON.stringify({ config, report, itemImpact: impact }, null, 2) + '\n'
+  : values.format === 'csv'
+    ? reportToCsv(report, impact)
+    : formatTable(report, impact);
+
+if (values.out) writeFileSync(values.out, output);
+else process.stdout.write(output);
+if (values.detail) writeFileSync(values.detail, gamesToCsv(played));
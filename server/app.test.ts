@@ -0,0 +1,178 @@
+import { AddressInfo } from 'node:net';
+import { Server } from 'node:http';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { GameAction, GameSetup, Profile } from '../src/types';
+import { applyAction, createGame, createTable, isGameOver, logActions } from '../src/engine';
+import { getAiLevel } from '../src/ai';
+import { createSeededRng } from '../src/rng';
+import { starsForGame } from '../src/items';
+import { CLASSIC_RULES } from '../src/rules';
+import { createApp } from './app';
+import { openDatabase } from './db';
+import { HOST_SEAT } from './replay';
+
+let server: Server;
+let base: string;
+
+beforeEach(async () => {
+  server = createApp(openDatabase()).listen(0);
+  await new Promise(resolve => server.once('listening', resolve));
+  base = `http://localhost:${(server.address() as AddressInfo).port}`;
+});
+
+afterEach(() => new Promise(resolve => server.close(resolve)));
+
+const request = async (method: string, path: string, body?: unknown) => {
+  const res = await fetch(base + path, {
+    method,
+    headers: { 'content-type': 'application/json' },
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+  return { status: res.status, body: await res.json() };
+};
+
+const newProfile = async (): Promise<Profile> => (await request('POST', '/api/profiles', { name: 'Kiki' })).body;
+
+/** Plays a registered game out the way the client does: the AI from its seeded strategy, the host picking the first legal move. */
+const playOut = (setup: GameSetup): GameAction[] => {
+  let state = createGame(setup.seed, setup.rules, createTable(setup.opponentKinds), setup.dealer);
+  const { strategy, items } = getAiLevel(setup.difficulty);
+  const rng = createSeededRng(`${setup.seed}/ai`);
+  const inventories: Record<string, Record<string, number>> = {};
+  const host = getAiLevel('easy').strategy;
+  while (!isGameOver(state)) {
+    const seat = state.currentTurn;
+    if (seat === HOST_SEAT) {
+      state = applyAction(state, host.chooseAction(state, seat, () => 0)!);
+      continue;
+    }
+    const inventory = inventories[seat] ??= { ...items };
+    const item = strategy.chooseItem(state, seat, inventory);
+    if (item) inventory[item.itemId] -= 1;
+    state = applyAction(state, item ?? strategy.chooseAction(state, seat, rng)!);
+  }
+  return logActions(state);
+};
+
+const startGame = async (profileId: string, setup: GameSetup) => {
+  const { status, body } = await request('POST', `/api/profiles/${profileId}/games`, setup);
+  expect(status).toBe(201);
+  return body.gameId as string;
+};
+
+describe('profiles', () => {
+  it('creates a profile with an empty wallet', async () => {
+    const { status, body } = await request('POST', '/api/profiles', { name: '  小明  ' });
+    expect(status).toBe(201);
+    expect(body).toMatchObject({ name: '小明', stars: 0, inventory: {} });
+    expect((await request('GET', `/api/profiles/${body.id}`)).body).toEqual(body);
+  });
+
+  it('reports a profile that does not exist', async () => {
+    expect((await request('GET', '/api/profiles/nobody')).status).toBe(404);
+  });
+});
+
+describe('purchases', () => {
+  it('refuses an item the profile cannot afford', async () => {
+    const profile = await newProfile();
+    const { status, body } = await request('POST', `/api/profiles/${profile.id}/purchases`, { itemId: 'p1' });
+    expect(status).toBe(409);
+    expect(body.error).toBe('Not enough stars');
+    expect((await request('GET', `/api/profiles/${profile.id}/purchases`)).body).toEqual([]);
+  });
+});
+
+describe('games', () => {
+  const setup: GameSetup = { seed: 'TESTSEED', rules: CLASSIC_RULES, opponentKinds: ['ai'], difficulty: 'normal' };
+
+  it('refuses house rules it does not know', async () => {
+    const profile = await newProfile();
+    for (const rules of [{ drawTwo: 'yes' }, { jokers: true }, ['drawTwo']]) {
+      expect((await request('POST', `/api/profiles/${profile.id}/games`, { ...setup, rules })).status).toBe(400);
+    }
+  });
+
+  it('refuses a table with a human opponent', async () => {
+    const profile = await newProfile();
+    expect((await request('POST', `/api/profiles/${profile.id}/games`, { ...setup, opponentKinds: ['human'] })).status).toBe(400);
+  });
+
+  it('credits stars for a log that replays to a finished game', async () => {
+    const profile = await newProfile();
+    const gameId = await startGame(profile.id, setup);
+    const actions = playOut(setup);
+
+    const { status, body } = await request('POST', `/api/games/${gameId}/finish`, { actions });
+    expect(status).toBe(200);
+    expect(body.starsEarned).toBe(starsForGame(body.winner === HOST_SEAT, {}));
+    expect(body.profile.stars).toBe(body.starsEarned);
+  });
+
+  it('settles a game only once', async () => {
+    const profile = await newProfile();
+    const gameId = await startGame(profile.id, setup);
+    const actions = playOut(setup);
+
+    const first = await request('POST', `/api/games/${gameId}/finish`, { actions });
+    expect(first.status).toBe(200);
+    const again = await request('POST', `/api/games/${gameId}/finish`, { actions });
+    expect(again.status).toBe(409);
+    expect(again.body.error).toBe('Game already settled');
+    expect((await request('GET', `/api/profiles/${profile.id}`)).body.stars).toBe(first.body.profile.stars);
+  });
+
+  it('rejects an illegal move', async () => {
+    const profile = await newProfile();
+    const gameId = await startGame(profile.id, setup);
+    const actions = playOut(setup);
+    const forged: GameAction[] = [{ type: 'chooseSuit', seat: HOST_SEAT, suit: 'hearts' }, ...actions];
+
+    const { status, body } = await request('POST', `/api/games/${gameId}/finish`, { actions: forged });
+    expect(status).toBe(422);
+    expect(body.error).toBe('Move 0 is not legal');
+    expect((await request('GET', `/api/profiles/${profile.id}`)).body.stars).toBe(0);
+  });
+
+  it('rejects an AI move the AI would not have made', async () => {
+    const profile = await newProfile();
+    const gameId = await startGame(profile.id, setup);
+    const actions = playOut(setup);
+    const index = actions.findIndex(action => action.seat !== HOST_SEAT && action.type === 'play');
+    const forged = actions.map((action, i) => i === index ? { type: 'draw', seat: action.seat } : action);
+
+    const { status, body } = await request('POST', `/api/games/${gameId}/finish`, { actions: forged });
+    expect(status).toBe(422);
+    expect(body.error).toBe(`Move ${index} is not the AI's move`);
+  });
+
+  it('spends a bought hint from the wallet as it is taken', async () => {
+    const profile = await newProfile();
+    await request('POST', `/api/profiles/${profile.id}/tutorial`);
+    await request('POST', `/api/profiles/${profile.id}/purchases`, { itemId: 'p9' });
+    const gameId = await startGame(profile.id, setup);
+
+    const spent = await request('POST', `/api/games/${gameId}/hints`, { itemId: 'p9' });
+    expect(spent.status).toBe(200);
+    expect(spent.body.inventory.p9).toBe(0);
+    const again = await request('POST', `/api/games/${gameId}/hints`, { itemId: 'p9' });
+    expect(again.status).toBe(409);
+    expect(again.body.error).toBe('No hints left');
+    expect((await request('POST', `/api/games/${gameId}/hints`, { itemId: 'p1' })).status).toBe(400);
+
+    // Settling takes nothing more, whatever the client says it spent
+    const { body } = await request('POST', `/api/games/${gameId}/finish`, { actions: playOut(setup), hints: { p9: 5 } });
+    expect(body.profile.inventory.p9).toBe(0);
+    expect((await request('POST', `/api/games/${gameId}/hints`, { itemId: 'p9' })).status).toBe(409);
+  });
+
+  it('rejects a log that stops before the game ends', async () => {
+    const profile = await newProfile();
+    const gameId = await startGame(profile.id, setup);
+    const actions = playOut(setup);
+
+    const { status, body } = await request('POST', `/api/games/${gameId}/finish`, { actions: actions.slice(0, -1) });
+    expect(status).toBe(422);
+    expect(body.error).toBe('The game has not finished');
+  });
+});
@@ -0,0 +1,125 @@
+import express, { NextFunction, Request, Response } from 'express';
+import Database from 'better-sqlite3';
+import { GameAction, GameSetup, GuideProvider, SeatKind } from '../src/types';
+import { parseRules } from '../src/rules';
+import { AI_LEVELS } from '../src/ai';
+import { findStage, stageOpponentKinds } from '../src/campaign';
+import { MAX_SEATS, MIN_SEATS } from '../src/engine';
+import { loadSave, migrate } from '../src/storage';
+import { normalizeSeed, randomSeed } from '../src/rng';
+import { ApiError, fieldsOf } from './errors';
+import { openDatabase } from './db';
+import { createSqliteStorage } from './sqliteStorage';
+import { claimTutorial, createProfile, getProfile, listPurchases, purchase } from './wallet';
+import { finishGame, parseHintItem, spendHint, startGame } from './games';
+import { parseMatchRequest } from './matches';
+import { claimQuest } from './quests';
+import { createGuide, parseGuideRequest } from './guide';
+
+const parseSetup = (body: unknown): GameSetup => {
+  const fields = fieldsOf(body);
+  const seed = normalizeSeed(typeof fields.seed === 'string' ? fields.seed : '') || randomSeed();
+  // A campaign stage brings its own rules and table
+  if (fields.stageId !== undefined) {
+    const stage = typeof fields.stageId === 'string' ? findStage(fields.stageId) : undefined;
+    if (!stage) throw new ApiError(400, 'Invalid stage');
+    return { seed, rules: stage.rules, opponentKinds: stageOpponentKinds(stage), difficulty: stage.difficulty, stageId: stage.id };
+  }
+  const opponentKinds: unknown[] = Array.isArray(fields.opponentKinds) ? fields.opponentKinds : ['ai'];
+  if (
+    opponentKinds.length < MIN_SEATS - 1 || opponentKinds.length > MAX_SEATS - 1
+    || !opponentKinds.every(kind => kind === 'ai' || kind === 'human')
+  ) {
+    throw new ApiError(400, 'Invalid table');
+  }
+  // Nothing checks a human opponent's moves, so they could simply hand the host the win
+  if (opponentKinds.includes('human')) throw new ApiError(400, 'Only games against the AI earn stars');
+  const level = AI_LEVELS.find(level => level.id === (fields.difficulty ?? 'normal'));
+  if (!level) throw new ApiError(400, 'Invalid difficulty');
+  const rules = parseRules(fields.rules);
+  if (!rules) throw new ApiError(400, 'Invalid rules');
+
+  return {
+    seed,
+    rules,
+    opponentKinds: opponentKinds as SeatKind[],
+    difficulty: level.id,
+  };
+};
+
+/**
+ * The API. Pass a database to share one between apps (or tests); by default
+ * each app gets its own in-memory database. The guide defaults to Gemini when
+ * `GEMINI_API_KEY` is set and to the offline guide otherwise.
+ */
+export const createApp = (db: Database.Database = openDatabase(), guide: GuideProvider = createGuide()) => {
+  const app = express();
+  app.use(express.json({ limit: '1mb' }));
+
+  app.post('/api/profiles', (req, res) => {
+    const name = typeof req.body?.name === 'string' && req.body.name.trim() ? req.body.name.trim().slice(0, 40) : 'Kiki';
+    res.status(201).json(createProfile(db, name));
+  });
+
+  app.get('/api/profiles/:id', (req, res) => {
+    res.json(getProfile(db, req.params.id));
+  });
+
+  app.get('/api/profiles/:id/purchases', (req, res) => {
+    res.json(listPurchases(db, req.params.id));
+  });
+
+  app.post('/api/profiles/:id/purchases', (req, res) => {
+    res.status(201).json(purchase(db, req.params.id, String(req.body?.itemId ?? '')));
+  });
+
+  app.post('/api/profiles/:id/tutorial', (req, res) => {
+    res.json(claimTutorial(db, req.params.id));
+  });
+
+  app.post('/api/profiles/:id/quests/:questId', (req, res) => {
+    res.json(claimQuest(db, req.params.id, req.params.questId));
+  });
+
+  app.get('/api/profiles/:id/save', (req, res, next) => {
+    getProfile(db, req.params.id);
+    loadSave(createSqliteStorage(db, req.params.id)).then(save => res.json(save), next);
+  });
+
+  app.put('/api/profiles/:id/save', (req, res, next) => {
+    const profile = getProfile(db, req.params.id);
+    // The wallet is only ever changed by purchases, settled games, hints, quest rewards and the tutorial bonus
+    const save = { ...migrate(req.body), stars: profile.stars, inventory: profile.inventory };
+    createSqliteStorage(db, req.params.id).save(save).then(() => res.status(204).end(), next);
+  });
+
+  app.post('/api/profiles/:id/games', (req, res) => {
+    res.status(201).json(startGame(db, req.params.id, parseSetup(req.body), parseMatchRequest(req.body)));
+  });
+
+  app.post('/api/games/:id/finish', (req, res) => {
+    const { actions } = fieldsOf(req.body);
+    if (!Array.isArray(actions)) throw new ApiError(400, 'Missing move log');
+    if (!actions.every(action => fieldsOf(action) === action)) throw new ApiError(400, 'Invalid move log');
+    res.json(finishGame(db, req.params.id, actions as GameAction[]));
+  });
+
+  app.post('/api/games/:id/hints', (req, res) => {
+    res.json(spendHint(db, req.params.id, parseHintItem(req.body)));
+  });
+
+  app.post('/api/guide', (req, res, next) => {
+    guide.ask(parseGuideRequest(req.body)).then(text => res.json({ text }), next);
+  });
+
+  app.use((err: unknown, _req: Request, res: Response, _next: NextFunction) => {
+    if (err instanceof ApiError) {
+      res.status(err.status).json({ error: err.message });
+      return;
+    }
+    console.error(err);
+    res.status(500).json({ error: 'Internal server error' });
+  });
+
+  return app;
+};
@@ -0,0 +1,87 @@
+import Database from 'better-sqlite3';
+
+/**
+ * SQLite schema versions, tracked in `PRAGMA user_version`. `SCHEMA[n]`
+ * upgrades a version `n` database to `n + 1`; append new steps, never edit
+ * old ones, so every existing database can be brought up to date.
+ */
+const SCHEMA: string[] = [
+  `CREATE TABLE saves (
+    profile_id TEXT PRIMARY KEY,
+    version INTEGER NOT NULL,
+    data TEXT NOT NULL,
+    updated_at TEXT NOT NULL DEFAULT (datetime('now'))
+  )`,
+  `CREATE TABLE profiles (
+    id TEXT PRIMARY KEY,
+    name TEXT NOT NULL,
+    stars INTEGER NOT NULL DEFAULT 0 CHECK (stars >= 0),
+    created_at TEXT NOT NULL DEFAULT (datetime('now'))
+  );
+  CREATE TABLE inventory (
+    profile_id TEXT NOT NULL REFERENCES profiles(id),
+    item_id TEXT NOT NULL,
+    count INTEGER NOT NULL CHECK (count >= 0),
+    PRIMARY KEY (profile_id, item_id)
+  );
+  CREATE TABLE purchases (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    profile_id TEXT NOT NULL REFERENCES profiles(id),
+    item_id TEXT NOT NULL,
+    cost INTEGER NOT NULL,
+    created_at TEXT NOT NULL DEFAULT (datetime('now'))
+  );
+  CREATE TABLE games (
+    id TEXT PRIMARY KEY,
+    profile_id TEXT NOT NULL REFERENCES profiles(id),
+    setup TEXT NOT NULL,
+    status TEXT NOT NULL DEFAULT 'started',
+    actions TEXT,
+    winner TEXT,
+    stars_earned INTEGER,
+    started_at TEXT NOT NULL DEFAULT (datetime('now')),
+    finished_at TEXT
+  )`,
+  `CREATE TABLE matches (
+    id TEXT PRIMARY KEY,
+    profile_id TEXT NOT NULL REFERENCES profiles(id),
+    target INTEGER NOT NULL,
+    setup TEXT NOT NULL,
+    status TEXT NOT NULL DEFAULT 'playing',
+    winner TEXT,
+    stars_earned INTEGER,
+    started_at TEXT NOT NULL DEFAULT (datetime('now')),
+    finished_at TEXT
+  );
+  ALTER TABLE games ADD COLUMN match_id TEXT REFERENCES matches(id);
+  ALTER TABLE games ADD COLUMN points TEXT`,
+  `ALTER TABLE profiles ADD COLUMN tutorial_claimed INTEGER NOT NULL DEFAULT 0`,
+  `ALTER TABLE games ADD COLUMN quests TEXT;
+  CREATE TABLE quest_claims (
+    profile_id TEXT NOT NULL REFERENCES profiles(id),
+    quest_id TEXT NOT NULL,
+    period TEXT NOT NULL,
+    stars INTEGER NOT NULL,
+    claimed_at TEXT NOT NULL DEFAULT (datetime('now')),
+    PRIMARY KEY (profile_id, quest_id, period)
+  )`,
+];
+
+export const migrateDatabase = (db: Database.Database) => {
+  const current = db.pragma('user_version', { simple: true }) as number;
+  for (let version = current; version < SCHEMA.length; version++) {
+    db.transaction(() => {
+      db.exec(SCHEMA[version]);
+      db.pragma(`user_version = ${version + 1}`);
+    })();
+  }
+};
+
+/** Opens (or creates) the database and brings its schema up to date. Defaults to in-memory. */
+export const openDatabase = (filename = ':memory:'): Database.Database => {
+  const db = new Database(filename);
+  db.pragma('journal_mode = WAL');
+  db.pragma('foreign_keys = ON');
+  migrateDatabase(db);
+  return db;
+};
@@ -0,0 +1,13 @@
+/** An error that maps straight onto an HTTP response. */
+export class ApiError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+    this.name = 'ApiError';
+  }
+}
+
+/** A request body's fields, or none when it is not a JSON object. */
+export const fieldsOf = (body: unknown): Record<string, unknown> =>
+  typeof body === 'object' && body !== null && !Array.isArray(body) ? body as Record<string, unknown> : {};
+
+export const notFound = (what: string) => new ApiError(404, `${what} not found`);
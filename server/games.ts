@@ -0,0 +1,87 @@
+import { randomUUID } from 'node:crypto';
+import Database from 'better-sqlite3';
+import { GameAction, GameResult, GameSetup, Profile } from '../src/types';
+import { findItem, starsForGame } from '../src/items';
+import { ApiError, fieldsOf, notFound } from './errors';
+import { HOST_SEAT, replayGame } from './replay';
+import { getProfile, settleGame } from './wallet';
+import { MatchRequest, nextRoundSetup, settleRound, startMatch } from './matches';
+import { questsCounted } from './quests';
+
+/**
+ * Server-tracked games. A client registers the deal before playing and sends
+ * its move log afterwards; stars are credited once, and only after the log
+ * replays to a finished game. A game may also be a round of a match, and
+ * counts towards quests once verified.
+ */
+
+interface GameRow {
+  id: string;
+  profile_id: string;
+  setup: string;
+  status: 'started' | 'finished';
+  match_id: string | null;
+}
+
+/** The bought hint a request asks to spend. */
+export const parseHintItem = (body: unknown): string => {
+  const { itemId } = fieldsOf(body);
+  if (typeof itemId !== 'string' || !findItem(itemId)?.hint) throw new ApiError(400, 'Invalid hint');
+  return itemId;
+};
+
+/** Rounds of a match are dealt from the match's setup, so only the seed is taken from `setup`. */
+export const startGame = (
+  db: Database.Database,
+  profileId: string,
+  setup: GameSetup,
+  match: MatchRequest | null = null,
+): { gameId: string; seed: string; matchId?: string } =>
+  db.transaction(() => {
+    getProfile(db, profileId);
+    const gameId = randomUUID();
+    const matchId = match && ('matchId' in match ? match.matchId : startMatch(db, profileId, match.target, setup));
+    const dealt = matchId ? nextRoundSetup(db, profileId, matchId, setup.seed) : setup;
+    db.prepare('INSERT INTO games (id, profile_id, setup, match_id) VALUES (?, ?, ?, ?)')
+      .run(gameId, profileId, JSON.stringify(dealt), matchId);
+    return matchId ? { gameId, seed: dealt.seed, matchId } : { gameId, seed: dealt.seed };
+  })();
+
+const findGame = (db: Database.Database, gameId: string): GameRow => {
+  const game = db.prepare('SELECT id, profile_id, setup, status, match_id FROM games WHERE id = ?').get(gameId) as GameRow | undefined;
+  if (!game) throw notFound('Game');
+  if (game.status === 'finished') throw new ApiError(409, 'Game already settled');
+  return game;
+};
+
+/**
+ * Spends one bought hint in a game still being played. Hints never reach the
+ * move log, so they come out of the wallet as they are taken rather than when
+ * the game settles.
+ */
+export const spendHint = (db: Database.Database, gameId: string, itemId: string): Profile =>
+  db.transaction(() => {
+    const game = findGame(db, gameId);
+    const profile = getProfile(db, game.profile_id);
+    if ((profile.inventory[itemId] ?? 0) < 1) throw new ApiError(409, 'No hints left');
+    settleGame(db, profile.id, 0, { [itemId]: 1 });
+    return getProfile(db, profile.id);
+  })();
+
+export const finishGame = (db: Database.Database, gameId: string, actions: GameAction[]): GameResult =>
+  db.transaction(() => {
+    const game = findGame(db, gameId);
+    const profile = getProfile(db, game.profile_id);
+    const setup = JSON.parse(game.setup) as GameSetup;
+    const { state, hostItemsUsed } = replayGame(setup, actions, profile.inventory);
+    const starsEarned = starsForGame(state.winner === HOST_SEAT, profile.inventory);
+    const matchStarsEarned = game.match_id ? settleRound(db, game.match_id, gameId, state) : 0;
+
+    settleGame(db, profile.id, starsEarned + matchStarsEarned, hostItemsUsed);
+    db.prepare(`
+      UPDATE games SET status = 'finished', actions = ?, winner = ?, stars_earned = ?, quests = ?, finished_at = datetime('now')
+      WHERE id = ?
+    `).run(JSON.stringify(actions), state.winner, starsEarned, JSON.stringify(questsCounted(setup, state)), gameId);
+
+    return { winner: state.winner, starsEarned, matchStarsEarned, profile: getProfile(db, profile.id) };
+  })();
@@ -0,0 +1,48 @@
+import { GoogleGenAI } from '@google/genai';
+import { GameState, GuideProvider, GuideRequest, GuideTopic, Lang } from '../src/types';
+import { buildGuidePrompt, createLocalGuide, GUIDE_PERSONA } from '../src/guide';
+import { ApiError, fieldsOf } from './errors';
+
+/**
+ * The tour guide behind `/api/guide`. Gemini writes the lines when the
+ * server has a `GEMINI_API_KEY`; without one the offline guide answers, so
+ * the key only ever lives here and never in the client bundle.
+ */
+
+export const GEMINI_MODEL = 'gemini-2.5-flash';
+
+const TOPICS: GuideTopic[] = ['comment', 'review', 'advice'];
+const LANGS: Lang[] = ['zh-CN', 'zh-TW', 'en'];
+
+export const createGeminiGuide = (apiKey: string, model = GEMINI_MODEL): GuideProvider => {
+  const ai = new GoogleGenAI({ apiKey });
+  return {
+    ask: async request => {
+      const response = await ai.models.generateContent({
+        model,
+        contents: buildGuidePrompt(request),
+        config: { systemInstruction: GUIDE_PERSONA },
+      }).catch(() => {
+        throw new ApiError(502, 'Guide unavailable');
+      });
+      const text = response.text?.trim();
+      if (!text) throw new ApiError(502, 'Guide unavailable');
+      return text;
+    },
+  };
+};
+
+export const createGuide = (apiKey = process.env.GEMINI_API_KEY): GuideProvider =>
+  apiKey ? createGeminiGuide(apiKey) : createLocalGuide();
+
+export const parseGuideRequest = (body: unknown): GuideRequest => {
+  const { topic, seat, lang, ...fields } = fieldsOf(body);
+  const view = fields.view as GameState | undefined;
+  if (!TOPICS.includes(topic as GuideTopic)) throw new ApiError(400, 'Invalid topic');
+  if (!view || !Array.isArray(view.seats) || !Array.isArray(view.log) || !Array.isArray(view.discardPile)) {
+    throw new ApiError(400, 'Invalid game view');
+  }
+  if (!view.seats.some(s => s?.id === seat)) throw new ApiError(400, 'Invalid seat');
+  if (lang !== undefined && !LANGS.includes(lang as Lang)) throw new ApiError(400, 'Invalid language');
+  return { topic: topic as GuideTopic, seat: seat as string, view, lang: lang as Lang | undefined };
+};
@@ -0,0 +1,15 @@
+import dotenv from 'dotenv';
+import { createApp } from './app';
+import { openDatabase } from './db';
+import { attachRealtime } from './realtime';
+
+// `.env.local` is where the README asks for GEMINI_API_KEY; `.env` still works
+dotenv.config({ path: ['.env.local', '.env'], quiet: true });
+
+const port = Number(process.env.PORT ?? 3001);
+const db = openDatabase(process.env.DATABASE_PATH ?? 'kiki.db');
+
+const server = createApp(db).listen(port, () => {
+  console.log(`Kiki API listening on http://localhost:${port}`);
+});
+attachRealtime(server);
@@ -0,0 +1,94 @@
+import { randomUUID } from 'node:crypto';
+import Database from 'better-sqlite3';
+import { GameSetup, GameState, MatchRound } from '../src/types';
+import { createTable } from '../src/engine';
+import { createRound, dealerFor, MATCH_TARGETS, matchStars, matchWinner } from '../src/match';
+import { ApiError, fieldsOf, notFound } from './errors';
+import { HOST_SEAT } from './replay';
+
+/**
+ * Server-tracked matches. The first round opens the match with its target
+ * and setup; every later round is a game dealt from that same setup by the
+ * next dealer along. The bonus for winning is credited with the verified
+ * round that decides the match.
+ */
+
+interface MatchRow {
+  id: string;
+  profile_id: string;
+  target: number;
+  setup: string;
+  status: 'playing' | 'finished';
+}
+
+/** What a new game asks of matches: to open one with this round, or to be a match's next round. */
+export type MatchRequest = { target: number } | { matchId: string };
+
+export const parseMatchRequest = (body: unknown): MatchRequest | null => {
+  const { matchId, matchTarget } = fieldsOf(body);
+  if (typeof matchId === 'string') return { matchId };
+  if (matchTarget === undefined) return null;
+  if (typeof matchTarget !== 'number' || !MATCH_TARGETS.includes(matchTarget)) throw new ApiError(400, 'Invalid match target');
+  return { target: matchTarget };
+};
+
+const getMatch = (db: Database.Database, matchId: string): MatchRow => {
+  const row = db.prepare('SELECT id, profile_id, target, setup, status FROM matches WHERE id = ?').get(matchId) as MatchRow | undefined;
+  if (!row) throw notFound('Match');
+  return row;
+};
+
+const matchTable = (match: MatchRow) => createTable((JSON.parse(match.setup) as GameSetup).opponentKinds);
+
+const finishedRounds = (db: Database.Database, matchId: string): MatchRound[] => {
+  const rows = db.prepare(`
+    SELECT setup, winner, points FROM games WHERE match_id = ? AND status = 'finished'
+  `).all(matchId) as { setup: string; winner: string | null; points: string }[];
+  return rows.map(row => {
+    const { seed, dealer } = JSON.parse(row.setup) as GameSetup;
+    return { seed, dealer: dealer!, winner: row.winner, points: JSON.parse(row.points) };
+  });
+};
+
+export const startMatch = (db: Database.Database, profileId: string, target: number, setup: GameSetup): string => {
+  const matchId = randomUUID();
+  const { rules, opponentKinds, difficulty } = setup;
+  db.prepare('INSERT INTO matches (id, profile_id, target, setup) VALUES (?, ?, ?, ?)')
+    .run(matchId, profileId, target, JSON.stringify({ rules, opponentKinds, difficulty }));
+  return matchId;
+};
+
+/** The match's next round, dealt from `seed` with the match's own rules and table. */
+export const nextRoundSetup = (db: Database.Database, profileId: string, matchId: string, seed: string): GameSetup => {
+  const match = getMatch(db, matchId);
+  if (match.profile_id !== profileId) throw notFound('Match');
+  if (match.status === 'finished') throw new ApiError(409, 'Match already finished');
+  return {
+    ...JSON.parse(match.setup),
+    seed,
+    dealer: dealerFor(matchTable(match), finishedRounds(db, matchId).length),
+  };
+};
+
+/**
+ * Scores a verified round and closes the match when the round decides it.
+ * Returns the bonus stars to credit along with the round. Call inside the
+ * transaction that settles the game.
+ */
+export const settleRound = (db: Database.Database, matchId: string, gameId: string, state: GameState): number => {
+  const match = getMatch(db, matchId);
+  const round = createRound(state);
+  db.prepare('UPDATE games SET points = ? WHERE id = ?').run(JSON.stringify(round.points), gameId);
+  // A round left over from before the match was decided still counts as a game, but changes nothing
+  if (match.status === 'finished') return 0;
+
+  const rounds = [...finishedRounds(db, matchId), round];
+  const winner = matchWinner({ target: match.target, table: matchTable(match), rounds });
+  if (!winner) return 0;
+  const stars = matchStars(winner === HOST_SEAT, match.target);
+  db.prepare(`
+    UPDATE matches SET status = 'finished', winner = ?, stars_earned = ?, finished_at = datetime('now')
+    WHERE id = ?
+  `).run(winner, stars, matchId);
+  return stars;
+};
@@ -0,0 +1,45 @@
+import Database from 'better-sqlite3';
+import { GameSetup, GameState, Profile } from '../src/types';
+import { findQuest, QUESTS, questPeriodKey, questPeriodRange, scheduledQuests } from '../src/quests';
+import { ApiError, notFound } from './errors';
+import { HOST_SEAT } from './replay';
+import { getProfile } from './wallet';
+
+/**
+ * Quest rewards. Each verified game is stamped with the quests it counts
+ * towards; a claim is paid once per quest and period, and only when enough
+ * of the profile's games from that day or week carry the quest's stamp.
+ */
+
+/** The ids of every quest a verified game counts towards, whether or not it is on today's board. */
+export const questsCounted = (setup: GameSetup, state: GameState): string[] =>
+  QUESTS.filter(quest => quest.counts({ state, seat: HOST_SEAT, difficulty: setup.difficulty, stageId: setup.stageId ?? null }))
+    .map(quest => quest.id);
+
+// SQLite's datetime('now') format, in UTC
+const sqlTime = (date: Date) => date.toISOString().replace('T', ' ').slice(0, 19);
+
+export const claimQuest = (db: Database.Database, profileId: string, questId: string, now = new Date()): Profile => {
+  const quest = findQuest(questId);
+  if (!quest) throw notFound('Quest');
+  if (!scheduledQuests(now).includes(quest)) throw new ApiError(409, 'Quest is not on the board');
+  const period = questPeriodKey(quest.period, now);
+  const { from, to } = questPeriodRange(quest.period, period);
+
+  return db.transaction(() => {
+    getProfile(db, profileId);
+    const claimed = db.prepare('SELECT 1 FROM quest_claims WHERE profile_id = ? AND quest_id = ? AND period = ?').get(profileId, questId, period);
+    if (claimed) throw new ApiError(409, 'Quest reward already claimed');
+
+    const rows = db.prepare(`
+      SELECT quests FROM games
+      WHERE profile_id = ? AND status = 'finished' AND finished_at >= ? AND finished_at < ?
+    `).all(profileId, sqlTime(from), sqlTime(to)) as { quests: string | null }[];
+    const counted = rows.filter(row => (JSON.parse(row.quests ?? '[]') as string[]).includes(questId)).length;
+    if (counted < quest.target) throw new ApiError(409, 'Quest not complete');
+
+    db.prepare('INSERT INTO quest_claims (profile_id, quest_id, period, stars) VALUES (?, ?, ?, ?)').run(profileId, questId, period, quest.stars);
+    db.prepare('UPDATE profiles SET stars = stars + ? WHERE id = ?').run(quest.stars, profileId);
+    return getProfile(db, profileId);
+  })();
+};
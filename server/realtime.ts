@@ -0,0 +1,56 @@
+import { Server } from 'node:http';
+import { WebSocket, WebSocketServer } from 'ws';
+import { ClientMessage, ServerMessage } from '../src/types';
+import { createRoomManager, RoomManager } from './rooms';
+
+/** How often sockets are pinged; one that misses a ping is treated as dropped. */
+const HEARTBEAT_MS = 15_000;
+
+/**
+ * Serves online rooms over a WebSocket at `/ws` on the API's HTTP server.
+ * Each socket is one connection to the room manager, speaking JSON
+ * `ClientMessage`s in and `ServerMessage`s out.
+ */
+export const attachRealtime = (server: Server, rooms: RoomManager = createRoomManager()) => {
+  const wss = new WebSocketServer({ server, path: '/ws' });
+  const alive = new WeakSet<WebSocket>();
+
+  wss.on('connection', socket => {
+    alive.add(socket);
+    const send = (message: ServerMessage) => {
+      if (socket.readyState === WebSocket.OPEN) socket.send(JSON.stringify(message));
+    };
+    const connection = rooms.connect(send);
+
+    socket.on('pong', () => alive.add(socket));
+    socket.on('message', data => {
+      let message: ClientMessage;
+      try {
+        message = JSON.parse(String(data));
+      } catch {
+        send({ type: 'error', message: { key: 'room.badMessage' } });
+        return;
+      }
+      connection.receive(message);
+    });
+    socket.on('close', () => connection.disconnect());
+  });
+
+  const heartbeat = setInterval(() => {
+    wss.clients.forEach(socket => {
+      if (!alive.has(socket)) {
+        socket.terminate();
+        return;
+      }
+      alive.delete(socket);
+      socket.ping();
+    });
+  }, HEARTBEAT_MS);
+
+  wss.on('close', () => {
+    clearInterval(heartbeat);
+    rooms.close();
+  });
+
+  return wss;
+};
@@ -0,0 +1,71 @@
+import { GameAction, GameSetup, GameState, Inventory, SeatId } from '../src/types';
+import { applyAction, createGame, createTable, DEFAULT_TABLE, getSeat, isGameOver } from '../src/engine';
+import { getAiLevel } from '../src/ai';
+import { createSeededRng } from '../src/rng';
+import { ApiError } from './errors';
+
+export const HOST_SEAT: SeatId = DEFAULT_TABLE[0].id;
+
+export interface ReplayResult {
+  state: GameState;
+  /** Items the host spent during the game, to be taken from their wallet. */
+  hostItemsUsed: Inventory;
+}
+
+/** What an action does, written out so a logged move can be compared with the one expected. */
+const moveKey = (action: GameAction): string => {
+  switch (action.type) {
+    case 'play': return `play ${action.seat} ${action.cardId}`;
+    case 'draw': return `draw ${action.seat}`;
+    case 'chooseSuit': return `chooseSuit ${action.seat} ${action.suit}`;
+    case 'useItem': {
+      const { cardIds, suit, seat } = action.target ?? {};
+      return `useItem ${action.seat} ${action.itemId} ${JSON.stringify([cardIds ?? null, suit ?? null, seat ?? null])}`;
+    }
+  }
+};
+
+/**
+ * Deals the game again from its setup and re-applies every logged action
+ * through the engine. The AI seats are played again too, from the same
+ * seeded strategy and item allowance the client uses, so their moves cannot
+ * be made up. Any illegal move, item the host does not own, AI move the AI
+ * would not have made, or a log that stops before the game ends means the
+ * result is rejected.
+ */
+export const replayGame = (setup: GameSetup, actions: GameAction[], hostInventory: Inventory): ReplayResult => {
+  let state = createGame(setup.seed, setup.rules, createTable(setup.opponentKinds), setup.dealer);
+  const hostItemsUsed: Inventory = {};
+  const { strategy, items } = getAiLevel(setup.difficulty);
+  const aiRng = createSeededRng(`${setup.seed}/ai`);
+  const aiInventories: Record<SeatId, Inventory> = {};
+
+  actions.forEach((action, index) => {
+    const seat = getSeat(state, action.seat);
+    if (!seat) throw new ApiError(422, `Move ${index} is by an unknown seat`);
+
+    if (seat.kind === 'ai') {
+      if (seat.id !== state.currentTurn) throw new ApiError(422, `Move ${index} is not legal`);
+      const inventory = aiInventories[seat.id] ??= { ...items };
+      const item = strategy.chooseItem(state, seat.id, inventory);
+      if (item) inventory[item.itemId] -= 1;
+      const expected = item ?? strategy.chooseAction(state, seat.id, aiRng);
+      if (!expected || moveKey(expected) !== moveKey(action)) {
+        throw new ApiError(422, `Move ${index} is not the AI's move`);
+      }
+    } else if (action.type === 'useItem') {
+      if (seat.id !== HOST_SEAT) throw new ApiError(422, `Move ${index} uses an item from a seat without a wallet`);
+      hostItemsUsed[action.itemId] = (hostItemsUsed[action.itemId] ?? 0) + 1;
+      if (hostItemsUsed[action.itemId] > (hostInventory[action.itemId] ?? 0)) {
+        throw new ApiError(422, `Move ${index} uses an item that was not available`);
+      }
+    }
+
+    const next = applyAction(state, action);
+    if (next === state) throw new ApiError(422, `Move ${index} is not legal`);
+    state = next;
+  });
+
+  if (!isGameOver(state)) throw new ApiError(422, 'The game has not finished');
+  return { state, hostItemsUsed };
+};
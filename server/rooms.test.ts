@@ -0,0 +1,154 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { ClientMessage, GameState, RuleSet, ServerMessage } from '../src/types';
+import { legalMoves } from '../src/engine';
+import { CLASSIC_RULES } from '../src/rules';
+import { Connection, createRoomManager, RoomManager } from './rooms';
+
+const TURN_MS = 1_000;
+const AI_DELAY_MS = 100;
+
+/** One player's end of a room, keeping everything the server sent them. */
+interface Client {
+  messages: ServerMessage[];
+  connection: Connection;
+  send: (message: ClientMessage) => void;
+}
+
+let manager: RoomManager;
+
+beforeEach(() => {
+  vi.useFakeTimers();
+  manager = createRoomManager({ turnMs: TURN_MS, aiDelayMs: AI_DELAY_MS, idleMs: 60_000 });
+});
+
+afterEach(() => {
+  manager.close();
+  vi.useRealTimers();
+});
+
+const connect = (): Client => {
+  const messages: ServerMessage[] = [];
+  const connection = manager.connect(message => messages.push(message));
+  return { messages, connection, send: connection.receive };
+};
+
+const last = <T extends ServerMessage['type']>(client: Client, type: T) =>
+  client.messages.filter((message): message is Extract<ServerMessage, { type: T }> => message.type === type).at(-1);
+
+const stateOf = (client: Client): GameState => last(client, 'state')!.state;
+
+const create = (name: string, seatCount: number, rules: RuleSet = CLASSIC_RULES): Client => {
+  const client = connect();
+  client.send({ type: 'create', name, seatCount, rules, difficulty: 'easy' });
+  return client;
+};
+
+const join = (code: string, name: string): Client => {
+  const client = connect();
+  client.send({ type: 'join', code, name });
+  return client;
+};
+
+/** A two-player room, with AI seats beyond the second, its game started. */
+const startedRoom = (seatCount = 3) => {
+  const host = create('Kiki', seatCount);
+  const code = last(host, 'joined')!.room.code;
+  const guest = join(code, 'Mimi');
+  host.send({ type: 'start' });
+  const bySeat = (seatId: string) => last(host, 'joined')!.seatId === seatId ? host : guest;
+  return { host, guest, code, bySeat };
+};
+
+describe('rooms', () => {
+  it('lets a second player join the room the host created', () => {
+    const host = create('Kiki', 3);
+    const joined = last(host, 'joined')!;
+    expect(joined.seatId).toBe('seat-0');
+    expect(joined.room.code).toMatch(/^[A-Z]{4}$/);
+
+    const guest = join(joined.room.code.toLowerCase(), 'Mimi');
+    expect(last(guest, 'joined')!.seatId).toBe('seat-1');
+    expect(last(host, 'room')!.room.players.map(player => player.name)).toEqual(['Kiki', 'Mimi']);
+    expect(manager.roomCount()).toBe(1);
+  });
+
+  it('refuses unknown rooms and unknown house rules', () => {
+    const lost = join('ZZZZ', 'Mimi');
+    expect(last(lost, 'error')!.message.key).toBe('room.notFound');
+
+    const host = create('Kiki', 2, { ...CLASSIC_RULES, jokers: true } as RuleSet);
+    expect(last(host, 'error')!.message.key).toBe('room.invalidRules');
+    expect(manager.roomCount()).toBe(0);
+  });
+
+  it('plays a move for the seat whose turn it is and refuses one out of turn', () => {
+    const { host, guest, bySeat } = startedRoom(2);
+    const before = stateOf(host);
+    const mover = bySeat(before.currentTurn);
+    const waiting = mover === host ? guest : host;
+
+    waiting.send({ type: 'action', action: { type: 'draw', seat: before.currentTurn } });
+    expect(last(waiting, 'error')!.message.key).toBe('room.illegalMove');
+
+    const [move] = legalMoves(stateOf(mover), before.currentTurn);
+    mover.send({ type: 'action', action: move });
+    expect(stateOf(host).log.length).toBe(before.log.length + 1);
+    expect(stateOf(guest).log.length).toBe(before.log.length + 1);
+  });
+
+  it('shows each player only their own hand', () => {
+    const { host, guest } = startedRoom();
+    const hostView = stateOf(host);
+    const guestView = stateOf(guest);
+    const hand = (view: GameState, seatId: string) => view.seats.find(seat => seat.id === seatId)!.hand.map(card => card.id);
+
+    expect(hand(hostView, 'seat-0').some(id => id.startsWith('hidden-'))).toBe(false);
+    expect(hand(guestView, 'seat-1').some(id => id.startsWith('hidden-'))).toBe(false);
+    expect(hand(hostView, 'seat-1').every(id => id.startsWith('hidden-'))).toBe(true);
+    expect(hand(guestView, 'seat-0').every(id => id.startsWith('hidden-'))).toBe(true);
+    expect(hand(hostView, 'seat-2').every(id => id.startsWith('hidden-'))).toBe(true);
+    expect(hostView.deck.every(card => card.id.startsWith('hidden-'))).toBe(true);
+    expect(hostView.seed).toBe('');
+  });
+
+  it('keeps a dropped player their seat until they resume', () => {
+    const { host, guest, code } = startedRoom();
+    const token = last(guest, 'joined')!.token;
+    guest.connection.disconnect();
+    expect(last(host, 'room')!.room.players.find(player => player.seatId === 'seat-1')!.connected).toBe(false);
+
+    const back = connect();
+    back.send({ type: 'resume', code, token });
+    expect(last(back, 'joined')!.seatId).toBe('seat-1');
+    expect(last(host, 'room')!.room.players.find(player => player.seatId === 'seat-1')!.connected).toBe(true);
+    expect(stateOf(back).seats.find(seat => seat.id === 'seat-1')!.hand.some(card => card.id.startsWith('hidden-'))).toBe(false);
+
+    const stranger = connect();
+    stranger.send({ type: 'resume', code, token: 'not-a-token' });
+    expect(last(stranger, 'error')!.message.key).toBe('room.cannotResume');
+  });
+
+  it('moves for a connected player whose turn time runs out', () => {
+    const { host } = startedRoom(2);
+    const { state, turnDeadline } = last(host, 'state')!;
+    expect(turnDeadline).toBe(Date.now() + TURN_MS);
+
+    vi.advanceTimersByTime(TURN_MS - 1);
+    expect(stateOf(host).log.length).toBe(state.log.length);
+    vi.advanceTimersByTime(1);
+    expect(stateOf(host).log.length).toBe(state.log.length + 1);
+  });
+
+  it('lets the AI take over the turn of a player who dropped', () => {
+    const { host, guest, bySeat } = startedRoom(2);
+    const before = stateOf(host);
+    const mover = bySeat(before.currentTurn);
+    const other = mover === host ? guest : host;
+
+    mover.connection.disconnect();
+    vi.advanceTimersByTime(AI_DELAY_MS);
+    const after = stateOf(other);
+    expect(after.log.length).toBe(before.log.length + 1);
+    expect(after.log.at(-1)).toMatchObject({ seat: before.currentTurn });
+  });
+});
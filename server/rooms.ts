@@ -0,0 +1,300 @@
+import { randomInt, randomUUID } from 'node:crypto';
+import { ClientMessage, Difficulty, GameAction, GameMessage, GameState, RoomInfo, RuleSet, SeatConfig, SeatId, ServerMessage } from '../src/types';
+import { parseRules } from '../src/rules';
+import { AI_LEVELS, DEFAULT_DIFFICULTY, getAiLevel } from '../src/ai';
+import { applyAction, createGame, isGameOver, legalMoves, MAX_SEATS, MIN_SEATS, viewFor } from '../src/engine';
+import { createSeededRng, randomSeed, SeededRng } from '../src/rng';
+
+/**
+ * Online rooms. The server holds each room's authoritative `GameState` and
+ * sends every player only their own view of it. Nothing in here knows about
+ * sockets: a connection is just a `send` callback, so several clients can
+ * share one process (`attachRealtime` puts this behind a WebSocket).
+ */
+
+export interface RoomOptions {
+  /** How long a connected player has to move before the AI moves for them. */
+  turnMs?: number;
+  /** Pause before an AI seat, or the seat of a player who dropped, moves. */
+  aiDelayMs?: number;
+  /** How long a room with nobody connected is kept for players to resume. */
+  idleMs?: number;
+}
+
+type Send = (message: ServerMessage) => void;
+
+interface Player {
+  seatId: SeatId;
+  name: string;
+  token: string;
+  /** Null while the player is disconnected. */
+  send: Send | null;
+}
+
+interface Room {
+  code: string;
+  hostSeatId: SeatId;
+  seatCount: number;
+  rules: RuleSet;
+  difficulty: Difficulty;
+  players: Player[];
+  state: GameState | null;
+  aiRng: SeededRng;
+  turnTimer: ReturnType<typeof setTimeout> | null;
+  turnDeadline: number | null;
+  idleTimer: ReturnType<typeof setTimeout> | null;
+}
+
+export interface Connection {
+  receive: (message: ClientMessage) => void;
+  /** Call when the transport closes; the player keeps their seat and can resume. */
+  disconnect: () => void;
+}
+
+// No I or O, so codes can be read out loud without confusion
+const CODE_LETTERS = 'ABCDEFGHJKLMNPQRSTUVWXYZ';
+const CODE_LENGTH = 4;
+const MAX_NAME_LENGTH = 16;
+
+const cleanName = (name: unknown) =>
+  (typeof name === 'string' ? name.trim().slice(0, MAX_NAME_LENGTH) : '') || '玩家';
+
+const cleanDifficulty = (difficulty: unknown): Difficulty =>
+  AI_LEVELS.find(level => level.id === difficulty)?.id ?? DEFAULT_DIFFICULTY;
+
+/** Whether a move sent by a client is `legal`, whatever seat it claims to be from. */
+const matchesMove = (legal: GameAction, requested: GameAction | undefined) =>
+  legal.type === requested?.type
+  && (legal.type !== 'play' || legal.cardId === (requested as typeof legal).cardId)
+  && (legal.type !== 'chooseSuit' || legal.suit === (requested as typeof legal).suit);
+
+export const createRoomManager = ({ turnMs = 30_000, aiDelayMs = 1_000, idleMs = 10 * 60_000 }: RoomOptions = {}) => {
+  const rooms = new Map<string, Room>();
+
+  const newCode = () => {
+    let code: string;
+    do {
+      code = Array.from({ length: CODE_LENGTH }, () => CODE_LETTERS[randomInt(CODE_LETTERS.length)]).join('');
+    } while (rooms.has(code));
+    return code;
+  };
+
+  const roomInfo = (room: Room): RoomInfo => ({
+    code: room.code,
+    hostSeatId: room.hostSeatId,
+    seatCount: room.seatCount,
+    rules: room.rules,
+    difficulty: room.difficulty,
+    players: room.players.map(({ seatId, name, send }) => ({ seatId, name, connected: send !== null })),
+    playing: room.state !== null && !isGameOver(room.state),
+  });
+
+  const sendState = (room: Room, player: Player) => {
+    if (!room.state) return;
+    player.send?.({ type: 'state', state: viewFor(room.state, player.seatId), turnDeadline: room.turnDeadline });
+  };
+
+  const broadcastRoom = (room: Room) => {
+    const info = roomInfo(room);
+    room.players.forEach(player => player.send?.({ type: 'room', room: info }));
+  };
+
+  const broadcastState = (room: Room) => room.players.forEach(player => sendState(room, player));
+
+  const clearTurn = (room: Room) => {
+    if (room.turnTimer) clearTimeout(room.turnTimer);
+    room.turnTimer = null;
+    room.turnDeadline = null;
+  };
+
+  const closeRoom = (room: Room) => {
+    clearTurn(room);
+    if (room.idleTimer) clearTimeout(room.idleTimer);
+    rooms.delete(room.code);
+  };
+
+  /** Starts the idle countdown once nobody is connected, and stops it when someone is. */
+  const checkIdle = (room: Room) => {
+    if (room.idleTimer) clearTimeout(room.idleTimer);
+    room.idleTimer = room.players.some(player => player.send)
+      ? null
+      : setTimeout(() => closeRoom(room), idleMs);
+  };
+
+  /**
+   * Connected players get the full turn time. AI seats, and seats whose
+   * player dropped or left, are played by the room's AI after a short pause.
+   */
+  const scheduleTurn = (room: Room) => {
+    clearTurn(room);
+    const state = room.state;
+    if (!state || isGameOver(state)) return;
+
+    const seatId = state.currentTurn;
+    const player = room.players.find(p => p.seatId === seatId);
+    if (player?.send) {
+      room.turnDeadline = Date.now() + turnMs;
+      room.turnTimer = setTimeout(() => moveForSeat(room, seatId), turnMs);
+    } else {
+      room.turnTimer = setTimeout(() => moveForSeat(room, seatId), aiDelayMs);
+    }
+  };
+
+  const update = (room: Room, state: GameState) => {
+    room.state = state;
+    scheduleTurn(room);
+    broadcastState(room);
+    if (isGameOver(state)) broadcastRoom(room);
+  };
+
+  const moveForSeat = (room: Room, seatId: SeatId) => {
+    if (!room.state || room.state.currentTurn !== seatId) return;
+    const action = getAiLevel(room.difficulty).strategy.chooseAction(room.state, seatId, room.aiRng);
+    if (action) update(room, applyAction(room.state, action));
+  };
+
+  const startGame = (room: Room) => {
+    let aiNumber = 0;
+    const table: SeatConfig[] = Array.from({ length: room.seatCount }, (_, i) => {
+      const id = `seat-${i}`;
+      const player = room.players.find(p => p.seatId === id);
+      if (player) return { id, name: player.name, kind: 'remote' };
+      aiNumber++;
+      return { id, name: `AI ${aiNumber}`, kind: 'ai' };
+    });
+    const seed = randomSeed();
+    room.aiRng = createSeededRng(`${seed}/ai`);
+    update(room, createGame(seed, room.rules, table));
+    broadcastRoom(room);
+  };
+
+  const connect = (send: Send): Connection => {
+    let room: Room | null = null;
+    let player: Player | null = null;
+
+    const fail = (key: string, params?: GameMessage['params']) => send({ type: 'error', message: { key, params } });
+
+    const enter = (target: Room, seat: Player) => {
+      room = target;
+      player = seat;
+      seat.send = send;
+      checkIdle(target);
+      send({ type: 'joined', seatId: seat.seatId, token: seat.token, room: roomInfo(target) });
+      broadcastRoom(target);
+      sendState(target, seat);
+    };
+
+    const leave = () => {
+      if (!room || !player) return;
+      const left = player;
+      const current = room;
+      room = null;
+      player = null;
+      current.players = current.players.filter(p => p !== left);
+      if (current.players.length === 0) {
+        closeRoom(current);
+        return;
+      }
+      if (current.hostSeatId === left.seatId) current.hostSeatId = current.players[0].seatId;
+      checkIdle(current);
+      broadcastRoom(current);
+      // An AI takes over the seat for the rest of the game
+      if (current.state?.currentTurn === left.seatId) scheduleTurn(current);
+    };
+
+    const receive = (message: ClientMessage) => {
+      switch (message?.type) {
+        case 'create': {
+          const rules = parseRules(message.rules);
+          if (!rules) return fail('room.invalidRules');
+          leave();
+          const seatCount = Math.min(MAX_SEATS, Math.max(MIN_SEATS, Math.floor(Number(message.seatCount)) || MIN_SEATS));
+          const created: Room = {
+            code: newCode(),
+            hostSeatId: 'seat-0',
+            seatCount,
+            rules,
+            difficulty: cleanDifficulty(message.difficulty),
+            players: [],
+            state: null,
+            aiRng: createSeededRng(''),
+            turnTimer: null,
+            turnDeadline: null,
+            idleTimer: null,
+          };
+          const host: Player = { seatId: 'seat-0', name: cleanName(message.name), token: randomUUID(), send: null };
+          created.players.push(host);
+          rooms.set(created.code, created);
+          enter(created, host);
+          return;
+        }
+        case 'join': {
+          const target = rooms.get(String(message.code).trim().toUpperCase());
+          if (!target) return fail('room.notFound', { code: String(message.code) });
+          if (roomInfo(target).playing) return fail('room.inProgress');
+          const free = Array.from({ length: target.seatCount }, (_, i) => `seat-${i}`)
+            .find(id => !target.players.some(p => p.seatId === id));
+          if (!free) return fail('room.full');
+          leave();
+          const joined: Player = { seatId: free, name: cleanName(message.name), token: randomUUID(), send: null };
+          target.players.push(joined);
+          enter(target, joined);
+          return;
+        }
+        case 'resume': {
+          const target = rooms.get(String(message.code).trim().toUpperCase());
+          const seat = target?.players.find(p => p.token === message.token);
+          if (!target || !seat) return fail('room.cannotResume');
+          enter(target, seat);
+          // Back in time to take the turn from the AI
+          if (target.state?.currentTurn === seat.seatId) {
+            scheduleTurn(target);
+            broadcastState(target);
+          }
+          return;
+        }
+        case 'start': {
+          if (!room || !player) return fail('room.notInRoom');
+          if (room.hostSeatId !== player.seatId) return fail('room.hostOnly');
+          if (roomInfo(room).playing) return fail('room.alreadyStarted');
+          startGame(room);
+          return;
+        }
+        case 'action': {
+          if (!room || !player) return fail('room.notInRoom');
+          if (!roomInfo(room).playing || !room.state) return fail('room.notStarted');
+          if (message.action?.type === 'useItem') return fail('room.noItems');
+          const move = legalMoves(room.state, player.seatId).find(legal => matchesMove(legal, message.action));
+          if (!move) return fail('room.illegalMove');
+          update(room, applyAction(room.state, move));
+          return;
+        }
+        case 'leave':
+          leave();
+          return;
+        default:
+          fail('room.badMessage');
+      }
+    };
+
+    const disconnect = () => {
+      // A newer connection may have resumed this seat already
+      if (!room || !player || player.send !== send) return;
+      player.send = null;
+      checkIdle(room);
+      broadcastRoom(room);
+      if (room.state?.currentTurn === player.seatId) scheduleTurn(room);
+    };
+
+    return { receive, disconnect };
+  };
+
+  /** Stops every timer, e.g. when the server shuts down. */
+  const close = () => {
+    rooms.forEach(closeRoom);
+  };
+
+  return { connect, close, roomCount: () => rooms.size };
+};
+
+export type RoomManager = ReturnType<typeof createRoomManager>;
@@ -0,0 +1,16 @@
+import Database from 'better-sqlite3';
+import { SaveData, StorageAdapter } from '../src/types';
+
+/** Server-side saves: one JSON document per profile in the `saves` table. */
+export const createSqliteStorage = (db: Database.Database, profileId: string): StorageAdapter => ({
+  load: async () => {
+    const row = db.prepare('SELECT data FROM saves WHERE profile_id = ?').get(profileId) as { data: string } | undefined;
+    return row ? JSON.parse(row.data) : null;
+  },
+  save: async (data: SaveData) => {
+    db.prepare(`
+      INSERT INTO saves (profile_id, version, data, updated_at) VALUES (?, ?, ?, datetime('now'))
+      ON CONFLICT(profile_id) DO UPDATE SET version = excluded.version, data = excluded.data, updated_at = excluded.updated_at
+    `).run(profileId, data.version, JSON.stringify(data));
+  },
+});
@@ -0,0 +1,82 @@
+import { randomUUID } from 'node:crypto';
+import Database from 'better-sqlite3';
+import { Inventory, Profile, Purchase } from '../src/types';
+import { canOwnMore, findItem, ITEMS } from '../src/items';
+import { TUTORIAL_STARS } from '../src/tutorial';
+import { ApiError, notFound } from './errors';
+
+/**
+ * Profiles, star balances and item counts. Every change to a wallet goes
+ * through here inside a transaction, so a balance can never go negative or
+ * drift from the purchase history.
+ */
+
+const loadInventory = (db: Database.Database, profileId: string): Inventory => {
+  const rows = db.prepare('SELECT item_id, count FROM inventory WHERE profile_id = ?').all(profileId) as { item_id: string; count: number }[];
+  return {
+    ...Object.fromEntries(ITEMS.map(item => [item.id, 0])),
+    ...Object.fromEntries(rows.map(row => [row.item_id, row.count])),
+  };
+};
+
+export const getProfile = (db: Database.Database, profileId: string): Profile => {
+  const row = db.prepare('SELECT id, name, stars FROM profiles WHERE id = ?').get(profileId) as Omit<Profile, 'inventory'> | undefined;
+  if (!row) throw notFound('Profile');
+  return { ...row, inventory: loadInventory(db, profileId) };
+};
+
+export const createProfile = (db: Database.Database, name: string): Profile => {
+  const id = randomUUID();
+  db.prepare('INSERT INTO profiles (id, name) VALUES (?, ?)').run(id, name);
+  return getProfile(db, id);
+};
+
+const addItems = (db: Database.Database, profileId: string, itemId: string, delta: number) => {
+  db.prepare(`
+    INSERT INTO inventory (profile_id, item_id, count) VALUES (?, ?, ?)
+    ON CONFLICT(profile_id, item_id) DO UPDATE SET count = count + excluded.count
+  `).run(profileId, itemId, delta);
+};
+
+export const purchase = (db: Database.Database, profileId: string, itemId: string): Profile => {
+  const item = findItem(itemId);
+  if (!item) throw notFound('Item');
+
+  return db.transaction(() => {
+    const { stars, inventory } = getProfile(db, profileId);
+    if (stars < item.cost) throw new ApiError(409, 'Not enough stars');
+    if (!canOwnMore(item, inventory)) throw new ApiError(409, 'Item limit reached');
+    db.prepare('UPDATE profiles SET stars = stars - ? WHERE id = ?').run(item.cost, profileId);
+    db.prepare('INSERT INTO purchases (profile_id, item_id, cost) VALUES (?, ?, ?)').run(profileId, itemId, item.cost);
+    addItems(db, profileId, itemId, 1);
+    return getProfile(db, profileId);
+  })();
+};
+
+export const listPurchases = (db: Database.Database, profileId: string): Purchase[] => {
+  getProfile(db, profileId);
+  return db.prepare(`
+    SELECT id, item_id AS itemId, cost, created_at AS createdAt
+    FROM purchases WHERE profile_id = ? ORDER BY id DESC
+  `).all(profileId) as Purchase[];
+};
+
+/** Pays the tutorial's star bonus, once per profile. */
+export const claimTutorial = (db: Database.Database, profileId: string): Profile =>
+  db.transaction(() => {
+    getProfile(db, profileId);
+    const { changes } = db.prepare('UPDATE profiles SET stars = stars + ?, tutorial_claimed = 1 WHERE id = ? AND tutorial_claimed = 0')
+      .run(TUTORIAL_STARS, profileId);
+    if (changes === 0) throw new ApiError(409, 'Tutorial bonus already claimed');
+    return getProfile(db, profileId);
+  })();
+
+/** Credits stars and spends the items a verified game used. Call inside a transaction. */
+export const settleGame = (db: Database.Database, profileId: string, stars: number, itemsUsed: Inventory) => {
+  db.prepare('UPDATE profiles SET stars = stars + ? WHERE id = ?').run(stars, profileId);
+  // An upsert would check its insert row, a negative count, before falling back to the update
+  const spend = db.prepare('UPDATE inventory SET count = count - ? WHERE profile_id = ? AND item_id = ?');
+  for (const [itemId, count] of Object.entries(itemsUsed)) {
+    spend.run(count, profileId, itemId);
+  }
+};
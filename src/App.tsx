@@ -3,272 +3,839 @@
  * SPDX-License-Identifier: Apache-2.0
  */
 
-import React, { useState, useEffect, useCallback } from 'react';
-import { motion, AnimatePresence } from 'motion/react';
+import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import { motion, AnimatePresence, MotionConfig } from 'motion/react';
 import { Card as CardComponent } from './components/Card';
-import { Card as CardType, Suit, GameState, GameStatus } from './types';
-import { createDeck, SUITS, getSuitSymbol, getSuitColor } from './constants';
-import { Trophy, RotateCcw, Info, ChevronUp, ChevronDown } from 'lucide-react';
+import { OpponentSeat } from './components/OpponentSeat';
+import { RoomLobby } from './components/RoomLobby';
+import { TurnTimer } from './components/TurnTimer';
+import { ItemTargetPicker } from './components/ItemTargetPicker';
+import { CampaignMap } from './components/CampaignMap';
+import { StageFact } from './components/StageFact';
+import { StatsScreen } from './components/StatsScreen';
+import { FocusTrap } from './components/FocusTrap';
+import { UpdatePrompt } from './components/UpdatePrompt';
+import { MatchScoreboard } from './components/MatchScoreboard';
+import { ThemePicker } from './components/ThemePicker';
+import { TutorialComplete, TutorialOutcome, TutorialOverlay } from './components/TutorialOverlay';
+import { QuestBoard } from './components/QuestBoard';
+import { PuzzlePicker, PuzzleResult } from './components/PuzzlePicker';
+import { CampaignProgress, Difficulty, GameAction, GameMessage, GameState, Inventory, ItemTarget, Lang, Match, PlayerStats, RoomInfo, RuleSet, SeatId, SeatKind, PuzzleProgress, ServerMessage, QuestBoard as QuestProgress, TutorialProgress } from './types';
+import { SUITS, getSuitSymbol, getSuitColor } from './constants';
+import {
+  applyAction,
+  canReplay,
+  canUseItem,
+  createGame,
+  createTable,
+  DEFAULT_TABLE,
+  getSeat,
+  canDraw,
+  getTopDiscard,
+  handSizeFor,
+  isCardPlayable,
+  isGameOver,
+  legalMoves,
+  logActions,
+  MAX_SEATS,
+  MIN_SEATS,
+  replayTo,
+  revealedHands,
+  TableNames,
+  undoLastMove,
+} from './engine';
+import { AI_LEVELS, DEFAULT_DIFFICULTY, getAiLevel } from './ai';
+import { bestHint, Hint, HINTS_PER_GAME } from './ai/hints';
+import { CLASSIC_RULES, findPreset, RULE_OPTIONS, RULE_PRESETS } from './rules';
+import { createRng, createSeededRng, dailySeed, normalizeSeed, randomSeed, SeededRng } from './rng';
+import { createLocalStorage, loadSave, SAVE_VERSION } from './storage';
+import { canOwnMore, findItem, Item, ITEMS, starsForGame } from './items';
+import { clearStage, findStage, Stage, STAGES, stageOpponentKinds, stageTable } from './campaign';
+import { createGameRecord, forgetLastGame, recordGame, recordSpending } from './stats';
+import { createMatch, forgetLastRound, MATCH_TARGETS, matchScores, matchStars, matchWinner, nextDealer, recordRound } from './match';
+import * as api from './api';
+import { canResume, connectOnline, OnlineConnection, OnlineStatus } from './online';
+import { askGuide, createLocalGuide, createServerGuide, isNotable } from './guide';
+import { createTranslator, DEFAULT_LANG, I18nContext, LANGUAGES, rulesName } from './i18n';
+import { createAudio, cuesBetween, DEFAULT_MUSIC, HOME_MUSIC } from './audio';
+import { activeTheme, DEFAULT_THEME, ThemeContext } from './themes';
+import { canClaimQuest, claimQuest, createQuestBoard, Quest, recordQuestGame, rollQuests, scheduledQuests } from './quests';
+import { findPuzzle, movesMade, nextPuzzle, Puzzle, puzzleGame, puzzleOutcome, puzzleStars, recordPuzzle } from './puzzles';
+import { isExpectedMove, TUTORIAL_ITEMS, TUTORIAL_STARS, TUTORIAL_STEPS, tutorialGame, tutorialTable } from './tutorial';
+import { Trophy, RotateCcw, Info, ChevronUp, ChevronDown, Users, WifiOff, Undo2, Compass, Film, SkipBack, SkipForward, ChevronLeft, ChevronRight, X, Map as MapIcon, BarChart3, Palette, Volume2, VolumeX, Lightbulb, GraduationCap, Puzzle as PuzzleIcon } from 'lucide-react';
+
+// The seat whose wallet pays for items and collects stars
+const HOST_SEAT = DEFAULT_TABLE[0].id;
+
+const storage = createLocalStorage();
+const audio = createAudio();
 
 export default function App() {
   const [showHome, setShowHome] = useState(true);
   const [stars, setStars] = useState(0);
   const [showShop, setShowShop] = useState(false);
-  const [inventory, setInventory] = useState<Record<string, number>>({
-    p1: 0, p2: 0, p3: 0, p4: 0
-  });
-  const [redeemStatus, setRedeemStatus] = useState<{ name: string; starsLeft: number } | null>(null);
-  const [gameState, setGameState] = useState<GameState>({
-    deck: [],
-    discardPile: [],
-    playerHand: [],
-    aiHand: [],
-    currentTurn: 'player',
-    status: 'playing',
-    wildSuit: null,
-  });
+  const [inventory, setInventory] = useState<Record<string, number>>(
+    () => Object.fromEntries(ITEMS.map(item => [item.id, 0]))
+  );
+  const [redeemStatus, setRedeemStatus] = useState<{ itemId: string; starsLeft: number } | null>(null);
+  const [game, setGame] = useState<GameState>(() => ({
+    ...createGame(''),
+    message: [{ key: 'game.welcome' }],
+  }));
+  // While replaying a finished game, how many of its actions the table shows
+  const [replayStep, setReplayStep] = useState<number | null>(null);
+  const replayFrame = useMemo(() => replayStep === null ? null : replayTo(game, replayStep), [game, replayStep]);
+  // What the table shows: the live game, or a moment from its replay
+  const gameState = replayFrame ?? game;
+  const [seedInput, setSeedInput] = useState('');
+  const [rules, setRules] = useState<RuleSet>(CLASSIC_RULES);
+  // Everyone after you at the table, in turn order
+  const [opponentKinds, setOpponentKinds] = useState<SeatKind[]>(['ai']);
+  const [casual, setCasual] = useState(false);
+  const [matchTarget, setMatchTarget] = useState<number | null>(null);
+  // The match the free games belong to, if any, kept between its rounds
+  const [match, setMatch] = useState<Match | null>(null);
+  const [showScoreboard, setShowScoreboard] = useState(false);
+  // The campaign: how far the player has got, the stage being played and the card back they picked
+  const [campaign, setCampaign] = useState<CampaignProgress>({ cleared: [] });
+  const [stageId, setStageId] = useState<string | null>(null);
+  const [cardBack, setCardBack] = useState<string | null>(null);
+  const [deckTheme, setDeckTheme] = useState(DEFAULT_THEME.id);
+  const [showCampaign, setShowCampaign] = useState(false);
+  const [factStage, setFactStage] = useState<Stage | null>(null);
+  // Set when the game just finished cleared its stage for the first time
+  const [newlyCleared, setNewlyCleared] = useState(false);
+  const [stats, setStats] = useState<PlayerStats>({ history: [], starsSpent: 0 });
+  const [showStats, setShowStats] = useState(false);
+  const [showThemes, setShowThemes] = useState(false);
+  const [tutorial, setTutorial] = useState<TutorialProgress>({ completed: false });
+  const [quests, setQuests] = useState<QuestProgress>(createQuestBoard);
+  const [puzzles, setPuzzles] = useState<PuzzleProgress>({ stars: {} });
+  // The puzzle on the table and which try at it this is
+  const [puzzleId, setPuzzleId] = useState<string | null>(null);
+  const [puzzleTries, setPuzzleTries] = useState(1);
+  const [showPuzzles, setShowPuzzles] = useState(false);
+  // The tutorial step on the table, whether its move has been made, and whether a different one was tried
+  const [tutorialStep, setTutorialStep] = useState<number | null>(null);
+  const [tutorialMoveMade, setTutorialMoveMade] = useState(false);
+  const [offScript, setOffScript] = useState(false);
+  const [tutorialItems, setTutorialItems] = useState<Inventory>({});
+  // Set once the last step is done: how that run went for the bonus
+  const [tutorialOutcome, setTutorialOutcome] = useState<TutorialOutcome | null>(null);
+  const [guideEnabled, setGuideEnabled] = useState(false);
+  const [language, setLanguage] = useState<Lang>(DEFAULT_LANG);
+  const [fourColorDeck, setFourColorDeck] = useState(false);
+  const [reduceMotion, setReduceMotion] = useState(false);
+  const [sfxVolume, setSfxVolume] = useState(0.8);
+  const [musicVolume, setMusicVolume] = useState(0.4);
+  const [muted, setMuted] = useState(false);
+  const t = useMemo(() => createTranslator(language), [language]);
+  // Seats are named in the language the table was set in
+  const tableNames: TableNames = { you: t('seat.you'), ai: t('seat.ai'), player: t('seat.player') };
+  // The guide's latest remark or advice, and its verdict once the game is over
+  const [guideLine, setGuideLine] = useState<string | null>(null);
+  const [guideReview, setGuideReview] = useState<string | null>(null);
+  // The local human whose hand is face up; hot-seat play hands the device around
+  const [viewerId, setViewerId] = useState<SeatId>(HOST_SEAT);
+  const [difficulty, setDifficulty] = useState<Difficulty>(DEFAULT_DIFFICULTY);
+  // Items each AI seat has left to spend this game
+  const [aiInventory, setAiInventory] = useState<Record<SeatId, Inventory>>({});
+  // An item waiting for the player to pick its target
+  const [targeting, setTargeting] = useState<{ itemId: string; cardIds: string[] } | null>(null);
+  // Free hints taken in the game dealt from `seed`; bought ones come straight out of the wallet
+  const [hintsTaken, setHintsTaken] = useState<{ seed: string; free: number } | null>(null);
+  // The last hint, for the position `at` moves into the game
+  const [hint, setHint] = useState<{ seed: string; at: number; hint: Hint } | null>(null);
+  // A bought hint the server could not hand over, for the position `at` moves into the game
+  const [hintFailed, setHintFailed] = useState<{ seed: string; at: number } | null>(null);
+  // Set while the server is handing over a bought hint, so a second press cannot spend another
+  const buyingHint = useRef(false);
+  // The AI draws its own randomness from the deal seed so a replayed seed replays its choices too
+  const aiRng = useRef<SeededRng>(createSeededRng(''));
+  // Nothing is saved until the previous save has been read back in
+  const [loaded, setLoaded] = useState(false);
+  // Set while the server is reachable; the wallet is then the server's, not ours
+  const [profileId, setProfileId] = useState<string | null>(null);
+  const [online, setOnline] = useState(false);
+  const [serverGameId, setServerGameId] = useState<string | null>(null);
+  // The server could not settle the game just finished, so its stars never arrived
+  const [settleFailed, setSettleFailed] = useState(false);
+  // Set while sitting in an online room; the server then owns the game and sends us our view of it
+  const [room, setRoom] = useState<RoomInfo | null>(null);
+  const [roomStatus, setRoomStatus] = useState<OnlineStatus>('open');
+  const [roomError, setRoomError] = useState<GameMessage | null>(null);
+  const [turnDeadline, setTurnDeadline] = useState<number | null>(null);
+  const [playerName, setPlayerName] = useState('');
+  const [roomCodeInput, setRoomCodeInput] = useState('');
+  const roomConnection = useRef<OnlineConnection | null>(null);
 
-  const [showSuitPicker, setShowSuitPicker] = useState(false);
-  const [message, setMessage] = useState("欢迎来玩 Kiki 的锦绣中国·8点中国");
-
-  // Initialize Game
-  const initGame = useCallback(() => {
-    const fullDeck = createDeck();
-    const playerHand = fullDeck.splice(0, 8);
-    const aiHand = fullDeck.splice(0, 8);
-    const firstDiscard = fullDeck.pop()!;
-    
-    setGameState({
-      deck: fullDeck,
-      discardPile: [firstDiscard],
-      playerHand,
-      aiHand,
-      currentTurn: 'player',
-      status: 'playing',
-      wildSuit: null,
-    });
-    setMessage("你的回合，请出牌。");
-    setShowSuitPicker(false);
-    setShowHome(false);
+  const dispatch = useCallback((action: GameAction) => {
+    setGame(prev => applyAction(prev, action));
   }, []);
 
-  useEffect(() => {
-    if (!showHome) {
-      initGame();
-    }
-  }, [showHome, initGame]);
+  // A tutorial step takes its one move and turns everything else away
+  const acceptTutorialMove = (action: GameAction): boolean => {
+    if (tutorialStep === null) return true;
+    const expected = !tutorialMoveMade && isExpectedMove(TUTORIAL_STEPS[tutorialStep], action);
+    setOffScript(!expected);
+    if (expected) setTutorialMoveMade(true);
+    return expected;
+  };
 
-  const topDiscard = gameState.discardPile.length > 0 ? gameState.discardPile[gameState.discardPile.length - 1] : null;
-  const currentSuit = gameState.wildSuit || topDiscard?.suit;
+  const puzzle = findPuzzle(puzzleId);
+  // A puzzle stops taking moves once it is solved or out of moves
+  const puzzleResult = puzzle ? puzzleOutcome(game, puzzle, HOST_SEAT) : null;
+  const followingPuzzle = puzzle && nextPuzzle(puzzle);
 
-  const isCardPlayable = (card: CardType) => {
-    if (gameState.status !== 'playing' || gameState.currentTurn !== 'player' || !topDiscard) return false;
-    if (card.rank === '8') return true;
-    return card.suit === currentSuit || card.rank === topDiscard.rank;
+  // Online, the server applies moves and sends back the result; offline, the engine runs right here
+  const act = (action: GameAction) => {
+    if (replayStep !== null || puzzleResult !== null || !acceptTutorialMove(action)) return;
+    if (room) roomConnection.current?.send({ type: 'action', action });
+    else dispatch(action);
   };
 
-  const playCard = (card: CardType, isPlayer: boolean) => {
-    const handKey = isPlayer ? 'playerHand' : 'aiHand';
-    const nextTurn = isPlayer ? 'ai' : 'player';
-    let aiChosenSuit: Suit | null = null;
-
-    // Pre-calculate AI's choice if it's an 8 to avoid stale state in message
-    if (!isPlayer && card.rank === '8') {
-      const currentHand = gameState.aiHand.filter(c => c.id !== card.id);
-      const suitCounts = currentHand.reduce((acc, c) => {
-        acc[c.suit] = (acc[c.suit] || 0) + 1;
-        return acc;
-      }, {} as Record<Suit, number>);
-      aiChosenSuit = (Object.keys(suitCounts) as Suit[]).sort((a, b) => suitCounts[b] - suitCounts[a])[0] || 'hearts';
+  const handleServerMessage = (message: ServerMessage) => {
+    switch (message.type) {
+      case 'joined':
+        setRoom(message.room);
+        setStageId(null);
+        setViewerId(message.seatId);
+        setRoomError(null);
+        break;
+      case 'room':
+        setRoom(message.room);
+        break;
+      case 'state':
+        setGame(message.state);
+        setReplayStep(null);
+        setTurnDeadline(message.turnDeadline);
+        setRoomError(null);
+        setShowHome(false);
+        break;
+      case 'error':
+        setRoomError(message.message);
+        break;
     }
+  };
 
-    setGameState(prev => {
-      const newHand = prev[handKey].filter(c => c.id !== card.id);
-      const newDiscardPile = [...prev.discardPile, card];
-      
-      let newStatus: GameStatus = prev.status;
-      if (newHand.length === 0) {
-        newStatus = isPlayer ? 'player_won' : 'ai_won';
-        // Reward mechanism: 2 stars for winning, 1 star for losing
-        // Terracotta Model (p2) gives 2 stars regardless
-        const earned = (isPlayer || inventory.p2 > 0) ? 2 : 1;
-        setStars(prevStars => prevStars + earned);
-      }
+  const openRoomConnection = () => {
+    roomConnection.current ??= connectOnline(handleServerMessage, setRoomStatus);
+    return roomConnection.current;
+  };
 
-      // If it's an 8, we need to pick a suit
-      if (card.rank === '8') {
-        if (isPlayer) {
-          setShowSuitPicker(true);
-          return {
-            ...prev,
-            [handKey]: newHand,
-            discardPile: newDiscardPile,
-            status: 'waiting_for_suit',
-            currentTurn: isPlayer ? 'player' : 'ai',
-          };
-        } else {
-          return {
-            ...prev,
-            [handKey]: newHand,
-            discardPile: newDiscardPile,
-            wildSuit: aiChosenSuit,
-            currentTurn: nextTurn,
-            status: newStatus,
-          };
-        }
-      }
+  const createRoom = () => {
+    openRoomConnection().send({ type: 'create', name: playerName, seatCount: opponentKinds.length + 1, rules, difficulty });
+  };
 
-      return {
-        ...prev,
-        [handKey]: newHand,
-        discardPile: newDiscardPile,
-        currentTurn: nextTurn,
-        status: newStatus,
-        wildSuit: null, // Reset wild suit if a non-8 is played
-      };
-    });
+  const joinRoom = () => {
+    if (roomCodeInput.trim()) openRoomConnection().send({ type: 'join', code: roomCodeInput, name: playerName });
+  };
+
+  const leaveRoom = () => {
+    roomConnection.current?.close();
+    roomConnection.current = null;
+    setRoom(null);
+    setRoomError(null);
+    setTurnDeadline(null);
+    setViewerId(HOST_SEAT);
+    setShowHome(true);
+  };
 
-    if (card.rank !== '8') {
-      setMessage(isPlayer ? "AI 正在思考..." : "你的回合，请出牌。");
-    } else if (!isPlayer) {
-      setMessage(`AI 打出了 8 并选择了 ${getSuitSymbol(aiChosenSuit || 'hearts')}。你的回合。`);
+  // Initialize Game: a free game from the home screen's setup, a campaign stage, or the next round of a match
+  const initGame = useCallback((seed: string = randomSeed(), stage: Stage | null = null, round: Match | null = null) => {
+    const dealSeed = normalizeSeed(seed) || randomSeed();
+    aiRng.current = createSeededRng(`${dealSeed}/ai`);
+    const setup = stage
+      ? { seed: dealSeed, rules: stage.rules, opponentKinds: stageOpponentKinds(stage), difficulty: stage.difficulty, stageId: stage.id }
+      : round
+      ? { seed: dealSeed, rules: round.rules, opponentKinds: round.table.slice(1).map(seat => seat.kind), difficulty: round.difficulty, dealer: nextDealer(round) }
+      : { seed: dealSeed, rules, opponentKinds, difficulty };
+    const table = stage
+      ? stageTable(stage, tableNames, stage.opponents.map((_, i) => t.text(`stage.${stage.id}.opponent.${i}`)))
+      : round?.table ?? createTable(opponentKinds, tableNames);
+    const dealt = createGame(dealSeed, setup.rules, table, round ? nextDealer(round) : undefined);
+    setGame(stage ? {
+      ...dealt,
+      message: [{ key: 'game.stageIntro', params: { name: table[1].name, intro: { key: `stage.${stage.id}.intro` } } }],
+    } : round ? {
+      ...dealt,
+      message: [
+        { key: 'game.matchRound', params: { n: round.rounds.length + 1, dealer: table.find(seat => seat.id === nextDealer(round))!.name } },
+        ...dealt.message,
+      ],
+    } : dealt);
+    setStageId(stage?.id ?? null);
+    setMatch(stage ? null : round);
+    setNewlyCleared(false);
+    setReplayStep(null);
+    setServerGameId(null);
+    setSettleFailed(false);
+    setHintsTaken(null);
+    setTutorialStep(null);
+    setPuzzleId(null);
+    // Casual games can be undone and human opponents could throw the game, so the server does not keep score of either
+    if (online && profileId && (!casual || stage) && !setup.opponentKinds.includes('human')) {
+      // A match is kept on the server only when its first round was; later rounds join it there
+      const serverMatch = !round ? undefined
+        : round.serverMatchId ? { matchId: round.serverMatchId }
+        : round.rounds.length === 0 ? { matchTarget: round.target }
+        : undefined;
+      api.startServerGame(profileId, setup, serverMatch)
+        .then(({ gameId, matchId }) => {
+          setServerGameId(gameId);
+          if (matchId) setMatch(prev => prev && { ...prev, serverMatchId: matchId });
+        })
+        .catch(() => setOnline(false));
     }
+    setAiInventory(Object.fromEntries(
+      table.filter(seat => seat.kind === 'ai').map(seat => [seat.id, { ...getAiLevel(setup.difficulty).items }]),
+    ));
+    setViewerId(HOST_SEAT);
+    setSeedInput(dealSeed);
+    setShowHome(false);
+  }, [rules, opponentKinds, difficulty, casual, online, profileId, t]);
+
+  // From the home screen: one game on its own, or the first round of a new match
+  const startFreeGame = (seed?: string, target = matchTarget) => {
+    initGame(seed, null, target ? createMatch(target, createTable(opponentKinds, tableNames), rules, difficulty) : null);
+  };
+
+  const showTutorialStep = (index: number, previous: GameState) => {
+    setTutorialStep(index);
+    setTutorialMoveMade(false);
+    setOffScript(false);
+    setGame(tutorialGame(TUTORIAL_STEPS[index], previous, tutorialTable(tableNames.you, t('tutorial.opponent'))));
   };
 
-  const drawCard = (isPlayer: boolean) => {
-    if (gameState.deck.length === 0) {
-      setMessage("摸牌堆已空，跳过回合。");
-      setGameState(prev => ({ ...prev, currentTurn: isPlayer ? 'ai' : 'player' }));
+  // From the home screen, as often as the player likes; the bonus is paid the first time only
+  const startTutorial = () => {
+    setPuzzleId(null);
+    setStageId(null);
+    setMatch(null);
+    setReplayStep(null);
+    setServerGameId(null);
+    setViewerId(HOST_SEAT);
+    setTutorialItems(TUTORIAL_ITEMS);
+    setTutorialOutcome(null);
+    showTutorialStep(0, game);
+    setShowHome(false);
+  };
+
+  const finishTutorial = () => {
+    setTutorialStep(null);
+    if (tutorial.completed) {
+      setTutorialOutcome('replayed');
+      return;
+    }
+    if (online && profileId) {
+      // Marked done only once the server has paid, so a failed claim is tried again next time
+      setTutorialOutcome('claiming');
+      api.claimTutorial(profileId).then(profile => {
+        setStars(profile.stars);
+        setInventory(profile.inventory);
+        setTutorial({ completed: true });
+        setTutorialOutcome('bonus');
+      }, err => {
+        if (!(err instanceof api.ApiError && err.status === 409)) {
+          setTutorialOutcome('claimFailed');
+          return;
+        }
+        // Already paid, say from another device: only this device's copy of the wallet is behind
+        setTutorial({ completed: true });
+        setTutorialOutcome('replayed');
+        api.getProfile(profileId).then(profile => {
+          setStars(profile.stars);
+          setInventory(profile.inventory);
+        }, () => {});
+      });
       return;
     }
+    setTutorial({ completed: true });
+    if (!online) setStars(prev => prev + TUTORIAL_STARS);
+    setTutorialOutcome('bonus');
+  };
 
-    setGameState(prev => {
-      const newDeck = [...prev.deck];
-      const drawnCard = newDeck.pop()!;
-      const handKey = isPlayer ? 'playerHand' : 'aiHand';
-      
-      return {
-        ...prev,
-        deck: newDeck,
-        [handKey]: [...prev[handKey], drawnCard],
-        currentTurn: isPlayer ? 'ai' : 'player'
-      };
-    });
-    
-    setMessage(isPlayer ? "你摸了一张牌。AI 的回合。" : "AI 摸了一张牌。你的回合。");
+  const nextTutorialStep = () => {
+    if (tutorialStep === null) return;
+    if (tutorialStep + 1 < TUTORIAL_STEPS.length) showTutorialStep(tutorialStep + 1, game);
+    else finishTutorial();
+  };
+
+  // Puzzles are played against the AI with no items on either side; `tries` counts towards the rating
+  const startPuzzle = (next: Puzzle, tries = 1) => {
+    setStageId(null);
+    setMatch(null);
+    setReplayStep(null);
+    setServerGameId(null);
+    setSettleFailed(false);
+    setHintsTaken(null);
+    setTutorialStep(null);
+    setAiInventory({});
+    setViewerId(HOST_SEAT);
+    setPuzzleId(next.id);
+    setPuzzleTries(tries);
+    setGame({ ...puzzleGame(next, tableNames), message: [{ key: 'puzzles.goal', params: { moves: next.moves } }] });
+    setShowPuzzles(false);
+    setShowHome(false);
   };
 
-  // AI Turn Logic
   useEffect(() => {
-    if (gameState.currentTurn === 'ai' && gameState.status === 'playing' && topDiscard) {
-      const timer = setTimeout(() => {
-        const playableCards = gameState.aiHand.filter(card => {
-          if (card.rank === '8') return true;
-          return card.suit === currentSuit || card.rank === topDiscard.rank;
-        });
-
-        if (playableCards.length > 0) {
-          // AI strategy: play non-8 if possible, otherwise play 8
-          const nonEight = playableCards.find(c => c.rank !== '8');
-          playCard(nonEight || playableCards[0], false);
-        } else {
-          drawCard(false);
-        }
-      }, 1500);
-      return () => clearTimeout(timer);
+    if (puzzle && puzzleResult === 'solved') setPuzzles(prev => recordPuzzle(prev, puzzle.id, puzzleStars(puzzleTries)));
+  }, [puzzleResult]);
+
+  // The board as of now: quests from an earlier day or week have already turned over
+  const questBoard = rollQuests(quests);
+
+  const collectQuest = (quest: Quest) => {
+    if (!canClaimQuest(questBoard, quest)) return;
+    if (online && profileId) {
+      api.claimQuest(profileId, quest.id).then(profile => {
+        setStars(profile.stars);
+        setInventory(profile.inventory);
+        setQuests(prev => claimQuest(rollQuests(prev), quest.id));
+      }, () => {});
+    } else if (!online) {
+      setStars(prev => prev + quest.stars);
+      setQuests(prev => claimQuest(rollQuests(prev), quest.id));
     }
-  }, [gameState.currentTurn, gameState.status, gameState.aiHand, currentSuit, topDiscard]);
+  };
 
-  const handleSuitSelect = (suit: Suit) => {
-    setGameState(prev => ({
-      ...prev,
-      wildSuit: suit,
-      currentTurn: 'ai',
-      status: 'playing'
-    }));
-    setShowSuitPicker(false);
-    setMessage(`你选择了 ${getSuitSymbol(suit)}。AI 正在思考...`);
+  const stage = findStage(stageId);
+  // Campaign stages are always played for real: no undo, and items allowed
+  const casualGame = casual && !stage;
+
+  const topDiscard = getTopDiscard(gameState);
+  const gameOver = isGameOver(game);
+  const replaying = replayFrame !== null;
+  const replayTotal = logActions(game).length;
+
+  // Restore the wallet, settings and any interrupted game
+  useEffect(() => {
+    loadSave(storage).then(save => {
+      setStars(save.stars);
+      setInventory(save.inventory);
+      setDifficulty(save.settings.difficulty);
+      setRules(save.settings.rules);
+      setOpponentKinds(save.settings.opponentKinds);
+      setCasual(save.settings.casual);
+      setMatchTarget(save.settings.matchTarget);
+      setGuideEnabled(save.settings.guide);
+      setCardBack(save.settings.cardBack);
+      setDeckTheme(save.settings.deckTheme);
+      setLanguage(save.settings.language);
+      setFourColorDeck(save.settings.fourColorDeck);
+      setReduceMotion(save.settings.reduceMotion);
+      setSfxVolume(save.settings.sfxVolume);
+      setMusicVolume(save.settings.musicVolume);
+      setMuted(save.settings.muted);
+      setCampaign(save.campaign);
+      setTutorial(save.tutorial);
+      setQuests(save.quests);
+      setPuzzles(save.puzzles);
+      setStats(save.stats);
+      setMatch(save.match);
+      if (save.game) {
+        setStageId(save.game.stageId);
+        setGame(save.game.state);
+        setServerGameId(save.game.serverGameId);
+        setAiInventory(save.game.aiInventory);
+        setViewerId(save.game.viewerId);
+        aiRng.current = createRng(save.game.aiRngState);
+        setSeedInput(save.game.state.seed);
+        setShowHome(false);
+      }
+      setProfileId(save.profileId);
+      setLoaded(true);
+
+      // Prefer the server's wallet; without a server the local one stays in charge
+      const profile = save.profileId ? api.getProfile(save.profileId) : api.createProfile('Kiki');
+      profile.then(({ id, stars, inventory }) => {
+        setProfileId(id);
+        setStars(stars);
+        setInventory(inventory);
+        setOnline(true);
+      }, () => setOnline(false));
+    });
+    // Back into the online room this tab was in before a reload
+    if (canResume()) openRoomConnection();
+  }, []);
+
+  useEffect(() => {
+    if (!loaded) return;
+    const inProgress = game.seed !== '' && !gameOver;
+    storage.save({
+      version: SAVE_VERSION,
+      profileId,
+      stars,
+      inventory,
+      settings: { difficulty, rules, opponentKinds, casual, guide: guideEnabled, cardBack, deckTheme, language, matchTarget, fourColorDeck, reduceMotion, sfxVolume, musicVolume, muted },
+      campaign,
+      tutorial,
+      quests,
+      puzzles,
+      stats,
+      match,
+      game: inProgress ? {
+        state: game,
+        serverGameId,
+        aiInventory,
+        viewerId,
+        aiRngState: aiRng.current.getState(),
+        stageId,
+      } : null,
+    });
+  }, [loaded, profileId, stars, inventory, difficulty, rules, opponentKinds, casual, guideEnabled, cardBack, deckTheme, language, matchTarget, fourColorDeck, reduceMotion, sfxVolume, musicVolume, muted, campaign, tutorial, quests, puzzles, stats, match, game, gameOver, serverGameId, aiInventory, viewerId, stageId]);
+
+  useEffect(() => {
+    document.documentElement.lang = language;
+    document.title = t('app.title');
+  }, [language]);
+
+  // Locked themes (a skin bought on a server this device has lost) fall back to the classic deck
+  const deck = activeTheme(deckTheme, { inventory, campaign, stats });
+
+  // The CSS transitions key off a class on the page itself, and suit colours off variables there
+  useEffect(() => {
+    document.documentElement.classList.toggle('reduce-motion', reduceMotion);
+  }, [reduceMotion]);
+
+  useEffect(() => {
+    const style = document.documentElement.style;
+    const suits = fourColorDeck ? { ...deck.suits, ...deck.fourColor } : deck.suits;
+    SUITS.forEach(suit => style.setProperty(`--suit-${suit}`, suits[suit]));
+    style.setProperty('--felt', deck.felt);
+  }, [deck, fourColorDeck]);
+
+  // Browsers keep a page silent until it is interacted with, so sound starts with the first click or key
+  useEffect(() => {
+    const unlock = () => audio.unlock();
+    window.addEventListener('pointerdown', unlock);
+    window.addEventListener('keydown', unlock);
+    return () => {
+      window.removeEventListener('pointerdown', unlock);
+      window.removeEventListener('keydown', unlock);
+    };
+  }, []);
+
+  useEffect(() => {
+    audio.setLevels({ sfxVolume, musicVolume, muted });
+  }, [sfxVolume, musicVolume, muted]);
+
+  useEffect(() => {
+    audio.setMusic(showHome ? HOME_MUSIC : stage?.music ?? DEFAULT_MUSIC);
+  }, [showHome, stage]);
+
+  // Sound follows the move log, whoever made the move: you, the AI, another player online or a replay
+  const heard = useRef<GameState | null>(null);
+  useEffect(() => {
+    audio.play(cuesBetween(heard.current, gameState, viewerId));
+    heard.current = gameState;
+  }, [gameState]);
+
+  const currentSeat = getSeat(gameState, gameState.currentTurn);
+  const viewer = getSeat(gameState, viewerId);
+  const winnerSeat = gameState.winner ? getSeat(gameState, gameState.winner) : undefined;
+  const showSuitPicker = !replaying && gameState.status === 'waiting_for_suit' && gameState.currentTurn === viewerId;
+  // Another local human's turn: cover the table until they take the device
+  const handoffSeat = !gameOver && !replaying && currentSeat?.kind === 'human' && currentSeat.id !== viewerId ? currentSeat : null;
+
+  // Opponents clockwise from your left, so turn order reads around the table
+  const viewerIndex = gameState.seats.findIndex(seat => seat.id === viewerId);
+  const opponents = [...gameState.seats.slice(viewerIndex + 1), ...gameState.seats.slice(0, viewerIndex)];
+  // Hands the viewer may see through an item such as the mirror; a puzzle shows every hand
+  const revealed = replaying ? [] : puzzle ? opponents.map(seat => seat.id) : revealedHands(gameState, viewerId);
+  const leftOpponent = opponents.length > 1 ? opponents[0] : null;
+  const rightOpponent = opponents.length > 1 ? opponents[opponents.length - 1] : null;
+  const topOpponents = opponents.length > 1 ? opponents.slice(1, -1) : opponents;
+
+  const backImage = findStage(cardBack)?.image ?? deck.back.image;
+  const goalMet = stage !== undefined && gameOver && stage.goal.met(game, HOST_SEAT);
+  const nextStage = stage && STAGES[STAGES.indexOf(stage) + 1];
+
+  const earnedStars = starsForGame(gameState.winner === HOST_SEAT, inventory);
+  const hintsUsed = hintsTaken?.seed === game.seed ? hintsTaken : { seed: game.seed, free: 0 };
+  const humanWon = winnerSeat !== undefined && winnerSeat.kind !== 'ai';
+  // Once the game is over, `match` already counts it
+  const activeMatch = room ? null : match;
+  const matchOverBy = activeMatch ? matchWinner(activeMatch) : null;
+  const matchStarsEarned = activeMatch && !casualGame ? matchStars(matchOverBy === HOST_SEAT, activeMatch.target) : 0;
+
+  useEffect(() => {
+    // Puzzles keep their own ratings: they earn no stars and stay out of the stats
+    if (puzzleId !== null) return;
+    if (gameOver && stage?.goal.met(game, HOST_SEAT) && !campaign.cleared.includes(stage.id)) {
+      setCampaign(prev => clearStage(prev, stage.id));
+      setNewlyCleared(true);
+    }
+    const played = gameOver && activeMatch ? recordRound(activeMatch, game) : null;
+    const bonus = played && !casualGame ? matchStars(matchWinner(played) === HOST_SEAT, played.target) : 0;
+    if (played) setMatch(prev => prev && recordRound(prev, game));
+    if (gameOver && !room) {
+      setStats(prev => recordGame(prev, createGameRecord(game, HOST_SEAT, {
+        difficulty: stage?.difficulty ?? difficulty,
+        stageId,
+        casual: casualGame,
+        starsEarned: casualGame ? 0 : earnedStars + bonus,
+      })));
+    }
+    // Online rooms and casual games are for fun: no stars change hands
+    if (!gameOver || room || casualGame) return;
+    // Quests count the games that settle stars, as the server counts the ones it verifies
+    if (!online || serverGameId) {
+      setQuests(prev => recordQuestGame(prev, { state: game, seat: HOST_SEAT, difficulty: stage?.difficulty ?? difficulty, stageId }));
+    }
+    if (online && serverGameId) {
+      // The server replays the move log before it credits anything, the match bonus included
+      api.finishServerGame(serverGameId, logActions(game)).then(({ profile }) => {
+        setStars(profile.stars);
+        setInventory(profile.inventory);
+      }, () => setSettleFailed(true));
+    } else if (!online) {
+      setStars(prevStars => prevStars + earnedStars + bonus);
+    }
+  }, [gameOver]);
+
+  // The server's guide is Gemini when it has a key; without a server the offline guide answers
+  const guide = useMemo(() => online ? createServerGuide() : createLocalGuide(), [online]);
+
+  // The guide remarks on notable moves as they happen
+  useEffect(() => {
+    const last = game.log[game.log.length - 1];
+    if (!guideEnabled || replaying) return;
+    if (game.log.length === 1) setGuideLine(null);
+    if (!last || !isNotable(last)) return;
+    let current = true;
+    askGuide(guide, 'comment', game, viewerId, language).then(text => current && setGuideLine(text));
+    return () => { current = false; };
+  }, [game.log.length, guideEnabled]);
+
+  // And explains a loss once the game is over
+  useEffect(() => {
+    setGuideReview(null);
+    if (!gameOver || !guideEnabled || game.winner === viewerId) return;
+    let current = true;
+    askGuide(guide, 'review', game, viewerId, language).then(text => current && setGuideReview(text));
+    return () => { current = false; };
+  }, [gameOver, guideEnabled]);
+
+  const askForAdvice = () => {
+    askGuide(guide, 'advice', game, viewerId, language).then(setGuideLine);
   };
 
-  const RulesContent = () => (
+  // AI Turn Logic
+  const aiSeat = getSeat(game, game.currentTurn);
+  useEffect(() => {
+    // The guide in the tutorial waits for you, step after step
+    if (aiSeat?.kind !== 'ai' || gameOver || room || tutorialStep !== null || puzzleResult !== null) return;
+    const seatId = aiSeat.id;
+    const { strategy } = getAiLevel(stage?.difficulty ?? difficulty);
+    const timer = setTimeout(() => {
+      const inventory = aiInventory[seatId] ?? {};
+      const item = strategy.chooseItem(game, seatId, inventory);
+      if (item) {
+        // Using an item changes the state, which brings the AI back here for its move
+        setAiInventory(prev => ({ ...prev, [seatId]: { ...inventory, [item.itemId]: inventory[item.itemId] - 1 } }));
+        dispatch(item);
+        return;
+      }
+      const action = strategy.chooseAction(game, seatId, aiRng.current);
+      if (action) dispatch(action);
+    }, game.status === 'waiting_for_suit' ? 600 : 1500);
+    return () => clearTimeout(timer);
+  }, [game, aiSeat, gameOver, dispatch, difficulty, stage, aiInventory, room, tutorialStep, puzzleResult]);
+
+  const RulesContent = ({ rules }: { rules: RuleSet }) => (
     <div className="p-4 bg-red-950/95 border border-yellow-500/30 rounded-xl shadow-2xl text-xs leading-relaxed text-yellow-100/80">
-      <h4 className="font-bold text-yellow-400 mb-2 border-b border-yellow-500/20 pb-1">《8点中国》规则</h4>
+      <h4 className="font-bold text-yellow-400 mb-2 border-b border-yellow-500/20 pb-1">
+        {t('rules.title', { preset: rulesName(t, rules) })}
+      </h4>
       <ul className="space-y-1 list-disc list-inside">
-        <li>初始各发 8 张牌。</li>
-        <li>出牌需匹配花色或点数。</li>
-        <li><span className="text-yellow-400 font-bold">数字 8</span> 是万能牌，可随时打出并指定新花色。</li>
-        <li>无牌可出时需从摸牌堆摸一张。</li>
-        <li>率先清空手牌者获胜。</li>
-        <li>每局游戏结束均可获得 <span className="text-yellow-400">★</span>，获胜奖励翻倍！</li>
+        <li>{t('rules.handSize', { two: handSizeFor(2), four: handSizeFor(3), six: handSizeFor(5) })}</li>
+        <li>{t('rules.match')}</li>
+        <li>{t.rich('rules.eight', { eight: <span className="text-yellow-400 font-bold">{t('rules.eightName')}</span> })}</li>
+        {!rules.drawUntilPlayable && <li>{t('rules.drawOne')}</li>}
+        {RULE_OPTIONS.filter(option => rules[option.key]).map(option => (
+          <li key={option.key}>
+            {t.rich('rules.option', {
+              name: <span className="text-yellow-400 font-bold">{t.text(`rule.${option.key}.name`)}</span>,
+              desc: t.text(`rule.${option.key}.desc`),
+            })}
+          </li>
+        ))}
+        <li>{t('rules.reshuffle')}</li>
+        <li>{t('rules.blocked')}</li>
+        <li>{t('rules.goal')}</li>
+        <li>{t.rich('rules.stars', { star: <span className="text-yellow-400">★</span> })}</li>
       </ul>
     </div>
   );
 
-  const prizes = [
-    { id: 'p1', name: '长城明信片', cost: 3, icon: '🏯', desc: '免单/挽救：AI 摸 5 张牌' },
-    { id: 'p2', name: '兵马俑模型', cost: 5, icon: '🗿', desc: '被动：每局必得 2 颗星' },
-    { id: 'p3', name: '西湖丝绸', cost: 10, icon: '🧣', desc: '消耗：自动消除 2 张手牌' },
-    { id: 'p4', name: '锦绣山河画卷', cost: 20, icon: '📜', desc: '神力：直接获得本局胜利' },
-  ];
+  const showRedeemed = (item: Item, starsLeft: number) => {
+    setRedeemStatus({ itemId: item.id, starsLeft });
+
+    // Auto clear message after 3 seconds
+    setTimeout(() => setRedeemStatus(null), 3000);
+  };
 
-  const handleRedeem = (prize: typeof prizes[0]) => {
-    if (stars >= prize.cost) {
-      const newStars = stars - prize.cost;
+  const handleRedeem = (item: Item) => {
+    if (!canOwnMore(item, inventory)) return;
+    if (online && profileId) {
+      api.purchaseItem(profileId, item.id).then(profile => {
+        setStars(profile.stars);
+        setInventory(profile.inventory);
+        setStats(prev => recordSpending(prev, item.cost));
+        showRedeemed(item, profile.stars);
+      }, () => {});
+      return;
+    }
+    if (stars >= item.cost) {
+      const newStars = stars - item.cost;
       setStars(newStars);
-      setInventory(prev => ({ ...prev, [prize.id]: (prev[prize.id] || 0) + 1 }));
-      setRedeemStatus({ name: prize.name, starsLeft: newStars });
-      
-      // Auto clear message after 3 seconds
-      setTimeout(() => setRedeemStatus(null), 3000);
+      setInventory(prev => ({ ...prev, [item.id]: (prev[item.id] || 0) + 1 }));
+      setStats(prev => recordSpending(prev, item.cost));
+      showRedeemed(item, newStars);
     }
   };
 
+  // The tutorial lends its own items and leaves the wallet alone
+  const itemsHeld = tutorialStep !== null ? tutorialItems : inventory;
+  const itemsAllowed = !room && !puzzle && (!casualGame || tutorialStep !== null);
+  // What the tutorial spotlights: the one thing the step is waiting for
+  const tutorialExpects = tutorialStep !== null && !tutorialMoveMade ? TUTORIAL_STEPS[tutorialStep].expects : null;
+
+  const canSpendItem = (id: string) => (itemsHeld[id] ?? 0) > 0 && itemsAllowed && !replaying
+    && viewerId === HOST_SEAT && canUseItem(gameState, HOST_SEAT, id);
+
+  const spendItem = (id: string, target?: ItemTarget) => {
+    setTargeting(null);
+    const action: GameAction = { type: 'useItem', seat: HOST_SEAT, itemId: id, target };
+    if (!canSpendItem(id) || !acceptTutorialMove(action)) return;
+    if (tutorialStep !== null) setTutorialItems(prev => ({ ...prev, [id]: prev[id] - 1 }));
+    else setInventory(prev => ({ ...prev, [id]: prev[id] - 1 }));
+    dispatch(action);
+  };
+
+  // Items that need a target wait for the player to pick one first
   const useItem = (id: string) => {
-    if (inventory[id] <= 0 || gameState.status !== 'playing') return;
+    const kind = findItem(id)?.use?.target;
+    if (!canSpendItem(id)) return;
+    if (!kind) return spendItem(id);
+    if (kind.type === 'opponent' && opponents.length === 1) return spendItem(id, { seat: opponents[0].id });
+    setTargeting({ itemId: id, cardIds: [] });
+  };
 
-    setInventory(prev => ({ ...prev, [id]: prev[id] - 1 }));
+  // Dropped as soon as the item stops being usable, e.g. when the turn moves on
+  const targetItem = targeting && canSpendItem(targeting.itemId) ? findItem(targeting.itemId) : undefined;
+  const targetKind = targetItem?.use?.target;
+  const pickedCardIds = targeting?.cardIds.filter(id => viewer?.hand.some(card => card.id === id)) ?? [];
+  const cardsNeeded = targetKind?.type === 'cards' ? Math.min(targetKind.count, viewer?.hand.length ?? 0) : 0;
 
-    if (id === 'p1') {
-      // Postcard: AI draws 5 cards to "save" player
-      setGameState(prev => {
-        const newDeck = [...prev.deck];
-        const drawn = [];
-        for (let i = 0; i < 5 && newDeck.length > 0; i++) {
-          drawn.push(newDeck.pop()!);
-        }
-        return {
-          ...prev,
-          deck: newDeck,
-          aiHand: [...prev.aiHand, ...drawn]
-        };
-      });
-      setMessage("使用了长城明信片！AI 摸了 5 张牌。");
-    } else if (id === 'p3') {
-      // Silk: Remove 2 cards
-      setGameState(prev => {
-        const newHand = [...prev.playerHand];
-        newHand.splice(0, 2);
-        const won = newHand.length === 0;
-        if (won) {
-          setStars(s => s + 2);
-        }
-        return {
-          ...prev,
-          playerHand: newHand,
-          status: won ? 'player_won' : prev.status
-        };
-      });
-      setMessage("使用了西湖丝绸！消除了 2 张手牌。");
-    } else if (id === 'p4') {
-      // Scroll: Instant win
-      setGameState(prev => ({
+  const toggleTargetCard = (cardId: string) => {
+    setTargeting(prev => prev && {
+      ...prev,
+      cardIds: prev.cardIds.includes(cardId)
+        ? prev.cardIds.filter(id => id !== cardId)
+        : [...prev.cardIds, cardId].slice(-cardsNeeded),
+    });
+  };
+
+  // Casual games only: take back your last move, and everyone else's since
+  const canUndo = casualGame && !room && !replaying && canReplay(game)
+    && logActions(game).some(action => action.seat === viewerId);
+
+  const undo = () => {
+    if (!canUndo) return;
+    const before = undoLastMove(game, viewerId);
+    // Undoing the last move reopens a finished game, so it is no longer part of the history or the match
+    if (gameOver) {
+      setStats(forgetLastGame);
+      setMatch(prev => prev && forgetLastRound(prev));
+    }
+    // Items the AIs spent in the undone moves are theirs to spend again
+    game.log.slice(before.log.length).forEach(entry => {
+      if (entry.type !== 'useItem') return;
+      setAiInventory(prev => ({
         ...prev,
-        playerHand: [],
-        status: 'player_won'
+        [entry.seat]: { ...prev[entry.seat], [entry.itemId]: (prev[entry.seat]?.[entry.itemId] ?? 0) + 1 },
       }));
-      setStars(s => s + 2);
-      setMessage("使用了锦绣山河画卷！山河助力，直接获胜！");
+    });
+    setGame(before);
+  };
+
+  // A few free hints a game, then bought ones; online rooms and casual games only get the free ones,
+  // and online a bought hint is only spent in a game the server keeps score of
+  const hintItem = !room && !casualGame && viewerId === HOST_SEAT && (!online || serverGameId !== null)
+    ? ITEMS.find(item => item.hint && (inventory[item.id] ?? 0) > 0)
+    : undefined;
+  const freeHintsLeft = Math.max(0, HINTS_PER_GAME - hintsUsed.free);
+  const boughtHintsLeft = hintItem ? ITEMS.filter(item => item.hint).reduce((sum, item) => sum + (inventory[item.id] ?? 0), 0) : 0;
+  const shownHint = hint && !replaying && hint.seed === game.seed && hint.at === game.log.length ? hint.hint : null;
+  // A hinted 8 carries its suit on into the suit picker
+  const hintedSuit = shownHint?.suit
+    ?? (hint && showSuitPicker && hint.seed === game.seed && hint.at === game.log.length - 1 ? hint.hint.suit : undefined);
+  const canHint = !replaying && !gameOver && !shownHint && tutorialStep === null && !puzzle && viewer?.kind === 'human' && legalMoves(gameState, viewerId).length > 0
+    && freeHintsLeft + boughtHintsLeft > 0;
+
+  const takeHint = () => {
+    const next = canHint ? bestHint(gameState, viewerId) : null;
+    if (!next) return;
+    const at = { seed: game.seed, at: game.log.length };
+    setHintFailed(null);
+    if (freeHintsLeft > 0) {
+      setHintsTaken({ ...hintsUsed, free: hintsUsed.free + 1 });
+    } else if (hintItem && serverGameId) {
+      // The server's wallet pays first; the hint only shows once it has
+      if (buyingHint.current) return;
+      buyingHint.current = true;
+      api.spendHint(serverGameId, hintItem.id).then(profile => {
+        setInventory(profile.inventory);
+        setHint({ ...at, hint: next });
+      }, () => setHintFailed(at)).finally(() => { buyingHint.current = false; });
+      return;
+    } else if (hintItem) {
+      setInventory(prev => ({ ...prev, [hintItem.id]: prev[hintItem.id] - 1 }));
     }
+    setHint({ ...at, hint: next });
+  };
+
+  // D draws, H asks for a hint and 1-4 name the suit after an eight; cards themselves take arrows and Enter
+  useEffect(() => {
+    if (showHome || showShop || showScoreboard || factStage || handoffSeat || targetItem || tutorialOutcome !== null || puzzleResult !== null || (gameOver && !replaying)) return;
+    const onKeyDown = (event: KeyboardEvent) => {
+      if (event.ctrlKey || event.metaKey || event.altKey) return;
+      if (event.target instanceof HTMLInputElement || event.target instanceof HTMLTextAreaElement) return;
+      const suit = SUITS[Number(event.key) - 1];
+      if (showSuitPicker && suit) {
+        act({ type: 'chooseSuit', seat: viewerId, suit });
+      } else if (!showSuitPicker && event.key.toLowerCase() === 'd' && !replaying && canDraw(gameState, viewerId)) {
+        act({ type: 'draw', seat: viewerId });
+      } else if (event.key.toLowerCase() === 'h') {
+        takeHint();
+      }
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  });
+
+  // Arrow keys walk along the hand, wrapping at either end
+  const onHandKeyDown = (event: React.KeyboardEvent<HTMLDivElement>) => {
+    if (event.key !== 'ArrowLeft' && event.key !== 'ArrowRight') return;
+    const cards = [...event.currentTarget.querySelectorAll<HTMLElement>('[role="button"]')];
+    if (cards.length === 0) return;
+    event.preventDefault();
+    const current = cards.indexOf(document.activeElement as HTMLElement);
+    const step = event.key === 'ArrowLeft' ? -1 : 1;
+    cards[current === -1 ? 0 : (current + step + cards.length) % cards.length].focus();
+  };
+
+  const discardLabel = topDiscard
+    ? t('table.discardLabel', { card: t('card.name', { suit: t.text(`suit.${topDiscard.suit}`), rank: topDiscard.rank }) })
+      + (gameState.wildSuit ? t('table.wildSuit', { suit: { key: `suit.${gameState.wildSuit}` } }) : '')
+    : t('table.discard');
+
+  const closeShop = () => {
+    setShowShop(false);
+    setRedeemStatus(null);
   };
 
   const PrizeShop = () => (
@@ -278,9 +845,9 @@ export default function App() {
       exit={{ opacity: 0, scale: 0.9 }}
       className="fixed inset-0 z-[60] flex items-center justify-center bg-black/60 backdrop-blur-sm p-4"
     >
-      <div className="bg-red-950 border border-yellow-500/30 p-8 rounded-3xl shadow-2xl max-w-md w-full relative overflow-hidden">
+      <FocusTrap label={t('shop.title')} onEscape={closeShop} className="bg-red-950 border border-yellow-500/30 p-8 rounded-3xl shadow-2xl max-w-md w-full relative overflow-hidden">
         <div className="flex justify-between items-center mb-6">
-          <h2 className="text-2xl font-bold text-yellow-400">锦绣商店</h2>
+          <h2 className="text-2xl font-bold text-yellow-400">{t('shop.title')}</h2>
           <div className="flex items-center gap-1 bg-yellow-500/20 px-3 py-1 rounded-full border border-yellow-500/30">
             <span className="text-yellow-400">★</span>
             <span className="font-bold text-yellow-400">{stars}</span>
@@ -295,362 +862,1162 @@ export default function App() {
               exit={{ y: -20, opacity: 0 }}
               className="absolute top-0 left-0 right-0 bg-yellow-500 text-red-950 p-3 text-center font-bold text-sm z-10 shadow-lg"
             >
-              🎉 你已获得【{redeemStatus.name}】！<br/>
-              剩余星星：{redeemStatus.starsLeft} ★
+              {t('shop.redeemed', { name: { key: `item.${redeemStatus.itemId}.name` } })}<br/>
+              {t('shop.starsLeft', { stars: redeemStatus.starsLeft })}
             </motion.div>
           )}
         </AnimatePresence>
 
         <div className="grid grid-cols-1 gap-4 mb-8">
-          {prizes.map(prize => (
-            <div key={prize.id} className="flex items-center justify-between p-4 bg-black/20 rounded-2xl border border-white/5">
-              <div className="flex items-center gap-3">
-                <span className="text-3xl">{prize.icon}</span>
-                <div>
-                  <div className="font-bold text-yellow-100">{prize.name}</div>
-                  <div className="text-[10px] text-yellow-500/80 mb-1">{prize.desc}</div>
-                  <div className="text-xs text-yellow-500/60">消耗 {prize.cost} 颗星</div>
+          {ITEMS.map(item => {
+            const maxed = !canOwnMore(item, inventory);
+            const affordable = stars >= item.cost && !maxed;
+            return (
+              <div key={item.id} className="flex items-center justify-between p-4 bg-black/20 rounded-2xl border border-white/5">
+                <div className="flex items-center gap-3">
+                  <span className="text-3xl">{item.icon}</span>
+                  <div>
+                    <div className="font-bold text-yellow-100">{t.text(`item.${item.id}.name`)}</div>
+                    <div className="text-[10px] text-yellow-500/80 mb-1">{t.text(`item.${item.id}.desc`)}</div>
+                    <div className="text-xs text-yellow-500/60">{t('shop.cost', { cost: item.cost })}</div>
+                  </div>
                 </div>
+                <button 
+                  onClick={() => handleRedeem(item)}
+                  disabled={!affordable}
+                  className={`px-4 py-2 rounded-lg font-bold text-sm transition-all ${affordable ? 'bg-yellow-500 text-red-950 hover:scale-105' : 'bg-white/5 text-white/20 cursor-not-allowed'}`}
+                >
+                  {maxed ? t('shop.owned') : t('shop.redeem')}
+                </button>
               </div>
-              <button 
-                onClick={() => handleRedeem(prize)}
-                disabled={stars < prize.cost}
-                className={`px-4 py-2 rounded-lg font-bold text-sm transition-all ${stars >= prize.cost ? 'bg-yellow-500 text-red-950 hover:scale-105' : 'bg-white/5 text-white/20 cursor-not-allowed'}`}
-              >
-                兑换
-              </button>
-            </div>
-          ))}
+            );
+          })}
         </div>
         <button 
-          onClick={() => {
-            setShowShop(false);
-            setRedeemStatus(null);
-          }}
+          onClick={closeShop}
           className="w-full py-3 bg-white/10 hover:bg-white/20 rounded-xl font-bold transition-colors"
         >
-          返回游戏
+          {t('shop.back')}
         </button>
-      </div>
+      </FocusTrap>
     </motion.div>
   );
 
   if (showHome) {
     return (
-      <div className="min-h-screen bg-red-950 text-white font-sans selection:bg-red-800 overflow-hidden flex flex-col relative items-center justify-center">
-        {/* Background Image */}
-        <div className="fixed inset-0 z-0 opacity-40 pointer-events-none">
-          <img 
-            src="https://picsum.photos/seed/tiananmen/1920/1080" 
-            alt="Tiananmen Background" 
-            className="w-full h-full object-cover"
-            referrerPolicy="no-referrer"
-          />
-        </div>
+      <I18nContext.Provider value={t}>
+        <ThemeContext.Provider value={deck}>
+        <MotionConfig reducedMotion={reduceMotion ? 'always' : 'user'}>
+          <div className="min-h-screen bg-(--felt) text-white font-sans selection:bg-red-800 overflow-hidden flex flex-col relative items-center justify-center">
+            {/* Background Image */}
+            <div className="fixed inset-0 z-0 opacity-40 pointer-events-none">
+              <img 
+                src={deck.table} 
+                alt="" 
+                className="w-full h-full object-cover"
+              />
+            </div>
 
-        <motion.div 
-          initial={{ opacity: 0, y: 20 }}
-          animate={{ opacity: 1, y: 0 }}
-          className="z-10 text-center p-8 bg-black/40 backdrop-blur-md rounded-3xl border border-yellow-500/30 shadow-2xl max-w-2xl"
-        >
-          <div className="w-24 h-24 bg-yellow-500 rounded-2xl flex items-center justify-center mx-auto mb-6 shadow-xl shadow-yellow-500/20 rotate-3">
-            <span className="text-5xl font-bold text-red-900">8</span>
+            <motion.div 
+              initial={{ opacity: 0, y: 20 }}
+              animate={{ opacity: 1, y: 0 }}
+              className="z-10 text-center p-8 bg-black/40 backdrop-blur-md rounded-3xl border border-yellow-500/30 shadow-2xl max-w-2xl"
+            >
+              {/* Language switcher */}
+              <div className="flex items-center justify-end gap-1 -mt-4 -mr-4 mb-2 text-xs" title={t('home.language')}>
+                {LANGUAGES.map(({ id, name }) => (
+                  <button
+                    key={id}
+                    onClick={() => setLanguage(id)}
+                    className={`px-2 py-1 rounded-full border transition-colors ${language === id ? 'bg-yellow-500 text-red-950 border-yellow-500' : 'bg-white/5 text-yellow-200 border-yellow-500/30 hover:bg-white/10'}`}
+                  >
+                    {name}
+                  </button>
+                ))}
+              </div>
+              <div className="w-24 h-24 bg-yellow-500 rounded-2xl flex items-center justify-center mx-auto mb-6 shadow-xl shadow-yellow-500/20 rotate-3">
+                <span className="text-5xl font-bold text-red-900">8</span>
+              </div>
+              <h1 className="text-4xl sm:text-5xl font-bold mb-6 text-yellow-400 tracking-tight">
+                {t('home.welcome')}<br/>{t('app.title')}
+              </h1>
+              <p className="text-yellow-100/70 mb-10 text-lg">
+                {t('home.tagline')}
+              </p>
+              <button
+                onClick={() => startFreeGame(seedInput)}
+                className="px-12 py-4 bg-yellow-500 hover:bg-yellow-400 text-red-950 font-bold text-xl rounded-full transition-all hover:scale-105 active:scale-95 shadow-lg shadow-yellow-500/30"
+              >
+                {t('home.start')}
+              </button>
+              {match && match.rounds.length > 0 && !matchWinner(match) && (
+                <button
+                  onClick={() => initGame(randomSeed(), null, match)}
+                  className="ml-4 px-8 py-4 bg-white/10 hover:bg-white/20 border border-yellow-500/30 text-yellow-300 font-bold text-xl rounded-full transition-all hover:scale-105 active:scale-95"
+                >
+                  {t('home.continueMatch', { n: match.rounds.length + 1 })}
+                </button>
+              )}
+              <button
+                onClick={() => setShowCampaign(true)}
+                className="ml-4 px-8 py-4 bg-white/10 hover:bg-white/20 border border-yellow-500/30 text-yellow-300 font-bold text-xl rounded-full transition-all hover:scale-105 active:scale-95 inline-flex items-center gap-2"
+              >
+                <MapIcon size={22} />
+                {t('home.campaign')}
+              </button>
+              <button
+                onClick={startTutorial}
+                disabled={!!room}
+                className="ml-4 px-8 py-4 bg-white/10 hover:bg-white/20 border border-yellow-500/30 text-yellow-300 font-bold text-xl rounded-full transition-all hover:scale-105 active:scale-95 inline-flex items-center gap-2"
+              >
+                <GraduationCap size={22} />
+                {t('home.tutorial')}
+                {!tutorial.completed && (
+                  <span className="px-2 py-0.5 bg-yellow-500 text-red-950 text-xs rounded-full">{t('home.tutorialBonus', { stars: TUTORIAL_STARS })}</span>
+                )}
+              </button>
+              <button
+                onClick={() => setShowPuzzles(true)}
+                disabled={!!room}
+                className="ml-4 px-8 py-4 bg-white/10 hover:bg-white/20 border border-yellow-500/30 text-yellow-300 font-bold text-xl rounded-full transition-all hover:scale-105 active:scale-95 inline-flex items-center gap-2"
+              >
+                <PuzzleIcon size={22} />
+                {t('home.puzzles')}
+              </button>
+              <button
+                onClick={() => setShowStats(true)}
+                title={t('home.stats')}
+                className="ml-4 p-4 bg-white/10 hover:bg-white/20 border border-yellow-500/30 text-yellow-300 rounded-full transition-all hover:scale-105 active:scale-95 inline-flex items-center align-middle"
+              >
+                <BarChart3 size={22} />
+              </button>
+              <button
+                onClick={() => setShowThemes(true)}
+                title={t('home.themes')}
+                className="ml-4 p-4 bg-white/10 hover:bg-white/20 border border-yellow-500/30 text-yellow-300 rounded-full transition-all hover:scale-105 active:scale-95 inline-flex items-center align-middle"
+              >
+                <Palette size={22} />
+              </button>
+              <QuestBoard board={questBoard} quests={scheduledQuests()} onClaim={collectQuest} />
+              <div className="mt-6 flex items-center justify-center gap-2 text-sm">
+                <input
+                  value={seedInput}
+                  onChange={e => setSeedInput(e.target.value)}
+                  placeholder={t('home.seedPlaceholder')}
+                  className="w-40 px-3 py-2 bg-black/30 border border-yellow-500/30 rounded-full text-center text-yellow-100 placeholder:text-yellow-100/30 uppercase tracking-widest focus:outline-none focus:border-yellow-400"
+                />
+                <button
+                  onClick={() => startFreeGame(dailySeed())}
+                  className="px-4 py-2 bg-white/10 hover:bg-white/20 border border-yellow-500/30 rounded-full text-yellow-300 font-bold transition-colors"
+                >
+                  {t('home.daily')}
+                </button>
+              </div>
+
+              {/* Online rooms */}
+              <div className="mt-6 flex flex-wrap items-center justify-center gap-2 text-sm">
+                <Users size={16} className="text-yellow-100/70" />
+                <input
+                  value={playerName}
+                  onChange={e => setPlayerName(e.target.value)}
+                  placeholder={t('home.namePlaceholder')}
+                  maxLength={16}
+                  className="w-28 px-3 py-2 bg-black/30 border border-yellow-500/30 rounded-full text-center text-yellow-100 placeholder:text-yellow-100/30 focus:outline-none focus:border-yellow-400"
+                />
+                <button
+                  onClick={createRoom}
+                  title={t('home.createRoomHint')}
+                  className="px-4 py-2 bg-white/10 hover:bg-white/20 border border-yellow-500/30 rounded-full text-yellow-300 font-bold transition-colors"
+                >
+                  {t('home.createRoom')}
+                </button>
+                <form
+                  onSubmit={e => {
+                    e.preventDefault();
+                    joinRoom();
+                  }}
+                  className="flex items-center gap-2"
+                >
+                  <input
+                    value={roomCodeInput}
+                    onChange={e => setRoomCodeInput(e.target.value)}
+                    placeholder={t('home.roomCodePlaceholder')}
+                    maxLength={4}
+                    className="w-24 px-3 py-2 bg-black/30 border border-yellow-500/30 rounded-full text-center text-yellow-100 placeholder:text-yellow-100/30 uppercase tracking-widest focus:outline-none focus:border-yellow-400"
+                  />
+                  <button
+                    type="submit"
+                    className="px-4 py-2 bg-white/10 hover:bg-white/20 border border-yellow-500/30 rounded-full text-yellow-300 font-bold transition-colors"
+                  >
+                    {t('home.join')}
+                  </button>
+                </form>
+              </div>
+              {roomError && !room && <p className="mt-2 text-sm text-red-300">{t.message(roomError)}</p>}
+
+              {/* Table setup */}
+              <div className="mt-8">
+                <div className="flex items-center justify-center gap-2 mb-3 text-sm">
+                  <span className="text-yellow-100/70">{t('home.players')}</span>
+                  {Array.from({ length: MAX_SEATS - MIN_SEATS + 1 }, (_, i) => MIN_SEATS + i).map(count => (
+                    <button
+                      key={count}
+                      onClick={() => setOpponentKinds(prev => Array.from({ length: count - 1 }, (_, i) => prev[i] ?? 'ai'))}
+                      className={`w-8 h-8 rounded-full font-bold border transition-colors ${opponentKinds.length + 1 === count ? 'bg-yellow-500 text-red-950 border-yellow-500' : 'bg-white/5 text-yellow-200 border-yellow-500/30 hover:bg-white/10'}`}
+                    >
+                      {count}
+                    </button>
+                  ))}
+                </div>
+                <div className="flex flex-wrap justify-center gap-2">
+                  {createTable(opponentKinds, tableNames).map((seat, i) => (
+                    <button
+                      key={seat.id}
+                      disabled={i === 0}
+                      onClick={() => setOpponentKinds(prev => prev.map((kind, j) => j === i - 1 ? (kind === 'ai' ? 'human' : 'ai') : kind))}
+                      title={i === 0 ? undefined : t('home.toggleSeat')}
+                      className={`px-3 py-1.5 rounded-xl text-sm border transition-colors ${seat.kind === 'human' ? 'bg-yellow-500/20 border-yellow-500/50 text-yellow-100' : 'bg-emerald-900/40 border-emerald-500/30 text-emerald-200'} ${i === 0 ? 'cursor-default' : 'hover:bg-white/10'}`}
+                    >
+                      {seat.kind === 'human' ? '🧒' : '🤖'} {seat.name}
+                    </button>
+                  ))}
+                </div>
+              </div>
+
+              {/* Difficulty picker */}
+              <div className="mt-6 flex items-center justify-center gap-2 text-sm">
+                <span className="text-yellow-100/70">{t('home.difficulty')}</span>
+                {AI_LEVELS.map(level => (
+                  <button
+                    key={level.id}
+                    onClick={() => setDifficulty(level.id)}
+                    title={t.text(`ai.${level.id}.desc`)}
+                    className={`px-4 py-1.5 rounded-full font-bold border transition-colors ${difficulty === level.id ? 'bg-yellow-500 text-red-950 border-yellow-500' : 'bg-white/5 text-yellow-200 border-yellow-500/30 hover:bg-white/10'}`}
+                  >
+                    {t.text(`ai.${level.id}.name`)}
+                  </button>
+                ))}
+              </div>
+
+              {/* Match picker */}
+              <div className="mt-4 flex items-center justify-center gap-2 text-sm" title={t('home.matchHint')}>
+                <span className="text-yellow-100/70">{t('home.match')}</span>
+                {[null, ...MATCH_TARGETS].map(target => (
+                  <button
+                    key={target ?? 'single'}
+                    onClick={() => setMatchTarget(target)}
+                    className={`px-4 py-1.5 rounded-full font-bold border transition-colors ${matchTarget === target ? 'bg-yellow-500 text-red-950 border-yellow-500' : 'bg-white/5 text-yellow-200 border-yellow-500/30 hover:bg-white/10'}`}
+                  >
+                    {target ? t('home.matchTarget', { target }) : t('home.matchSingle')}
+                  </button>
+                ))}
+              </div>
+
+              <label className="mt-4 flex items-center justify-center gap-2 text-sm cursor-pointer" title={t('home.casualHint')}>
+                <input
+                  type="checkbox"
+                  checked={casual}
+                  onChange={e => setCasual(e.target.checked)}
+                  className="accent-yellow-500"
+                />
+                <span className="text-yellow-100">{t('home.casual')}</span>
+              </label>
+              <label className="mt-2 flex items-center justify-center gap-2 text-sm cursor-pointer" title={t('home.guideHint')}>
+                <input
+                  type="checkbox"
+                  checked={guideEnabled}
+                  onChange={e => setGuideEnabled(e.target.checked)}
+                  className="accent-yellow-500"
+                />
+                <span className="text-yellow-100">{t('home.guide')}</span>
+              </label>
+              <div className="mt-2 flex items-center justify-center gap-6">
+                <label className="flex items-center gap-2 text-sm cursor-pointer" title={t('home.fourColorHint')}>
+                  <input
+                    type="checkbox"
+                    checked={fourColorDeck}
+                    onChange={e => setFourColorDeck(e.target.checked)}
+                    className="accent-yellow-500"
+                  />
+                  <span className="text-yellow-100">{t('home.fourColor')}</span>
+                </label>
+                <label className="flex items-center gap-2 text-sm cursor-pointer" title={t('home.reduceMotionHint')}>
+                  <input
+                    type="checkbox"
+                    checked={reduceMotion}
+                    onChange={e => setReduceMotion(e.target.checked)}
+                    className="accent-yellow-500"
+                  />
+                  <span className="text-yellow-100">{t('home.reduceMotion')}</span>
+                </label>
+              </div>
+              <div className="mt-2 flex items-center justify-center gap-4 text-sm">
+                <button
+                  onClick={() => setMuted(prev => !prev)}
+                  aria-pressed={muted}
+                  title={muted ? t('home.unmute') : t('home.mute')}
+                  className="p-1.5 rounded-full text-yellow-400 hover:bg-white/10 transition-colors"
+                >
+                  {muted ? <VolumeX size={18} /> : <Volume2 size={18} />}
+                </button>
+                {([
+                  ['home.sfxVolume', sfxVolume, setSfxVolume],
+                  ['home.musicVolume', musicVolume, setMusicVolume],
+                ] as const).map(([key, volume, setVolume]) => (
+                  <label key={key} className={`flex items-center gap-2 ${muted ? 'opacity-40' : ''}`}>
+                    <span className="text-yellow-100">{t(key)}</span>
+                    <input
+                      type="range"
+                      min={0}
+                      max={1}
+                      step={0.05}
+                      value={volume}
+                      onChange={e => setVolume(Number(e.target.value))}
+                      className="w-24 accent-yellow-500"
+                    />
+                  </label>
+                ))}
+              </div>
+
+              {/* Rule set picker */}
+              <div className="mt-8 text-left">
+                <div className="flex justify-center gap-2 mb-4">
+                  {RULE_PRESETS.map(preset => (
+                    <button
+                      key={preset.id}
+                      onClick={() => setRules(preset.rules)}
+                      className={`px-4 py-1.5 rounded-full text-sm font-bold border transition-colors ${findPreset(rules)?.id === preset.id ? 'bg-yellow-500 text-red-950 border-yellow-500' : 'bg-white/5 text-yellow-200 border-yellow-500/30 hover:bg-white/10'}`}
+                    >
+                      {t.text(`preset.${preset.id}`)}
+                    </button>
+                  ))}
+                </div>
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+                  {RULE_OPTIONS.map(option => {
+                    const disabled = option.requires !== undefined && !rules[option.requires];
+                    return (
+                      <label
+                        key={option.key}
+                        title={t.text(`rule.${option.key}.desc`)}
+                        className={`flex items-center gap-2 px-3 py-2 rounded-xl bg-black/20 border border-white/5 text-sm ${disabled ? 'opacity-40' : 'cursor-pointer hover:bg-black/30'}`}
+                      >
+                        <input
+                          type="checkbox"
+                          checked={rules[option.key] && !disabled}
+                          disabled={disabled}
+                          onChange={e => setRules(prev => ({ ...prev, [option.key]: e.target.checked }))}
+                          className="accent-yellow-500"
+                        />
+                        <span className="text-yellow-100">{t.text(`rule.${option.key}.name`)}</span>
+                      </label>
+                    );
+                  })}
+                </div>
+              </div>
+            </motion.div>
+
+            {/* Rules at the bottom corner */}
+            <div className="absolute bottom-6 right-6 z-20 max-w-xs">
+              <RulesContent rules={rules} />
+            </div>
+
+            <AnimatePresence>
+              {showCampaign && (
+                <CampaignMap
+                  progress={campaign}
+                  cardBack={cardBack}
+                  onPlay={stage => {
+                    setShowCampaign(false);
+                    initGame(randomSeed(), stage);
+                  }}
+                  onShowFact={setFactStage}
+                  onChooseBack={setCardBack}
+                  onClose={() => setShowCampaign(false)}
+                />
+              )}
+            </AnimatePresence>
+            <AnimatePresence>
+              {showPuzzles && (
+                <PuzzlePicker
+                  progress={puzzles}
+                  onPlay={startPuzzle}
+                  onClose={() => setShowPuzzles(false)}
+                />
+              )}
+            </AnimatePresence>
+            <AnimatePresence>
+              {factStage && <StageFact stage={factStage} onClose={() => setFactStage(null)} />}
+            </AnimatePresence>
+            <AnimatePresence>
+              {showStats && <StatsScreen stats={stats} seat={HOST_SEAT} onClose={() => setShowStats(false)} />}
+            </AnimatePresence>
+            <AnimatePresence>
+              {showThemes && (
+                <ThemePicker
+                  selected={deck.id}
+                  progress={{ inventory, campaign, stats }}
+                  fourColorDeck={fourColorDeck}
+                  onChoose={setDeckTheme}
+                  onClose={() => setShowThemes(false)}
+                />
+              )}
+            </AnimatePresence>
+
+            <AnimatePresence>
+              {room && !room.playing && (
+                <RoomLobby
+                  room={room}
+                  seatId={viewerId}
+                  error={roomError}
+                  onStart={() => roomConnection.current?.send({ type: 'start' })}
+                  onLeave={leaveRoom}
+                />
+              )}
+            </AnimatePresence>
+
+            <UpdatePrompt />
           </div>
-          <h1 className="text-4xl sm:text-5xl font-bold mb-6 text-yellow-400 tracking-tight">
-            欢迎来玩<br/>Kiki 的锦绣中国·8点中国
-          </h1>
-          <p className="text-yellow-100/70 mb-10 text-lg">
-            领略大好山河，体验经典纸牌乐趣。
-          </p>
-          <button
-            onClick={() => setShowHome(false)}
-            className="px-12 py-4 bg-yellow-500 hover:bg-yellow-400 text-red-950 font-bold text-xl rounded-full transition-all hover:scale-105 active:scale-95 shadow-lg shadow-yellow-500/30"
-          >
-            开始游戏
-          </button>
-        </motion.div>
-
-        {/* Rules at the bottom corner */}
-        <div className="absolute bottom-6 right-6 z-20 max-w-xs">
-          <RulesContent />
-        </div>
-      </div>
+        </MotionConfig>
+        </ThemeContext.Provider>
+      </I18nContext.Provider>
     );
   }
 
   return (
-    <div className="min-h-screen bg-red-950 text-white font-sans selection:bg-red-800 overflow-hidden flex flex-col relative">
-      {/* Background Image */}
-      <div className="fixed inset-0 z-0 opacity-20 pointer-events-none">
-        <img 
-          src="https://picsum.photos/seed/tiananmen/1920/1080" 
-          alt="Tiananmen Background" 
-          className="w-full h-full object-cover"
-          referrerPolicy="no-referrer"
-        />
-      </div>
-
-      {/* Header */}
-      <header className="p-4 flex justify-between items-center bg-red-900/40 backdrop-blur-md border-b border-yellow-500/30 z-10">
-        <div className="flex items-center gap-3">
-          <div className="w-10 h-10 bg-yellow-500 rounded-lg flex items-center justify-center shadow-lg shadow-yellow-500/20">
-            <span className="text-2xl font-bold text-red-900">8</span>
-          </div>
-          <h1 className="text-xl font-bold tracking-tight text-yellow-400">Kiki 的锦绣中国·8点中国</h1>
-        </div>
-        <div className="flex items-center gap-4">
-          <div className="flex items-center gap-1 bg-yellow-500/20 px-3 py-1 rounded-full border border-yellow-500/30 mr-2">
-            <span className="text-yellow-400">★</span>
-            <span className="font-bold text-yellow-400">{stars}</span>
+    <I18nContext.Provider value={t}>
+      <ThemeContext.Provider value={deck}>
+      <MotionConfig reducedMotion={reduceMotion ? 'always' : 'user'}>
+        <div className="min-h-screen bg-(--felt) text-white font-sans selection:bg-red-800 overflow-hidden flex flex-col relative">
+          {/* Background Image */}
+          <div className="fixed inset-0 z-0 opacity-20 pointer-events-none">
+            <img 
+              src={deck.table} 
+              alt="" 
+              className="w-full h-full object-cover"
+            />
           </div>
-          <button 
-            onClick={() => setShowHome(true)}
-            className="p-2 hover:bg-white/10 rounded-full transition-colors text-yellow-400"
-            title="返回主页"
-          >
-            <RotateCcw size={20} />
-          </button>
-        </div>
-      </header>
-
-      {/* Main Game Area */}
-      <main className="flex-1 relative p-4 flex flex-col items-center justify-between max-w-6xl mx-auto w-full">
-        
-        {/* Inventory Bar */}
-        <div className="absolute left-4 top-1/2 -translate-y-1/2 flex flex-col gap-3 z-20">
-          {prizes.filter(p => p.id !== 'p2').map(prize => (
-            <motion.button
-              key={prize.id}
-              whileHover={{ scale: 1.1 }}
-              whileTap={{ scale: 0.9 }}
-              onClick={() => useItem(prize.id)}
-              disabled={inventory[prize.id] <= 0 || gameState.status !== 'playing'}
-              className={`
-                w-12 h-12 rounded-xl flex items-center justify-center relative shadow-lg border transition-all
-                ${inventory[prize.id] > 0 && gameState.status === 'playing' 
-                  ? 'bg-red-800 border-yellow-500/50 cursor-pointer' 
-                  : 'bg-black/40 border-white/10 opacity-40 cursor-not-allowed'}
-              `}
-              title={prize.desc}
-            >
-              <span className="text-2xl">{prize.icon}</span>
-              {inventory[prize.id] > 0 && (
-                <span className="absolute -top-2 -right-2 w-5 h-5 bg-yellow-500 text-red-950 text-[10px] font-bold rounded-full flex items-center justify-center border border-red-950">
-                  {inventory[prize.id]}
-                </span>
+
+          {/* Header */}
+          <header className="p-4 flex justify-between items-center bg-red-900/40 backdrop-blur-md border-b border-yellow-500/30 z-10">
+            <div className="flex items-center gap-3">
+              <div className="w-10 h-10 bg-yellow-500 rounded-lg flex items-center justify-center shadow-lg shadow-yellow-500/20">
+                <span className="text-2xl font-bold text-red-900">8</span>
+              </div>
+              <h1 className="text-xl font-bold tracking-tight text-yellow-400">{t('app.title')}</h1>
+            </div>
+            <div className="flex items-center gap-4">
+              {stage && !room && (
+                <div className="hidden sm:flex items-center gap-1 bg-black/20 px-3 py-1 rounded-full border border-yellow-500/20 text-xs">
+                  <span>{stage.icon}</span>
+                  <span className="text-yellow-100 font-bold">{t.text(`stage.${stage.id}.name`)}</span>
+                  <span className="text-yellow-500/60">{t('header.goal', { goal: { key: `stage.${stage.id}.goal` } })}</span>
+                </div>
+              )}
+              {puzzle && (
+                <div className="flex items-center gap-1 bg-black/20 px-3 py-1 rounded-full border border-yellow-500/20 text-xs">
+                  <PuzzleIcon size={14} className="text-yellow-400" />
+                  <span className="text-yellow-100 font-bold">{t.text(`puzzle.${puzzle.id}.title`)}</span>
+                  <span className="text-yellow-500/60">{t('header.puzzleMoves', { made: movesMade(game, HOST_SEAT), moves: puzzle.moves })}</span>
+                </div>
+              )}
+              {activeMatch && (
+                <button
+                  onClick={() => setShowScoreboard(true)}
+                  title={t('header.matchHint')}
+                  className="flex items-center gap-1 bg-black/20 hover:bg-black/30 px-3 py-1 rounded-full border border-yellow-500/20 text-xs transition-colors"
+                >
+                  <Trophy size={14} className="text-yellow-400" />
+                  <span className="text-yellow-100 font-bold">
+                    {t('header.match', {
+                      n: activeMatch.rounds.length + (gameOver ? 0 : 1),
+                      score: matchScores(activeMatch)[viewerId] ?? 0,
+                      target: activeMatch.target,
+                    })}
+                  </span>
+                </button>
+              )}
+              {room ? (
+                <div className="flex items-center gap-2">
+                  {roomStatus !== 'open' && (
+                    <div className="flex items-center gap-1 text-xs text-red-300" title={t('header.reconnectingHint')}>
+                      <WifiOff size={14} />
+                      {t('header.reconnecting')}
+                    </div>
+                  )}
+                  {turnDeadline && <TurnTimer deadline={turnDeadline} />}
+                  <div className="flex items-center gap-1 bg-black/20 px-3 py-1 rounded-full border border-yellow-500/20 text-xs">
+                    <span className="text-yellow-500/60 font-bold">{t('header.room')}</span>
+                    <span className="text-yellow-100 font-mono tracking-widest">{room.code}</span>
+                  </div>
+                </div>
+              ) : !puzzle && (
+                <form
+                  onSubmit={e => {
+                    e.preventDefault();
+                    initGame(seedInput, stage ?? null, activeMatch);
+                  }}
+                  className="hidden sm:flex items-center gap-1 bg-black/20 px-3 py-1 rounded-full border border-yellow-500/20 text-xs"
+                  title={t('header.seedHint')}
+                >
+                  <span className="text-yellow-500/60 font-bold">{t('header.seed')}</span>
+                  <input
+                    value={seedInput}
+                    onChange={e => setSeedInput(e.target.value)}
+                    className="w-32 bg-transparent text-yellow-100 font-mono uppercase tracking-widest focus:outline-none"
+                  />
+                </form>
               )}
-            </motion.button>
-          ))}
-          {inventory.p2 > 0 && (
-            <div className="w-12 h-12 rounded-xl bg-yellow-500/20 border border-yellow-500/50 flex items-center justify-center shadow-lg" title={prizes[1].desc}>
-              <span className="text-2xl grayscale-0">{prizes[1].icon}</span>
+              <div className="flex items-center gap-1 bg-yellow-500/20 px-3 py-1 rounded-full border border-yellow-500/30 mr-2">
+                <span className="text-yellow-400">★</span>
+                <span className="font-bold text-yellow-400">{stars}</span>
+              </div>
+              <button
+                onClick={() => setMuted(prev => !prev)}
+                aria-pressed={muted}
+                className="p-2 hover:bg-white/10 rounded-full transition-colors text-yellow-400"
+                title={muted ? t('home.unmute') : t('home.mute')}
+              >
+                {muted ? <VolumeX size={20} /> : <Volume2 size={20} />}
+              </button>
+              <button 
+                onClick={() => {
+                  if (room) leaveRoom();
+                  setTutorialStep(null);
+                  setPuzzleId(null);
+                  setShowHome(true);
+                  setSeedInput('');
+                }}
+                className="p-2 hover:bg-white/10 rounded-full transition-colors text-yellow-400"
+                title={room ? t('header.leaveRoom') : t('header.home')}
+              >
+                <RotateCcw size={20} />
+              </button>
             </div>
-          )}
-        </div>
+          </header>
 
-        {/* AI Hand */}
-        <div className="w-full flex flex-col items-center gap-2">
-          <div className="flex items-center gap-2 text-emerald-300 text-sm font-medium uppercase tracking-wider">
-            <span>AI 对手</span>
-            <span className="px-2 py-0.5 bg-emerald-800 rounded-full text-xs">{gameState.aiHand.length} 张</span>
-          </div>
-          <div className="flex justify-center -space-x-12 sm:-space-x-16 h-32 sm:h-40 items-center">
-            {gameState.aiHand.map((card, index) => (
-              <CardComponent 
-                key={card.id} 
-                card={card} 
-                isFaceUp={false} 
-                className="shadow-xl"
-              />
-            ))}
-          </div>
-        </div>
+          {/* Main Game Area */}
+          <main className="flex-1 relative p-4 flex flex-col items-center justify-between max-w-6xl mx-auto w-full">
+          
+            {/* Inventory Bar (online rooms and casual games are played without items) */}
+            {itemsAllowed && (
+              <div className="absolute left-4 top-1/2 -translate-y-1/2 flex flex-col gap-3 z-20">
+                {ITEMS.filter(item => item.use).map(item => (
+                  <motion.button
+                    key={item.id}
+                    whileHover={{ scale: 1.1 }}
+                    whileTap={{ scale: 0.9 }}
+                    onClick={() => useItem(item.id)}
+                    disabled={!canSpendItem(item.id)}
+                    data-spotlight={(tutorialExpects?.type === 'useItem' && tutorialExpects.itemId === item.id) || undefined}
+                    className={`
+                      w-12 h-12 rounded-xl flex items-center justify-center relative shadow-lg border transition-all
+                      ${canSpendItem(item.id)
+                        ? 'bg-red-800 border-yellow-500/50 cursor-pointer' 
+                        : 'bg-black/40 border-white/10 opacity-40 cursor-not-allowed'}
+                      ${targeting?.itemId === item.id ? 'ring-2 ring-yellow-400' : ''}
+                    `}
+                    title={t.text(`item.${item.id}.desc`)}
+                  >
+                    <span className="text-2xl">{item.icon}</span>
+                    {itemsHeld[item.id] > 0 && (
+                      <span className="absolute -top-2 -right-2 w-5 h-5 bg-yellow-500 text-red-950 text-[10px] font-bold rounded-full flex items-center justify-center border border-red-950">
+                        {itemsHeld[item.id]}
+                      </span>
+                    )}
+                  </motion.button>
+                ))}
+                {/* Passive items just sit here while they work */}
+                {ITEMS.filter(item => !item.use && !item.theme && !item.hint && itemsHeld[item.id] > 0).map(item => (
+                  <div key={item.id} className="w-12 h-12 rounded-xl bg-yellow-500/20 border border-yellow-500/50 flex items-center justify-center shadow-lg" title={t.text(`item.${item.id}.desc`)}>
+                    <span className="text-2xl grayscale-0">{item.icon}</span>
+                  </div>
+                ))}
+              </div>
+            )}
 
-        {/* Center Table */}
-        <div className="flex flex-col sm:flex-row items-center gap-8 sm:gap-16 my-4">
-          {/* Deck */}
-          <div className="relative group">
-            <div className="absolute -inset-1 bg-emerald-400/20 rounded-xl blur opacity-0 group-hover:opacity-100 transition duration-500"></div>
-            <div 
-              onClick={() => gameState.currentTurn === 'player' && gameState.status === 'playing' && drawCard(true)}
-              className={`
-                relative w-20 h-28 sm:w-24 sm:h-36 bg-indigo-800 rounded-lg border-2 border-indigo-900 shadow-2xl flex items-center justify-center cursor-pointer
-                ${gameState.currentTurn === 'player' ? 'hover:scale-105 active:scale-95' : 'opacity-50 cursor-not-allowed'}
-                transition-all
-              `}
-            >
-              <div className="text-indigo-300/50 text-xs font-bold uppercase tracking-widest rotate-90">
-                摸牌堆 ({gameState.deck.length})
+            {/* Opponents */}
+            <div className="w-full flex justify-center gap-8 sm:gap-12">
+              {topOpponents.map(seat => (
+                <OpponentSeat
+                  key={seat.id}
+                  seat={seat}
+                  isCurrent={seat.id === gameState.currentTurn}
+                  compact={opponents.length > 1}
+                  revealed={revealed.includes(seat.id)}
+                  backImage={backImage}
+                />
+              ))}
+            </div>
+
+            {/* Center Table */}
+            <div className="flex items-center justify-center gap-6 sm:gap-12 w-full">
+            {leftOpponent && (
+              <OpponentSeat seat={leftOpponent} isCurrent={leftOpponent.id === gameState.currentTurn} compact revealed={revealed.includes(leftOpponent.id)} backImage={backImage} />
+            )}
+            <div className="flex flex-col sm:flex-row items-center gap-8 sm:gap-16 my-4">
+              {/* Deck */}
+              <motion.div
+                key={`reshuffle-${gameState.reshuffles}`}
+                initial={gameState.reshuffles > 0 ? { rotate: -180, scale: 0.6, opacity: 0 } : false}
+                animate={{ rotate: 0, scale: 1, opacity: 1 }}
+                transition={{ type: 'spring', stiffness: 120, damping: 14 }}
+                className="relative group"
+              >
+                <div className="absolute -inset-1 bg-emerald-400/20 rounded-xl blur opacity-0 group-hover:opacity-100 transition duration-500"></div>
+                <div 
+                  onClick={() => act({ type: 'draw', seat: viewerId })}
+                  onKeyDown={event => {
+                    if (event.key !== 'Enter' && event.key !== ' ') return;
+                    event.preventDefault();
+                    act({ type: 'draw', seat: viewerId });
+                  }}
+                  role="button"
+                  tabIndex={0}
+                  aria-label={t('table.deckLabel', { count: gameState.deck.length })}
+                  aria-disabled={gameState.currentTurn !== viewerId}
+                  data-spotlight={tutorialExpects?.type === 'draw' || undefined}
+                  className={`
+                    relative w-20 h-28 sm:w-24 sm:h-36 bg-indigo-800 rounded-lg border-2 border-indigo-900 shadow-2xl flex items-center justify-center cursor-pointer outline-none focus-visible:ring-4 focus-visible:ring-sky-400
+                    ${gameState.currentTurn === viewerId ? 'hover:scale-105 active:scale-95' : 'opacity-50 cursor-not-allowed'}
+                    ${shownHint?.action.type === 'draw' ? 'ring-4 ring-emerald-400 animate-pulse' : ''}
+                    transition-all
+                  `}
+                >
+                  {backImage && (
+                    <img src={backImage} alt="" className="absolute inset-0 w-full h-full object-cover rounded-md opacity-40" />
+                  )}
+                  <div className="relative text-indigo-300/50 text-xs font-bold uppercase tracking-widest rotate-90">
+                    {t('table.deck', { count: gameState.deck.length })}
+                  </div>
+                  {/* Stack effect */}
+                  <div className="absolute -top-1 -left-1 w-full h-full bg-indigo-800 rounded-lg border-2 border-indigo-900 -z-10"></div>
+                  <div className="absolute -top-2 -left-2 w-full h-full bg-indigo-800 rounded-lg border-2 border-indigo-900 -z-20"></div>
+                </div>
+              </motion.div>
+
+              {/* Discard Pile */}
+              <div className="flex flex-col items-center gap-3">
+                <div className="relative" role="img" aria-label={discardLabel}>
+                  <AnimatePresence mode="wait">
+                    {topDiscard && (
+                      <CardComponent 
+                        key={topDiscard.id}
+                        card={topDiscard} 
+                        className="shadow-2xl ring-4 ring-white/10"
+                      />
+                    )}
+                  </AnimatePresence>
+                  {gameState.wildSuit && (
+                    <motion.div 
+                      initial={{ scale: 0, opacity: 0 }}
+                      animate={{ scale: 1, opacity: 1 }}
+                      className="absolute -top-4 -right-4 w-10 h-10 bg-white rounded-full shadow-lg flex items-center justify-center border-2 border-emerald-500"
+                    >
+                      <span className={`text-2xl ${getSuitColor(gameState.wildSuit)}`}>
+                        {getSuitSymbol(gameState.wildSuit)}
+                      </span>
+                    </motion.div>
+                  )}
+                  {gameState.pendingDraw > 0 && (
+                    <motion.div
+                      key={gameState.pendingDraw}
+                      initial={{ scale: 0, opacity: 0 }}
+                      animate={{ scale: 1, opacity: 1 }}
+                      className="absolute -bottom-3 -left-3 px-2 h-8 min-w-8 bg-red-600 rounded-full shadow-lg flex items-center justify-center border-2 border-yellow-400 text-sm font-bold"
+                    >
+                      +{gameState.pendingDraw}
+                    </motion.div>
+                  )}
+                </div>
+                <div className="text-xs text-emerald-200/60 font-medium uppercase tracking-widest">
+                  {t('table.discard')}
+                </div>
+                {gameState.seats.length > 2 && (
+                  <div className="text-xs text-yellow-200/60 font-medium">
+                    {t('table.direction', { arrow: gameState.direction === 1 ? '↻' : '↺' })}
+                  </div>
+                )}
               </div>
-              {/* Stack effect */}
-              <div className="absolute -top-1 -left-1 w-full h-full bg-indigo-800 rounded-lg border-2 border-indigo-900 -z-10"></div>
-              <div className="absolute -top-2 -left-2 w-full h-full bg-indigo-800 rounded-lg border-2 border-indigo-900 -z-20"></div>
             </div>
-          </div>
+            {rightOpponent && (
+              <OpponentSeat seat={rightOpponent} isCurrent={rightOpponent.id === gameState.currentTurn} compact revealed={revealed.includes(rightOpponent.id)} backImage={backImage} />
+            )}
+            </div>
 
-          {/* Discard Pile */}
-          <div className="flex flex-col items-center gap-3">
-            <div className="relative">
-              <AnimatePresence mode="wait">
-                {topDiscard && (
-                  <CardComponent 
-                    key={topDiscard.id}
-                    card={topDiscard} 
-                    className="shadow-2xl ring-4 ring-white/10"
+            {/* Player Hand */}
+            <div className="w-full flex flex-col items-center gap-4 z-10">
+              <div className="flex items-center gap-4">
+                 <div role="status" aria-live="polite" className="px-4 py-1.5 bg-red-900/60 backdrop-blur-md rounded-full border border-yellow-500/30 text-sm font-medium text-yellow-100">
+                    {t.message(gameState.message)}
+                 </div>
+                 {canUndo && !gameOver && (
+                   <button
+                     onClick={undo}
+                     className="flex items-center gap-1 px-3 py-1.5 bg-white/10 hover:bg-white/20 rounded-full border border-yellow-500/30 text-sm text-yellow-200 transition-colors"
+                     title={t('table.undoHint')}
+                   >
+                     <Undo2 size={16} />
+                     {t('table.undo')}
+                   </button>
+                 )}
+                 {!replaying && gameState.currentTurn === viewerId && !gameOver && viewer?.kind === 'human' && tutorialStep === null && !puzzle && (
+                   <button
+                     onClick={takeHint}
+                     disabled={!canHint}
+                     aria-keyshortcuts="H"
+                     className="flex items-center gap-1 px-3 py-1.5 bg-white/10 hover:bg-white/20 disabled:opacity-40 disabled:hover:bg-white/10 rounded-full border border-yellow-500/30 text-sm text-yellow-200 transition-colors"
+                     title={freeHintsLeft > 0 || boughtHintsLeft > 0 ? t('table.hintHint') : t('table.noHints')}
+                   >
+                     <Lightbulb size={16} />
+                     {t('table.hint', { count: freeHintsLeft + boughtHintsLeft })}
+                   </button>
+                 )}
+                 {guideEnabled && !replaying && gameState.currentTurn === viewerId && !gameOver && (
+                   <button
+                     onClick={askForAdvice}
+                     className="flex items-center gap-1 px-3 py-1.5 bg-white/10 hover:bg-white/20 rounded-full border border-yellow-500/30 text-sm text-yellow-200 transition-colors"
+                     title={t('table.askGuideHint')}
+                   >
+                     <Compass size={16} />
+                     {t('table.askGuide')}
+                   </button>
+                 )}
+              </div>
+              <AnimatePresence>
+                {targetItem && (
+                  <ItemTargetPicker
+                    item={targetItem}
+                    opponents={opponents}
+                    cardIds={pickedCardIds}
+                    cardsNeeded={cardsNeeded}
+                    onPick={target => spendItem(targetItem.id, target)}
+                    onCancel={() => setTargeting(null)}
                   />
                 )}
               </AnimatePresence>
-              {gameState.wildSuit && (
-                <motion.div 
-                  initial={{ scale: 0, opacity: 0 }}
-                  animate={{ scale: 1, opacity: 1 }}
-                  className="absolute -top-4 -right-4 w-10 h-10 bg-white rounded-full shadow-lg flex items-center justify-center border-2 border-emerald-500"
-                >
-                  <span className={`text-2xl ${getSuitColor(gameState.wildSuit)}`}>
-                    {getSuitSymbol(gameState.wildSuit)}
-                  </span>
-                </motion.div>
+              {shownHint && (
+                <div role="status" className="flex items-center gap-2 -mt-2 px-4 py-1.5 bg-black/30 rounded-full border border-emerald-500/30 text-sm text-emerald-100 max-w-xl">
+                  <Lightbulb size={14} className="shrink-0 text-emerald-300" />
+                  <span>{t.message(shownHint.reason)}</span>
+                </div>
+              )}
+              {!shownHint && hintFailed?.seed === game.seed && hintFailed.at === game.log.length && (
+                <div role="alert" className="flex items-center gap-2 -mt-2 px-4 py-1.5 bg-black/30 rounded-full border border-red-500/30 text-sm text-red-200 max-w-xl">
+                  <Lightbulb size={14} className="shrink-0 text-red-300" />
+                  <span>{t('table.hintFailed')}</span>
+                </div>
+              )}
+              {guideEnabled && guideLine && !replaying && (
+                <div className="flex items-center gap-2 -mt-2 px-4 py-1.5 bg-black/30 rounded-full border border-emerald-500/30 text-sm text-emerald-100 max-w-xl">
+                  <Compass size={14} className="shrink-0 text-emerald-300" />
+                  <span>{t('table.guideSays', { text: guideLine })}</span>
+                </div>
               )}
+            
+              <div
+                role="group"
+                aria-label={t('table.hand')}
+                onKeyDown={onHandKeyDown}
+                className="flex justify-center -space-x-8 sm:-space-x-12 h-40 sm:h-48 items-end pb-4 overflow-x-auto w-full px-8 no-scrollbar"
+              >
+                {viewer?.hand.map((card) => (
+                  targetKind?.type === 'cards' ? (
+                    <CardComponent
+                      key={card.id}
+                      card={card}
+                      isPlayable
+                      isSelected={pickedCardIds.includes(card.id)}
+                      onClick={() => toggleTargetCard(card.id)}
+                    />
+                  ) : (
+                    <CardComponent 
+                      key={card.id} 
+                      card={card} 
+                      isPlayable={!replaying && isCardPlayable(gameState, viewerId, card)}
+                      isHinted={shownHint?.action.type === 'play' && shownHint.action.cardId === card.id}
+                      spotlight={tutorialExpects?.type === 'play' && tutorialExpects.cardId === card.id}
+                      onClick={() => act({ type: 'play', seat: viewerId, cardId: card.id })}
+                    />
+                  )
+                ))}
+              </div>
             </div>
-            <div className="text-xs text-emerald-200/60 font-medium uppercase tracking-widest">
-              弃牌堆
+
+            {/* Game Rules & Shop Footer */}
+            <div className="absolute bottom-2 right-4 z-20 flex gap-4">
+              <span className="hidden sm:inline text-[10px] tracking-widest text-yellow-500/40">{t('table.keysHint')}</span>
+              <button 
+                onClick={() => setShowShop(true)}
+                className="flex items-center gap-2 text-yellow-500/60 hover:text-yellow-400 transition-colors"
+              >
+                <span className="text-[10px] uppercase tracking-widest font-bold">{t('shop.title')}</span>
+              </button>
+              <div className="group relative">
+                <div className="flex items-center gap-2 text-yellow-500/60 hover:text-yellow-400 cursor-help transition-colors">
+                  <Info size={16} />
+                  <span className="text-[10px] uppercase tracking-widest font-bold">{t('table.rules')}</span>
+                </div>
+                <div className="absolute bottom-full right-0 mb-2 w-64 opacity-0 group-hover:opacity-100 pointer-events-none transition-opacity">
+                  <RulesContent rules={gameState.rules} />
+                </div>
+              </div>
             </div>
-          </div>
-        </div>
+          </main>
 
-        {/* Player Hand */}
-        <div className="w-full flex flex-col items-center gap-4 z-10">
-          <div className="flex items-center gap-4">
-             <div className="px-4 py-1.5 bg-red-900/60 backdrop-blur-md rounded-full border border-yellow-500/30 text-sm font-medium text-yellow-100">
-                {message}
-             </div>
-          </div>
-          
-          <div className="flex justify-center -space-x-8 sm:-space-x-12 h-40 sm:h-48 items-end pb-4 overflow-x-auto w-full px-8 no-scrollbar">
-            {gameState.playerHand.map((card) => (
-              <CardComponent 
-                key={card.id} 
-                card={card} 
-                isPlayable={isCardPlayable(card)}
-                onClick={() => playCard(card, true)}
+          <AnimatePresence>
+            {showShop && <PrizeShop />}
+          </AnimatePresence>
+
+          {tutorialStep !== null && (
+            <TutorialOverlay
+              step={TUTORIAL_STEPS[tutorialStep]}
+              done={tutorialMoveMade}
+              offScript={offScript}
+              onNext={nextTutorialStep}
+              onQuit={() => {
+                setTutorialStep(null);
+                setShowHome(true);
+              }}
+            />
+          )}
+          <AnimatePresence>
+            {puzzle && puzzleResult && (
+              <PuzzleResult
+                puzzle={puzzle}
+                solved={puzzleResult === 'solved'}
+                stars={puzzleStars(puzzleTries)}
+                onRetry={() => startPuzzle(puzzle, puzzleTries + 1)}
+                onNext={followingPuzzle && (() => startPuzzle(followingPuzzle))}
+                onPicker={() => {
+                  setPuzzleId(null);
+                  setShowHome(true);
+                  setShowPuzzles(true);
+                }}
               />
-            ))}
-          </div>
-        </div>
+            )}
+          </AnimatePresence>
+          <AnimatePresence>
+            {tutorialOutcome !== null && (
+              <TutorialComplete
+                outcome={tutorialOutcome}
+                onPlay={() => {
+                  setTutorialOutcome(null);
+                  startFreeGame();
+                }}
+                onHome={() => {
+                  setTutorialOutcome(null);
+                  setShowHome(true);
+                }}
+              />
+            )}
+          </AnimatePresence>
 
-        {/* Game Rules & Shop Footer */}
-        <div className="absolute bottom-2 right-4 z-20 flex gap-4">
-          <button 
-            onClick={() => setShowShop(true)}
-            className="flex items-center gap-2 text-yellow-500/60 hover:text-yellow-400 transition-colors"
-          >
-            <span className="text-[10px] uppercase tracking-widest font-bold">锦绣商店</span>
-          </button>
-          <div className="group relative">
-            <div className="flex items-center gap-2 text-yellow-500/60 hover:text-yellow-400 cursor-help transition-colors">
-              <Info size={16} />
-              <span className="text-[10px] uppercase tracking-widest font-bold">游戏规则</span>
-            </div>
-            <div className="absolute bottom-full right-0 mb-2 w-64 opacity-0 group-hover:opacity-100 pointer-events-none transition-opacity">
-              <RulesContent />
-            </div>
-          </div>
-        </div>
-      </main>
-
-      <AnimatePresence>
-        {showShop && <PrizeShop />}
-      </AnimatePresence>
-
-      {/* Suit Picker Modal */}
-      <AnimatePresence>
-        {showSuitPicker && (
-          <motion.div 
-            initial={{ opacity: 0 }}
-            animate={{ opacity: 1 }}
-            exit={{ opacity: 0 }}
-            className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 backdrop-blur-sm p-4"
-          >
-            <motion.div 
-              initial={{ scale: 0.9, y: 20 }}
-              animate={{ scale: 1, y: 0 }}
-              className="bg-emerald-800 border border-white/20 p-8 rounded-3xl shadow-2xl max-w-md w-full text-center"
-            >
-              <h2 className="text-2xl font-bold mb-2">疯狂 8 点！</h2>
-              <p className="text-emerald-200 mb-8">请选择接下来的花色：</p>
-              <div className="grid grid-cols-2 gap-4">
-                {SUITS.map((suit) => (
+          <AnimatePresence>
+            {showScoreboard && activeMatch && (
+              <motion.div
+                initial={{ opacity: 0 }}
+                animate={{ opacity: 1 }}
+                exit={{ opacity: 0 }}
+                className="fixed inset-0 z-[60] flex items-center justify-center bg-black/60 backdrop-blur-sm p-4"
+              >
+                <FocusTrap
+                  label={t('match.title')}
+                  onEscape={() => setShowScoreboard(false)}
+                  className="bg-red-950 border border-yellow-500/30 p-8 rounded-3xl shadow-2xl max-w-lg w-full max-h-full overflow-y-auto"
+                >
+                  <h2 className="text-2xl font-bold text-yellow-400 mb-4">{t('match.title')}</h2>
+                  <MatchScoreboard match={activeMatch} />
                   <button
-                    key={suit}
-                    onClick={() => handleSuitSelect(suit)}
-                    className="bg-white/10 hover:bg-white/20 border border-white/10 p-6 rounded-2xl flex flex-col items-center gap-2 transition-all group"
+                    onClick={() => setShowScoreboard(false)}
+                    className="mt-6 w-full py-3 bg-white/10 hover:bg-white/20 rounded-xl font-bold transition-colors"
                   >
-                    <span className={`text-5xl group-hover:scale-110 transition-transform ${getSuitColor(suit)}`}>
-                      {getSuitSymbol(suit)}
-                    </span>
-                    <span className="text-xs uppercase tracking-widest font-bold opacity-60">
-                      {suit}
-                    </span>
+                    {t('match.close')}
                   </button>
-                ))}
-              </div>
-            </motion.div>
-          </motion.div>
-        )}
-      </AnimatePresence>
-
-      {/* Game Over Modal */}
-      <AnimatePresence>
-        {(gameState.status === 'player_won' || gameState.status === 'ai_won') && (
-          <motion.div 
-            initial={{ opacity: 0 }}
-            animate={{ opacity: 1 }}
-            className="fixed inset-0 z-50 flex items-center justify-center bg-black/80 backdrop-blur-md p-4"
-          >
-            <motion.div 
-              initial={{ scale: 0.8 }}
-              animate={{ scale: 1 }}
-              className="bg-zinc-900 border border-white/10 p-10 rounded-3xl shadow-2xl max-w-md w-full text-center"
-            >
-              <div className={`w-20 h-20 rounded-full flex items-center justify-center mx-auto mb-6 shadow-lg ${gameState.status === 'player_won' ? 'bg-yellow-500 shadow-yellow-500/20' : 'bg-red-500 shadow-red-500/20'}`}>
-                {gameState.status === 'player_won' ? (
-                  <Trophy className="text-black" size={40} />
-                ) : (
-                  <span className="text-4xl">😢</span>
-                )}
-              </div>
-              <h2 className="text-4xl font-bold mb-2">
-                {gameState.status === 'player_won' ? '你赢了！' : '你输了'}
-              </h2>
-              <div className="flex items-center justify-center gap-2 mb-4 text-yellow-400 font-bold text-xl">
-                <span>{(gameState.status === 'player_won' || inventory.p2 > 0) ? '+2' : '+1'}</span>
-                <span className="text-2xl">★</span>
-              </div>
-              <p className="text-zinc-400 mb-8">
-                {gameState.status === 'player_won' ? '太棒了，你清空了所有手牌。' : '再接再厉，AI 棋高一着。'}
-              </p>
-              <button
-                onClick={initGame}
-                className="w-full bg-emerald-500 hover:bg-emerald-400 text-black font-bold py-4 rounded-xl transition-all flex items-center justify-center gap-2"
+                </FocusTrap>
+              </motion.div>
+            )}
+          </AnimatePresence>
+
+          <AnimatePresence>
+            {factStage && <StageFact stage={factStage} onClose={() => setFactStage(null)} />}
+          </AnimatePresence>
+
+          {/* Hot-seat handoff: hide the table until the next local player is ready */}
+          <AnimatePresence>
+            {handoffSeat && (
+              <motion.div
+                initial={{ opacity: 0 }}
+                animate={{ opacity: 1 }}
+                exit={{ opacity: 0 }}
+                className="fixed inset-0 z-50 flex items-center justify-center bg-red-950/95 backdrop-blur-md p-4"
               >
-                <RotateCcw size={20} />
-                再玩一局
-              </button>
-            </motion.div>
-          </motion.div>
-        )}
-      </AnimatePresence>
-
-      {/* Custom Scrollbar Style */}
-      <style dangerouslySetInnerHTML={{ __html: `
-        .no-scrollbar::-webkit-scrollbar {
-          display: none;
-        }
-        .no-scrollbar {
-          -ms-overflow-style: none;
-          scrollbar-width: none;
-        }
-      `}} />
-    </div>
+                <FocusTrap label={t('handoff.passTo')} className="text-center">
+                  <p className="text-yellow-100/70 mb-4">{t('handoff.passTo')}</p>
+                  <h2 className="text-4xl font-bold text-yellow-400 mb-8">{handoffSeat.name}</h2>
+                  <button
+                    onClick={() => setViewerId(handoffSeat.id)}
+                    className="px-10 py-3 bg-yellow-500 hover:bg-yellow-400 text-red-950 font-bold text-lg rounded-full transition-all hover:scale-105"
+                  >
+                    {t('handoff.ready')}
+                  </button>
+                </FocusTrap>
+              </motion.div>
+            )}
+          </AnimatePresence>
+
+          {/* Suit Picker Modal */}
+          <AnimatePresence>
+            {showSuitPicker && (
+              <motion.div 
+                initial={{ opacity: 0 }}
+                animate={{ opacity: 1 }}
+                exit={{ opacity: 0 }}
+                className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 backdrop-blur-sm p-4"
+              >
+                <FocusTrap label={t('suitPicker.title')} className="max-w-md w-full">
+                  <motion.div 
+                    initial={{ scale: 0.9, y: 20 }}
+                    animate={{ scale: 1, y: 0 }}
+                    className="bg-emerald-800 border border-white/20 p-8 rounded-3xl shadow-2xl max-w-md w-full text-center"
+                  >
+                    <h2 className="text-2xl font-bold mb-2">{t('suitPicker.title')}</h2>
+                    <p className="text-emerald-200 mb-8">{t('suitPicker.prompt')}</p>
+                    {hintedSuit ? (
+                      <p role="status" className="flex items-center justify-center gap-2 -mt-6 mb-6 text-sm text-emerald-100">
+                        <Lightbulb size={14} className="shrink-0 text-emerald-300" />
+                        {shownHint ? t.message(shownHint.reason) : t('suitPicker.hinted', { suit: { key: `suit.${hintedSuit}` } })}
+                      </p>
+                    ) : tutorialStep === null && !puzzle && (
+                      <button
+                        onClick={takeHint}
+                        disabled={!canHint}
+                        className="flex items-center gap-1 mx-auto -mt-6 mb-6 px-3 py-1.5 bg-white/10 hover:bg-white/20 disabled:opacity-40 rounded-full border border-white/20 text-sm text-emerald-100 transition-colors"
+                      >
+                        <Lightbulb size={16} />
+                        {t('table.hint', { count: freeHintsLeft + boughtHintsLeft })}
+                      </button>
+                    )}
+                    <div className="grid grid-cols-2 gap-4">
+                      {SUITS.map((suit, i) => (
+                        <button
+                          key={suit}
+                          onClick={() => act({ type: 'chooseSuit', seat: viewerId, suit })}
+                          aria-keyshortcuts={String(i + 1)}
+                          data-spotlight={(tutorialExpects?.type === 'chooseSuit' && tutorialExpects.suit === suit) || undefined}
+                          className={`relative bg-white/10 hover:bg-white/20 border p-6 rounded-2xl flex flex-col items-center gap-2 transition-all group ${suit === hintedSuit ? 'border-emerald-400 ring-4 ring-emerald-400' : 'border-white/10'}`}
+                        >
+                          <span className="absolute top-2 left-3 text-xs font-bold opacity-40">{i + 1}</span>
+                          <span className={`text-5xl group-hover:scale-110 transition-transform ${getSuitColor(suit)}`}>
+                            {getSuitSymbol(suit)}
+                          </span>
+                          <span className="text-xs uppercase tracking-widest font-bold opacity-60">
+                            {t.text(`suit.${suit}`)}
+                          </span>
+                        </button>
+                      ))}
+                    </div>
+                  </motion.div>
+                </FocusTrap>
+              </motion.div>
+            )}
+          </AnimatePresence>
+
+          {/* Game Over Modal */}
+          <AnimatePresence>
+            {gameOver && !replaying && !puzzle && (
+              <motion.div 
+                initial={{ opacity: 0 }}
+                animate={{ opacity: 1 }}
+                className="fixed inset-0 z-50 flex items-center justify-center bg-black/80 backdrop-blur-md p-4"
+              >
+                <FocusTrap label={t('over.label')} className="max-w-md w-full">
+                  <motion.div 
+                    initial={{ scale: 0.8 }}
+                    animate={{ scale: 1 }}
+                    className="bg-zinc-900 border border-white/10 p-10 rounded-3xl shadow-2xl max-w-md w-full text-center"
+                  >
+                    <div className={`w-20 h-20 rounded-full flex items-center justify-center mx-auto mb-6 shadow-lg ${humanWon ? 'bg-yellow-500 shadow-yellow-500/20' : 'bg-red-500 shadow-red-500/20'}`}>
+                      {humanWon ? (
+                        <Trophy className="text-black" size={40} />
+                      ) : (
+                        <span className="text-4xl">{gameState.status === 'draw' ? '🤝' : '😢'}</span>
+                      )}
+                    </div>
+                    <h2 className="text-4xl font-bold mb-2">
+                      {gameState.status === 'draw' ? t('over.draw')
+                        : winnerSeat?.id === (room ? viewerId : HOST_SEAT) ? t('over.youWon')
+                        : humanWon ? t('over.playerWon', { name: winnerSeat.name })
+                        : t('over.youLost')}
+                    </h2>
+                    {!room && !casualGame && (
+                      <div className="flex items-center justify-center gap-2 mb-4 text-yellow-400 font-bold text-xl">
+                        <span>+{earnedStars}</span>
+                        <span className="text-2xl">★</span>
+                      </div>
+                    )}
+                    {settleFailed && !room && !casualGame && (
+                      <p role="alert" className="-mt-2 mb-4 text-sm text-red-300">{t('over.settleFailed')}</p>
+                    )}
+                    <p className="text-zinc-400 mb-8">
+                      {gameState.blocked
+                        ? t.message(gameState.message)
+                        : humanWon ? t('over.cleared', { name: winnerSeat.name }) : t('over.beaten', { name: winnerSeat?.name ?? '' })}
+                    </p>
+                    {guideReview && (
+                      <p className="-mt-4 mb-8 text-sm text-emerald-200/80 flex gap-2 text-left">
+                        <Compass size={16} className="shrink-0 mt-0.5 text-emerald-300" />
+                        <span>{t('table.guideSays', { text: guideReview })}</span>
+                      </p>
+                    )}
+                    {stage && !room && (
+                      <div className={`-mt-4 mb-8 p-4 rounded-2xl border text-sm ${goalMet ? 'bg-emerald-900/40 border-emerald-500/40 text-emerald-100' : 'bg-white/5 border-white/10 text-zinc-300'}`}>
+                        <div className="font-bold mb-1">
+                          {stage.icon} {t.text(`stage.${stage.id}.name`)} · {goalMet ? t('over.goalMet') : t('over.goalMissed')}
+                        </div>
+                        <div className="text-xs opacity-80">{t('header.goal', { goal: { key: `stage.${stage.id}.goal` } })}</div>
+                        {newlyCleared && (
+                          <div className="mt-2 text-xs text-yellow-300">
+                            {t('over.unlocked', { stage: { key: `stage.${stage.id}.name` } })}
+                            {nextStage ? t('over.nextStop', { stage: { key: `stage.${nextStage.id}.name` } }) : t('over.journeyDone')}
+                          </div>
+                        )}
+                      </div>
+                    )}
+                    {activeMatch && activeMatch.rounds.length > 0 && (
+                      <div className="-mt-4 mb-8 p-4 rounded-2xl border bg-white/5 border-white/10 text-sm text-left">
+                        {matchOverBy && (
+                          <div className="mb-2 text-center font-bold text-yellow-400">
+                            {matchOverBy === viewerId
+                              ? t('match.youWon')
+                              : t('match.playerWon', { name: activeMatch.table.find(seat => seat.id === matchOverBy)?.name ?? '' })}
+                            {matchStarsEarned > 0 && <span className="ml-2">{t('match.bonus', { stars: matchStarsEarned })}</span>}
+                          </div>
+                        )}
+                        <MatchScoreboard match={activeMatch} />
+                      </div>
+                    )}
+                    {room && room.hostSeatId !== viewerId ? (
+                      <button
+                        onClick={leaveRoom}
+                        className="w-full bg-white/10 hover:bg-white/20 font-bold py-4 rounded-xl transition-all"
+                      >
+                        {t('over.waitForHost')}
+                      </button>
+                    ) : (
+                      <button
+                        onClick={() => room ? roomConnection.current?.send({ type: 'start' })
+                          : stage ? initGame(randomSeed(), goalMet && nextStage ? nextStage : stage)
+                          : activeMatch && !matchOverBy ? initGame(randomSeed(), null, activeMatch)
+                          : activeMatch ? startFreeGame(undefined, activeMatch.target)
+                          : initGame()}
+                        className="w-full bg-emerald-500 hover:bg-emerald-400 text-black font-bold py-4 rounded-xl transition-all flex items-center justify-center gap-2"
+                      >
+                        <RotateCcw size={20} />
+                        {activeMatch && !stage ? (matchOverBy ? t('match.newMatch') : t('match.next', { n: activeMatch.rounds.length + 1 }))
+                          : !stage ? t('over.playAgain')
+                          : goalMet && nextStage ? t('over.nextStage', { stage: { key: `stage.${nextStage.id}.name` } })
+                          : t('over.retry')}
+                      </button>
+                    )}
+                    <div className="mt-3 flex gap-3">
+                      {canReplay(game) && (
+                        <button
+                          onClick={() => setReplayStep(0)}
+                          className="flex-1 bg-white/10 hover:bg-white/20 font-bold py-3 rounded-xl transition-all flex items-center justify-center gap-2"
+                        >
+                          <Film size={18} />
+                          {t('over.replay')}
+                        </button>
+                      )}
+                      {canUndo && (
+                        <button
+                          onClick={undo}
+                          className="flex-1 bg-white/10 hover:bg-white/20 font-bold py-3 rounded-xl transition-all flex items-center justify-center gap-2"
+                        >
+                          <Undo2 size={18} />
+                          {t('table.undo')}
+                        </button>
+                      )}
+                      {stage && !room && campaign.cleared.includes(stage.id) && (
+                        <button
+                          onClick={() => setFactStage(stage)}
+                          className="flex-1 bg-white/10 hover:bg-white/20 font-bold py-3 rounded-xl transition-all"
+                        >
+                          {t('campaign.fact')}
+                        </button>
+                      )}
+                      {stage && !room && (
+                        <button
+                          onClick={() => {
+                            setShowHome(true);
+                            setShowCampaign(true);
+                          }}
+                          className="flex-1 bg-white/10 hover:bg-white/20 font-bold py-3 rounded-xl transition-all flex items-center justify-center gap-2"
+                        >
+                          <MapIcon size={18} />
+                          {t('over.map')}
+                        </button>
+                      )}
+                    </div>
+                  </motion.div>
+                </FocusTrap>
+              </motion.div>
+            )}
+          </AnimatePresence>
+
+          {/* Replay controls */}
+          <AnimatePresence>
+            {replayStep !== null && (
+              <motion.div
+                initial={{ y: 40, opacity: 0 }}
+                animate={{ y: 0, opacity: 1 }}
+                exit={{ y: 40, opacity: 0 }}
+                className="fixed bottom-4 left-1/2 -translate-x-1/2 z-50 flex items-center gap-2 px-4 py-2 bg-black/70 backdrop-blur-md rounded-full border border-yellow-500/30 shadow-2xl"
+              >
+                <span className="text-xs font-bold text-yellow-400 mr-2">{t('replay.label')}</span>
+                {[
+                  { icon: SkipBack, title: t('replay.start'), step: 0 },
+                  { icon: ChevronLeft, title: t('replay.prev'), step: replayStep - 1 },
+                  { icon: ChevronRight, title: t('replay.next'), step: replayStep + 1 },
+                  { icon: SkipForward, title: t('replay.end'), step: replayTotal },
+                ].map(({ icon: Icon, title, step }) => (
+                  <button
+                    key={title}
+                    onClick={() => setReplayStep(step)}
+                    disabled={step < 0 || step > replayTotal || step === replayStep}
+                    title={title}
+                    className="p-2 rounded-full text-yellow-200 hover:bg-white/10 disabled:opacity-30 disabled:hover:bg-transparent transition-colors"
+                  >
+                    <Icon size={18} />
+                  </button>
+                ))}
+                <span className="text-xs font-mono text-yellow-100/70 w-16 text-center">{replayStep} / {replayTotal}</span>
+                <button
+                  onClick={() => setReplayStep(null)}
+                  title={t('replay.close')}
+                  className="p-2 rounded-full text-yellow-200 hover:bg-white/10 transition-colors"
+                >
+                  <X size={18} />
+                </button>
+              </motion.div>
+            )}
+          </AnimatePresence>
+
+          {/* Custom Scrollbar Style */}
+          <style dangerouslySetInnerHTML={{ __html: `
+            .no-scrollbar::-webkit-scrollbar {
+              display: none;
+            }
+            .no-scrollbar {
+              -ms-overflow-style: none;
+              scrollbar-width: none;
+            }
+          `}} />
+
+          <UpdatePrompt />
+        </div>
+      </MotionConfig>
+      </ThemeContext.Provider>
+    </I18nContext.Provider>
   );
 }
@@ -0,0 +1,12 @@
+import { AiStrategy } from '../types';
+import { legalMoves } from '../engine';
+
+/** Any legal move at random, and never an item. */
+export const easyStrategy: AiStrategy = {
+  chooseAction: (state, seat, rng) => {
+    const moves = legalMoves(state, seat);
+    if (moves.length === 0) return null;
+    return moves[Math.floor(rng() * moves.length)];
+  },
+  chooseItem: () => null,
+};
@@ -0,0 +1,26 @@
+import { describe, expect, it } from 'vitest';
+import { CLASSIC_RULES } from '../rules';
+import { runSimulation, SimConfig } from '../simulation';
+
+// Hard searches dozens of rollouts per move, so a fair run takes a while on a slow machine
+const TIMEOUT_MS = 120_000;
+
+describe('hard AI', () => {
+  it('wins at least as often as normal from either seat', () => {
+    const config: SimConfig = {
+      seed: 'hard-vs-normal',
+      games: 60,
+      rules: CLASSIC_RULES,
+      seats: [{ level: 'hard', items: {} }, { level: 'normal', items: {} }],
+    };
+    const swapped: SimConfig = { ...config, seats: [...config.seats].reverse() };
+
+    const wins = { hard: 0, normal: 0 };
+    for (const run of [config, swapped]) {
+      runSimulation(run).forEach(game => {
+        if (game.winner) wins[run.seats[Number(game.winner.split('-')[1])].level as 'hard' | 'normal']++;
+      });
+    }
+    expect(wins.hard).toBeGreaterThanOrEqual(wins.normal);
+  }, TIMEOUT_MS);
+});
@@ -0,0 +1,100 @@
+import { AiStrategy, GameAction, GameState, SeatId } from '../types';
+import { shuffle } from '../constants';
+import { applyAction, getHand, isGameOver, legalMoves } from '../engine';
+import { createRng, Rng } from '../rng';
+import { chooseNormalAction, chooseNormalItem, scorePlay, scoreSuit } from './normal';
+
+/**
+ * Determinized Monte-Carlo search. It weighs the moves the normal strategy
+ * would consider, deals the cards it cannot see at random many times over
+ * for each, plays each world out with the normal strategy for every seat,
+ * and keeps the move that wins most often.
+ */
+
+const SAMPLES_PER_MOVE = 32;
+const MAX_ROLLOUT_PLIES = 80;
+
+/**
+ * One guess at the hidden cards: other hands keep their sizes but are dealt
+ * from everything `seat` cannot see, and the deck gets a fresh order.
+ */
+const determinize = (state: GameState, seat: SeatId, rng: Rng): GameState => {
+  const hidden = shuffle([...state.deck, ...state.seats.filter(s => s.id !== seat).flatMap(s => s.hand)], rng);
+  const seats = state.seats.map(s => s.id === seat ? s : { ...s, hand: hidden.splice(0, s.hand.length) });
+  return {
+    ...state,
+    seats,
+    deck: hidden,
+    rngState: Math.floor(rng() * 4294967296),
+  };
+};
+
+/** 1 for a win, 0 for someone else's, and a share by hand size when the rollout runs long. */
+const evaluate = (state: GameState, seat: SeatId): number => {
+  if (state.status === 'won') return state.winner === seat ? 1 : 0;
+  if (state.status === 'draw') return 0.5;
+  const mine = getHand(state, seat).length;
+  const fewestOther = Math.min(...state.seats.filter(s => s.id !== seat).map(s => s.hand.length));
+  return fewestOther / (fewestOther + mine);
+};
+
+const rollout = (state: GameState, seat: SeatId, rng: Rng): number => {
+  let world = state;
+  for (let ply = 0; ply < MAX_ROLLOUT_PLIES && !isGameOver(world); ply++) {
+    const action = chooseNormalAction(world, world.currentTurn, rng);
+    if (!action) break;
+    world = applyAction(world, action);
+  }
+  return evaluate(world, seat);
+};
+
+/**
+ * Only moves worth a search: a card to play rather than a draw whenever one
+ * fits, and the 8s held back while anything else does, as the normal
+ * strategy plays. Rollouts are too noisy to find those rules again.
+ */
+const candidateMoves = (state: GameState, seat: SeatId): GameAction[] => {
+  const moves = legalMoves(state, seat);
+  if (state.status === 'waiting_for_suit') return moves;
+  const hand = getHand(state, seat);
+  const plays = moves.filter(move => move.type === 'play');
+  const nonEights = plays.filter(move => hand.find(card => card.id === move.cardId)?.rank !== '8');
+  return nonEights.length > 0 ? nonEights : plays.length > 0 ? plays : moves;
+};
+
+/** The normal strategy's opinion of a move, to settle rollouts that come out even. */
+const heuristic = (state: GameState, seat: SeatId, move: GameAction): number => {
+  if (move.type === 'chooseSuit') return scoreSuit(state, seat, move.suit);
+  if (move.type !== 'play') return 0;
+  return scorePlay(state, seat, getHand(state, seat).find(card => card.id === move.cardId)!);
+};
+
+export const chooseHardAction = (state: GameState, seat: SeatId, rng: Rng): GameAction | null => {
+  const moves = candidateMoves(state, seat);
+  if (moves.length <= 1) return moves[0] ?? null;
+
+  // Every move is tried in the same worlds with the same luck, so the totals differ by the move alone
+  const worlds = Array.from({ length: SAMPLES_PER_MOVE }, () => ({
+    world: determinize(state, seat, rng),
+    luck: Math.floor(rng() * 4294967296),
+  }));
+
+  let best = moves[0];
+  let bestScore = -Infinity;
+  let bestHeuristic = -Infinity;
+  for (const move of moves) {
+    const total = worlds.reduce((sum, { world, luck }) => sum + rollout(applyAction(world, move), seat, createRng(luck)), 0);
+    const tieBreak = heuristic(state, seat, move);
+    if (total > bestScore || (total === bestScore && tieBreak > bestHeuristic)) {
+      best = move;
+      bestScore = total;
+      bestHeuristic = tieBreak;
+    }
+  }
+  return best;
+};
+
+export const hardStrategy: AiStrategy = {
+  chooseAction: chooseHardAction,
+  chooseItem: chooseNormalItem,
+};
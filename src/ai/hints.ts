@@ -0,0 +1,111 @@
+import { Card, GameAction, GameMessage, GameState, SeatId, Suit } from '../types';
+import { getCardPoints, SUITS } from '../constants';
+import { getHand, getSeat, legalMoves } from '../engine';
+import { countSuits, nextOpponent, seemsToLack } from './knowledge';
+import { scorePlay, scoreSuit } from './normal';
+
+/**
+ * Hints for a human seat: the legal moves ranked with the normal AI's
+ * judgement, and one line on why the best of them is best. Like the AIs,
+ * a hint only uses what the seat is allowed to know.
+ */
+
+/** Free hints in every game; bought ones are spent after these. */
+export const HINTS_PER_GAME = 3;
+
+export interface RankedMove {
+  action: GameAction;
+  score: number;
+}
+
+export interface Hint {
+  action: GameAction;
+  /** The suit to name: after the suggested 8, or right now when one was just played. */
+  suit?: Suit;
+  /** Why, in a line a child can follow. */
+  reason: GameMessage;
+}
+
+const cardName = (card: Card): GameMessage =>
+  ({ key: 'card.name', params: { suit: { key: `suit.${card.suit}` }, rank: card.rank } });
+
+const suitName = (suit: Suit): GameMessage => ({ key: `suit.${suit}` });
+
+// Going out beats anything, an 8 is kept for when nothing else fits, and drawing comes last
+const GOES_OUT = 1000;
+const SPENDS_EIGHT = -100;
+const DRAWS = -1000;
+
+/** Every legal move for `seat`, best first. Equal moves keep the order of the hand. */
+export const rankMoves = (state: GameState, seat: SeatId): RankedMove[] => {
+  const hand = getHand(state, seat);
+  const ranked = legalMoves(state, seat).map((action): RankedMove => {
+    switch (action.type) {
+      case 'chooseSuit': return { action, score: scoreSuit(state, seat, action.suit) };
+      case 'play': {
+        const card = hand.find(c => c.id === action.cardId)!;
+        if (hand.length === 1) return { action, score: GOES_OUT };
+        return { action, score: scorePlay(state, seat, card) + (card.rank === '8' ? SPENDS_EIGHT : 0) };
+      }
+      default: return { action, score: DRAWS };
+    }
+  });
+  return ranked.sort((a, b) => b.score - a.score);
+};
+
+/** The suit to name after playing `eight`, by the same judgement as choosing one. */
+const suitAfter = (state: GameState, seat: SeatId, eight: Card): Suit => {
+  const after = { ...state, seats: state.seats.map(s => s.id === seat ? { ...s, hand: s.hand.filter(c => c.id !== eight.id) } : s) };
+  return SUITS.reduce((best, suit) => scoreSuit(after, seat, suit) > scoreSuit(after, seat, best) ? suit : best);
+};
+
+const explainPlay = (state: GameState, seat: SeatId, card: Card): GameMessage => {
+  const hand = getHand(state, seat);
+  const target = nextOpponent(state, seat);
+  const name = getSeat(state, target)?.name ?? '';
+  const targetCards = getSeat(state, target)?.hand.length ?? 0;
+  const suits = countSuits(hand.filter(c => c.rank !== '8'));
+  const eights = hand.filter(c => c.rank === '8').length;
+  const params = { card: cardName(card), suit: suitName(card.suit), count: suits[card.suit] };
+
+  if (hand.length === 1) return { key: 'hint.goOut', params };
+  if (state.pendingDraw > 0) return { key: 'hint.stackTwo', params: { ...params, name, total: state.pendingDraw + 2 } };
+  const attacking = (state.rules.drawTwo && card.rank === '2') || (state.rules.skipQueen && card.rank === 'Q');
+  if (attacking && targetCards <= 2) return { key: 'hint.attack', params: { ...params, name } };
+  if (seemsToLack(state, target, card.suit)) return { key: 'hint.lacks', params: { ...params, name } };
+  if (eights > 0) return { key: 'hint.saveEight', params: { ...params, eights } };
+  if (suits[card.suit] > 1) return { key: 'hint.keepSuit', params };
+  if (getCardPoints(card) >= 10) return { key: 'hint.shed', params };
+  return { key: 'hint.play', params };
+};
+
+/** The best move for `seat` and why, or null when it has none to make. */
+export const bestHint = (state: GameState, seat: SeatId): Hint | null => {
+  const best = rankMoves(state, seat)[0]?.action;
+  if (!best) return null;
+
+  switch (best.type) {
+    case 'chooseSuit': {
+      const mine = countSuits(getHand(state, seat).filter(card => card.rank !== '8'))[best.suit];
+      const target = nextOpponent(state, seat);
+      return {
+        action: best,
+        suit: best.suit,
+        reason: seemsToLack(state, target, best.suit)
+          ? { key: 'hint.suitLacks', params: { suit: suitName(best.suit), name: getSeat(state, target)?.name ?? '' } }
+          : { key: 'hint.suit', params: { suit: suitName(best.suit), count: mine } },
+      };
+    }
+    case 'play': {
+      const card = getHand(state, seat).find(c => c.id === best.cardId)!;
+      if (card.rank !== '8' || getHand(state, seat).length === 1) return { action: best, reason: explainPlay(state, seat, card) };
+      const suit = suitAfter(state, seat, card);
+      return { action: best, suit, reason: { key: 'hint.eight', params: { card: cardName(card), suit: suitName(suit) } } };
+    }
+    default:
+      return {
+        action: best,
+        reason: state.pendingDraw > 0 ? { key: 'hint.takePenalty', params: { count: state.pendingDraw } } : { key: 'hint.draw' },
+      };
+  }
+};
@@ -0,0 +1,24 @@
+import { AiStrategy, Difficulty, Inventory } from '../types';
+import { easyStrategy } from './easy';
+import { normalStrategy } from './normal';
+import { hardStrategy } from './hard';
+
+export interface AiLevel {
+  id: Difficulty;
+  name: string;
+  desc: string;
+  strategy: AiStrategy;
+  /** Items each AI seat may spend per game. */
+  items: Inventory;
+}
+
+export const AI_LEVELS: AiLevel[] = [
+  { id: 'easy', name: '简单', desc: '随便出一张能出的牌。', strategy: easyStrategy, items: {} },
+  { id: 'normal', name: '普通', desc: '会留着 8、记牌，还会挑你缺的花色。', strategy: normalStrategy, items: { p1: 1 } },
+  { id: 'hard', name: '困难', desc: '会推算你手里的牌，反复模拟后再出牌。', strategy: hardStrategy, items: { p1: 1, p3: 1 } },
+];
+
+export const DEFAULT_DIFFICULTY: Difficulty = 'normal';
+
+export const getAiLevel = (difficulty: Difficulty): AiLevel =>
+  AI_LEVELS.find(level => level.id === difficulty) ?? AI_LEVELS[1];
@@ -0,0 +1,46 @@
+import { Card, GameState, SeatId, Suit } from '../types';
+import { createDeck, SUITS } from '../constants';
+import { getHand, nextSeatId } from '../engine';
+import { Rng } from '../rng';
+
+/**
+ * What a seat can legitimately know: its own hand, the public discard pile,
+ * hand sizes and the suits others seemed to lack. Strategies build on these
+ * helpers rather than reading other hands or the deck order.
+ */
+
+const FULL_DECK = createDeck();
+
+export const countSuits = (cards: Card[]): Record<Suit, number> => {
+  const counts = { hearts: 0, diamonds: 0, clubs: 0, spades: 0 };
+  for (const card of cards) counts[card.suit]++;
+  return counts;
+};
+
+/** Cards `seat` has not seen: everything outside its own hand and the discard pile. */
+export const unseenCards = (state: GameState, seat: SeatId): Card[] => {
+  const seen = new Set([...getHand(state, seat), ...state.discardPile].map(card => card.id));
+  return FULL_DECK.filter(card => !seen.has(card.id));
+};
+
+export const seemsToLack = (state: GameState, seat: SeatId, suit: Suit): boolean =>
+  (state.suspectedVoids[seat] ?? []).includes(suit);
+
+/** The seat that moves after `seat`, and so is hurt most by its choice. */
+export const nextOpponent = (state: GameState, seat: SeatId): SeatId => nextSeatId(state, seat);
+
+/** Picks uniformly among the entries with the highest score. */
+export const pickBest = <T,>(items: T[], score: (item: T) => number, rng: Rng): T | undefined => {
+  let best: T[] = [];
+  let bestScore = -Infinity;
+  for (const item of items) {
+    const value = score(item);
+    if (value > bestScore) {
+      best = [item];
+      bestScore = value;
+    } else if (value === bestScore) {
+      best.push(item);
+    }
+  }
+  return best[Math.floor(rng() * best.length)];
+};
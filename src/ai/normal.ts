@@ -0,0 +1,85 @@
+import { AiStrategy, Card, GameAction, GameState, Inventory, SeatId, Suit, UseItemAction } from '../types';
+import { getCardPoints, SUITS } from '../constants';
+import { canUseItem, getHand, getSeat, legalMoves } from '../engine';
+import { Rng } from '../rng';
+import { countSuits, nextOpponent, pickBest, seemsToLack, unseenCards } from './knowledge';
+
+/**
+ * Holds its 8s, counts the cards it has seen and steers the suit towards
+ * ones the next player seems to lack.
+ */
+
+/** Favours suits it holds most of, ones the next player lacks and ones few others hold. */
+export const scoreSuit = (state: GameState, seat: SeatId, suit: Suit): number => {
+  const mine = countSuits(getHand(state, seat).filter(card => card.rank !== '8'));
+  const unseen = countSuits(unseenCards(state, seat));
+  const target = nextOpponent(state, seat);
+
+  return mine[suit] * 2
+    + (seemsToLack(state, target, suit) ? 3 : 0)
+    - unseen[suit] * 0.2;
+};
+
+export const chooseSuitFor = (state: GameState, seat: SeatId, rng: Rng): Suit =>
+  pickBest(SUITS, suit => scoreSuit(state, seat, suit), rng)!;
+
+export const scorePlay = (state: GameState, seat: SeatId, card: Card): number => {
+  const rest = getHand(state, seat).filter(c => c.id !== card.id);
+  const mine = countSuits(rest);
+  const unseen = countSuits(unseenCards(state, seat));
+  const target = nextOpponent(state, seat);
+  const targetCards = getSeat(state, target)?.hand.length ?? 0;
+
+  let score = 0;
+  // Staying in a suit we hold keeps the next turn easy
+  score += mine[card.suit] * 1.5;
+  // A suit the next player lacks, or few cards are left in, is hard to follow
+  if (seemsToLack(state, target, card.suit)) score += 3;
+  score += (13 - unseen[card.suit]) * 0.15;
+  // Shed expensive cards while we can
+  score += getCardPoints(card) * 0.05;
+  // Hit hard with action cards when the next player is close to going out
+  if (targetCards <= 2 && ((state.rules.drawTwo && card.rank === '2') || (state.rules.skipQueen && card.rank === 'Q'))) {
+    score += 5;
+  }
+  return score;
+};
+
+export const chooseNormalAction = (state: GameState, seat: SeatId, rng: Rng): GameAction | null => {
+  const moves = legalMoves(state, seat);
+  if (moves.length === 0) return null;
+
+  if (state.status === 'waiting_for_suit') {
+    return { type: 'chooseSuit', seat, suit: chooseSuitFor(state, seat, rng) };
+  }
+
+  const hand = getHand(state, seat);
+  const plays = moves
+    .filter(move => move.type === 'play')
+    .map(move => ({ move, card: hand.find(c => c.id === move.cardId)! }));
+  const nonEights = plays.filter(({ card }) => card.rank !== '8');
+
+  if (nonEights.length > 0) {
+    return pickBest(nonEights, ({ card }) => scorePlay(state, seat, card), rng)!.move;
+  }
+  // Only an 8 left to play: use it rather than draw
+  return plays[0]?.move ?? { type: 'draw', seat };
+};
+
+/** Uses the postcard when the next player is about to go out, and the silk when it wins outright. */
+export const chooseNormalItem = (state: GameState, seat: SeatId, inventory: Inventory): UseItemAction | null => {
+  const usable = (itemId: string) => (inventory[itemId] ?? 0) > 0 && canUseItem(state, seat, itemId);
+
+  const hand = getHand(state, seat);
+  const target = getSeat(state, nextOpponent(state, seat));
+  if (usable('p3') && hand.length <= 2) {
+    return { type: 'useItem', seat, itemId: 'p3', target: { cardIds: hand.map(card => card.id) } };
+  }
+  if (usable('p1') && target && target.hand.length <= 2) return { type: 'useItem', seat, itemId: 'p1' };
+  return null;
+};
+
+export const normalStrategy: AiStrategy = {
+  chooseAction: chooseNormalAction,
+  chooseItem: chooseNormalItem,
+};
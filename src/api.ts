@@ -0,0 +1,57 @@
+import { GameAction, GameResult, GameSetup, GuideRequest, Inventory, Profile, Purchase } from './types';
+
+/**
+ * Client for the Express API in `server/`. Every call rejects when the server
+ * is unreachable, which the app treats as "play offline with a local wallet".
+ */
+
+/** A response the server refused, with its HTTP status so callers can tell a conflict from an outage. */
+export class ApiError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+    this.name = 'ApiError';
+  }
+}
+
+const request = async <T,>(path: string, init?: RequestInit): Promise<T> => {
+  const res = await fetch(`/api${path}`, {
+    ...init,
+    headers: { 'Content-Type': 'application/json', ...init?.headers },
+  });
+  if (!res.ok) {
+    const body = await res.json().catch(() => null);
+    throw new ApiError(res.status, body?.error ?? res.statusText);
+  }
+  return (res.status === 204 ? undefined : await res.json()) as T;
+};
+
+const post = <T,>(path: string, body: unknown) =>
+  request<T>(path, { method: 'POST', body: JSON.stringify(body) });
+
+export const createProfile = (name: string) => post<Profile>('/profiles', { name });
+
+export const getProfile = (profileId: string) => request<Profile>(`/profiles/${profileId}`);
+
+export const listPurchases = (profileId: string) => request<Purchase[]>(`/profiles/${profileId}/purchases`);
+
+export const purchaseItem = (profileId: string, itemId: string) =>
+  post<Profile>(`/profiles/${profileId}/purchases`, { itemId });
+
+/** The tutorial's one-time star bonus; rejects with a 409 if this profile was already paid it. */
+export const claimTutorial = (profileId: string) => post<Profile>(`/profiles/${profileId}/tutorial`, {});
+
+/** A finished quest's reward; the server counts the verified games itself before it pays. */
+export const claimQuest = (profileId: string, questId: string) => post<Profile>(`/profiles/${profileId}/quests/${questId}`, {});
+
+/** Pass a match target to open a match with this game as its first round, or a match id for its next round. */
+export const startServerGame = (profileId: string, setup: GameSetup, match?: { matchTarget: number } | { matchId: string }) =>
+  post<{ gameId: string; seed: string; matchId?: string }>(`/profiles/${profileId}/games`, { ...setup, ...match });
+
+export const finishServerGame = (gameId: string, actions: GameAction[]) =>
+  post<GameResult>(`/games/${gameId}/finish`, { actions });
+
+/** Spends one bought hint in a server-tracked game; the move log does not show hints, so the wallet pays as they are taken. */
+export const spendHint = (gameId: string, itemId: string) => post<Profile>(`/games/${gameId}/hints`, { itemId });
+
+/** The tour guide's answer, written on the server so the Gemini key never reaches the browser. */
+export const askGuide = (request: GuideRequest) => post<{ text: string }>('/guide', request);
@@ -0,0 +1,30 @@
+import { GameState, LogEntry, SeatId, SoundCue } from '../types';
+
+/** More moves than this arriving at once is a jump (a replay skipped ahead), not play to follow. */
+const MAX_CUES = 3;
+
+/** The sound a move makes. Drawing nothing when the deck ran dry makes none. */
+export const cueFor = (entry: LogEntry): SoundCue | null => {
+  switch (entry.type) {
+    case 'deal': return 'deal';
+    case 'play': return entry.card.rank === '8' ? 'eight' : 'play';
+    case 'draw': return entry.cards.length > 0 ? 'draw' : null;
+    case 'chooseSuit': return 'chooseSuit';
+    case 'useItem': return 'item';
+  }
+};
+
+/**
+ * The sounds for going from `before` to `after`, heard from `listener`'s seat:
+ * one for each new move, then a win or a loss when the game just ended. A new
+ * deal sounds as a deal; any other change that is not the same game moving on
+ * (a save loading, undo, stepping a replay back) is silent.
+ */
+export const cuesBetween = (before: GameState | null, after: GameState, listener: SeatId): SoundCue[] => {
+  if (!before) return [];
+  const sameGame = before.seed === after.seed && before.log.length <= after.log.length;
+  const fresh = sameGame ? after.log.slice(before.log.length) : after.log.length === 1 ? after.log : [];
+  const cues = fresh.slice(-MAX_CUES).map(cueFor).filter((cue): cue is SoundCue => cue !== null);
+  if (fresh.length > 0 && after.status === 'won') cues.push(after.winner === listener ? 'win' : 'lose');
+  return cues;
+};
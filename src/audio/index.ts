@@ -0,0 +1,88 @@
+import { MusicThemeId, Settings, SoundCue } from '../types';
+import { playCue } from './synth';
+import { MUSIC_THEMES, startMusic } from './music';
+
+export { cueFor, cuesBetween } from './cues';
+export { DEFAULT_MUSIC, HOME_MUSIC, MUSIC_THEMES } from './music';
+
+export type AudioLevels = Pick<Settings, 'sfxVolume' | 'musicVolume' | 'muted'>;
+
+export interface AudioPlayer {
+  /**
+   * Call from a click or key press. Browsers only let a page make sound once
+   * the player has interacted with it, so until then everything is silent.
+   */
+  unlock: () => void;
+  play: (cues: SoundCue[]) => void;
+  /** The theme to loop, or null for quiet. */
+  setMusic: (theme: MusicThemeId | null) => void;
+  setLevels: (levels: AudioLevels) => void;
+}
+
+// Cues that arrive together (a move and the win it brings) follow one another this far apart
+const CUE_GAP = 0.15;
+
+/** The game's sound, made in the browser with Web Audio; silent where that is missing. */
+export const createAudio = (): AudioPlayer => {
+  let ctx: AudioContext | null = null;
+  let sfx: GainNode | null = null;
+  let music: GainNode | null = null;
+  let levels: AudioLevels = { sfxVolume: 0, musicVolume: 0, muted: true };
+  let theme: MusicThemeId | null = null;
+  let stopMusic: (() => void) | null = null;
+
+  const level = (volume: number) => levels.muted ? 0 : volume;
+
+  // Only a theme that can be heard is kept playing, so a silenced loop costs nothing
+  const refreshMusic = () => {
+    stopMusic?.();
+    stopMusic = null;
+    if (!ctx || !music || !theme || level(levels.musicVolume) === 0) return;
+    const loop = ctx.createGain();
+    loop.connect(music);
+    const stop = startMusic(ctx, loop, MUSIC_THEMES[theme]);
+    stopMusic = () => {
+      stop();
+      loop.disconnect();
+    };
+  };
+
+  const applyLevels = () => {
+    if (!ctx || !sfx || !music) return;
+    sfx.gain.setTargetAtTime(level(levels.sfxVolume), ctx.currentTime, 0.02);
+    music.gain.setTargetAtTime(level(levels.musicVolume), ctx.currentTime, 0.2);
+  };
+
+  return {
+    unlock: () => {
+      if (ctx) {
+        if (ctx.state === 'suspended') ctx.resume();
+        return;
+      }
+      if (typeof AudioContext === 'undefined') return;
+      ctx = new AudioContext();
+      sfx = ctx.createGain();
+      music = ctx.createGain();
+      sfx.connect(ctx.destination);
+      music.connect(ctx.destination);
+      sfx.gain.value = level(levels.sfxVolume);
+      music.gain.value = level(levels.musicVolume);
+      refreshMusic();
+    },
+    play: cues => {
+      if (!ctx || !sfx || ctx.state !== 'running' || level(levels.sfxVolume) === 0) return;
+      cues.forEach((cue, i) => playCue(ctx!, sfx!, cue, ctx!.currentTime + i * CUE_GAP));
+    },
+    setMusic: next => {
+      if (next === theme) return;
+      theme = next;
+      refreshMusic();
+    },
+    setLevels: next => {
+      const wasAudible = level(levels.musicVolume) > 0;
+      levels = next;
+      applyLevels();
+      if (wasAudible !== level(levels.musicVolume) > 0) refreshMusic();
+    },
+  };
+};
@@ -0,0 +1,105 @@
+import { MusicThemeId } from '../types';
+import { createRng } from '../rng';
+import { degreeFrequency, note, Voice } from './synth';
+
+/**
+ * Background music: short pentatonic tunes in the manner of traditional
+ * Chinese folk melodies, one theme per kind of landmark. Each tune is
+ * composed from its theme's seed, so a theme always sounds the same, and
+ * loops in an AABA form over a drone on the home note.
+ */
+
+export interface MusicTheme {
+  id: MusicThemeId;
+  /** The pitch of 宫, in Hz. */
+  tonic: number;
+  /** The scale degree the tune comes home to: 0 宫, 1 商, 2 角, 3 徵 or 4 羽. */
+  mode: number;
+  /** Beats per minute. */
+  tempo: number;
+  melody: Voice;
+  seed: number;
+}
+
+export const MUSIC_THEMES: Record<MusicThemeId, MusicTheme> = {
+  // Free games: an unhurried tune on the zither
+  teahouse: { id: 'teahouse', tonic: 293.66, mode: 0, tempo: 76, melody: 'pluck', seed: 11 },
+  // 华山 and 黄山: a flute over the valleys
+  mountain: { id: 'mountain', tonic: 349.23, mode: 4, tempo: 64, melody: 'flute', seed: 23 },
+  // The home screen under 天安门: stately bells
+  palace: { id: 'palace', tonic: 261.63, mode: 3, tempo: 60, melody: 'bell', seed: 37 },
+  // 西湖 and 九寨沟: gentle water
+  lake: { id: 'lake', tonic: 329.63, mode: 1, tempo: 70, melody: 'pluck', seed: 41 },
+  // 桂林: a boat song
+  river: { id: 'river', tonic: 392, mode: 4, tempo: 84, melody: 'flute', seed: 53 },
+  // 兵马俑: a march on the zither
+  army: { id: 'army', tonic: 220, mode: 3, tempo: 96, melody: 'pluck', seed: 67 },
+};
+
+export const DEFAULT_MUSIC: MusicThemeId = 'teahouse';
+export const HOME_MUSIC: MusicThemeId = 'palace';
+
+export interface TuneNote {
+  /** Scale degree from 宫, or null for a rest. */
+  degree: number | null;
+  beats: number;
+}
+
+const RHYTHMS = [[1, 1, 1, 1], [1, 0.5, 0.5, 2], [2, 1, 1], [0.5, 0.5, 1, 2], [1.5, 0.5, 2]];
+const STEPS = [-2, -1, -1, 0, 1, 1, 2];
+
+/** A four-bar phrase that wanders the scale and ends on the home note. */
+const composePhrase = (theme: MusicTheme, rng: () => number): TuneNote[] => {
+  const pick = <T>(options: T[]) => options[Math.floor(rng() * options.length)];
+  let degree = theme.mode;
+  return [0, 1, 2, 3].flatMap(bar => {
+    const rhythm = bar === 3 ? [1, 1, 2] : pick(RHYTHMS);
+    return rhythm.map((beats, i) => {
+      const last = bar === 3 && i === rhythm.length - 1;
+      degree = last ? theme.mode : Math.min(theme.mode + 6, Math.max(theme.mode - 3, degree + pick(STEPS)));
+      return { degree: !last && beats <= 1 && rng() < 0.1 ? null : degree, beats };
+    });
+  });
+};
+
+/** The theme's whole loop: phrase A, A again, a second phrase B, then A. */
+export const composeTune = (theme: MusicTheme): TuneNote[] => {
+  const rng = createRng(theme.seed);
+  const a = composePhrase(theme, rng);
+  const b = composePhrase(theme, rng);
+  return [...a, ...a, ...b, ...a];
+};
+
+const beatsBefore = (tune: TuneNote[], index: number) =>
+  tune.slice(0, index).reduce((sum, { beats }) => sum + beats, 0);
+
+// How far ahead notes are handed to Web Audio, and how often the queue is topped up, in seconds
+const LOOKAHEAD = 0.5;
+const TICK = 0.1;
+
+/** Plays `theme` into `out` on a loop until the returned function stops it. */
+export const startMusic = (ctx: BaseAudioContext, out: AudioNode, theme: MusicTheme): (() => void) => {
+  const tune = composeTune(theme);
+  const beat = 60 / theme.tempo;
+  let index = 0;
+  let next = ctx.currentTime + 0.1;
+
+  const schedule = () => {
+    // After the tab was in the background, pick the tune up from now rather than cram in what was missed
+    if (next < ctx.currentTime) next = ctx.currentTime + 0.05;
+    while (next < ctx.currentTime + LOOKAHEAD) {
+      const { degree, beats } = tune[index];
+      if (degree !== null) note(ctx, out, theme.melody, degreeFrequency(theme.tonic, degree), next, beats * beat, 0.18);
+      // Under every second bar, a drone on the home note an octave down
+      if (beatsBefore(tune, index) % 8 === 0) {
+        note(ctx, out, 'pluck', degreeFrequency(theme.tonic / 2, theme.mode), next, 8 * beat, 0.1);
+      }
+      next += beats * beat;
+      index = (index + 1) % tune.length;
+    }
+  };
+
+  schedule();
+  const timer = setInterval(schedule, TICK * 1000);
+  return () => clearInterval(timer);
+};
@@ -0,0 +1,156 @@
+import { SoundCue } from '../types';
+
+/**
+ * Every sound is synthesised with Web Audio rather than loaded from files,
+ * so there is nothing extra to download or cache for offline play. Cards are
+ * filtered noise; chimes are plucked pentatonic notes with a guzheng-like
+ * decay, and a struck gong marks the big moments.
+ */
+
+export type Voice = 'pluck' | 'flute' | 'bell';
+
+/** The pentatonic scale (宫商角徵羽) as semitones above 宫. */
+const PENTATONIC = [0, 2, 4, 7, 9];
+
+/** The pitch of scale `degree` counted from `tonic`; degrees below 0 or past 4 move by octaves. */
+export const degreeFrequency = (tonic: number, degree: number): number => {
+  const octave = Math.floor(degree / PENTATONIC.length);
+  const step = degree - octave * PENTATONIC.length;
+  return tonic * 2 ** (octave + PENTATONIC[step] / 12);
+};
+
+let noiseBuffer: AudioBuffer | null = null;
+
+const getNoise = (ctx: BaseAudioContext): AudioBuffer => {
+  if (noiseBuffer?.sampleRate === ctx.sampleRate) return noiseBuffer;
+  noiseBuffer = ctx.createBuffer(1, ctx.sampleRate, ctx.sampleRate);
+  const samples = noiseBuffer.getChannelData(0);
+  for (let i = 0; i < samples.length; i++) samples[i] = Math.random() * 2 - 1;
+  return noiseBuffer;
+};
+
+/** A gain that swells to `peak` and fades out over `length` seconds from `at`. */
+const envelope = (ctx: BaseAudioContext, out: AudioNode, at: number, peak: number, length: number, attack = 0.005): GainNode => {
+  const gain = ctx.createGain();
+  gain.gain.setValueAtTime(0.0001, at);
+  gain.gain.exponentialRampToValueAtTime(peak, at + attack);
+  gain.gain.exponentialRampToValueAtTime(0.0001, at + length);
+  gain.connect(out);
+  return gain;
+};
+
+const oscillator = (ctx: BaseAudioContext, out: AudioNode, type: OscillatorType, frequency: number, at: number, length: number) => {
+  const osc = ctx.createOscillator();
+  osc.type = type;
+  osc.frequency.setValueAtTime(frequency, at);
+  osc.connect(out);
+  osc.start(at);
+  osc.stop(at + length + 0.05);
+  return osc;
+};
+
+/** A card against the felt: a short burst of band-passed noise. */
+const flick = (ctx: BaseAudioContext, out: AudioNode, at: number, pitch = 2500, length = 0.08, peak = 0.5) => {
+  const source = ctx.createBufferSource();
+  source.buffer = getNoise(ctx);
+  const filter = ctx.createBiquadFilter();
+  filter.type = 'bandpass';
+  filter.frequency.setValueAtTime(pitch, at);
+  filter.Q.value = 0.8;
+  source.connect(filter);
+  filter.connect(envelope(ctx, out, at, peak, length, 0.002));
+  source.start(at, Math.random() * 0.5);
+  source.stop(at + length + 0.05);
+};
+
+/** One note in `voice`: a plucked string, a breathy flute, or a temple bell. */
+export const note = (ctx: BaseAudioContext, out: AudioNode, voice: Voice, frequency: number, at: number, length: number, peak = 0.3) => {
+  switch (voice) {
+    case 'pluck': {
+      const filter = ctx.createBiquadFilter();
+      filter.type = 'lowpass';
+      filter.frequency.setValueAtTime(frequency * 6, at);
+      filter.frequency.exponentialRampToValueAtTime(frequency * 1.5, at + length);
+      filter.connect(envelope(ctx, out, at, peak, Math.max(length, 0.6)));
+      oscillator(ctx, filter, 'triangle', frequency, at, Math.max(length, 0.6));
+      oscillator(ctx, filter, 'sawtooth', frequency * 2, at, 0.15).detune.value = 4;
+      return;
+    }
+    case 'flute': {
+      const gain = envelope(ctx, out, at, peak, length, Math.min(0.08, length / 3));
+      const osc = oscillator(ctx, gain, 'sine', frequency, at, length);
+      const vibrato = ctx.createOscillator();
+      const depth = ctx.createGain();
+      vibrato.frequency.value = 5;
+      depth.gain.value = frequency * 0.006;
+      vibrato.connect(depth);
+      depth.connect(osc.frequency);
+      vibrato.start(at);
+      vibrato.stop(at + length + 0.05);
+      flick(ctx, gain, at, frequency * 3, length, 0.08);
+      return;
+    }
+    case 'bell': {
+      const decay = Math.max(length, 1.5);
+      oscillator(ctx, envelope(ctx, out, at, peak, decay), 'sine', frequency, at, decay);
+      oscillator(ctx, envelope(ctx, out, at, peak * 0.4, decay / 2), 'sine', frequency * 2.76, at, decay / 2);
+      oscillator(ctx, envelope(ctx, out, at, peak * 0.2, decay / 4), 'sine', frequency * 5.4, at, decay / 4);
+      return;
+    }
+  }
+};
+
+/** A struck gong: a low fundamental with a shimmer of inharmonic partials. */
+const gong = (ctx: BaseAudioContext, out: AudioNode, at: number, peak = 0.4) => {
+  [1, 1.48, 2.17, 2.9, 4.1].forEach((ratio, i) => {
+    const length = 2.4 / (i + 1);
+    const osc = oscillator(ctx, envelope(ctx, out, at, peak / (i + 1), length, 0.01), 'sine', 110 * ratio, at, length);
+    osc.frequency.exponentialRampToValueAtTime(110 * ratio * 0.97, at + length);
+  });
+  flick(ctx, out, at, 800, 0.3, peak / 2);
+};
+
+// 宫 for the cues: D above middle C
+const CUE_TONIC = 293.66;
+
+/** Plays `cue` into `out` at time `at` (on `ctx`'s clock). */
+export const playCue = (ctx: BaseAudioContext, out: AudioNode, cue: SoundCue, at = ctx.currentTime) => {
+  const chime = (degrees: number[], gap: number, voice: Voice = 'pluck', peak = 0.25) =>
+    degrees.forEach((degree, i) => note(ctx, out, voice, degreeFrequency(CUE_TONIC, degree), at + i * gap, 0.5, peak));
+
+  switch (cue) {
+    case 'deal':
+      for (let i = 0; i < 6; i++) flick(ctx, out, at + i * 0.07, 2200 + i * 150, 0.06, 0.35);
+      return;
+    case 'play':
+      flick(ctx, out, at, 1800, 0.09, 0.6);
+      oscillator(ctx, envelope(ctx, out, at, 0.3, 0.12), 'sine', 140, at, 0.12);
+      return;
+    case 'draw': {
+      const source = ctx.createBufferSource();
+      source.buffer = getNoise(ctx);
+      const filter = ctx.createBiquadFilter();
+      filter.type = 'bandpass';
+      filter.frequency.setValueAtTime(1200, at);
+      filter.frequency.exponentialRampToValueAtTime(4000, at + 0.18);
+      source.connect(filter);
+      filter.connect(envelope(ctx, out, at, 0.35, 0.2, 0.04));
+      source.start(at);
+      source.stop(at + 0.25);
+      return;
+    }
+    case 'eight':
+      flick(ctx, out, at, 1800, 0.09, 0.6);
+      gong(ctx, out, at + 0.05, 0.35);
+      return;
+    case 'chooseSuit':
+      return chime([4, 7], 0.12);
+    case 'item':
+      return chime([5, 7, 9, 10], 0.07, 'bell', 0.12);
+    case 'win':
+      gong(ctx, out, at, 0.3);
+      return chime([0, 2, 3, 4, 5, 7, 10], 0.11, 'pluck', 0.3);
+    case 'lose':
+      return chime([4, 3, 1, 0], 0.22, 'flute', 0.2);
+  }
+};
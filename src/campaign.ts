@@ -0,0 +1,200 @@
+import { CampaignProgress, Difficulty, GameState, MusicThemeId, RuleSet, SeatConfig, SeatId, SeatKind } from './types';
+import { CLASSIC_RULES } from './rules';
+import { createTable, TableNames } from './engine';
+
+/**
+ * 锦绣之旅: the campaign map. Each landmark is a stage with its own
+ * opponents, rule twist and goal; clearing one opens the next and unlocks
+ * the landmark's card back and fact page.
+ */
+
+export interface StageGoal {
+  desc: string;
+  /** Whether `seat` reached the goal in a finished game. */
+  met: (state: GameState, seat: SeatId) => boolean;
+}
+
+export interface Stage {
+  id: string;
+  name: string;
+  icon: string;
+  /** The landmark's picture, also its card back once unlocked. */
+  image: string;
+  /** The background music played at this stage. */
+  music: MusicThemeId;
+  difficulty: Difficulty;
+  /** The AI seats' names, in turn order after you. */
+  opponents: string[];
+  /** What the first opponent says as the cards are dealt. */
+  intro: string;
+  rules: RuleSet;
+  twist: string;
+  goal: StageGoal;
+  fact: { title: string; lines: string[] };
+}
+
+const won = (state: GameState, seat: SeatId) => state.status === 'won' && state.winner === seat;
+
+const movesBy = (state: GameState, seat: SeatId) =>
+  state.log.filter(entry => entry.type !== 'deal' && entry.seat === seat);
+
+export const STAGES: Stage[] = [
+  {
+    id: 'huashan',
+    name: '华山',
+    icon: '⛰️',
+    image: '/art/huashan.svg',
+    music: 'mountain',
+    difficulty: 'easy',
+    opponents: ['山道挑夫'],
+    intro: '自古华山一条路，小心脚下哦！',
+    rules: CLASSIC_RULES,
+    twist: '经典规则，先熟悉熟悉山路。',
+    goal: { desc: '赢下这一局', met: won },
+    fact: {
+      title: '西岳华山',
+      lines: [
+        '华山在陕西省华阴市，是“五岳”中的西岳。',
+        '它以“险”闻名天下，人们常说“自古华山一条路”。',
+        '长空栈道贴着悬崖修建，走在上面脚下就是万丈深谷。',
+      ],
+    },
+  },
+  {
+    id: 'terracotta',
+    name: '兵马俑',
+    icon: '🗿',
+    image: '/art/terracotta.svg',
+    music: 'army',
+    difficulty: 'normal',
+    opponents: ['秦军将军'],
+    intro: '全军列阵，看你能撑几个回合！',
+    rules: { ...CLASSIC_RULES, drawTwo: true, stackDrawTwo: true },
+    twist: '打出 2 罚摸两张，还可以叠加。',
+    goal: {
+      desc: '在 15 手之内获胜',
+      met: (state, seat) => won(state, seat) && movesBy(state, seat).filter(move => move.type !== 'useItem').length <= 15,
+    },
+    fact: {
+      title: '秦始皇陵兵马俑',
+      lines: [
+        '兵马俑在陕西西安临潼，是秦始皇陵的陪葬坑。',
+        '1974 年，几位农民打井时偶然发现了它们。',
+        '坑里有约 8000 个陶俑，每一个的脸都长得不一样。',
+      ],
+    },
+  },
+  {
+    id: 'westlake',
+    name: '西湖',
+    icon: '🌸',
+    image: '/art/westlake.svg',
+    music: 'lake',
+    difficulty: 'normal',
+    opponents: ['断桥书生', '白娘子'],
+    intro: '欲把西湖比西子，我们三人来一局。',
+    rules: { ...CLASSIC_RULES, skipQueen: true, reverseAce: true },
+    twist: '三人同游：Q 跳过下家，A 让方向反转。',
+    goal: { desc: '在三人局中获胜', met: won },
+    fact: {
+      title: '杭州西湖',
+      lines: [
+        '西湖在浙江省杭州市，断桥、雷峰塔、苏堤都在湖边。',
+        '一元人民币背面印的就是西湖的“三潭印月”。',
+        '苏东坡曾写诗把西湖比作美人西施。',
+      ],
+    },
+  },
+  {
+    id: 'guilin',
+    name: '桂林',
+    icon: '🛶',
+    image: '/art/guilin.svg',
+    music: 'river',
+    difficulty: 'normal',
+    opponents: ['漓江渔翁'],
+    intro: '漓江水长，摸牌可要摸个够哟。',
+    rules: { ...CLASSIC_RULES, drawUntilPlayable: true },
+    twist: '无牌可出时一直摸牌，直到能出为止。',
+    goal: {
+      desc: '获胜，而且全局摸牌不超过 8 张',
+      met: (state, seat) => won(state, seat) && movesBy(state, seat)
+        .reduce((drawn, move) => drawn + (move.type === 'draw' ? move.cards.length : 0), 0) <= 8,
+    },
+    fact: {
+      title: '桂林山水',
+      lines: [
+        '桂林在广西，人们说“桂林山水甲天下”。',
+        '这里的山是石灰岩被雨水溶蚀出来的，叫喀斯特地貌。',
+        '二十元人民币背面就是漓江边的山水风光。',
+      ],
+    },
+  },
+  {
+    id: 'huangshan',
+    name: '黄山',
+    icon: '🌲',
+    image: '/art/huangshan.svg',
+    music: 'mountain',
+    difficulty: 'hard',
+    opponents: ['迎客松'],
+    intro: '欢迎欢迎！不过想登顶，可没那么容易。',
+    rules: { ...CLASSIC_RULES, drawTwo: true, stackDrawTwo: true, skipQueen: true },
+    twist: '2 罚摸可叠加，Q 跳过下家。',
+    goal: {
+      desc: '用一张 8 打出最后一张牌获胜',
+      met: (state, seat) => {
+        const lastPlay = movesBy(state, seat).filter(move => move.type === 'play').pop();
+        return won(state, seat) && !state.blocked && lastPlay?.card.rank === '8';
+      },
+    },
+    fact: {
+      title: '安徽黄山',
+      lines: [
+        '黄山在安徽省南部，奇松、怪石、云海、温泉被称为“四绝”。',
+        '迎客松长在玉屏楼旁，像伸出手臂欢迎客人。',
+        '明代徐霞客说：“登黄山，天下无山。”',
+      ],
+    },
+  },
+  {
+    id: 'jiuzhaigou',
+    name: '九寨沟',
+    icon: '🐼',
+    image: '/art/jiuzhaigou.svg',
+    music: 'lake',
+    difficulty: 'hard',
+    opponents: ['大熊猫', '藏族阿妈', '五彩池精灵'],
+    intro: '最后一站啦，四个人一起比一比！',
+    rules: { drawTwo: true, stackDrawTwo: true, skipQueen: true, reverseAce: true, drawUntilPlayable: true, noEightFinish: true },
+    twist: '马拉松规则，四人同桌。',
+    goal: {
+      desc: '不使用道具，赢下四人局',
+      met: (state, seat) => won(state, seat) && !movesBy(state, seat).some(move => move.type === 'useItem'),
+    },
+    fact: {
+      title: '四川九寨沟',
+      lines: [
+        '九寨沟在四川省阿坝州，因沟里有九个藏族村寨而得名。',
+        '湖水清得能看见水底，五彩池会呈现蓝、绿、黄好几种颜色。',
+        '诺日朗瀑布很宽，附近的森林里还住着大熊猫。',
+      ],
+    },
+  },
+];
+
+export const findStage = (id: string | null): Stage | undefined => STAGES.find(stage => stage.id === id);
+
+export const isUnlocked = (stage: Stage, progress: CampaignProgress): boolean => {
+  const index = STAGES.indexOf(stage);
+  return index === 0 || progress.cleared.includes(STAGES[index - 1].id);
+};
+
+export const clearStage = (progress: CampaignProgress, stageId: string): CampaignProgress =>
+  progress.cleared.includes(stageId) ? progress : { ...progress, cleared: [...progress.cleared, stageId] };
+
+/** The stage's table as a regular setup, so the server can check it like any other game. */
+export const stageOpponentKinds = (stage: Stage): SeatKind[] => stage.opponents.map(() => 'ai');
+
+export const stageTable = (stage: Stage, names?: TableNames, opponents = stage.opponents): SeatConfig[] =>
+  createTable(stageOpponentKinds(stage), names).map((seat, i) => i === 0 ? seat : { ...seat, name: opponents[i - 1] });
@@ -0,0 +1,111 @@
+import React from 'react';
+import { motion } from 'motion/react';
+import { Check, Lock, Map as MapIcon } from 'lucide-react';
+import { CampaignProgress } from '../types';
+import { isUnlocked, Stage, STAGES } from '../campaign';
+import { useT } from '../i18n';
+import { FocusTrap } from './FocusTrap';
+
+interface CampaignMapProps {
+  progress: CampaignProgress;
+  /** The stage whose card back is in use, or null for the deck theme's own back. */
+  cardBack: string | null;
+  onPlay: (stage: Stage) => void;
+  onShowFact: (stage: Stage) => void;
+  onChooseBack: (stageId: string | null) => void;
+  onClose: () => void;
+}
+
+/** The 锦绣之旅 map: every landmark stage, what it asks of you and what it has unlocked. */
+export const CampaignMap: React.FC<CampaignMapProps> = ({ progress, cardBack, onPlay, onShowFact, onChooseBack, onClose }) => {
+  const t = useT();
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 backdrop-blur-sm p-4"
+    >
+      <FocusTrap label={t('campaign.title')} onEscape={onClose} className="bg-red-950 border border-yellow-500/30 p-6 sm:p-8 rounded-3xl shadow-2xl max-w-2xl w-full max-h-full overflow-y-auto">
+        <div className="flex items-center justify-between mb-6">
+          <h2 className="flex items-center gap-2 text-2xl font-bold text-yellow-400">
+            <MapIcon size={24} />
+            {t('campaign.title')}
+          </h2>
+          <span className="text-sm text-yellow-100/60">{t('campaign.progress', { cleared: progress.cleared.length, total: STAGES.length })}</span>
+        </div>
+
+        <ol className="grid grid-cols-1 gap-3 mb-6">
+          {STAGES.map((stage, i) => {
+            const unlocked = isUnlocked(stage, progress);
+            const cleared = progress.cleared.includes(stage.id);
+            const name = t.text(`stage.${stage.id}.name`);
+            return (
+              <li
+                key={stage.id}
+                className={`flex items-center gap-4 p-4 rounded-2xl border ${unlocked ? 'bg-black/20 border-yellow-500/20' : 'bg-black/40 border-white/5 opacity-50'}`}
+              >
+                <div className="relative w-14 h-20 shrink-0 rounded-lg overflow-hidden border-2 border-yellow-600 bg-red-900 flex items-center justify-center">
+                  {cleared
+                    ? <img src={stage.image} alt={name} className="w-full h-full object-cover" />
+                    : <span className="text-2xl">{unlocked ? stage.icon : '🔒'}</span>}
+                </div>
+                <div className="flex-1 text-left">
+                  <div className="flex items-center gap-2">
+                    <span className="text-xs text-yellow-500/60 font-bold">{t('campaign.stage', { n: i + 1 })}</span>
+                    <span className="font-bold text-yellow-100">{name}</span>
+                    {cleared && <Check size={16} className="text-emerald-400" />}
+                  </div>
+                  <div className="text-xs text-yellow-100/60">
+                    {t('campaign.opponents', {
+                      names: stage.opponents.map((_, n) => t.text(`stage.${stage.id}.opponent.${n}`)).join(t('list.separator')),
+                      level: { key: `ai.${stage.difficulty}.name` },
+                    })}
+                  </div>
+                  <div className="text-xs text-yellow-100/60">{t.text(`stage.${stage.id}.twist`)}</div>
+                  <div className="text-xs text-yellow-400">{t('campaign.goal', { goal: { key: `stage.${stage.id}.goal` } })}</div>
+                </div>
+                <div className="flex flex-col gap-2">
+                  {unlocked ? (
+                    <button
+                      onClick={() => onPlay(stage)}
+                      className="px-4 py-1.5 bg-yellow-500 hover:bg-yellow-400 text-red-950 rounded-full text-sm font-bold transition-colors"
+                    >
+                      {cleared ? t('campaign.again') : t('campaign.go')}
+                    </button>
+                  ) : (
+                    <Lock size={18} className="self-center text-yellow-100/40" />
+                  )}
+                  {cleared && (
+                    <>
+                      <button
+                        onClick={() => onShowFact(stage)}
+                        className="px-4 py-1.5 bg-white/10 hover:bg-white/20 rounded-full text-xs text-yellow-200 transition-colors"
+                      >
+                        {t('campaign.fact')}
+                      </button>
+                      <button
+                        onClick={() => onChooseBack(cardBack === stage.id ? null : stage.id)}
+                        className={`px-4 py-1.5 rounded-full text-xs transition-colors ${cardBack === stage.id ? 'bg-emerald-600 text-white' : 'bg-white/10 hover:bg-white/20 text-yellow-200'}`}
+                      >
+                        {cardBack === stage.id ? t('campaign.backInUse') : t('campaign.useBack')}
+                      </button>
+                    </>
+                  )}
+                </div>
+              </li>
+            );
+          })}
+        </ol>
+
+        <button
+          onClick={onClose}
+          className="w-full py-3 bg-white/10 hover:bg-white/20 rounded-xl font-bold transition-colors"
+        >
+          {t('campaign.home')}
+        </button>
+      </FocusTrap>
+    </motion.div>
+  );
+};
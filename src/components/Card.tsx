@@ -2,12 +2,22 @@ import React from 'react';
 import { motion } from 'motion/react';
 import { Card as CardType } from '../types';
 import { getSuitSymbol, getSuitColor } from '../constants';
+import { useT } from '../i18n';
+import { useTheme } from '../themes';
 
 interface CardProps {
   card: CardType;
   isFaceUp?: boolean;
   onClick?: () => void;
   isPlayable?: boolean;
+  /** Lifted out of the hand, e.g. while picking cards for an item. */
+  isSelected?: boolean;
+  /** Suggested by a hint. */
+  isHinted?: boolean;
+  /** The card the tutorial's spotlight is on. */
+  spotlight?: boolean;
+  /** The back's picture: a landmark earned on the campaign map, or the deck theme's own. */
+  backImage?: string | null;
   className?: string;
 }
 
@@ -16,59 +26,80 @@ export const Card: React.FC<CardProps> = ({
   isFaceUp = true, 
   onClick, 
   isPlayable = false,
+  isSelected = false,
+  isHinted = false,
+  spotlight = false,
+  backImage,
   className = ""
 }) => {
-  // Array of scenic images for card backs representing Chinese landmarks
-  const scenicImages = [
-    "https://picsum.photos/seed/huashan/400/600", // 华山
-    "https://picsum.photos/seed/terracotta/400/600", // 兵马俑
-    "https://picsum.photos/seed/westlake/400/600", // 西湖
-    "https://picsum.photos/seed/guilin/400/600", // 桂林
-    "https://picsum.photos/seed/huangshan/400/600", // 黄山
-    "https://picsum.photos/seed/jiuzhaigou/400/600" // 九寨沟
-  ];
-  
-  // Use card id to pick a consistent image from the list
-  const imageIndex = card.id.split('').reduce((acc, char) => acc + char.charCodeAt(0), 0) % scenicImages.length;
-  const backImage = scenicImages[imageIndex];
+  const t = useT();
+  const { face, back } = useTheme();
+  const court = face.courts?.[card.rank];
+  const label = isFaceUp ? t('card.name', { suit: t.text(`suit.${card.suit}`), rank: card.rank }) : t('card.back');
+
+  // Cards in the hand are buttons: Enter or Space plays them like a click
+  const onKeyDown = (event: React.KeyboardEvent) => {
+    if (event.key !== 'Enter' && event.key !== ' ') return;
+    event.preventDefault();
+    if (isPlayable) onClick?.();
+  };
 
   return (
     <motion.div
       layout
       initial={{ scale: 0.8, opacity: 0 }}
-      animate={{ scale: 1, opacity: 1 }}
+      animate={{ scale: 1, opacity: 1, y: isSelected ? -24 : 0 }}
       whileHover={isPlayable ? { y: -20, scale: 1.05 } : {}}
+      whileFocus={isPlayable ? { y: -20, scale: 1.05 } : {}}
       onClick={isPlayable ? onClick : undefined}
+      {...(onClick
+        ? { role: 'button', tabIndex: 0, 'aria-disabled': !isPlayable, 'aria-pressed': isSelected || undefined, onKeyDown }
+        : { role: 'img' })}
+      aria-label={label}
+      data-spotlight={spotlight || undefined}
       className={`
-        relative w-20 h-28 sm:w-24 sm:h-36 rounded-lg border-2 shadow-md flex flex-col items-center justify-center cursor-default transition-all duration-200 overflow-hidden
-        ${isFaceUp ? 'bg-white border-gray-200' : 'bg-red-900 border-yellow-600'}
+        relative w-20 h-28 sm:w-24 sm:h-36 rounded-lg border-2 shadow-md flex flex-col items-center justify-center cursor-default transition-all duration-200 overflow-hidden outline-none focus-visible:ring-4 focus-visible:ring-sky-400
+        ${isFaceUp ? face.className : back.className}
         ${isPlayable ? 'cursor-pointer hover:border-yellow-400 ring-2 ring-transparent hover:ring-yellow-400' : ''}
+        ${isSelected ? 'border-yellow-400 ring-4 ring-yellow-400' : ''}
+        ${isHinted ? 'border-emerald-400 ring-4 ring-emerald-400 animate-pulse' : ''}
         ${className}
       `}
     >
       {isFaceUp ? (
         <>
-          <div className={`absolute top-1 left-2 font-bold text-lg sm:text-xl ${getSuitColor(card.suit)}`}>
+          {face.frame && <div className={`absolute inset-1.5 rounded-md pointer-events-none ${face.frame}`} />}
+          <div className={`absolute top-1 left-2 font-bold ${face.large ? 'text-2xl sm:text-3xl' : 'text-lg sm:text-xl'} ${getSuitColor(card.suit)}`}>
             {card.rank}
           </div>
-          <div className={`text-3xl sm:text-4xl ${getSuitColor(card.suit)}`}>
-            {getSuitSymbol(card.suit)}
-          </div>
-          <div className={`absolute bottom-1 right-2 font-bold text-lg sm:text-xl rotate-180 ${getSuitColor(card.suit)}`}>
+          {court ? (
+            <img src={court} alt="" className="w-12 h-14 sm:w-16 sm:h-20 object-contain" />
+          ) : face.large ? (
+            <div className={`flex flex-col items-center leading-none ${getSuitColor(card.suit)}`}>
+              <span className="text-4xl sm:text-5xl font-black">{card.rank}</span>
+              <span className="text-3xl sm:text-4xl">{getSuitSymbol(card.suit)}</span>
+            </div>
+          ) : (
+            <div className={`text-3xl sm:text-4xl ${getSuitColor(card.suit)}`}>
+              {getSuitSymbol(card.suit)}
+            </div>
+          )}
+          <div className={`absolute bottom-1 right-2 font-bold rotate-180 ${face.large ? 'text-2xl sm:text-3xl' : 'text-lg sm:text-xl'} ${getSuitColor(card.suit)}`}>
             {card.rank}
           </div>
         </>
       ) : (
         <div className="w-full h-full relative">
-          <img 
-            src={backImage} 
-            alt="Scenic China" 
-            className="w-full h-full object-cover opacity-90"
-            referrerPolicy="no-referrer"
-          />
+          {backImage && (
+            <img 
+              src={backImage} 
+              alt="" 
+              className="w-full h-full object-cover opacity-90"
+            />
+          )}
           <div className="absolute inset-0 bg-red-900/10 flex items-center justify-center">
              <div className="w-12 h-20 sm:w-16 sm:h-28 border-2 border-yellow-400/30 rounded-md flex items-center justify-center backdrop-blur-[1px]">
-                <span className="text-yellow-400/80 text-2xl font-serif drop-shadow-lg">华</span>
+                <span className="text-yellow-400/80 text-2xl font-serif drop-shadow-lg">{back.motif}</span>
              </div>
           </div>
         </div>
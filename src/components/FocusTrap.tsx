@@ -0,0 +1,48 @@
+import React, { useEffect, useRef } from 'react';
+
+interface FocusTrapProps {
+  /** What a screen reader announces the dialog as. */
+  label: string;
+  /** Escape closes the dialog when given. */
+  onEscape?: () => void;
+  className?: string;
+  children: React.ReactNode;
+}
+
+const FOCUSABLE = 'button:not([disabled]), [href], input:not([disabled]), select:not([disabled]), textarea:not([disabled]), [tabindex]:not([tabindex="-1"])';
+
+/**
+ * A modal dialog's panel: focus moves into it when it opens, Tab cycles
+ * inside it, and focus goes back where it was once it closes.
+ */
+export const FocusTrap: React.FC<FocusTrapProps> = ({ label, onEscape, className, children }) => {
+  const panel = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    const previous = document.activeElement instanceof HTMLElement ? document.activeElement : null;
+    (panel.current?.querySelector<HTMLElement>(FOCUSABLE) ?? panel.current)?.focus();
+    return () => previous?.focus();
+  }, []);
+
+  const onKeyDown = (event: React.KeyboardEvent) => {
+    if (event.key === 'Escape' && onEscape) {
+      event.stopPropagation();
+      onEscape();
+      return;
+    }
+    if (event.key !== 'Tab' || !panel.current) return;
+    const focusable = [...panel.current.querySelectorAll<HTMLElement>(FOCUSABLE)];
+    const first = focusable[0];
+    const last = focusable[focusable.length - 1];
+    if (!first || (event.shiftKey ? document.activeElement === first : document.activeElement === last)) {
+      event.preventDefault();
+      (event.shiftKey ? last : first)?.focus();
+    }
+  };
+
+  return (
+    <div ref={panel} role="dialog" aria-modal="true" aria-label={label} tabIndex={-1} onKeyDown={onKeyDown} className={`focus:outline-none ${className ?? ''}`}>
+      {children}
+    </div>
+  );
+};
@@ -0,0 +1,79 @@
+import React from 'react';
+import { motion } from 'motion/react';
+import { ItemTarget, Seat } from '../types';
+import { Item } from '../items';
+import { getSuitColor, getSuitSymbol, SUITS } from '../constants';
+import { useT } from '../i18n';
+
+interface ItemTargetPickerProps {
+  item: Item;
+  opponents: Seat[];
+  /** Cards picked from the hand so far, for items that target cards. */
+  cardIds: string[];
+  /** How many cards the item needs right now (fewer when the hand is small). */
+  cardsNeeded: number;
+  onPick: (target: ItemTarget) => void;
+  onCancel: () => void;
+}
+
+/** Asks what an item should be used on. Cards are picked by clicking them in the hand. */
+export const ItemTargetPicker: React.FC<ItemTargetPickerProps> = ({ item, opponents, cardIds, cardsNeeded, onPick, onCancel }) => {
+  const t = useT();
+  const kind = item.use?.target;
+  const button = 'px-3 py-1.5 rounded-full text-sm font-bold border transition-colors';
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 10 }}
+      animate={{ opacity: 1, y: 0 }}
+      exit={{ opacity: 0, y: 10 }}
+      className="flex flex-wrap items-center justify-center gap-2 px-4 py-2 bg-black/40 backdrop-blur-md rounded-2xl border border-yellow-500/40 text-sm text-yellow-100"
+    >
+      <span className="text-xl">{item.icon}</span>
+      {kind?.type === 'cards' && (
+        <>
+          <span>{t('target.cards', { count: cardsNeeded, picked: cardIds.length })}</span>
+          <button
+            onClick={() => onPick({ cardIds })}
+            disabled={cardIds.length !== cardsNeeded}
+            className={`${button} ${cardIds.length === cardsNeeded ? 'bg-yellow-500 text-red-950 border-yellow-500' : 'bg-white/5 text-white/30 border-white/10 cursor-not-allowed'}`}
+          >
+            {t('target.confirm')}
+          </button>
+        </>
+      )}
+      {kind?.type === 'suit' && (
+        <>
+          <span>{t('target.suit')}</span>
+          {SUITS.map(suit => (
+            <button
+              key={suit}
+              onClick={() => onPick({ suit })}
+              title={t.text(`suit.${suit}`)}
+              className="w-9 h-9 bg-white rounded-full shadow flex items-center justify-center hover:scale-110 transition-transform"
+            >
+              <span className={`text-xl ${getSuitColor(suit)}`}>{getSuitSymbol(suit)}</span>
+            </button>
+          ))}
+        </>
+      )}
+      {kind?.type === 'opponent' && (
+        <>
+          <span>{t('target.opponent')}</span>
+          {opponents.map(seat => (
+            <button
+              key={seat.id}
+              onClick={() => onPick({ seat: seat.id })}
+              className={`${button} bg-white/5 text-yellow-200 border-yellow-500/30 hover:bg-white/10`}
+            >
+              {seat.name}
+            </button>
+          ))}
+        </>
+      )}
+      <button onClick={onCancel} className={`${button} bg-white/5 text-yellow-200/70 border-white/10 hover:bg-white/10`}>
+        {t('target.cancel')}
+      </button>
+    </motion.div>
+  );
+};
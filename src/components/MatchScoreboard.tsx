@@ -0,0 +1,57 @@
+import React from 'react';
+import { Match } from '../types';
+import { matchScores, matchWinner } from '../match';
+import { useT } from '../i18n';
+
+interface MatchScoreboardProps {
+  match: Match;
+}
+
+/** Points per round and in total, with who dealt each round. */
+export const MatchScoreboard: React.FC<MatchScoreboardProps> = ({ match }) => {
+  const t = useT();
+  const scores = matchScores(match);
+  const winner = matchWinner(match);
+  const best = Math.max(...Object.values(scores));
+
+  return (
+    <div className="overflow-x-auto">
+      <table className="w-full text-sm tabular-nums">
+        <thead>
+          <tr className="text-yellow-500/70 text-xs">
+            <th className="py-1 pr-2 text-left font-medium">{t('match.target', { target: match.target })}</th>
+            {match.table.map(seat => (
+              <th key={seat.id} className="py-1 px-2 text-right font-medium">{seat.name}</th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {match.rounds.map((round, i) => (
+            <tr key={i} className="border-t border-white/5 text-yellow-100/80">
+              <td className="py-1 pr-2 text-left text-xs text-yellow-100/50">{t('match.round', { n: i + 1 })}</td>
+              {match.table.map(seat => (
+                <td key={seat.id} className="py-1 px-2 text-right">
+                  {round.dealer === seat.id && (
+                    <span className="mr-1 text-[10px] text-yellow-500/60" title={t('match.dealer')}>{t('match.dealerMark')}</span>
+                  )}
+                  {round.points[seat.id] ? `+${round.points[seat.id]}` : '–'}
+                </td>
+              ))}
+            </tr>
+          ))}
+          <tr className="border-t border-yellow-500/30 font-bold">
+            <td className="py-1 pr-2 text-left text-yellow-400">{t('match.total')}</td>
+            {match.table.map(seat => (
+              <td
+                key={seat.id}
+                className={`py-1 px-2 text-right ${seat.id === winner ? 'text-yellow-400' : scores[seat.id] === best && best > 0 ? 'text-yellow-200' : 'text-yellow-100/70'}`}
+              >
+                {scores[seat.id]}
+              </td>
+            ))}
+          </tr>
+        </tbody>
+      </table>
+    </div>
+  );
+};
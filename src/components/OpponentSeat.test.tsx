@@ -0,0 +1,31 @@
+import React from 'react';
+import { renderToStaticMarkup } from 'react-dom/server';
+import { describe, expect, it } from 'vitest';
+import { Seat } from '../types';
+import { findTheme, ThemeContext } from '../themes';
+import { OpponentSeat } from './OpponentSeat';
+
+const seat: Seat = {
+  id: 'seat-1',
+  name: 'AI 1',
+  kind: 'ai',
+  hand: [
+    { id: 'hidden-seat-1-0', suit: 'spades', rank: 'A' },
+    { id: 'hidden-seat-1-1', suit: 'spades', rank: 'A' },
+  ],
+};
+
+describe('OpponentSeat', () => {
+  it('draws compact card backs in the chosen theme and picture', () => {
+    const theme = findTheme('porcelain')!;
+    const html = renderToStaticMarkup(
+      <ThemeContext.Provider value={theme}>
+        <OpponentSeat seat={seat} compact backImage="/art/huashan.svg" />
+      </ThemeContext.Provider>,
+    );
+
+    expect(html.split(theme.back.className).length - 1).toBe(seat.hand.length);
+    expect(html.split('src="/art/huashan.svg"').length - 1).toBe(seat.hand.length);
+    expect(html).not.toContain('bg-red-900');
+  });
+});
@@ -0,0 +1,87 @@
+import React from 'react';
+import { motion } from 'motion/react';
+import { Bot, User, Wifi } from 'lucide-react';
+import { Card as CardComponent } from './Card';
+import { Seat } from '../types';
+import { getSuitColor, getSuitSymbol } from '../constants';
+import { useT } from '../i18n';
+import { useTheme } from '../themes';
+
+interface OpponentSeatProps {
+  seat: Seat;
+  isCurrent?: boolean;
+  /** Small card backs for tables with several opponents. */
+  compact?: boolean;
+  /** Show the hand face up, e.g. through the mirror item. */
+  revealed?: boolean;
+  backImage?: string;
+}
+
+const MAX_COMPACT_BACKS = 8;
+
+export const OpponentSeat: React.FC<OpponentSeatProps> = ({ seat, isCurrent = false, compact = false, revealed = false, backImage }) => {
+  const t = useT();
+  const { back } = useTheme();
+  const KindIcon = seat.kind === 'ai' ? Bot : seat.kind === 'remote' ? Wifi : User;
+
+  return (
+    <div
+      role="group"
+      aria-label={t('seat.label', { name: seat.name, count: seat.hand.length })}
+      aria-current={isCurrent || undefined}
+      className="flex flex-col items-center gap-2"
+    >
+      <div
+        aria-hidden
+        className={`
+          flex items-center gap-2 text-sm font-medium uppercase tracking-wider px-3 py-1 rounded-full transition-colors
+          ${isCurrent ? 'bg-yellow-500 text-red-950 shadow-lg shadow-yellow-500/30' : 'text-emerald-300'}
+        `}
+      >
+        <KindIcon size={14} />
+        <span>{seat.name}</span>
+        <span className={`px-2 py-0.5 rounded-full text-xs ${isCurrent ? 'bg-red-950/20' : 'bg-emerald-800'}`}>
+          {t('seat.cards', { count: seat.hand.length })}
+        </span>
+      </div>
+      {compact && revealed ? (
+        <div className="flex flex-wrap justify-center gap-1 max-w-48">
+          {seat.hand.map(card => (
+            <span key={card.id} className={`px-1 rounded-sm bg-white text-xs font-bold shadow ${getSuitColor(card.suit)}`}>
+              {card.rank}{getSuitSymbol(card.suit)}
+            </span>
+          ))}
+        </div>
+      ) : compact ? (
+        <div aria-hidden className="flex -space-x-4 h-10 items-center">
+          {seat.hand.slice(0, MAX_COMPACT_BACKS).map(card => (
+            <motion.div
+              key={card.id}
+              layout
+              initial={{ scale: 0.8, opacity: 0 }}
+              animate={{ scale: 1, opacity: 1 }}
+              className={`w-6 h-9 rounded-sm border shadow overflow-hidden ${back.className}`}
+            >
+              {backImage && <img src={backImage} alt="" className="w-full h-full object-cover" />}
+            </motion.div>
+          ))}
+          {seat.hand.length > MAX_COMPACT_BACKS && (
+            <span className="pl-6 text-xs text-yellow-200/60">+{seat.hand.length - MAX_COMPACT_BACKS}</span>
+          )}
+        </div>
+      ) : (
+        <div aria-hidden={!revealed} className="flex justify-center -space-x-12 sm:-space-x-16 h-32 sm:h-40 items-center">
+          {seat.hand.map(card => (
+            <CardComponent
+              key={card.id}
+              card={card}
+              isFaceUp={revealed}
+              backImage={backImage}
+              className="shadow-xl"
+            />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
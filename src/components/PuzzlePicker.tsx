@@ -0,0 +1,138 @@
+import React from 'react';
+import { motion } from 'motion/react';
+import { Puzzle as PuzzleIcon, RotateCcw } from 'lucide-react';
+import { PuzzleProgress } from '../types';
+import { Puzzle, PUZZLE_PACKS } from '../puzzles';
+import { useT } from '../i18n';
+import { FocusTrap } from './FocusTrap';
+
+const Stars: React.FC<{ earned: number }> = ({ earned }) => (
+  <span className="tracking-tight" aria-hidden>
+    {[1, 2, 3].map(n => <span key={n} className={n <= earned ? 'text-yellow-400' : 'text-white/15'}>★</span>)}
+  </span>
+);
+
+interface PuzzlePickerProps {
+  progress: PuzzleProgress;
+  onPlay: (puzzle: Puzzle) => void;
+  onClose: () => void;
+}
+
+/** Every pack of 残局挑战, with the rating earned on each puzzle so far. */
+export const PuzzlePicker: React.FC<PuzzlePickerProps> = ({ progress, onPlay, onClose }) => {
+  const t = useT();
+  const total = PUZZLE_PACKS.reduce((sum, pack) => sum + pack.puzzles.length, 0);
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 backdrop-blur-sm p-4"
+    >
+      <FocusTrap label={t('puzzles.title')} onEscape={onClose} className="bg-red-950 border border-yellow-500/30 p-6 sm:p-8 rounded-3xl shadow-2xl max-w-2xl w-full max-h-full overflow-y-auto">
+        <div className="flex items-center justify-between mb-2">
+          <h2 className="flex items-center gap-2 text-2xl font-bold text-yellow-400">
+            <PuzzleIcon size={24} />
+            {t('puzzles.title')}
+          </h2>
+          <span className="text-sm text-yellow-100/60">{t('puzzles.progress', { solved: Object.keys(progress.stars).length, total })}</span>
+        </div>
+        <p className="mb-6 text-sm text-yellow-100/60">{t('puzzles.intro')}</p>
+
+        {PUZZLE_PACKS.map(pack => (
+          <section key={pack.id} className="mb-6">
+            <h3 className="mb-2 text-xs font-bold uppercase tracking-widest text-yellow-500/70">{t.text(`puzzlePack.${pack.id}.name`)}</h3>
+            <ol className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+              {pack.puzzles.map((puzzle, i) => {
+                const earned = progress.stars[puzzle.id] ?? 0;
+                return (
+                  <li key={puzzle.id}>
+                    <button
+                      onClick={() => onPlay(puzzle)}
+                      aria-label={t('puzzles.label', { title: { key: `puzzle.${puzzle.id}.title` }, moves: puzzle.moves, stars: earned })}
+                      className="w-full flex items-center gap-3 p-3 rounded-2xl bg-black/20 hover:bg-black/30 border border-yellow-500/20 text-left transition-colors"
+                    >
+                      <span className="w-8 h-8 shrink-0 rounded-lg bg-yellow-500/20 text-yellow-300 font-bold flex items-center justify-center">{i + 1}</span>
+                      <span className="flex-1">
+                        <span className="block font-bold text-yellow-100">{t.text(`puzzle.${puzzle.id}.title`)}</span>
+                        <span className="block text-xs text-yellow-100/60">{t('puzzles.winIn', { moves: puzzle.moves })}</span>
+                      </span>
+                      <Stars earned={earned} />
+                    </button>
+                  </li>
+                );
+              })}
+            </ol>
+          </section>
+        ))}
+
+        <button
+          onClick={onClose}
+          className="w-full py-3 bg-white/10 hover:bg-white/20 rounded-xl font-bold transition-colors"
+        >
+          {t('puzzles.home')}
+        </button>
+      </FocusTrap>
+    </motion.div>
+  );
+};
+
+interface PuzzleResultProps {
+  puzzle: Puzzle;
+  solved: boolean;
+  /** This run's rating when solved. */
+  stars: number;
+  onRetry: () => void;
+  /** Missing after the last puzzle of a pack. */
+  onNext?: () => void;
+  onPicker: () => void;
+}
+
+/** How a puzzle went: its rating when solved, or another try when not. */
+export const PuzzleResult: React.FC<PuzzleResultProps> = ({ puzzle, solved, stars, onRetry, onNext, onPicker }) => {
+  const t = useT();
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      className="fixed inset-0 z-50 flex items-center justify-center bg-black/70 backdrop-blur-sm p-4"
+    >
+      <FocusTrap label={solved ? t('puzzles.solved') : t('puzzles.failed')} onEscape={onPicker} className="bg-red-950 border border-yellow-500/30 p-8 rounded-3xl shadow-2xl max-w-md w-full text-center">
+        <div className="mb-2 text-sm text-yellow-500/70">{t.text(`puzzle.${puzzle.id}.title`)}</div>
+        <h2 className="text-3xl font-bold text-yellow-400 mb-2">{solved ? t('puzzles.solved') : t('puzzles.failed')}</h2>
+        {solved && (
+          <div className="text-4xl mb-2" role="img" aria-label={t('puzzles.rating', { stars })}><Stars earned={stars} /></div>
+        )}
+        <p className="text-yellow-100/80 mb-6">
+          {solved ? t('puzzles.ratingHint') : t('puzzles.failedHint', { moves: puzzle.moves })}
+        </p>
+        <div className="flex flex-col gap-3">
+          {solved && onNext && (
+            <button
+              onClick={onNext}
+              className="w-full py-3 bg-yellow-500 hover:bg-yellow-400 text-red-950 rounded-xl font-bold transition-colors"
+            >
+              {t('puzzles.next')}
+            </button>
+          )}
+          <button
+            onClick={onRetry}
+            className={`w-full py-3 rounded-xl font-bold transition-colors flex items-center justify-center gap-2 ${solved && onNext ? 'bg-white/10 hover:bg-white/20' : 'bg-yellow-500 hover:bg-yellow-400 text-red-950'}`}
+          >
+            <RotateCcw size={18} />
+            {t('puzzles.retry')}
+          </button>
+          <button
+            onClick={onPicker}
+            className="w-full py-3 bg-white/10 hover:bg-white/20 rounded-xl font-bold transition-colors"
+          >
+            {t('puzzles.all')}
+          </button>
+        </div>
+      </FocusTrap>
+    </motion.div>
+  );
+};
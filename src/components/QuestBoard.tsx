@@ -0,0 +1,78 @@
+import React from 'react';
+import { Check, ScrollText } from 'lucide-react';
+import { QuestBoard as Board } from '../types';
+import { canClaimQuest, Quest, QuestPeriod } from '../quests';
+import { useT } from '../i18n';
+
+interface QuestBoardProps {
+  /** Already rolled over to today. */
+  board: Board;
+  quests: Quest[];
+  onClaim: (quest: Quest) => void;
+}
+
+const PERIODS: QuestPeriod[] = ['daily', 'weekly'];
+
+/** Today's and this week's quests, how far along each is, and their rewards to collect. */
+export const QuestBoard: React.FC<QuestBoardProps> = ({ board, quests, onClaim }) => {
+  const t = useT();
+
+  return (
+    <section aria-label={t('quests.title')} className="mt-6 text-left">
+      <h2 className="flex items-center gap-2 mb-2 text-sm font-bold text-yellow-400">
+        <ScrollText size={16} />
+        {t('quests.title')}
+        <span className="ml-auto text-xs font-normal text-yellow-100/40">{t('quests.resets')}</span>
+      </h2>
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+        {PERIODS.map(period => (
+          <div key={period} className="p-3 rounded-xl bg-black/20 border border-white/5">
+            <h3 className="mb-2 text-xs font-bold uppercase tracking-widest text-yellow-500/70">{t(`quests.${period}`)}</h3>
+            <ul className="space-y-2">
+              {quests.filter(quest => quest.period === period).map(quest => {
+                const done = Math.min(board.progress[quest.id] ?? 0, quest.target);
+                const claimed = board.claimed.includes(quest.id);
+                return (
+                  <li key={quest.id} className="text-sm">
+                    <div className="flex items-center gap-2">
+                      <span className={`flex-1 ${claimed ? 'text-yellow-100/40 line-through' : 'text-yellow-100'}`}>{t.text(`quest.${quest.id}.desc`)}</span>
+                      {claimed ? (
+                        <span className="flex items-center gap-1 text-xs text-emerald-300" title={t('quests.claimed')}>
+                          <Check size={14} />
+                          {t('quests.claimed')}
+                        </span>
+                      ) : canClaimQuest(board, quest) ? (
+                        <button
+                          onClick={() => onClaim(quest)}
+                          className="px-2.5 py-0.5 bg-yellow-500 hover:bg-yellow-400 text-red-950 text-xs font-bold rounded-full transition-colors"
+                        >
+                          {t('quests.claim', { stars: quest.stars })}
+                        </button>
+                      ) : (
+                        <span className="text-xs text-yellow-500/70">{t('quests.reward', { stars: quest.stars })}</span>
+                      )}
+                    </div>
+                    <div
+                      role="progressbar"
+                      aria-valuemin={0}
+                      aria-valuemax={quest.target}
+                      aria-valuenow={done}
+                      aria-valuetext={t('quests.progress', { done, target: quest.target })}
+                      className="mt-1 flex items-center gap-2"
+                    >
+                      <div className="flex-1 h-1.5 rounded-full bg-white/10 overflow-hidden">
+                        <div className="h-full bg-yellow-500 transition-all" style={{ width: `${(done / quest.target) * 100}%` }} />
+                      </div>
+                      <span className="text-[10px] tabular-nums text-yellow-100/50">{t('quests.progress', { done, target: quest.target })}</span>
+                    </div>
+                  </li>
+                );
+              })}
+            </ul>
+          </div>
+        ))}
+      </div>
+      <p className="mt-2 text-xs text-yellow-100/40">{t('quests.which')}</p>
+    </section>
+  );
+};
@@ -0,0 +1,72 @@
+import React from 'react';
+import { motion } from 'motion/react';
+import { Bot, User, Wifi, WifiOff } from 'lucide-react';
+import { GameMessage, RoomInfo, SeatId } from '../types';
+import { rulesName, useT } from '../i18n';
+import { FocusTrap } from './FocusTrap';
+
+interface RoomLobbyProps {
+  room: RoomInfo;
+  seatId: SeatId;
+  error: GameMessage | null;
+  onStart: () => void;
+  onLeave: () => void;
+}
+
+/** The waiting room of an online game: the code to share and who has sat down. */
+export const RoomLobby: React.FC<RoomLobbyProps> = ({ room, seatId, error, onStart, onLeave }) => {
+  const t = useT();
+  const isHost = room.hostSeatId === seatId;
+  const seats = Array.from({ length: room.seatCount }, (_, i) => `seat-${i}`);
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 backdrop-blur-sm p-4"
+    >
+      <FocusTrap label={t('lobby.label')} className="bg-red-950 border border-yellow-500/30 p-8 rounded-3xl shadow-2xl max-w-md w-full text-center">
+        <p className="text-yellow-100/70 text-sm mb-2">{t('lobby.share')}</p>
+        <div className="text-5xl font-bold font-mono tracking-[0.3em] text-yellow-400 mb-2">{room.code}</div>
+        <p className="text-xs text-yellow-500/60 mb-6">
+          {t('lobby.setup', { rules: rulesName(t, room.rules), level: { key: `ai.${room.difficulty}.name` } })}
+        </p>
+
+        <div className="grid grid-cols-1 gap-2 mb-6 text-left">
+          {seats.map(id => {
+            const player = room.players.find(p => p.seatId === id);
+            const Icon = !player ? Bot : !player.connected ? WifiOff : id === seatId ? User : Wifi;
+            return (
+              <div key={id} className="flex items-center gap-3 px-4 py-2 rounded-xl bg-black/20 border border-white/5 text-sm">
+                <Icon size={16} className={player ? 'text-yellow-400' : 'text-emerald-300/60'} />
+                <span className={player ? 'text-yellow-100' : 'text-emerald-200/60'}>
+                  {player ? player.name : t('lobby.emptySeat')}
+                </span>
+                {id === room.hostSeatId && <span className="ml-auto text-xs text-yellow-500/80">{t('lobby.host')}</span>}
+              </div>
+            );
+          })}
+        </div>
+
+        {error && <p className="text-sm text-red-300 mb-4">{t.message(error)}</p>}
+
+        <div className="flex gap-3">
+          <button
+            onClick={onLeave}
+            className="flex-1 py-3 bg-white/10 hover:bg-white/20 rounded-xl font-bold transition-colors"
+          >
+            {t('lobby.leave')}
+          </button>
+          <button
+            onClick={onStart}
+            disabled={!isHost}
+            className={`flex-1 py-3 rounded-xl font-bold transition-all ${isHost ? 'bg-yellow-500 hover:bg-yellow-400 text-red-950' : 'bg-white/5 text-white/30 cursor-not-allowed'}`}
+          >
+            {isHost ? t('lobby.start') : t('lobby.waiting')}
+          </button>
+        </div>
+      </FocusTrap>
+    </motion.div>
+  );
+};
@@ -0,0 +1,50 @@
+import React from 'react';
+import { motion } from 'motion/react';
+import { Stage } from '../campaign';
+import { useT } from '../i18n';
+import { FocusTrap } from './FocusTrap';
+
+interface StageFactProps {
+  stage: Stage;
+  onClose: () => void;
+}
+
+/** A landmark's fact page, unlocked by clearing its stage. */
+export const StageFact: React.FC<StageFactProps> = ({ stage, onClose }) => {
+  const t = useT();
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      className="fixed inset-0 z-[60] flex items-center justify-center bg-black/70 backdrop-blur-sm p-4"
+    >
+      <FocusTrap label={t.text(`stage.${stage.id}.fact.title`)} onEscape={onClose} className="max-w-md w-full">
+        <motion.div
+          initial={{ scale: 0.9, y: 20 }}
+          animate={{ scale: 1, y: 0 }}
+          className="bg-red-950 border border-yellow-500/30 rounded-3xl shadow-2xl max-w-md w-full overflow-hidden"
+        >
+          <img
+            src={stage.image}
+            alt={t.text(`stage.${stage.id}.name`)}
+            className="w-full h-48 object-cover"
+          />
+          <div className="p-8">
+            <h2 className="text-2xl font-bold text-yellow-400 mb-4">{stage.icon} {t.text(`stage.${stage.id}.fact.title`)}</h2>
+            <ul className="space-y-2 text-sm text-yellow-100/80 leading-relaxed list-disc list-inside mb-6">
+              {stage.fact.lines.map((line, i) => <li key={line}>{t.text(`stage.${stage.id}.fact.${i}`)}</li>)}
+            </ul>
+            <button
+              onClick={onClose}
+              className="w-full py-3 bg-white/10 hover:bg-white/20 rounded-xl font-bold transition-colors"
+            >
+              {t('fact.close')}
+            </button>
+          </div>
+        </motion.div>
+      </FocusTrap>
+    </motion.div>
+  );
+};
@@ -0,0 +1,178 @@
+import React, { useMemo, useState } from 'react';
+import { motion } from 'motion/react';
+import { BarChart3, ChevronLeft, Download } from 'lucide-react';
+import { GameRecord, PlayerStats, SeatId } from '../types';
+import { exportStats, replayRecord, summarize, Tally } from '../stats';
+import { findItem } from '../items';
+import { findStage } from '../campaign';
+import { describeMove } from '../guide/facts';
+import { rulesName, useT } from '../i18n';
+import { FocusTrap } from './FocusTrap';
+
+interface StatsScreenProps {
+  stats: PlayerStats;
+  /** Whose side the records are from. */
+  seat: SeatId;
+  onClose: () => void;
+}
+
+const percent = ({ played, won }: Tally) => played > 0 ? `${Math.round(won / played * 100)}%` : '—';
+
+const downloadStats = (stats: PlayerStats) => {
+  const url = URL.createObjectURL(new Blob([exportStats(stats)], { type: 'application/json' }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `kiki-stats-${new Date().toISOString().slice(0, 10)}.json`;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+const TallyTable: React.FC<{ title: string; groups: Record<string, Tally>; label?: (key: string) => string }> = ({ title, groups, label = key => key }) => {
+  const t = useT();
+
+  return (
+    <div className="p-4 bg-black/20 rounded-2xl border border-white/5">
+      <h3 className="text-sm font-bold text-yellow-400 mb-2">{title}</h3>
+      {Object.keys(groups).length === 0 && <p className="text-xs text-yellow-100/40">{t('stats.noRecords')}</p>}
+      {Object.keys(groups).map(key => (
+        <div key={key} className="flex justify-between text-xs text-yellow-100/80 py-0.5">
+          <span>{label(key)}</span>
+          <span className="tabular-nums">{groups[key].won} / {groups[key].played} · {percent(groups[key])}</span>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+/** One game from the history: its setup, result and, while they are kept, all of its moves. */
+const GameDetails: React.FC<{ record: GameRecord; seat: SeatId; onBack: () => void }> = ({ record, seat, onBack }) => {
+  const final = useMemo(() => replayRecord(record), [record]);
+  const t = useT();
+  const stage = findStage(record.stageId);
+
+  return (
+    <div>
+      <button onClick={onBack} className="flex items-center gap-1 text-sm text-yellow-200 hover:text-yellow-400 mb-4">
+        <ChevronLeft size={16} />
+        {t('stats.backToList')}
+      </button>
+      <div className="grid grid-cols-2 gap-2 text-xs text-yellow-100/80 mb-4">
+        <div>{t.rich('stats.seed', { seed: <span className="font-mono">{record.seed}</span> })}</div>
+        <div>{t('stats.time', { time: new Date(record.finishedAt).toLocaleString(t.lang) })}</div>
+        <div>{t('stats.result', { result: { key: `result.${record.result}` } })}</div>
+        <div>{t('stats.opponents', { names: record.table.filter(s => s.id !== seat).map(s => s.name).join(t('list.separator')) })}</div>
+        <div>{t('stats.setup', { rules: rulesName(t, record.rules), level: { key: `ai.${record.difficulty}.name` } })}</div>
+        <div>{stage ? t('stats.stage', { stage: { key: `stage.${stage.id}.name` } }) : record.casual ? t('stats.casual') : t('stats.free')}</div>
+        <div>{t('stats.turns', { turns: record.turns, eights: record.eightsPlayed })}</div>
+        <div>{t('stats.stars', { stars: record.starsEarned })}</div>
+      </div>
+      {final ? (
+        <ol className="max-h-72 overflow-y-auto space-y-1 text-xs text-yellow-100/70 list-decimal list-inside bg-black/20 rounded-2xl p-4">
+          {final.log.map((entry, i) => <li key={i}>{describeMove(t, final, entry, seat)}</li>)}
+        </ol>
+      ) : (
+        <p className="text-xs text-yellow-100/40">{t('stats.noMoves')}</p>
+      )}
+    </div>
+  );
+};
+
+/** Totals, win rates by difficulty and rules, and the game history with a page per game. */
+export const StatsScreen: React.FC<StatsScreenProps> = ({ stats, seat, onClose }) => {
+  const t = useT();
+  const [selected, setSelected] = useState<GameRecord | null>(null);
+  const summary = useMemo(() => summarize(stats), [stats]);
+  const itemsUsed = Object.entries(summary.itemsUsed);
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 backdrop-blur-sm p-4"
+    >
+      <FocusTrap label={t('stats.title')} onEscape={onClose} className="bg-red-950 border border-yellow-500/30 p-6 sm:p-8 rounded-3xl shadow-2xl max-w-2xl w-full max-h-full overflow-y-auto text-left">
+        <div className="flex items-center justify-between mb-6">
+          <h2 className="flex items-center gap-2 text-2xl font-bold text-yellow-400">
+            <BarChart3 size={24} />
+            {t('stats.title')}
+          </h2>
+          <button
+            onClick={() => downloadStats(stats)}
+            title={t('stats.exportHint')}
+            className="flex items-center gap-1 px-3 py-1.5 bg-white/10 hover:bg-white/20 rounded-full text-xs text-yellow-200 transition-colors"
+          >
+            <Download size={14} />
+            {t('stats.export')}
+          </button>
+        </div>
+
+        {selected ? (
+          <GameDetails record={selected} seat={seat} onBack={() => setSelected(null)} />
+        ) : (
+          <>
+            <div className="grid grid-cols-2 sm:grid-cols-4 gap-2 mb-4">
+              {[
+                { label: t('stats.played'), value: summary.played },
+                { label: t('stats.winRate'), value: t('stats.winRateValue', { won: summary.won, percent: percent(summary) }) },
+                { label: t('stats.streak'), value: t('stats.streakValue', { current: summary.currentStreak, best: summary.bestStreak }) },
+                { label: t('stats.averageTurns'), value: summary.averageTurns },
+                { label: t('stats.eights'), value: summary.eightsPlayed },
+                { label: t('stats.earned'), value: `${summary.starsEarned} ★` },
+                { label: t('stats.spent'), value: `${summary.starsSpent} ★` },
+                { label: t('stats.draws'), value: summary.draws },
+              ].map(({ label, value }) => (
+                <div key={label} className="p-3 bg-black/20 rounded-2xl border border-white/5">
+                  <div className="text-[10px] text-yellow-500/60 font-bold">{label}</div>
+                  <div className="text-sm font-bold text-yellow-100">{value}</div>
+                </div>
+              ))}
+            </div>
+
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-2 mb-4">
+              <TallyTable title={t('stats.byDifficulty')} groups={summary.byDifficulty} label={id => t.text(`ai.${id}.name`)} />
+              <TallyTable title={t('stats.byRules')} groups={summary.byRules} label={id => t.text(id === 'custom' ? 'rules.custom' : `preset.${id}`)} />
+              <div className="p-4 bg-black/20 rounded-2xl border border-white/5">
+                <h3 className="text-sm font-bold text-yellow-400 mb-2">{t('stats.items')}</h3>
+                {itemsUsed.length === 0 && <p className="text-xs text-yellow-100/40">{t('stats.noItems')}</p>}
+                {itemsUsed.map(([itemId, count]) => (
+                  <div key={itemId} className="flex justify-between text-xs text-yellow-100/80 py-0.5">
+                    <span>{findItem(itemId)?.icon} {t.text(`item.${itemId}.name`)}</span>
+                    <span className="tabular-nums">{count}</span>
+                  </div>
+                ))}
+              </div>
+            </div>
+
+            <h3 className="text-sm font-bold text-yellow-400 mb-2">{t('stats.history')}</h3>
+            {stats.history.length === 0 && <p className="text-xs text-yellow-100/40 mb-4">{t('stats.empty')}</p>}
+            <ul className="grid grid-cols-1 gap-1 mb-6 max-h-64 overflow-y-auto">
+              {[...stats.history].reverse().map(record => (
+                <li key={`${record.seed}-${record.finishedAt}`}>
+                  <button
+                    onClick={() => setSelected(record)}
+                    className="w-full flex items-center gap-3 px-3 py-2 rounded-xl bg-black/20 hover:bg-black/30 border border-white/5 text-xs text-yellow-100/80"
+                  >
+                    <span className={`w-6 font-bold ${record.result === 'won' ? 'text-emerald-400' : record.result === 'draw' ? 'text-yellow-200' : 'text-red-300'}`}>
+                      {t.text(`result.${record.result}`)}
+                    </span>
+                    <span>{new Date(record.finishedAt).toLocaleDateString(t.lang)}</span>
+                    <span>{record.stageId ? t.text(`stage.${record.stageId}.name`) : rulesName(t, record.rules)}</span>
+                    <span className="ml-auto">{t('stats.listTurns', { turns: record.turns, stars: record.starsEarned })}</span>
+                  </button>
+                </li>
+              ))}
+            </ul>
+          </>
+        )}
+
+        <button
+          onClick={onClose}
+          className="w-full py-3 bg-white/10 hover:bg-white/20 rounded-xl font-bold transition-colors"
+        >
+          {t('stats.home')}
+        </button>
+      </FocusTrap>
+    </motion.div>
+  );
+};
@@ -0,0 +1,100 @@
+import React from 'react';
+import { motion } from 'motion/react';
+import { Check, Lock, Palette } from 'lucide-react';
+import { Card as CardType } from '../types';
+import { SUITS } from '../constants';
+import { findItem } from '../items';
+import { gamesWon, isThemeUnlocked, Theme, ThemeContext, ThemeProgress, THEMES } from '../themes';
+import { Translator, useT } from '../i18n';
+import { Card } from './Card';
+import { FocusTrap } from './FocusTrap';
+
+interface ThemePickerProps {
+  /** The theme in use. */
+  selected: string;
+  progress: ThemeProgress;
+  fourColorDeck: boolean;
+  onChoose: (themeId: string) => void;
+  onClose: () => void;
+}
+
+// A court card, so themes with pictures on them show one
+const PREVIEW: CardType = { id: 'preview', suit: 'hearts', rank: 'K' };
+
+/** How a locked theme is unlocked. */
+const unlockHint = (t: Translator, theme: Theme, progress: ThemeProgress): string => {
+  const { unlock } = theme;
+  switch (unlock.type) {
+    case 'free': return '';
+    case 'item': return t('themes.unlockItem', { cost: findItem(unlock.itemId)?.cost ?? 0 });
+    case 'stage': return t('themes.unlockStage', { stage: { key: `stage.${unlock.stageId}.name` } });
+    case 'wins': return t('themes.unlockWins', { count: unlock.count, won: gamesWon(progress.stats) });
+  }
+};
+
+/** Every deck theme, drawn in its own colours, with what it takes to unlock the rest. */
+export const ThemePicker: React.FC<ThemePickerProps> = ({ selected, progress, fourColorDeck, onChoose, onClose }) => {
+  const t = useT();
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 backdrop-blur-sm p-4"
+    >
+      <FocusTrap label={t('themes.title')} onEscape={onClose} className="bg-red-950 border border-yellow-500/30 p-6 sm:p-8 rounded-3xl shadow-2xl max-w-2xl w-full max-h-full overflow-y-auto">
+        <h2 className="flex items-center gap-2 mb-6 text-2xl font-bold text-yellow-400">
+          <Palette size={24} />
+          {t('themes.title')}
+        </h2>
+
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 mb-6">
+          {THEMES.map(theme => {
+            const unlocked = isThemeUnlocked(theme, progress);
+            const inUse = theme.id === selected;
+            const suits = fourColorDeck ? { ...theme.suits, ...theme.fourColor } : theme.suits;
+            // The previews are drawn in the theme's own suit colours, not the ones in use
+            const colours = Object.fromEntries(SUITS.map(suit => [`--suit-${suit}`, suits[suit]]));
+            return (
+              <button
+                key={theme.id}
+                onClick={() => onChoose(theme.id)}
+                disabled={!unlocked}
+                aria-pressed={inUse}
+                className={`flex items-center gap-3 p-3 rounded-2xl border text-left transition-colors ${inUse ? 'bg-yellow-500/20 border-yellow-400' : unlocked ? 'bg-black/20 border-yellow-500/20 hover:bg-black/30' : 'bg-black/40 border-white/5 cursor-not-allowed'}`}
+              >
+                <ThemeContext.Provider value={theme}>
+                  <div
+                    className={`flex shrink-0 -space-x-10 origin-left scale-75 -mr-10 ${unlocked ? '' : 'opacity-40 grayscale'}`}
+                    style={colours as React.CSSProperties}
+                  >
+                    <Card card={PREVIEW} isFaceUp={false} backImage={theme.back.image} />
+                    <Card card={PREVIEW} />
+                  </div>
+                </ThemeContext.Provider>
+                <div className="flex-1 min-w-0">
+                  <div className="flex items-center gap-1 font-bold text-yellow-100">
+                    <span>{theme.icon}</span>
+                    <span>{t.text(`theme.${theme.id}.name`)}</span>
+                    {inUse && <Check size={16} className="text-emerald-400" />}
+                    {!unlocked && <Lock size={14} className="text-yellow-500/60" />}
+                  </div>
+                  <div className="text-xs text-yellow-100/60">{t.text(`theme.${theme.id}.desc`)}</div>
+                  {!unlocked && <div className="mt-1 text-xs text-yellow-500/80">{unlockHint(t, theme, progress)}</div>}
+                </div>
+              </button>
+            );
+          })}
+        </div>
+
+        <button
+          onClick={onClose}
+          className="w-full py-3 bg-white/10 hover:bg-white/20 rounded-xl font-bold transition-colors"
+        >
+          {t('themes.done')}
+        </button>
+      </FocusTrap>
+    </motion.div>
+  );
+};
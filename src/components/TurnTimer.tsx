@@ -0,0 +1,31 @@
+import React, { useEffect, useState } from 'react';
+import { Timer } from 'lucide-react';
+import { useT } from '../i18n';
+
+interface TurnTimerProps {
+  /** When the turn runs out, in epoch milliseconds. */
+  deadline: number;
+}
+
+/** Seconds left in an online turn before the AI moves instead. */
+export const TurnTimer: React.FC<TurnTimerProps> = ({ deadline }) => {
+  const t = useT();
+  const [now, setNow] = useState(Date.now());
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 250);
+    return () => clearInterval(timer);
+  }, [deadline]);
+
+  const seconds = Math.max(0, Math.ceil((deadline - now) / 1000));
+
+  return (
+    <div
+      className={`flex items-center gap-1 px-3 py-1 rounded-full border text-xs font-bold tabular-nums ${seconds <= 5 ? 'bg-red-600 border-yellow-400 text-white' : 'bg-black/20 border-yellow-500/20 text-yellow-200'}`}
+      title={t('timer.hint')}
+    >
+      <Timer size={14} />
+      {seconds}s
+    </div>
+  );
+};
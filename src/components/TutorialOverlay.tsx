@@ -0,0 +1,160 @@
+import React, { useEffect, useState } from 'react';
+import { motion } from 'motion/react';
+import { GraduationCap, X } from 'lucide-react';
+import { TUTORIAL_STARS, TUTORIAL_STEPS, TutorialStep } from '../tutorial';
+import { useT } from '../i18n';
+import { FocusTrap } from './FocusTrap';
+
+interface TutorialOverlayProps {
+  step: TutorialStep;
+  /** The step's move has been made. */
+  done: boolean;
+  /** The last move tried was not the one the step waits for. */
+  offScript: boolean;
+  onNext: () => void;
+  onQuit: () => void;
+}
+
+interface Spot {
+  top: number;
+  left: number;
+  width: number;
+  height: number;
+}
+
+// Room left around the spotlit element
+const MARGIN = 8;
+
+/** Where the element marked `data-spotlight` is now, or null when nothing is marked. */
+const findSpot = (): Spot | null => {
+  const rect = document.querySelector('[data-spotlight]')?.getBoundingClientRect();
+  return rect ? { top: rect.top - MARGIN, left: rect.left - MARGIN, width: rect.width + MARGIN * 2, height: rect.height + MARGIN * 2 } : null;
+};
+
+const sameSpot = (a: Spot | null, b: Spot | null) =>
+  a === b || (a !== null && b !== null && a.top === b.top && a.left === b.left && a.width === b.width && a.height === b.height);
+
+/**
+ * A tutorial step: the table dimmed except for the one thing to use, and
+ * a card saying what to do. It leaves the table clickable; moves other than
+ * the step's are turned away by the game itself.
+ */
+export const TutorialOverlay: React.FC<TutorialOverlayProps> = ({ step, done, offScript, onNext, onQuit }) => {
+  const t = useT();
+  const [spot, setSpot] = useState<Spot | null>(null);
+  const index = TUTORIAL_STEPS.indexOf(step);
+  const last = index === TUTORIAL_STEPS.length - 1;
+
+  // Cards slide and the window resizes, so the spotlight keeps looking for its target
+  useEffect(() => {
+    if (done) {
+      setSpot(null);
+      return;
+    }
+    let frame = 0;
+    const follow = () => {
+      const next = findSpot();
+      setSpot(prev => sameSpot(prev, next) ? prev : next);
+      frame = requestAnimationFrame(follow);
+    };
+    follow();
+    return () => cancelAnimationFrame(frame);
+  }, [step, done]);
+
+  return (
+    <div className="fixed inset-0 z-[70] pointer-events-none">
+      {spot && (
+        <motion.div
+          initial={false}
+          animate={spot}
+          transition={{ type: 'spring', stiffness: 200, damping: 26 }}
+          className="absolute rounded-2xl ring-4 ring-yellow-400 shadow-[0_0_0_9999px_rgba(0,0,0,0.55)]"
+        />
+      )}
+      <motion.section
+        key={step.id}
+        initial={{ y: -20, opacity: 0 }}
+        animate={{ y: 0, opacity: 1 }}
+        aria-label={t('tutorial.title')}
+        className="pointer-events-auto absolute top-20 left-1/2 -translate-x-1/2 w-[min(28rem,calc(100%-2rem))] bg-red-950 border border-yellow-500/30 rounded-3xl shadow-2xl p-5"
+      >
+        <div className="flex items-center justify-between mb-2">
+          <span className="flex items-center gap-2 text-xs font-bold uppercase tracking-widest text-yellow-500/70">
+            <GraduationCap size={16} />
+            {t('tutorial.step', { n: index + 1, total: TUTORIAL_STEPS.length })}
+          </span>
+          <button
+            onClick={onQuit}
+            className="p-1 rounded-full text-yellow-500/60 hover:text-yellow-400 hover:bg-white/10 transition-colors"
+            title={t('tutorial.quit')}
+          >
+            <X size={16} />
+          </button>
+        </div>
+        <h2 className="text-xl font-bold text-yellow-400 mb-1">{t.text(`tutorial.${step.id}.title`)}</h2>
+        <p role="status" aria-live="polite" className="text-sm text-yellow-100/80 leading-relaxed">
+          {done ? t.text(`tutorial.${step.id}.done`) : t.text(`tutorial.${step.id}.text`)}
+        </p>
+        {offScript && !done && <p className="mt-2 text-sm text-emerald-300">{t('tutorial.offScript')}</p>}
+        {done && (
+          <button
+            onClick={onNext}
+            autoFocus
+            className="mt-4 w-full py-2.5 bg-yellow-500 hover:bg-yellow-400 text-red-950 rounded-xl font-bold transition-colors"
+          >
+            {last ? t('tutorial.finish') : t('tutorial.next')}
+          </button>
+        )}
+      </motion.section>
+    </div>
+  );
+};
+
+/** How finishing the tutorial went for the bonus: paid now, paid before, still asking the server, or not paid. */
+export type TutorialOutcome = 'bonus' | 'replayed' | 'claiming' | 'claimFailed';
+
+interface TutorialCompleteProps {
+  outcome: TutorialOutcome;
+  onPlay: () => void;
+  onHome: () => void;
+}
+
+/** The end of the tutorial: the bonus, a nod when it was already paid, or why it was not. */
+export const TutorialComplete: React.FC<TutorialCompleteProps> = ({ outcome, onPlay, onHome }) => {
+  const t = useT();
+  // Nothing to leave for until the server has answered
+  const waiting = outcome === 'claiming';
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      className="fixed inset-0 z-[70] flex items-center justify-center bg-black/70 backdrop-blur-sm p-4"
+    >
+      <FocusTrap label={t('tutorial.completeTitle')} onEscape={waiting ? undefined : onHome} className="bg-red-950 border border-yellow-500/30 p-8 rounded-3xl shadow-2xl max-w-md w-full text-center">
+        <GraduationCap size={48} className="mx-auto mb-4 text-yellow-400" />
+        <h2 className="text-2xl font-bold text-yellow-400 mb-2">{t('tutorial.completeTitle')}</h2>
+        <p className={`mb-6 ${outcome === 'claimFailed' ? 'text-red-300' : 'text-yellow-100/80'}`} role={outcome === 'claimFailed' ? 'alert' : undefined}>
+          {outcome === 'bonus' ? t('tutorial.bonus', { stars: TUTORIAL_STARS }) : t.text(`tutorial.${outcome}`)}
+        </p>
+        <div className="flex flex-col gap-3">
+          <button
+            onClick={onPlay}
+            disabled={waiting}
+            className={`w-full py-3 rounded-xl font-bold transition-colors ${waiting ? 'bg-white/5 text-white/30 cursor-not-allowed' : 'bg-yellow-500 hover:bg-yellow-400 text-red-950'}`}
+          >
+            {t('tutorial.play')}
+          </button>
+          <button
+            onClick={onHome}
+            disabled={waiting}
+            className={`w-full py-3 rounded-xl font-bold transition-colors ${waiting ? 'bg-white/5 text-white/30 cursor-not-allowed' : 'bg-white/10 hover:bg-white/20'}`}
+          >
+            {t('tutorial.home')}
+          </button>
+        </div>
+      </FocusTrap>
+    </motion.div>
+  );
+};
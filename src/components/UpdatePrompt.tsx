@@ -0,0 +1,55 @@
+import React from 'react';
+import { AnimatePresence, motion } from 'motion/react';
+import { RefreshCw, WifiOff } from 'lucide-react';
+import { useRegisterSW } from 'virtual:pwa-register/react';
+import { useT } from '../i18n';
+
+/**
+ * Registers the service worker, then says so once the game can be played
+ * offline and asks before switching to a newer version. Reloading mid-game
+ * is safe: the save brings the table back.
+ */
+export const UpdatePrompt: React.FC = () => {
+  const t = useT();
+  const {
+    offlineReady: [offlineReady, setOfflineReady],
+    needRefresh: [needRefresh, setNeedRefresh],
+    updateServiceWorker,
+  } = useRegisterSW();
+
+  const dismiss = () => {
+    setOfflineReady(false);
+    setNeedRefresh(false);
+  };
+
+  return (
+    <AnimatePresence>
+      {(offlineReady || needRefresh) && (
+        <motion.div
+          initial={{ y: 20, opacity: 0 }}
+          animate={{ y: 0, opacity: 1 }}
+          exit={{ y: 20, opacity: 0 }}
+          role="status"
+          className="fixed bottom-4 left-4 z-[70] flex items-center gap-3 px-4 py-3 bg-red-900/90 backdrop-blur-md rounded-2xl border border-yellow-500/30 shadow-2xl text-sm text-yellow-100"
+        >
+          {needRefresh ? <RefreshCw size={16} className="shrink-0 text-yellow-400" /> : <WifiOff size={16} className="shrink-0 text-yellow-400" />}
+          <span>{needRefresh ? t('update.available') : t('update.offlineReady')}</span>
+          {needRefresh && (
+            <button
+              onClick={() => updateServiceWorker(true)}
+              className="px-3 py-1 bg-yellow-500 hover:bg-yellow-400 text-red-950 font-bold rounded-full transition-colors"
+            >
+              {t('update.reload')}
+            </button>
+          )}
+          <button
+            onClick={dismiss}
+            className="px-3 py-1 bg-white/10 hover:bg-white/20 rounded-full transition-colors"
+          >
+            {needRefresh ? t('update.later') : t('update.ok')}
+          </button>
+        </motion.div>
+      )}
+    </AnimatePresence>
+  );
+};
@@ -1,9 +1,10 @@
 import { Suit, Rank, Card } from './types';
+import { Rng } from './rng';
 
 export const SUITS: Suit[] = ['hearts', 'diamonds', 'clubs', 'spades'];
 export const RANKS: Rank[] = ['A', '2', '3', '4', '5', '6', '7', '8', '9', '10', 'J', 'Q', 'K'];
 
-export const createDeck = (): Card[] => {
+export const createDeck = (rng: Rng = Math.random): Card[] => {
   const deck: Card[] = [];
   for (const suit of SUITS) {
     for (const rank of RANKS) {
@@ -14,18 +15,29 @@ export const createDeck = (): Card[] => {
       });
     }
   }
-  return shuffle(deck);
+  return shuffle(deck, rng);
 };
 
-export const shuffle = <T,>(array: T[]): T[] => {
+export const shuffle = <T,>(array: T[], rng: Rng = Math.random): T[] => {
   const newArray = [...array];
   for (let i = newArray.length - 1; i > 0; i--) {
-    const j = Math.floor(Math.random() * (i + 1));
+    const j = Math.floor(rng() * (i + 1));
     [newArray[i], newArray[j]] = [newArray[j], newArray[i]];
   }
   return newArray;
 };
 
+/** Penalty points for a card left in hand: 8 = 50, face cards = 10, A = 1, pips at face value. */
+export const getCardPoints = (card: Card): number => {
+  if (card.rank === '8') return 50;
+  if (card.rank === 'J' || card.rank === 'Q' || card.rank === 'K') return 10;
+  if (card.rank === 'A') return 1;
+  return Number(card.rank);
+};
+
+export const getHandPoints = (hand: Card[]): number =>
+  hand.reduce((sum, card) => sum + getCardPoints(card), 0);
+
 export const getSuitSymbol = (suit: Suit): string => {
   switch (suit) {
     case 'hearts': return '♥';
@@ -35,6 +47,12 @@ export const getSuitSymbol = (suit: Suit): string => {
   }
 };
 
+/** The suit's colour, which the deck theme (and the four-colour deck) sets on the page. */
 export const getSuitColor = (suit: Suit): string => {
-  return (suit === 'hearts' || suit === 'diamonds') ? 'text-red-500' : 'text-gray-900';
+  switch (suit) {
+    case 'hearts': return 'text-(color:--suit-hearts)';
+    case 'diamonds': return 'text-(color:--suit-diamonds)';
+    case 'clubs': return 'text-(color:--suit-clubs)';
+    case 'spades': return 'text-(color:--suit-spades)';
+  }
 };
@@ -0,0 +1,218 @@
+import { describe, expect, it } from 'vitest';
+import { Arrangement, Card, GameState, RuleSet } from './types';
+import {
+  applyAction, arrangeGame, createGame, createTable, getHand, getTopDiscard, isGameOver, legalMoves, logActions, replayTo,
+  undoLastMove,
+} from './engine';
+import { createDeck } from './constants';
+import { CLASSIC_RULES } from './rules';
+
+const THREE_SEATS = createTable(['ai', 'ai']);
+
+const arranged = (arrangement: Arrangement, rules: Partial<RuleSet> = {}, table = createTable(['ai'])) =>
+  arrangeGame(arrangement, { ...CLASSIC_RULES, ...rules }, table);
+
+const cardOf = (id: string): Card => createDeck().find(card => card.id === id)!;
+
+const handIds = (state: GameState, seatId: string) => getHand(state, seatId).map(card => card.id);
+
+/** Plays the first legal move `count` times, from whoever's turn it is. */
+const playFirstMoves = (state: GameState, count: number): GameState => {
+  let next = state;
+  for (let i = 0; i < count && !isGameOver(next); i++) {
+    next = applyAction(next, legalMoves(next, next.currentTurn)[0]);
+  }
+  return next;
+};
+
+describe('dealing', () => {
+  it('deals the same game from the same seed', () => {
+    expect(createGame('SAMESEED')).toEqual(createGame('SAMESEED'));
+    expect(handIds(createGame('SAMESEED'), 'seat-0')).not.toEqual(handIds(createGame('OTHERSEED'), 'seat-0'));
+  });
+
+  it('deals fewer cards as the table fills, and the seat after the dealer leads', () => {
+    const state = createGame('SAMESEED', CLASSIC_RULES, THREE_SEATS, 'seat-0');
+    expect(state.seats.map(seat => seat.hand.length)).toEqual([7, 7, 7]);
+    expect(state.deck.length + state.discardPile.length).toBe(52 - 21);
+    expect(state.currentTurn).toBe('seat-1');
+  });
+});
+
+describe('moves', () => {
+  const opening: Arrangement = { hands: [['5-clubs', '9-hearts', '8-spades'], ['K-diamonds']], starter: '5-hearts' };
+
+  it('lists the cards that match the suit or rank, any 8, and drawing', () => {
+    expect(legalMoves(arranged(opening), 'seat-0')).toEqual([
+      { type: 'play', seat: 'seat-0', cardId: '5-clubs' },
+      { type: 'play', seat: 'seat-0', cardId: '9-hearts' },
+      { type: 'play', seat: 'seat-0', cardId: '8-spades' },
+      { type: 'draw', seat: 'seat-0' },
+    ]);
+    expect(legalMoves(arranged(opening), 'seat-1')).toEqual([]);
+  });
+
+  it('returns the very same state for an illegal move', () => {
+    const state = arranged(opening);
+    expect(applyAction(state, { type: 'play', seat: 'seat-1', cardId: 'K-diamonds' })).toBe(state);
+    expect(applyAction(state, { type: 'play', seat: 'seat-0', cardId: 'K-diamonds' })).toBe(state);
+    expect(applyAction(state, { type: 'chooseSuit', seat: 'seat-0', suit: 'clubs' })).toBe(state);
+  });
+
+  it('plays a card onto the pile, logs it and passes the turn', () => {
+    const state = applyAction(arranged(opening), { type: 'play', seat: 'seat-0', cardId: '9-hearts' });
+    expect(getTopDiscard(state)!.id).toBe('9-hearts');
+    expect(handIds(state, 'seat-0')).toEqual(['5-clubs', '8-spades']);
+    expect(state.currentTurn).toBe('seat-1');
+    expect(state.log.at(-1)).toMatchObject({ type: 'play', seat: 'seat-0', card: { id: '9-hearts' } });
+  });
+
+  it('waits for an 8 to name a suit before passing the turn', () => {
+    const played = applyAction(arranged(opening), { type: 'play', seat: 'seat-0', cardId: '8-spades' });
+    expect(played.status).toBe('waiting_for_suit');
+    expect(played.currentTurn).toBe('seat-0');
+    expect(legalMoves(played, 'seat-0').map(move => move.type)).toEqual(['chooseSuit', 'chooseSuit', 'chooseSuit', 'chooseSuit']);
+
+    const named = applyAction(played, { type: 'chooseSuit', seat: 'seat-0', suit: 'diamonds' });
+    expect(named).toMatchObject({ status: 'playing', wildSuit: 'diamonds', currentTurn: 'seat-1' });
+    expect(legalMoves(named, 'seat-1')).toContainEqual({ type: 'play', seat: 'seat-1', cardId: 'K-diamonds' });
+  });
+
+  it('wins for the seat that empties its hand', () => {
+    const state = applyAction(arranged({ hands: [['9-hearts'], ['K-diamonds']], starter: '5-hearts' }),
+      { type: 'play', seat: 'seat-0', cardId: '9-hearts' });
+    expect(state).toMatchObject({ status: 'won', winner: 'seat-0' });
+    expect(isGameOver(state)).toBe(true);
+  });
+});
+
+describe('the draw pile', () => {
+  it('shuffles the discards under the top card back in when it runs out', () => {
+    const base = arranged({ hands: [['K-spades'], ['K-diamonds']], starter: '5-hearts', deck: [], exactDeck: true });
+    const state: GameState = {
+      ...base,
+      discardPile: ['3-clubs', '4-clubs', '6-clubs', '5-hearts'].map(cardOf),
+    };
+    const drawn = applyAction(state, { type: 'draw', seat: 'seat-0' });
+
+    expect(drawn.reshuffles).toBe(1);
+    expect(drawn.rngState).not.toBe(state.rngState);
+    expect(drawn.discardPile.map(card => card.id)).toEqual(['5-hearts']);
+    expect(getHand(drawn, 'seat-0')).toHaveLength(2);
+    expect([...drawn.deck, ...getHand(drawn, 'seat-0').slice(1)].map(card => card.id).sort()).toEqual(['3-clubs', '4-clubs', '6-clubs']);
+    expect(drawn.message[0].key).toBe('game.reshuffled');
+    // The reshuffle comes from the state's own generator, so it is the same every time
+    expect(applyAction(state, { type: 'draw', seat: 'seat-0' })).toEqual(drawn);
+  });
+
+  it('ends a blocked game with the lowest hand total as the winner', () => {
+    const state = arranged({ hands: [['3-clubs', 'K-clubs'], ['4-clubs']], starter: '5-hearts', exactDeck: true });
+    expect(legalMoves(state, 'seat-0')).toEqual([{ type: 'draw', seat: 'seat-0' }]);
+
+    const blocked = applyAction(state, { type: 'draw', seat: 'seat-0' });
+    expect(blocked).toMatchObject({ status: 'won', winner: 'seat-1', blocked: true });
+    expect(blocked.message.slice(1).map(message => message.params?.points)).toEqual([13, 4]);
+  });
+
+  it('calls a blocked game a draw when the lowest totals are shared', () => {
+    const state = arranged({ hands: [['3-clubs', 'K-clubs'], ['J-clubs', '3-spades']], starter: '5-hearts', exactDeck: true });
+    expect(applyAction(state, { type: 'draw', seat: 'seat-0' })).toMatchObject({ status: 'draw', winner: null, blocked: true });
+  });
+
+  it('passes the turn instead when nothing is left to draw but someone can still play', () => {
+    const state = arranged({ hands: [['3-clubs'], ['J-hearts']], starter: '5-hearts', exactDeck: true });
+    const passed = applyAction(state, { type: 'draw', seat: 'seat-0' });
+    expect(passed).toMatchObject({ status: 'playing', currentTurn: 'seat-1' });
+    expect(handIds(passed, 'seat-0')).toEqual(['3-clubs']);
+  });
+});
+
+describe('replays', () => {
+  const game = playFirstMoves(createGame('REPLAYSEED'), 12);
+
+  it('deals the game again and replays it to any step', () => {
+    expect(replayTo(game, logActions(game).length)).toEqual(game);
+    expect(replayTo(game, 5)).toEqual(playFirstMoves(createGame('REPLAYSEED'), 5));
+    expect(replayTo(game, 0)).toEqual(createGame('REPLAYSEED'));
+  });
+
+  it('undoes back to just before the seat last moved', () => {
+    const actions = logActions(game);
+    const lastOwn = actions.map(action => action.seat).lastIndexOf('seat-0');
+    const undone = undoLastMove(game, 'seat-0');
+    expect(logActions(undone)).toEqual(actions.slice(0, lastOwn));
+    expect(undone.currentTurn).toBe('seat-0');
+  });
+
+  it('leaves a game without a seed as it is', () => {
+    const state = applyAction(arranged({ hands: [['9-hearts', '3-clubs'], ['K-diamonds']], starter: '5-hearts' }),
+      { type: 'play', seat: 'seat-0', cardId: '9-hearts' });
+    expect(undoLastMove(state, 'seat-0')).toBe(state);
+  });
+});
+
+describe('house rules', () => {
+  const twos: Arrangement = { hands: [['2-hearts', '5-clubs'], ['2-spades', '9-clubs']], starter: '3-hearts' };
+  const playTwo = (rules: Partial<RuleSet>) =>
+    applyAction(arranged(twos, rules), { type: 'play', seat: 'seat-0', cardId: '2-hearts' });
+
+  it('makes the next seat draw two after a 2', () => {
+    const state = playTwo({ drawTwo: true });
+    expect(state).toMatchObject({ pendingDraw: 2, currentTurn: 'seat-1' });
+    expect(legalMoves(state, 'seat-1')).toEqual([{ type: 'draw', seat: 'seat-1' }]);
+
+    const drawn = applyAction(state, { type: 'draw', seat: 'seat-1' });
+    expect(getHand(drawn, 'seat-1')).toHaveLength(4);
+    expect(drawn).toMatchObject({ pendingDraw: 0, currentTurn: 'seat-0' });
+    expect(playTwo({}).pendingDraw).toBe(0);
+  });
+
+  it('lets a draw-two be passed on with another 2 when stacking', () => {
+    const state = playTwo({ drawTwo: true, stackDrawTwo: true });
+    expect(legalMoves(state, 'seat-1')).toEqual([
+      { type: 'play', seat: 'seat-1', cardId: '2-spades' },
+      { type: 'draw', seat: 'seat-1' },
+    ]);
+
+    const stacked = applyAction(state, { type: 'play', seat: 'seat-1', cardId: '2-spades' });
+    expect(stacked).toMatchObject({ pendingDraw: 4, currentTurn: 'seat-0' });
+    expect(getHand(applyAction(stacked, { type: 'draw', seat: 'seat-0' }), 'seat-0')).toHaveLength(5);
+  });
+
+  it('skips the next seat after a Q', () => {
+    const queen: Arrangement = { hands: [['Q-hearts', '5-clubs'], ['9-clubs'], ['K-clubs']], starter: '3-hearts' };
+    const play = { type: 'play', seat: 'seat-0', cardId: 'Q-hearts' } as const;
+    expect(applyAction(arranged(queen, { skipQueen: true }, THREE_SEATS), play).currentTurn).toBe('seat-2');
+    expect(applyAction(arranged(queen, {}, THREE_SEATS), play).currentTurn).toBe('seat-1');
+  });
+
+  it('reverses the direction after an A, but only with more than two seats', () => {
+    const play = { type: 'play', seat: 'seat-0', cardId: 'A-hearts' } as const;
+    const three = applyAction(arranged({ hands: [['A-hearts', '5-clubs'], ['9-clubs'], ['K-clubs']], starter: '3-hearts' },
+      { reverseAce: true }, THREE_SEATS), play);
+    expect(three).toMatchObject({ direction: -1, currentTurn: 'seat-2' });
+
+    const two = applyAction(arranged({ hands: [['A-hearts', '5-clubs'], ['9-clubs']], starter: '3-hearts' }, { reverseAce: true }), play);
+    expect(two).toMatchObject({ direction: 1, currentTurn: 'seat-1' });
+  });
+
+  it('keeps drawing until a playable card turns up, and keeps the turn to play it', () => {
+    const state = arranged({ hands: [['K-spades', 'J-spades'], ['9-clubs']], starter: '5-hearts', deck: ['3-clubs', '4-clubs', '9-hearts'] },
+      { drawUntilPlayable: true });
+    const drawn = applyAction(state, { type: 'draw', seat: 'seat-0' });
+    expect(handIds(drawn, 'seat-0')).toEqual(['K-spades', 'J-spades', '3-clubs', '4-clubs', '9-hearts']);
+    expect(drawn.currentTurn).toBe('seat-0');
+    expect(drawn.message[0]).toEqual({ key: 'game.drewPlayable', params: { name: drawn.seats[0].name, count: 3 } });
+    // A seat that can play may not draw instead
+    expect(legalMoves(drawn, 'seat-0')).toEqual([{ type: 'play', seat: 'seat-0', cardId: '9-hearts' }]);
+  });
+
+  it('refuses an 8 as the last card when eights may not finish', () => {
+    const lastEight: Arrangement = { hands: [['8-clubs'], ['9-clubs']], starter: '5-hearts' };
+    expect(legalMoves(arranged(lastEight, { noEightFinish: true }), 'seat-0')).toEqual([{ type: 'draw', seat: 'seat-0' }]);
+    expect(legalMoves(arranged(lastEight), 'seat-0')).toContainEqual({ type: 'play', seat: 'seat-0', cardId: '8-clubs' });
+
+    const twoLeft = arranged({ hands: [['8-clubs', '6-spades'], ['9-clubs']], starter: '5-hearts' }, { noEightFinish: true });
+    expect(legalMoves(twoLeft, 'seat-0')).toContainEqual({ type: 'play', seat: 'seat-0', cardId: '8-clubs' });
+  });
+});
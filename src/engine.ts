@@ -0,0 +1,610 @@
+import { Arrangement, Card, GameAction, GameMessage, GameState, ItemTarget, LogEntry, RuleSet, Seat, SeatConfig, SeatId, SeatKind, Suit } from './types';
+import { createDeck, getHandPoints, getSuitSymbol, shuffle, SUITS } from './constants';
+import { createRng, createSeededRng } from './rng';
+import { CLASSIC_RULES } from './rules';
+import { findItem, ItemEffects, ItemTargetKind } from './items';
+
+/**
+ * Pure Crazy Eights rules. Nothing in here touches React, timers or the
+ * wallet: every function takes a `GameState` and returns a new one, so the
+ * UI, the AI and any future server all play by exactly the same rules.
+ */
+
+export const MIN_SEATS = 2;
+export const MAX_SEATS = 6;
+
+/** The classic two-player table: you against one AI. */
+export const DEFAULT_TABLE: SeatConfig[] = [
+  { id: 'seat-0', name: '你', kind: 'human' },
+  { id: 'seat-1', name: 'AI', kind: 'ai' },
+];
+
+/** The words seats are named with, so a table can be set in the player's language. */
+export interface TableNames {
+  you: string;
+  ai: string;
+  player: string;
+}
+
+const DEFAULT_NAMES: TableNames = { you: '你', ai: 'AI', player: '玩家' };
+
+/**
+ * Builds a table with you in the first seat and the given opponents after
+ * you in turn order. AIs are numbered once there is more than one of them.
+ */
+export const createTable = (opponents: SeatKind[], names: TableNames = DEFAULT_NAMES): SeatConfig[] => {
+  const aiCount = opponents.filter(kind => kind === 'ai').length;
+  let aiNumber = 0;
+  return [
+    { ...DEFAULT_TABLE[0], name: names.you },
+    ...opponents.map((kind, i) => {
+      const id = `seat-${i + 1}`;
+      if (kind === 'ai') {
+        aiNumber++;
+        return { id, kind, name: aiCount > 1 ? `${names.ai} ${aiNumber}` : names.ai };
+      }
+      return { id, kind, name: `${names.player} ${i + 2}` };
+    }),
+  ];
+};
+
+/** 8 cards each head to head, fewer as the table fills up so the deck lasts. */
+export const handSizeFor = (seatCount: number): number => {
+  if (seatCount <= 2) return 8;
+  if (seatCount <= 4) return 7;
+  return 5;
+};
+
+const turnPrompt = (seat: Seat): GameMessage =>
+  ({ key: seat.kind === 'ai' ? 'game.thinking' : 'game.yourTurn', params: { name: seat.name } });
+
+/** The player after the dealer leads. By default the last seat deals, so the first seat leads. */
+export const createGame = (
+  seed: string,
+  rules: RuleSet = CLASSIC_RULES,
+  table: SeatConfig[] = DEFAULT_TABLE,
+  dealer: SeatId = table[table.length - 1].id,
+): GameState => {
+  const rng = createSeededRng(seed);
+  const deck = createDeck(rng);
+  const handSize = handSizeFor(table.length);
+  const seats = table.map(config => ({ ...config, hand: deck.splice(0, handSize) }));
+  const firstDiscard = deck.pop()!;
+  const leader = seats[(seats.findIndex(seat => seat.id === dealer) + 1) % seats.length];
+
+  return {
+    deck,
+    discardPile: [firstDiscard],
+    seats,
+    currentTurn: leader.id,
+    direction: 1,
+    status: 'playing',
+    winner: null,
+    wildSuit: null,
+    rules,
+    pendingDraw: 0,
+    message: [turnPrompt(leader)],
+    seed,
+    rngState: rng.getState(),
+    reshuffles: 0,
+    blocked: false,
+    suspectedVoids: {},
+    log: [{ type: 'deal', seats: seats.map(seat => seat.id), handSize, starter: firstDiscard, dealer }],
+  };
+};
+
+/**
+ * A position built card by card, with the first seat to move. It has no
+ * seed, so like the welcome table it cannot be replayed, undone or saved
+ * as a game in progress.
+ */
+export const arrangeGame = (
+  arrangement: Arrangement,
+  rules: RuleSet = CLASSIC_RULES,
+  table: SeatConfig[] = DEFAULT_TABLE,
+): GameState => {
+  // Cards nobody named stay in the deck, in the same order every time
+  const rng = createSeededRng('arranged');
+  const unused = new Map(createDeck(rng).map(card => [card.id, card]));
+  const take = (id: string): Card => {
+    const card = unused.get(id);
+    if (!card) throw new Error(`Card ${id} is not in the deck, or is placed twice`);
+    unused.delete(id);
+    return card;
+  };
+  const seats = table.map((config, i) => ({ ...config, hand: (arrangement.hands[i] ?? []).map(take) }));
+  const starter = take(arrangement.starter);
+  // Cards are drawn from the end of the deck
+  const top = (arrangement.deck ?? []).map(take).reverse();
+
+  return {
+    deck: [...(arrangement.exactDeck ? [] : unused.values()), ...top],
+    discardPile: [starter],
+    seats,
+    currentTurn: seats[0].id,
+    direction: 1,
+    status: 'playing',
+    winner: null,
+    wildSuit: arrangement.wildSuit ?? null,
+    rules,
+    pendingDraw: 0,
+    message: [turnPrompt(seats[0])],
+    seed: '',
+    rngState: rng.getState(),
+    reshuffles: 0,
+    blocked: false,
+    suspectedVoids: {},
+    log: [{ type: 'deal', seats: seats.map(seat => seat.id), handSize: seats[0].hand.length, starter, dealer: seats[seats.length - 1].id }],
+  };
+};
+
+/** Who dealt the game; logs from before dealers were recorded had the last seat deal. */
+export const getDealer = (state: GameState): SeatId => {
+  const deal = state.log[0];
+  return deal?.type === 'deal' && deal.dealer ? deal.dealer : state.seats[state.seats.length - 1].id;
+};
+
+export const getSeat = (state: GameState, seatId: SeatId): Seat | undefined =>
+  state.seats.find(seat => seat.id === seatId);
+
+export const getHand = (state: GameState, seatId: SeatId): Card[] =>
+  getSeat(state, seatId)?.hand ?? [];
+
+/** The seat `steps` places after `seatId` in the current direction of play. */
+export const nextSeatId = (state: GameState, seatId: SeatId, steps = 1): SeatId => {
+  const count = state.seats.length;
+  const index = state.seats.findIndex(seat => seat.id === seatId);
+  const next = (((index + state.direction * steps) % count) + count) % count;
+  return state.seats[next].id;
+};
+
+const setHand = (state: GameState, seatId: SeatId, hand: Card[]): GameState => ({
+  ...state,
+  seats: state.seats.map(seat => seat.id === seatId ? { ...seat, hand } : seat),
+});
+
+const setVoids = (state: GameState, seatId: SeatId, voids: Suit[]): GameState => ({
+  ...state,
+  suspectedVoids: { ...state.suspectedVoids, [seatId]: voids },
+});
+
+const seatName = (state: GameState, seatId: SeatId) => getSeat(state, seatId)?.name ?? '';
+
+const nextTurnPrompt = (state: GameState) => turnPrompt(getSeat(state, state.currentTurn)!);
+
+export const getTopDiscard = (state: GameState): Card | null =>
+  state.discardPile.length > 0 ? state.discardPile[state.discardPile.length - 1] : null;
+
+export const getCurrentSuit = (state: GameState): Suit | undefined =>
+  state.wildSuit || getTopDiscard(state)?.suit;
+
+export const isGameOver = (state: GameState): boolean =>
+  state.status === 'won' || state.status === 'draw';
+
+/** Whether `seatId` could legally put `card` on the pile, ignoring whose turn it is. */
+const canPlayCard = (state: GameState, seatId: SeatId, card: Card): boolean => {
+  const topDiscard = getTopDiscard(state);
+  if (!topDiscard) return false;
+  // Facing a draw-two, the only way out is to stack another 2
+  if (state.pendingDraw > 0) return state.rules.stackDrawTwo && card.rank === '2';
+  if (card.rank === '8') return !(state.rules.noEightFinish && getHand(state, seatId).length === 1);
+  return card.suit === getCurrentSuit(state) || card.rank === topDiscard.rank;
+};
+
+export const isCardPlayable = (state: GameState, seatId: SeatId, card: Card): boolean => {
+  if (state.status !== 'playing' || state.currentTurn !== seatId) return false;
+  return canPlayCard(state, seatId, card);
+};
+
+const hasPlayableCard = (state: GameState, seatId: SeatId): boolean =>
+  getHand(state, seatId).some(card => canPlayCard(state, seatId, card));
+
+/** Cards that can still be drawn, counting the discards under the top card. */
+export const drawableCount = (state: GameState): number =>
+  state.deck.length + Math.max(0, state.discardPile.length - 1);
+
+/**
+ * Drawing is allowed while there is something to draw, and taking a
+ * draw-two penalty always is. A seat that can play has to play once every
+ * card is in a hand or on top of the pile, or when drawing until playable.
+ */
+export const canDraw = (state: GameState, seatId: SeatId): boolean => {
+  if (state.pendingDraw > 0) return true;
+  if (drawableCount(state) === 0 || state.rules.drawUntilPlayable) return !hasPlayableCard(state, seatId);
+  return true;
+};
+
+/** The moves `seatId` has made since the deal, items included. */
+const movesBy = (state: GameState, seatId: SeatId) =>
+  state.log.filter((entry): entry is Exclude<LogEntry, { type: 'deal' }> => entry.type !== 'deal' && entry.seat === seatId);
+
+/**
+ * Whether `seatId` may use `itemId` now, by the item's own timing rules:
+ * turn, uses per game and cooldown are all read from the move log. Owning
+ * the item is the wallet's business, not the engine's.
+ */
+export const canUseItem = (state: GameState, seatId: SeatId, itemId: string): boolean => {
+  const rules = findItem(itemId)?.use;
+  if (!rules || state.status !== 'playing' || getHand(state, seatId).length === 0) return false;
+  if (rules.ownTurn && state.currentTurn !== seatId) return false;
+
+  const moves = movesBy(state, seatId);
+  const uses = moves.filter(move => move.type === 'useItem' && move.itemId === itemId);
+  if (rules.perGame !== undefined && uses.length >= rules.perGame) return false;
+  if (rules.cooldown && uses.length > 0) {
+    const since = moves.slice(moves.lastIndexOf(uses[uses.length - 1]) + 1).filter(move => move.type !== 'useItem');
+    if (since.length < rules.cooldown) return false;
+  }
+  return rules.when?.(state, seatId) ?? true;
+};
+
+/** Whether `target` is a valid pick for an item that asks for `kind`. */
+const isValidTarget = (state: GameState, seatId: SeatId, kind: ItemTargetKind | undefined, target: ItemTarget): boolean => {
+  switch (kind?.type) {
+    case undefined: return true;
+    case 'suit': return target.suit !== undefined && SUITS.includes(target.suit);
+    case 'opponent': return target.seat !== seatId && getSeat(state, target.seat ?? '') !== undefined;
+    case 'cards': {
+      // Exactly `count` different cards from the user's own hand, or the whole hand if smaller
+      const hand = getHand(state, seatId);
+      const ids = new Set(target.cardIds ?? []);
+      return ids.size === (target.cardIds ?? []).length
+        && ids.size === Math.min(kind.count, hand.length)
+        && [...ids].every(id => hand.some(card => card.id === id));
+    }
+  }
+};
+
+/**
+ * Seats whose hands `seatId` can see thanks to an item, such as the mirror.
+ * A reveal lasts until the user's next move.
+ */
+export const revealedHands = (state: GameState, seatId: SeatId): SeatId[] => {
+  const revealed: SeatId[] = [];
+  for (const move of movesBy(state, seatId).reverse()) {
+    if (move.type !== 'useItem') break;
+    if (findItem(move.itemId)?.use?.reveals && move.target?.seat) revealed.push(move.target.seat);
+  }
+  return revealed;
+};
+
+/**
+ * Every play, draw or suit choice `seatId` may make right now. Item use is
+ * not listed because it depends on the wallet, which lives outside the game.
+ */
+export const legalMoves = (state: GameState, seatId: SeatId): GameAction[] => {
+  if (state.currentTurn !== seatId) return [];
+
+  if (state.status === 'waiting_for_suit') {
+    return SUITS.map(suit => ({ type: 'chooseSuit', seat: seatId, suit }));
+  }
+  if (state.status !== 'playing') return [];
+
+  const plays: GameAction[] = getHand(state, seatId)
+    .filter(card => canPlayCard(state, seatId, card))
+    .map(card => ({ type: 'play', seat: seatId, cardId: card.id }));
+
+  return canDraw(state, seatId) ? [...plays, { type: 'draw', seat: seatId }] : plays;
+};
+
+const hiddenCards = (owner: string, count: number): Card[] =>
+  Array.from({ length: count }, (_, i) => ({ id: `hidden-${owner}-${i}`, suit: 'spades', rank: 'A' }));
+
+/**
+ * The game as `viewerId` is allowed to see it: other hands and the deck
+ * become face-down placeholders, and the seed and generator state are
+ * dropped so the deck order cannot be worked out. Counts are unchanged, so
+ * the result still renders and answers `legalMoves` for the viewer. Once the
+ * game is over every hand is shown.
+ */
+export const viewFor = (state: GameState, viewerId: SeatId): GameState => {
+  if (isGameOver(state)) return state;
+  return {
+    ...state,
+    deck: hiddenCards('deck', state.deck.length),
+    seats: state.seats.map(seat =>
+      seat.id === viewerId ? seat : { ...seat, hand: hiddenCards(seat.id, seat.hand.length) }),
+    seed: '',
+    rngState: 0,
+    log: state.log.map((entry, i) =>
+      entry.type === 'draw' && entry.seat !== viewerId
+        ? { ...entry, cards: hiddenCards(`draw-${i}`, entry.cards.length) }
+        : entry),
+  };
+};
+
+/** Hands the turn on after `seatId` has finished, skipping `skip` seats. */
+const passTurn = (state: GameState, seatId: SeatId, skip = 0): GameState => ({
+  ...state,
+  currentTurn: nextSeatId(state, seatId, 1 + skip),
+});
+
+const winGame = (state: GameState, seatId: SeatId, message: GameMessage[]): GameState => ({
+  ...state,
+  status: 'won',
+  winner: seatId,
+  message,
+});
+
+const playCard = (state: GameState, seatId: SeatId, cardId: string): GameState => {
+  const card = getHand(state, seatId).find(c => c.id === cardId);
+  if (!card || !isCardPlayable(state, seatId, card)) return state;
+
+  const newHand = getHand(state, seatId).filter(c => c.id !== cardId);
+  const voids = (state.suspectedVoids[seatId] ?? []).filter(suit => suit !== card.suit);
+  const next: GameState = {
+    ...setVoids(setHand(state, seatId, newHand), seatId, voids),
+    discardPile: [...state.discardPile, card],
+  };
+  const name = seatName(state, seatId);
+
+  if (newHand.length === 0) {
+    return winGame(next, seatId, [{ key: 'game.handEmptied', params: { name } }]);
+  }
+
+  // An 8 keeps the turn until its owner names the next suit.
+  if (card.rank === '8') {
+    return {
+      ...next,
+      status: 'waiting_for_suit',
+      message: [{ key: 'game.crazyEight', params: { name } }],
+    };
+  }
+
+  const rules = state.rules;
+
+  if (rules.drawTwo && card.rank === '2') {
+    const pendingDraw = state.pendingDraw + 2;
+    const after = passTurn(next, seatId);
+    return {
+      ...after,
+      wildSuit: null,
+      pendingDraw,
+      message: [{ key: 'game.drawTwo', params: { name, next: seatName(state, after.currentTurn), count: pendingDraw } }],
+    };
+  }
+
+  if (rules.skipQueen && card.rank === 'Q') {
+    const skipped = seatName(state, nextSeatId(state, seatId));
+    const after = passTurn(next, seatId, 1);
+    return {
+      ...after,
+      wildSuit: null,
+      message: [{ key: 'game.skip', params: { name, skipped } }, nextTurnPrompt(after)],
+    };
+  }
+
+  // Reversing with two seats would change nothing, so the rule waits for a bigger table
+  if (rules.reverseAce && card.rank === 'A' && state.seats.length > 2) {
+    const reversed: GameState = { ...next, direction: state.direction === 1 ? -1 : 1 };
+    const after = passTurn(reversed, seatId);
+    return {
+      ...after,
+      wildSuit: null,
+      message: [{ key: 'game.reverse', params: { name } }, nextTurnPrompt(after)],
+    };
+  }
+
+  const after = passTurn(next, seatId);
+  return {
+    ...after,
+    wildSuit: null,
+    message: [nextTurnPrompt(after)],
+  };
+};
+
+/**
+ * Refills an empty deck by shuffling every discard except the top card back
+ * in, using the generator state carried on `GameState`.
+ */
+const reshuffleIfEmpty = (state: GameState): GameState => {
+  if (state.deck.length > 0 || state.discardPile.length <= 1) return state;
+
+  const rng = createRng(state.rngState);
+  const topDiscard = state.discardPile[state.discardPile.length - 1];
+
+  return {
+    ...state,
+    deck: shuffle(state.discardPile.slice(0, -1), rng),
+    discardPile: [topDiscard],
+    rngState: rng.getState(),
+    reshuffles: state.reshuffles + 1,
+  };
+};
+
+/** Deals up to `count` cards to `seatId`, reshuffling the discards as needed. */
+const dealCards = (state: GameState, seatId: SeatId, count: number): GameState => {
+  let next = state;
+  const drawn: Card[] = [];
+  for (let i = 0; i < count; i++) {
+    next = reshuffleIfEmpty(next);
+    if (next.deck.length === 0) break;
+    drawn.push(next.deck[next.deck.length - 1]);
+    next = { ...next, deck: next.deck.slice(0, -1) };
+  }
+  return setHand(next, seatId, [...getHand(next, seatId), ...drawn]);
+};
+
+/** Nobody can play or draw: the lowest hand total wins, a shared lowest total is a draw. */
+const endBlockedGame = (state: GameState): GameState => {
+  const points = state.seats.map(seat => getHandPoints(seat.hand));
+  const lowest = Math.min(...points);
+  const leaders = state.seats.filter((_, i) => points[i] === lowest);
+
+  return {
+    ...state,
+    status: leaders.length === 1 ? 'won' : 'draw',
+    winner: leaders.length === 1 ? leaders[0].id : null,
+    blocked: true,
+    message: [
+      { key: 'game.blocked' },
+      ...state.seats.map((seat, i) => ({ key: 'game.points', params: { name: seat.name, points: points[i] } })),
+    ],
+  };
+};
+
+const drawCard = (state: GameState, seatId: SeatId): GameState => {
+  if (state.status !== 'playing' || state.currentTurn !== seatId || !canDraw(state, seatId)) return state;
+
+  const name = seatName(state, seatId);
+
+  if (state.pendingDraw > 0) {
+    const after = passTurn(dealCards(state, seatId, state.pendingDraw), seatId);
+    return {
+      ...after,
+      pendingDraw: 0,
+      message: [{ key: 'game.penaltyDrawn', params: { name, count: state.pendingDraw } }, nextTurnPrompt(after)],
+    };
+  }
+
+  if (drawableCount(state) === 0) {
+    if (!state.seats.some(seat => hasPlayableCard(state, seat.id))) return endBlockedGame(state);
+    const after = passTurn(state, seatId);
+    return {
+      ...after,
+      message: [{ key: 'game.nothingToDraw' }, nextTurnPrompt(after)],
+    };
+  }
+
+  // Drawing instead of following suit suggests the seat has none of it
+  const currentSuit = getCurrentSuit(state);
+  const voids = state.suspectedVoids[seatId] ?? [];
+  let next = currentSuit && !voids.includes(currentSuit)
+    ? setVoids(state, seatId, [...voids, currentSuit])
+    : state;
+  next = dealCards(next, seatId, 1);
+  let drawn = 1;
+  if (state.rules.drawUntilPlayable) {
+    while (!hasPlayableCard(next, seatId) && drawableCount(next) > 0) {
+      next = dealCards(next, seatId, 1);
+      drawn++;
+    }
+  }
+  const reshuffled: GameMessage[] = next.reshuffles > state.reshuffles ? [{ key: 'game.reshuffled' }] : [];
+
+  // Drawing until playable keeps the turn so the new card can be played
+  if (state.rules.drawUntilPlayable && hasPlayableCard(next, seatId)) {
+    return {
+      ...next,
+      message: [...reshuffled, { key: 'game.drewPlayable', params: { name, count: drawn } }],
+    };
+  }
+
+  const after = passTurn(next, seatId);
+  return {
+    ...after,
+    message: [...reshuffled, { key: 'game.drew', params: { name, count: drawn } }, nextTurnPrompt(after)],
+  };
+};
+
+const chooseSuit = (state: GameState, seatId: SeatId, suit: Suit): GameState => {
+  if (state.status !== 'waiting_for_suit' || state.currentTurn !== seatId) return state;
+
+  const after = passTurn(state, seatId);
+  return {
+    ...after,
+    wildSuit: suit,
+    status: 'playing',
+    message: [{ key: 'game.suitChosen', params: { name: seatName(state, seatId), suit: getSuitSymbol(suit) } }, nextTurnPrompt(after)],
+  };
+};
+
+/** What item effects are allowed to do to a game. */
+const ITEM_EFFECTS: ItemEffects = {
+  dealCards: (state, seatId, count) => dealCards(state, seatId, count),
+  discardFromHand: (state, seatId, cardIds) => {
+    const hand = getHand(state, seatId);
+    return {
+      ...setHand(state, seatId, hand.filter(card => !cardIds.includes(card.id))),
+      discardPile: [...hand.filter(card => cardIds.includes(card.id)), ...state.discardPile],
+    };
+  },
+  win: (state, seatId) => winGame(state, seatId, []),
+  nextSeat: (state, seatId) => nextSeatId(state, seatId),
+  seatName,
+};
+
+const useItem = (state: GameState, seatId: SeatId, itemId: string, target: ItemTarget = {}): GameState => {
+  const item = findItem(itemId);
+  if (!item?.use || !canUseItem(state, seatId, itemId) || !isValidTarget(state, seatId, item.use.target, target)) {
+    return state;
+  }
+
+  const effect = item.use.apply({ state, seat: seatId, target, fx: ITEM_EFFECTS });
+  const message: GameMessage[] = [
+    { key: 'game.itemUsed', params: { name: seatName(state, seatId), item: { key: `item.${item.id}.name` } } },
+    effect.message,
+  ];
+  // Emptying your hand wins, however it happened
+  if (!isGameOver(effect.state) && getHand(effect.state, seatId).length === 0) {
+    return winGame(effect.state, seatId, message);
+  }
+  return { ...effect.state, message };
+};
+
+/**
+ * Applies one action and returns the resulting state. Illegal actions return
+ * the very same `state` object, so callers can detect a rejected move with
+ * `applyAction(state, action) === state`.
+ */
+const resolveAction = (state: GameState, action: GameAction): GameState => {
+  switch (action.type) {
+    case 'play': return playCard(state, action.seat, action.cardId);
+    case 'draw': return drawCard(state, action.seat);
+    case 'chooseSuit': return chooseSuit(state, action.seat, action.suit);
+    case 'useItem': return useItem(state, action.seat, action.itemId, action.target);
+  }
+};
+
+/** The log line for an accepted `action`, read off the states either side of it. */
+const logEntryFor = (before: GameState, after: GameState, action: GameAction): LogEntry => {
+  switch (action.type) {
+    case 'play':
+      return { type: 'play', seat: action.seat, card: getHand(before, action.seat).find(c => c.id === action.cardId)! };
+    case 'draw': {
+      // Drawn cards go on the end of the hand
+      const held = getHand(before, action.seat).length;
+      return { type: 'draw', seat: action.seat, cards: getHand(after, action.seat).slice(held) };
+    }
+    default:
+      return action;
+  }
+};
+
+export const applyAction = (state: GameState, action: GameAction): GameState => {
+  const next = resolveAction(state, action);
+  return next === state ? state : { ...next, log: [...state.log, logEntryFor(state, next, action)] };
+};
+
+/** Whether the log goes back to the deal, so the game can be replayed from its seed. */
+export const canReplay = (state: GameState): boolean =>
+  state.seed !== '' && state.log[0]?.type === 'deal';
+
+/** The action behind each log entry after the deal; applied in order to the deal they give `state` again. */
+export const logActions = (state: GameState): GameAction[] =>
+  state.log.flatMap((entry): GameAction[] => {
+    switch (entry.type) {
+      case 'deal': return [];
+      case 'play': return [{ type: 'play', seat: entry.seat, cardId: entry.card.id }];
+      case 'draw': return [{ type: 'draw', seat: entry.seat }];
+      default: return [entry];
+    }
+  });
+
+/** The game as it stood after its first `steps` actions, dealt again from the seed. */
+export const replayTo = (state: GameState, steps: number): GameState => {
+  const table = state.seats.map(({ id, name, kind }) => ({ id, name, kind }));
+  return logActions(state)
+    .slice(0, steps)
+    .reduce(applyAction, createGame(state.seed, state.rules, table, getDealer(state)));
+};
+
+/**
+ * Rolls the game back to just before `seatId`'s most recent action, undoing
+ * everyone's moves since. Returns `state` unchanged when there is nothing to undo.
+ */
+export const undoLastMove = (state: GameState, seatId: SeatId): GameState => {
+  if (!canReplay(state)) return state;
+  const steps = logActions(state).map(action => action.seat).lastIndexOf(seatId);
+  return steps < 0 ? state : replayTo(state, steps);
+};
@@ -0,0 +1,90 @@
+import { Card, GameState, LogEntry, SeatId } from '../types';
+import { getHandPoints, getSuitSymbol } from '../constants';
+import { getCurrentSuit, getHand, getSeat, getTopDiscard, isGameOver } from '../engine';
+import { findItem } from '../items';
+import { Translator } from '../i18n';
+
+/**
+ * Plain-language facts about a game, read from one seat's view of it. Both
+ * the Gemini prompt and the offline guide are built from these, so neither
+ * can mention anything the player could not see for themselves.
+ */
+
+export const cardName = (card: Card): string => `${getSuitSymbol(card.suit)}${card.rank}`;
+
+const seatName = (view: GameState, seat: SeatId, you: SeatId) =>
+  seat === you ? '你' : getSeat(view, seat)?.name ?? seat;
+
+export const describeEntry = (view: GameState, entry: LogEntry, you: SeatId): string => {
+  if (entry.type === 'deal') return `发牌：每人 ${entry.handSize} 张，翻开 ${cardName(entry.starter)}。`;
+
+  const name = seatName(view, entry.seat, you);
+  switch (entry.type) {
+    case 'play':
+      return `${name}打出 ${cardName(entry.card)}。`;
+    case 'draw':
+      if (entry.cards.length === 0) return `${name}无牌可摸，跳过。`;
+      // Only your own draws are face up in your view
+      return entry.seat === you
+        ? `${name}摸了 ${entry.cards.map(cardName).join('、')}。`
+        : `${name}摸了 ${entry.cards.length} 张牌。`;
+    case 'chooseSuit':
+      return `${name}把花色指定为 ${getSuitSymbol(entry.suit)}。`;
+    case 'useItem':
+      return `${name}使用了${findItem(entry.itemId)?.name ?? '道具'}。`;
+  }
+};
+
+/** `describeEntry` in the reader's language, naming `you` the way the table does. */
+export const describeMove = (t: Translator, view: GameState, entry: LogEntry, you: SeatId): string => {
+  if (entry.type === 'deal') return t('log.deal', { count: entry.handSize, card: cardName(entry.starter) });
+
+  const name = entry.seat === you ? t('seat.you') : getSeat(view, entry.seat)?.name ?? entry.seat;
+  switch (entry.type) {
+    case 'play':
+      return t('log.play', { name, card: cardName(entry.card) });
+    case 'draw':
+      if (entry.cards.length === 0) return t('log.drawNone', { name });
+      // Only your own draws are face up in your view
+      return entry.seat === you
+        ? t('log.drawCards', { name, cards: entry.cards.map(cardName).join(t('list.separator')) })
+        : t('log.drawCount', { name, count: entry.cards.length });
+    case 'chooseSuit':
+      return t('log.chooseSuit', { name, suit: t.text(`suit.${entry.suit}`) });
+    case 'useItem':
+      return t('log.useItem', { name, item: { key: `item.${entry.itemId}.name` } });
+  }
+};
+
+/** Moves worth a remark from the guide: action cards, suit changes, items and big draws. */
+export const isNotable = (entry: LogEntry): boolean => {
+  switch (entry.type) {
+    case 'play': return ['8', '2', 'Q', 'A'].includes(entry.card.rank);
+    case 'draw': return entry.cards.length >= 3;
+    case 'chooseSuit':
+    case 'useItem': return true;
+    default: return false;
+  }
+};
+
+/** The table from `you`'s seat: your hand, the pile, everyone's card counts and the last few moves. */
+export const tableFacts = (view: GameState, you: SeatId, recent = 8): string[] => {
+  const top = getTopDiscard(view);
+  const suit = getCurrentSuit(view);
+  const facts = [
+    `你的手牌：${getHand(view, you).map(cardName).join('、') || '（空）'}。`,
+    `弃牌堆顶：${top ? cardName(top) : '无'}，当前花色 ${suit ? getSuitSymbol(suit) : '无'}。`,
+    `摸牌堆还剩 ${view.deck.length} 张。`,
+    ...view.seats
+      .filter(seat => seat.id !== you)
+      .map(seat => `${seat.name}还有 ${seat.hand.length} 张牌。`),
+    `轮到${seatName(view, view.currentTurn, you)}。`,
+  ];
+  if (view.pendingDraw > 0) facts.push(`待罚摸 ${view.pendingDraw} 张。`);
+  if (isGameOver(view)) {
+    facts.push(view.winner ? `${seatName(view, view.winner, you)}赢了。` : '平局。');
+    facts.push(...view.seats.map(seat => `${seatName(view, seat.id, you)}剩余手牌 ${getHandPoints(seat.hand)} 分。`));
+  }
+  const moves = view.log.slice(-recent).map(entry => describeEntry(view, entry, you));
+  return moves.length > 0 ? [...facts, '最近的出牌：', ...moves] : facts;
+};
@@ -0,0 +1,20 @@
+import { GameState, GuideProvider, GuideTopic, Lang, SeatId } from '../types';
+import { viewFor } from '../engine';
+import * as api from '../api';
+import { createLocalGuide } from './local';
+
+export { createLocalGuide } from './local';
+export { buildGuidePrompt, GUIDE_PERSONA } from './prompt';
+export { isNotable } from './facts';
+
+/**
+ * The guide as the app uses it: the server's (Gemini when it has a key),
+ * falling back to the local guide whenever the server cannot be reached.
+ */
+export const createServerGuide = (fallback: GuideProvider = createLocalGuide()): GuideProvider => ({
+  ask: request => api.askGuide(request).then(({ text }) => text, () => fallback.ask(request)),
+});
+
+/** Asks `guide` about `state` from `seat`'s side; only that seat's view leaves this function. */
+export const askGuide = (guide: GuideProvider, topic: GuideTopic, state: GameState, seat: SeatId, lang?: Lang) =>
+  guide.ask({ topic, seat, view: viewFor(state, seat), lang });
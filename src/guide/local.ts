@@ -0,0 +1,88 @@
+import { GameState, GuideProvider, GuideRequest, SeatId } from '../types';
+import { getSuitSymbol } from '../constants';
+import { getHand, getSeat, isGameOver, legalMoves } from '../engine';
+import { chooseNormalAction } from '../ai/normal';
+import { createSeededRng } from '../rng';
+import { createTranslator, DEFAULT_LANG, Translator } from '../i18n';
+import { cardName, describeMove } from './facts';
+
+/**
+ * The tour guide without a network: canned lines picked from the game
+ * itself, and advice from the normal AI, written out from the catalogs in
+ * the language asked for. The same view always gets the same answer, so it
+ * doubles as a test double for the Gemini guide.
+ */
+
+// The campaign's stages, named as the stage list names them
+const LANDMARKS = ['huashan', 'terracotta', 'westlake', 'guilin', 'huangshan', 'jiuzhaigou'];
+
+/** A landmark to season a line with, fixed for a given point in the game. */
+const landmark = (t: Translator, view: GameState) => t.text(`stage.${LANDMARKS[view.log.length % LANDMARKS.length]}.name`);
+
+const comment = (t: Translator, view: GameState, you: SeatId): string => {
+  const entry = view.log[view.log.length - 1];
+  if (!entry || entry.type === 'deal') return t('guide.welcome', { place: landmark(t, view) });
+
+  const line = describeMove(t, view, entry, you);
+  if (entry.type === 'play') {
+    switch (entry.card.rank) {
+      case '8': return t('guide.comment.eight', { line, place: landmark(t, view) });
+      case '2': return t('guide.comment.two', { line });
+      case 'Q': return t('guide.comment.queen', { line, place: landmark(t, view) });
+      case 'A': return t('guide.comment.ace', { line });
+    }
+  }
+  if (entry.type === 'chooseSuit') return t('guide.comment.suit', { line, suit: getSuitSymbol(entry.suit) });
+  if (entry.type === 'draw' && entry.cards.length >= 3) return t('guide.comment.bigDraw', { line });
+  return line;
+};
+
+const advice = (t: Translator, view: GameState, you: SeatId): string => {
+  if (isGameOver(view)) return t('guide.advice.over');
+  if (legalMoves(view, you).length === 0) {
+    return t('guide.advice.wait', { name: getSeat(view, view.currentTurn)?.name ?? t('guide.opponent') });
+  }
+
+  const move = chooseNormalAction(view, you, createSeededRng(`${view.log.length}/guide`));
+  if (move?.type === 'chooseSuit') return t('guide.advice.suit', { suit: getSuitSymbol(move.suit) });
+  if (move?.type === 'play') {
+    const card = getHand(view, you).find(c => c.id === move.cardId)!;
+    return t(card.rank === '8' ? 'guide.advice.eight' : 'guide.advice.play', { card: cardName(card) });
+  }
+  return view.pendingDraw > 0
+    ? t('guide.advice.penalty', { count: view.pendingDraw })
+    : t('guide.advice.draw');
+};
+
+const review = (t: Translator, view: GameState, you: SeatId): string => {
+  if (!isGameOver(view)) return t('guide.review.playing');
+  if (view.winner === you) return t('guide.review.won', { place: landmark(t, view) });
+
+  const mine = view.log.filter(entry => entry.type !== 'deal' && entry.seat === you);
+  const drawn = mine.reduce((sum, entry) => sum + (entry.type === 'draw' ? entry.cards.length : 0), 0);
+  const eightsPlayed = mine.filter(entry => entry.type === 'play' && entry.card.rank === '8').length;
+  const eightsLeft = getHand(view, you).filter(card => card.rank === '8').length;
+  const winner = view.winner ? getSeat(view, view.winner)?.name : null;
+
+  const reasons: string[] = [];
+  if (drawn >= 5) reasons.push(t('guide.reason.drew', { count: drawn }));
+  if (eightsLeft > 0) reasons.push(t('guide.reason.eightsLeft', { count: eightsLeft }));
+  else if (eightsPlayed > 1) reasons.push(t('guide.reason.eightsEarly'));
+  if (reasons.length === 0) reasons.push(t('guide.reason.luck'));
+
+  return t('guide.review.lost', {
+    outcome: winner ? t('guide.review.winner', { name: winner }) : t('guide.review.draw'),
+    reasons: reasons.join(t('guide.reason.separator')),
+  });
+};
+
+export const createLocalGuide = (): GuideProvider => ({
+  ask: async ({ topic, seat, view, lang = DEFAULT_LANG }: GuideRequest) => {
+    const t = createTranslator(lang);
+    switch (topic) {
+      case 'comment': return comment(t, view, seat);
+      case 'advice': return advice(t, view, seat);
+      case 'review': return review(t, view, seat);
+    }
+  },
+});
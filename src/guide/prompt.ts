@@ -0,0 +1,41 @@
+import { GuideRequest } from '../types';
+import { viewFor } from '../engine';
+import { RULE_OPTIONS } from '../rules';
+import { tableFacts } from './facts';
+
+/**
+ * The Gemini prompt for a guide request. The view is redacted once more for
+ * the requesting seat, so even a client that sent the full state cannot get
+ * the model to reveal other hands.
+ */
+
+export const GUIDE_PERSONA = [
+  '你是 Kiki，一位热情的中国名胜导游，正陪一位小朋友玩“疯狂 8 点”纸牌游戏。',
+  '说话简短亲切，用简体中文，最多两句话，可以顺带提到华山、兵马俑、西湖、桂林、黄山或九寨沟。',
+  '你只知道下面列出的信息，不要猜测或编造对手手里的具体牌。',
+].join('\n');
+
+const TASKS = {
+  comment: '请用一句话点评最近的一步出牌。',
+  advice: '轮到玩家出牌。请建议下一步出哪张牌（或摸牌、选哪个花色），并简单说明理由。',
+  review: '游戏结束了。请告诉玩家这局的胜负原因，并给一个下次可以改进的小建议。',
+};
+
+// The persona asks for Simplified Chinese; players reading another language get their own
+const REPLY_IN = {
+  'zh-CN': null,
+  'zh-TW': '请用繁体中文回答。',
+  en: '请用简单的英文回答。',
+};
+
+export const buildGuidePrompt = ({ topic, seat, view, lang = 'zh-CN' }: GuideRequest): string => {
+  const safe = viewFor(view, seat);
+  const rules = RULE_OPTIONS.filter(option => safe.rules[option.key]).map(option => option.name);
+  return [
+    `规则：数字 8 是万能牌${rules.length > 0 ? `；另有${rules.join('、')}` : ''}。`,
+    ...tableFacts(safe, seat),
+    '',
+    TASKS[topic],
+    ...(REPLY_IN[lang] ? [REPLY_IN[lang]] : []),
+  ].join('\n');
+};
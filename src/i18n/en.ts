@@ -0,0 +1,532 @@
+import { MessageKey } from './zh-CN';
+
+export const en: Record<MessageKey, string> & Record<string, string> = {
+  'app.title': "Kiki's Splendid China · Crazy Eights",
+
+  'game.text': '{text}',
+  'game.welcome': "Welcome to Kiki's Splendid China · Crazy Eights",
+  'game.stageIntro': '{name}: {intro}',
+  'game.thinking': '{name} is thinking...',
+  'game.yourTurn': '{name} to play.',
+  'game.handEmptied': '{name} played every card!',
+  'game.crazyEight': '{name} played a crazy eight and is choosing a suit...',
+  'game.drawTwo': '{name} played a 2! {next} must draw {count} {count|card|cards}.',
+  'game.skip': '{name} played a Q and skipped {skipped}.',
+  'game.reverse': '{name} played an A. The direction is reversed!',
+  'game.blocked': 'Nobody can move:',
+  'game.points': '{name} {points} pts',
+  'game.penaltyDrawn': '{name} drew {count} penalty {count|card|cards}.',
+  'game.nothingToDraw': 'There is nothing left to draw. Turn skipped.',
+  'game.reshuffled': 'The discard pile was shuffled into the deck.',
+  'game.drewPlayable': '{name} drew {count} {count|card|cards} and found one to play.',
+  'game.drew': '{name} drew {count} {count|card|cards}.',
+  'game.suitChosen': '{name} chose {suit}.',
+  'game.itemUsed': '{name} used the {item}!',
+  'game.matchRound': 'Round {n}, {dealer} dealt.',
+
+  'item.p1.effect': '{name} drew 5 cards.',
+  'item.p3.effect': '{count} {count|card|cards} left the hand.',
+  'item.p4.effect': 'The land itself lends a hand: instant win!',
+  'item.p5.effect': 'Looked at the hand of {name}.',
+  'item.p6.effect': 'The suit now points to {suit}.',
+
+  'room.notFound': 'There is no room {code}.',
+  'room.inProgress': 'A game is on in this room. Please wait until it ends.',
+  'room.full': 'The room is full.',
+  'room.cannotResume': 'Could not get back into your room.',
+  'room.notInRoom': 'You are not in a room.',
+  'room.hostOnly': 'Only the host can start the game.',
+  'room.alreadyStarted': 'The game has already started.',
+  'room.notStarted': 'The game has not started yet.',
+  'room.noItems': 'Items cannot be used in online games.',
+  'room.illegalMove': 'That move is not allowed right now.',
+  'room.invalidRules': 'Those house rules are not known.',
+  'room.badMessage': 'Unrecognised message.',
+
+  'list.separator': ', ',
+  'seat.you': 'You',
+  'seat.ai': 'AI',
+  'seat.player': 'Player',
+  'seat.cards': '{count} {count|card|cards}',
+  'seat.label': '{name}, {count} {count|card|cards}',
+
+  'suit.hearts': 'Hearts',
+  'suit.diamonds': 'Diamonds',
+  'suit.clubs': 'Clubs',
+  'suit.spades': 'Spades',
+
+  'card.name': '{rank} of {suit}',
+  'card.back': 'Face-down card',
+
+  'rules.title': 'Crazy Eights rules · {preset}',
+  'rules.custom': 'Custom rules',
+  'rules.handSize': 'Two players get {two} cards each, three or four get {four}, five or six get {six}.',
+  'rules.match': 'Play a card that matches the suit or the rank.',
+  'rules.eight': '{eight} are wild: play one any time and choose the next suit.',
+  'rules.eightName': 'Eights',
+  'rules.drawOne': 'If you cannot play, draw one card.',
+  'rules.option': '{name}: {desc}',
+  'rules.reshuffle': 'When the deck runs out, the discard pile (all but its top card) is shuffled into a new deck.',
+  'rules.blocked': 'If nobody can play or draw, the lowest hand wins (8 = 50, face cards = 10, the rest at face value).',
+  'rules.goal': 'The first to empty their hand wins.',
+  'rules.stars': 'Every finished game earns {star}, and a win earns double!',
+
+  'shop.title': 'Splendid Shop',
+  'shop.redeemed': '🎉 You got the {name}!',
+  'shop.starsLeft': 'Stars left: {stars} ★',
+  'shop.cost': 'Costs {cost} stars',
+  'shop.owned': 'Owned',
+  'shop.redeem': 'Redeem',
+  'shop.back': 'Back to the game',
+
+  'home.welcome': 'Welcome to',
+  'home.tagline': "See China's great landscapes and enjoy a classic card game.",
+  'home.start': 'Start game',
+  'home.campaign': 'Splendid Journey',
+  'home.tutorial': 'Tutorial',
+  'home.tutorialBonus': '+{stars} ★',
+  'home.puzzles': 'Puzzles',
+  'home.stats': 'My stats',
+  'home.themes': 'Deck themes',
+  'home.language': 'Language',
+  'home.seedPlaceholder': 'Game number (optional)',
+  'home.daily': 'Daily game',
+  'home.namePlaceholder': 'Your name',
+  'home.createRoomHint': 'Open an online room with the current players, difficulty and rules',
+  'home.createRoom': 'Create room',
+  'home.roomCodePlaceholder': 'Room code',
+  'home.join': 'Join',
+  'home.players': 'Players',
+  'home.toggleSeat': 'Click to switch between AI and a person',
+  'home.difficulty': 'AI difficulty',
+  'home.casualHint': 'Casual games can be undone, but earn no stars and allow no items',
+  'home.casual': 'Casual mode (undo allowed)',
+  'home.guideHint': 'Guide Kiki comments on moves, suggests what to play and looks back at games you lose',
+  'home.guide': 'Play with guide Kiki',
+  'home.fourColorHint': 'Blue diamonds and green clubs, so every suit has its own colour',
+  'home.fourColor': 'Four-colour deck',
+  'home.reduceMotionHint': 'Turn off the dealing and playing animations',
+  'home.reduceMotion': 'Reduce motion',
+  'home.mute': 'Mute',
+  'home.unmute': 'Unmute',
+  'home.sfxVolume': 'Sound',
+  'home.musicVolume': 'Music',
+  'home.match': 'Match',
+  'home.matchSingle': 'Single game',
+  'home.matchTarget': '{target} pts',
+  'home.matchHint': "Play to a target score: each round's winner takes the points left in everyone else's hand (8 = 50, face cards = 10, others their face value), and the deal passes round the table",
+  'home.continueMatch': 'Continue match · round {n}',
+
+  'header.goal': 'Goal: {goal}',
+  'header.reconnectingHint': 'The connection dropped. Reconnecting',
+  'header.reconnecting': 'Reconnecting…',
+  'header.room': 'Room',
+  'header.seedHint': 'Enter a game number and press Enter to deal that game',
+  'header.seed': 'Game',
+  'header.puzzleMoves': '{made}/{moves} moves',
+  'header.leaveRoom': 'Leave room',
+  'header.home': 'Home',
+  'header.match': 'Round {n} · {score}/{target} pts',
+  'header.matchHint': 'Show the scoreboard',
+
+  'table.deck': 'Deck ({count})',
+  'table.discard': 'Discard pile',
+  'table.direction': 'Direction {arrow}',
+  'table.undoHint': 'Take back every move since your last one',
+  'table.undo': 'Undo',
+  'table.askGuideHint': 'Ask guide Kiki what to play',
+  'table.askGuide': 'Ask the guide',
+  'table.hint': 'Hint ({count})',
+  'table.hintHint': 'Show the best move and why (H)',
+  'table.noHints': 'No hints left this game; buy a tip pouch in the Splendid Shop',
+  'table.hintFailed': "The tip pouch couldn't be opened. Check your connection and try again.",
+  'table.guideSays': 'Guide Kiki: {text}',
+  'table.rules': 'Rules',
+  'table.hand': 'Your hand',
+  'table.deckLabel': 'Draw pile, {count} {count|card|cards} left',
+  'table.discardLabel': 'Discard pile, {card} on top',
+  'table.wildSuit': ', suit is now {suit}',
+  'table.keysHint': 'Keys: ← → pick a card, Enter plays, D draws, H hints',
+
+  'handoff.passTo': 'Please pass the device to',
+  'handoff.ready': "I'm ready",
+
+  'suitPicker.title': 'Crazy eight!',
+  'suitPicker.prompt': 'Choose the next suit:',
+  'suitPicker.hinted': 'Hint: name {suit}',
+
+  'hint.goOut': 'Play {card}: it is your last card, so you win!',
+  'hint.stackTwo': 'Play {card} to stack the penalty to {total} cards for {name}',
+  'hint.attack': '{name} is nearly out, so slow them down with {card}',
+  'hint.lacks': '{name} seems to be out of {suit}, so {card} is hard to follow',
+  'hint.saveEight': 'Save your 8 — you have {count} {suit}, so play {card}',
+  'hint.keepSuit': 'Play {card}: you hold {count} {suit}, so your next turn is easy',
+  'hint.shed': 'Play {card} to get rid of a high-scoring card',
+  'hint.play': 'Play {card}: it fits',
+  'hint.eight': 'Only an 8 fits: play {card}, then name {suit}',
+  'hint.suit': 'Name {suit}: you hold the most of it ({count})',
+  'hint.suitLacks': 'Name {suit}: {name} seems to be out of it',
+  'hint.takePenalty': 'No 2 to stack, so take the {count} cards',
+  'hint.draw': 'Nothing fits, so draw a card',
+
+  'puzzles.title': 'Puzzles',
+  'puzzles.progress': '{solved}/{total} solved',
+  'puzzles.intro': 'Every hand and the draw pile are set out for you, and your opponent plays with their cards face up. Go out within the move limit, however they reply. Each play or draw is a move; naming a suit after an 8 is not.',
+  'puzzles.label': '{title}, win in {moves}, {stars} {stars|star|stars} earned',
+  'puzzles.winIn': 'Win in {moves} {moves|move|moves}',
+  'puzzles.home': 'Back to home',
+  'puzzles.goal': 'Puzzle: go out within {moves} {moves|move|moves}!',
+  'puzzles.solved': 'Solved!',
+  'puzzles.failed': 'So close!',
+  'puzzles.rating': '{stars} {stars|star|stars}',
+  'puzzles.ratingHint': 'Solve it first time for three stars, or within three tries for two.',
+  'puzzles.failedHint': "You didn't go out within {moves} {moves|move|moves}. Think about how your opponent could reply, and try again.",
+  'puzzles.next': 'Next puzzle',
+  'puzzles.retry': 'Try again',
+  'puzzles.all': 'All puzzles',
+  'puzzlePack.first-steps.name': 'First steps',
+  'puzzlePack.crazy-eights.name': 'Tricky endings',
+  'puzzle.first-steps-1.title': 'One and done',
+  'puzzle.first-steps-2.title': 'Which card first?',
+  'puzzle.first-steps-3.title': 'Three in a row',
+  'puzzle.crazy-eights-1.title': 'An 8 names the suit',
+  'puzzle.crazy-eights-2.title': 'An 8 on an 8',
+  'puzzle.crazy-eights-3.title': 'Draw-two chain',
+  'puzzle.crazy-eights-4.title': 'Skip, skip, out',
+
+  'quests.title': 'Quest board',
+  'quests.daily': 'Daily quests',
+  'quests.weekly': 'Weekly quests',
+  'quests.resets': 'New quests at midnight Beijing time',
+  'quests.progress': '{done}/{target}',
+  'quests.reward': '+{stars} ★',
+  'quests.claim': 'Claim {stars} ★',
+  'quests.claimed': 'Claimed',
+  'quests.which': "Every game that earns stars counts; casual games and online rooms don't.",
+  'quest.dailyWin.desc': 'Win a game',
+  'quest.dailyPlay3.desc': 'Finish 3 games',
+  'quest.dailyEightLast.desc': 'Win with an 8 as your last card',
+  'quest.dailyNoDraw.desc': 'Win without drawing a card',
+  'quest.dailyHard.desc': 'Beat the hard AI',
+  'quest.dailyQuick.desc': 'Win in 8 plays and draws or fewer',
+  'quest.dailyCampaign.desc': 'Win a game on the Splendid Journey',
+  'quest.weeklyWin5.desc': 'Win 5 games',
+  'quest.weeklyPlay10.desc': 'Finish 10 games',
+  'quest.weeklyEightLast3.desc': 'Win 3 games with an 8 as your last card',
+  'quest.weeklyNoDraw2.desc': 'Win 2 games without drawing a card',
+  'quest.weeklyHard3.desc': 'Beat the hard AI 3 times',
+  'quest.stage-huashan.desc': 'Beat the AI at Mount Hua',
+  'quest.stage-terracotta.desc': 'Beat the AI at the Terracotta Army',
+  'quest.stage-westlake.desc': 'Beat the AI at West Lake',
+  'quest.stage-guilin.desc': 'Beat the AI at Guilin',
+  'quest.stage-huangshan.desc': 'Beat the AI at Huangshan',
+  'quest.stage-jiuzhaigou.desc': 'Beat the AI at Jiuzhaigou',
+
+  'tutorial.title': 'Tutorial',
+  'tutorial.step': 'Step {n}/{total}',
+  'tutorial.offScript': 'Try the move the tip asks for first.',
+  'tutorial.next': 'Next',
+  'tutorial.finish': 'Finish the tutorial',
+  'tutorial.quit': 'Leave the tutorial',
+  'tutorial.opponent': 'Guide Kiki',
+  'tutorial.completeTitle': 'Tutorial complete!',
+  'tutorial.bonus': 'Here are {stars} stars for your wallet.',
+  'tutorial.replayed': 'Practice makes perfect! The tutorial bonus is only paid once, though.',
+  'tutorial.claiming': 'Collecting your tutorial bonus...',
+  'tutorial.claimFailed': "The tutorial bonus couldn't be collected. Check your connection and finish the tutorial again to get it.",
+  'tutorial.play': 'Start a game',
+  'tutorial.home': 'Back to home',
+  'tutorial.matchSuit.title': 'Follow the suit',
+  'tutorial.matchSuit.text': 'The top card is the 5 of Hearts. Any Heart can follow it: tap your 9 of Hearts.',
+  'tutorial.matchSuit.done': 'Well played! A card of the same suit always fits.',
+  'tutorial.matchRank.title': 'Follow the rank',
+  'tutorial.matchRank.text': 'Now it is the 7 of Clubs and you have no Clubs. The same rank fits too: play the 7 of Diamonds.',
+  'tutorial.matchRank.done': 'That is it: match the suit or the rank.',
+  'tutorial.playEight.title': 'Crazy eights',
+  'tutorial.playEight.text': 'Nothing follows the 4 of Spades, but an 8 can always be played. Play the 8 of Hearts!',
+  'tutorial.playEight.done': 'Eights are wild, so save them for when you need them.',
+  'tutorial.chooseSuit.title': 'Name a suit',
+  'tutorial.chooseSuit.text': 'After an 8 you name the next suit. You hold three Diamonds, so pick Diamonds.',
+  'tutorial.chooseSuit.done': 'Now the next player needs a Diamond or an 8.',
+  'tutorial.draw.title': 'Draw a card',
+  'tutorial.draw.text': 'None of your cards follows the 10 of Clubs. Tap the deck to draw one.',
+  'tutorial.draw.done': 'When nothing fits, draw, and the turn moves on.',
+  'tutorial.useItem.title': 'Use an item',
+  'tutorial.useItem.text': 'Your opponent has only two cards left! Tap the Great Wall postcard on the left to make them draw 5. This one is on loan for practice; buy your own with stars in the Splendid Shop.',
+  'tutorial.useItem.done': 'An item at the right moment can turn a game around.',
+
+  'over.draw': "It's a draw",
+  'over.youWon': 'You won!',
+  'over.playerWon': '{name} won!',
+  'over.youLost': 'You lost',
+  'over.cleared': 'Great job, {name} played every card.',
+  'over.beaten': '{name} was one step ahead. Try again!',
+  'over.goalMet': 'Goal reached!',
+  'over.settleFailed': "This game couldn't be settled with the server, so no stars were added. Check your connection.",
+  'over.goalMissed': 'Goal not reached',
+  'over.unlocked': 'Unlocked the {stage} card back and fact page',
+  'over.nextStop': '. Next stop: {stage}',
+  'over.journeyDone': '. The whole Splendid Journey is complete!',
+  'over.waitForHost': 'Waiting for the host to start the next game · Leave room',
+  'over.playAgain': 'Play again',
+  'over.nextStage': 'On to the next stop: {stage}',
+  'over.retry': 'Try again',
+  'over.replay': 'Replay',
+  'over.map': 'Map',
+  'over.label': 'Game over',
+
+  'replay.label': 'Replay',
+  'replay.start': 'Back to the deal',
+  'replay.prev': 'Previous move',
+  'replay.next': 'Next move',
+  'replay.end': 'Skip to the end',
+  'replay.close': 'End replay',
+
+  'match.title': 'Scoreboard',
+  'match.target': 'Target {target}',
+  'match.round': 'Round {n}',
+  'match.dealer': 'Dealer',
+  'match.dealerMark': 'D',
+  'match.total': 'Total',
+  'match.close': 'Back to the game',
+  'match.youWon': 'You won the match!',
+  'match.playerWon': '{name} won the match!',
+  'match.bonus': '+{stars} ★',
+  'match.next': 'Play round {n}',
+  'match.newMatch': 'New match',
+
+  'lobby.share': 'Share the room code with your friends',
+  'lobby.setup': '{rules} · AI {level}',
+  'lobby.emptySeat': 'Empty seat · AI plays once the game starts',
+  'lobby.host': 'Host',
+  'lobby.leave': 'Leave room',
+  'lobby.start': 'Start game',
+  'lobby.waiting': 'Waiting for the host to start',
+  'lobby.label': 'Online room',
+
+  'timer.hint': 'When time runs out the AI plays for you',
+
+  'target.cards': 'Pick {count} {count|card|cards} to remove ({picked}/{count})',
+  'target.confirm': 'OK',
+  'target.suit': 'Choose a suit:',
+  'target.opponent': 'Choose an opponent:',
+  'target.cancel': 'Cancel',
+
+  'campaign.title': 'Splendid Journey',
+  'campaign.progress': 'Cleared {cleared} / {total}',
+  'campaign.stage': 'Stop {n}',
+  'campaign.opponents': 'Opponents: {names} · AI {level}',
+  'campaign.goal': 'Goal: {goal}',
+  'campaign.again': 'Again',
+  'campaign.go': 'Go',
+  'campaign.fact': 'About this place',
+  'campaign.backInUse': 'Card back in use',
+  'campaign.useBack': 'Use as card back',
+  'campaign.home': 'Home',
+
+  'fact.close': 'Got it',
+
+  'update.offlineReady': 'Ready to play offline',
+  'update.ok': 'OK',
+  'update.available': 'A new version is available',
+  'update.reload': 'Update',
+  'update.later': 'Later',
+
+  'stats.title': 'My stats',
+  'stats.exportHint': 'Download a JSON file to show parents or teachers',
+  'stats.export': 'Export',
+  'stats.backToList': 'Back to the list',
+  'stats.seed': 'Game number: {seed}',
+  'stats.time': 'Time: {time}',
+  'stats.result': 'Result: {result}',
+  'stats.opponents': 'Opponents: {names}',
+  'stats.setup': 'Rules: {rules} · AI {level}',
+  'stats.stage': 'Splendid Journey: {stage}',
+  'stats.casual': 'Casual mode',
+  'stats.free': 'Free game',
+  'stats.turns': 'Turns: {turns} · Eights played: {eights}',
+  'stats.stars': 'Stars earned: {stars} ★',
+  'stats.noMoves': 'This game is an older one: only its result was kept, not its moves.',
+  'stats.played': 'Games',
+  'stats.winRate': 'Win rate',
+  'stats.winRateValue': '{won} won · {percent}',
+  'stats.streak': 'Win streak',
+  'stats.streakValue': '{current} (best {best})',
+  'stats.averageTurns': 'Average turns',
+  'stats.eights': 'Eights played',
+  'stats.earned': 'Stars earned',
+  'stats.spent': 'Stars spent',
+  'stats.draws': 'Draws',
+  'stats.byDifficulty': 'By difficulty',
+  'stats.byRules': 'By rules',
+  'stats.items': 'Items used',
+  'stats.noRecords': 'Nothing yet',
+  'stats.noItems': 'None used yet',
+  'stats.history': 'Game history',
+  'stats.empty': 'Finish a game and it shows up here.',
+  'stats.listTurns': '{turns} {turns|turn|turns} · +{stars} ★',
+  'stats.home': 'Home',
+
+  'themes.title': 'Deck themes',
+  'themes.done': 'Done',
+  'themes.unlockItem': 'Redeem in the Splendid Shop for {cost} ★',
+  'themes.unlockStage': 'Clear {stage} to earn it',
+  'themes.unlockWins': 'Win {count} games to earn it ({won} so far)',
+
+  'result.won': 'W',
+  'result.lost': 'L',
+  'result.draw': 'D',
+
+  'log.deal': 'Dealt {count} cards each and turned up {card}.',
+  'log.play': '{name} played {card}.',
+  'log.drawNone': '{name} had nothing to draw and passed.',
+  'log.drawCards': '{name} drew {cards}.',
+  'log.drawCount': '{name} drew {count} {count|card|cards}.',
+  'log.chooseSuit': '{name} chose {suit}.',
+  'log.useItem': '{name} used the {item}.',
+
+  'guide.welcome': 'Welcome to {place}! Start by looking at which suits you hold.',
+  'guide.comment.eight': '{line} A crazy eight: the suit changes as fast as the weather on {place}!',
+  'guide.comment.two': '{line} Careful, the penalty cards are piling up.',
+  'guide.comment.queen': '{line} Someone was skipped and gets to enjoy the view at {place} a little longer.',
+  'guide.comment.ace': '{line} The direction is reversed, so back we go!',
+  'guide.comment.suit': '{line} Does anyone still hold {suit}?',
+  'guide.comment.bigDraw': "{line} That's a lot of cards at once. Keep your chin up!",
+  'guide.opponent': 'your opponent',
+  'guide.advice.over': "This game is over. Let's play another!",
+  'guide.advice.wait': "It's not your turn yet. Watch what {name} plays first.",
+  'guide.advice.suit': 'Pick {suit}: you hold more of that suit than any other.',
+  'guide.advice.eight': 'Only an 8 can be played. Play {card}, then choose a suit you hold.',
+  'guide.advice.play': 'Try playing {card}: keep your 8s for the moments that matter.',
+  'guide.advice.penalty': "No 2 to pass it on, so you'll have to draw {count}.",
+  'guide.advice.draw': 'Nothing fits, so draw a card.',
+  'guide.review.playing': 'The game is still on. Keep going!',
+  'guide.review.won': 'Brilliant! You won this one like reaching the top of {place}.',
+  'guide.review.winner': '{name} went out first.',
+  'guide.review.draw': 'This game was a draw.',
+  'guide.review.lost': '{outcome} {reasons}. See you next game!',
+  'guide.reason.drew': 'You drew {count} cards in all, and a big hand is hard to empty first',
+  'guide.reason.eightsLeft': 'You ended with {count} {count|eight|eights} still in hand, and wild cards are best played in time',
+  'guide.reason.eightsEarly': 'Your 8s went a little early; keeping one for the end is safer',
+  'guide.reason.luck': 'The cards were not kind this time: your opponents always had the suit to follow',
+  'guide.reason.separator': '. ',
+
+  'item.p1.name': 'Great Wall postcard',
+  'item.p1.desc': 'Rescue: the next player draws 5 cards (again after 3 of your moves)',
+  'item.p2.name': 'Terracotta warrior model',
+  'item.p2.desc': 'Passive: every game earns at least 2 stars',
+  'item.p3.name': 'West Lake silk',
+  'item.p3.desc': 'Spend: remove 2 cards from your hand (once a game)',
+  'item.p4.name': 'Splendid landscape scroll',
+  'item.p4.desc': 'Magic: win this game on the spot (once a game)',
+  'item.p5.name': 'Jiuzhaigou mirror',
+  'item.p5.desc': "See one opponent's hand until your next move",
+  'item.p6.name': 'South-pointing compass',
+  'item.p6.desc': 'Set the current suit, then play on (once a game)',
+  'item.p7.name': 'Paper-cut deck',
+  'item.p7.desc': 'Deck theme: red paper-cut faces and backs',
+  'item.p8.name': 'Peking opera deck',
+  'item.p8.desc': 'Deck theme: Peking opera masks on the J, Q and K',
+  'item.p9.name': 'Tip pouch',
+  'item.p9.desc': 'One more hint each, once the free hints are used up',
+
+  'theme.classic.name': 'Classic red and gold',
+  'theme.classic.desc': 'White faces, red backs',
+  'theme.largePrint.name': 'Large print',
+  'theme.largePrint.desc': 'Extra-big ranks and suits that young players can read at a glance',
+  'theme.papercut.name': 'Paper-cut',
+  'theme.papercut.desc': 'Faces and backs like red paper window cuttings',
+  'theme.opera.name': 'Peking opera',
+  'theme.opera.desc': 'Opera masks on the J, Q and K, with the stage for a table',
+  'theme.porcelain.name': 'Blue and white porcelain',
+  'theme.porcelain.desc': 'Porcelain-white faces edged in cobalt, earned by finishing the Splendid Journey',
+  'theme.ink.name': 'Ink wash',
+  'theme.ink.desc': 'Rice-paper faces and landscape backs, earned by winning 20 games',
+
+  'rule.drawTwo.name': '2 draws two',
+  'rule.drawTwo.desc': 'After a 2, the next player draws 2 cards and misses their turn.',
+  'rule.stackDrawTwo.name': '2s stack',
+  'rule.stackDrawTwo.desc': 'When hit by a 2, play another 2 to pass the whole penalty on.',
+  'rule.skipQueen.name': 'Q skips',
+  'rule.skipQueen.desc': 'After a Q, the next player misses their turn.',
+  'rule.reverseAce.name': 'A reverses',
+  'rule.reverseAce.desc': 'An A reverses the direction of play (with three or more players).',
+  'rule.drawUntilPlayable.name': 'Draw until you can play',
+  'rule.drawUntilPlayable.desc': 'If you cannot play, keep drawing until you get a card you can play.',
+  'rule.noEightFinish.name': 'No finishing on an 8',
+  'rule.noEightFinish.desc': 'Your last card cannot be an 8.',
+
+  'preset.classic': 'Classic rules',
+  'preset.family': 'Family rules',
+  'preset.marathon': 'Marathon',
+
+  'ai.easy.name': 'Easy',
+  'ai.easy.desc': 'Plays any card it can.',
+  'ai.normal.name': 'Normal',
+  'ai.normal.desc': 'Saves its eights, remembers cards and picks the suit you lack.',
+  'ai.hard.name': 'Hard',
+  'ai.hard.desc': 'Works out what you hold and simulates before every move.',
+
+  'stage.huashan.name': 'Mount Hua',
+  'stage.huashan.intro': 'There is only one road up Mount Hua. Mind your step!',
+  'stage.huashan.twist': 'Classic rules, to get used to the mountain path.',
+  'stage.huashan.goal': 'Win the game',
+  'stage.huashan.fact.title': 'Mount Hua, the Western Peak',
+  'stage.huashan.fact.0': 'Mount Hua is in Huayin, Shaanxi. It is the western one of the Five Great Mountains.',
+  'stage.huashan.fact.1': 'It is famous for being steep: people say "since ancient times there has been only one road up Mount Hua".',
+  'stage.huashan.fact.2': 'The Plank Walk in the Sky is built on the cliff face, with a deep valley right below your feet.',
+  'stage.huashan.opponent.0': 'Mountain porter',
+
+  'stage.terracotta.name': 'Terracotta Army',
+  'stage.terracotta.intro': 'The army is in formation. Let us see how long you last!',
+  'stage.terracotta.twist': 'A 2 makes the next player draw two, and 2s stack.',
+  'stage.terracotta.goal': 'Win within 15 moves',
+  'stage.terracotta.fact.title': 'The Terracotta Army of the First Emperor',
+  'stage.terracotta.fact.0': "The Terracotta Army is in Lintong, Xi'an. It guards the tomb of the First Emperor of Qin.",
+  'stage.terracotta.fact.1': 'In 1974 some farmers digging a well found it by chance.',
+  'stage.terracotta.fact.2': 'There are about 8,000 clay soldiers, and no two faces are the same.',
+  'stage.terracotta.opponent.0': 'Qin general',
+
+  'stage.westlake.name': 'West Lake',
+  'stage.westlake.intro': 'West Lake is as lovely as can be. Let the three of us play!',
+  'stage.westlake.twist': 'Three travellers: Q skips the next player and A reverses the direction.',
+  'stage.westlake.goal': 'Win a three-player game',
+  'stage.westlake.fact.title': 'West Lake, Hangzhou',
+  'stage.westlake.fact.0': 'West Lake is in Hangzhou, Zhejiang. The Broken Bridge, Leifeng Pagoda and the Su Causeway all stand by it.',
+  'stage.westlake.fact.1': 'The back of the one-yuan note shows West Lake\'s "Three Pools Mirroring the Moon".',
+  'stage.westlake.fact.2': 'The poet Su Dongpo once compared West Lake to the great beauty Xi Shi.',
+  'stage.westlake.opponent.0': 'Scholar of the Broken Bridge',
+  'stage.westlake.opponent.1': 'Lady White',
+
+  'stage.guilin.name': 'Guilin',
+  'stage.guilin.intro': 'The Li River runs long. You may be drawing for a while.',
+  'stage.guilin.twist': 'If you cannot play, keep drawing until you can.',
+  'stage.guilin.goal': 'Win, drawing no more than 8 cards all game',
+  'stage.guilin.fact.title': 'The landscape of Guilin',
+  'stage.guilin.fact.0': 'Guilin is in Guangxi. People say "Guilin\'s scenery is the finest under heaven".',
+  'stage.guilin.fact.1': 'Its hills are limestone worn away by rain, a landscape called karst.',
+  'stage.guilin.fact.2': 'The back of the twenty-yuan note shows the hills along the Li River.',
+  'stage.guilin.opponent.0': 'Li River fisherman',
+
+  'stage.huangshan.name': 'Huangshan',
+  'stage.huangshan.intro': 'Welcome, welcome! But reaching the summit will not be easy.',
+  'stage.huangshan.twist': '2s stack and Q skips the next player.',
+  'stage.huangshan.goal': 'Win by playing an 8 as your last card',
+  'stage.huangshan.fact.title': 'Huangshan, Anhui',
+  'stage.huangshan.fact.0': 'Huangshan is in southern Anhui. Its pines, rocks, sea of clouds and hot springs are called the "four wonders".',
+  'stage.huangshan.fact.1': 'The Guest-Greeting Pine grows by the Yuping Tower, reaching out like an arm to welcome visitors.',
+  'stage.huangshan.fact.2': 'The Ming traveller Xu Xiake said: "Once you have climbed Huangshan, no other mountain compares."',
+  'stage.huangshan.opponent.0': 'Guest-Greeting Pine',
+
+  'stage.jiuzhaigou.name': 'Jiuzhaigou',
+  'stage.jiuzhaigou.intro': 'This is the last stop. Let the four of us see who is best!',
+  'stage.jiuzhaigou.twist': 'Marathon rules, four at the table.',
+  'stage.jiuzhaigou.goal': 'Win the four-player game without items',
+  'stage.jiuzhaigou.fact.title': 'Jiuzhaigou, Sichuan',
+  'stage.jiuzhaigou.fact.0': 'Jiuzhaigou is in Aba, Sichuan. Its name means "valley of nine villages", after its nine Tibetan villages.',
+  'stage.jiuzhaigou.fact.1': 'The lakes are so clear you can see the bottom, and the Five-Colour Pool shows blue, green and yellow at once.',
+  'stage.jiuzhaigou.fact.2': 'Nuorilang Waterfall is very wide, and giant pandas live in the forests nearby.',
+  'stage.jiuzhaigou.opponent.0': 'Giant panda',
+  'stage.jiuzhaigou.opponent.1': 'Tibetan grandma',
+  'stage.jiuzhaigou.opponent.2': 'Five-Colour Pool sprite',
+};
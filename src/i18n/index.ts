@@ -0,0 +1,131 @@
+import { createContext, createElement, Fragment, ReactNode, useContext } from 'react';
+import { GameMessage, Lang, RuleSet } from '../types';
+import { ITEMS } from '../items';
+import { findPreset, RULE_OPTIONS, RULE_PRESETS } from '../rules';
+import { AI_LEVELS } from '../ai';
+import { STAGES } from '../campaign';
+import { THEMES } from '../themes';
+import { TUTORIAL_STEPS } from '../tutorial';
+import { QUESTS } from '../quests';
+import { PUZZLE_PACKS } from '../puzzles';
+import { MessageKey, zhCN } from './zh-CN';
+import { zhTW } from './zh-TW';
+import { en } from './en';
+
+/**
+ * Message catalogs and the translator the UI reads them through. Game
+ * messages arrive as keys with parameters, so the engine and the server
+ * never need to know who is reading.
+ */
+
+export type { Lang, MessageKey };
+
+export interface Language {
+  id: Lang;
+  /** The language's own name for itself. */
+  name: string;
+  /** Put between the parts of a message; Chinese runs them together. */
+  separator: string;
+}
+
+export const LANGUAGES: Language[] = [
+  { id: 'zh-CN', name: '简体中文', separator: '' },
+  { id: 'zh-TW', name: '繁體中文', separator: '' },
+  { id: 'en', name: 'English', separator: ' ' },
+];
+
+export const DEFAULT_LANG: Lang = 'zh-CN';
+
+export const isLang = (value: unknown): value is Lang => LANGUAGES.some(language => language.id === value);
+
+// The names and descriptions written alongside the game data are the Simplified Chinese text for them
+const dataCatalog = (): Record<string, string> => {
+  const catalog: Record<string, string> = {};
+  ITEMS.forEach(item => {
+    catalog[`item.${item.id}.name`] = item.name;
+    catalog[`item.${item.id}.desc`] = item.desc;
+  });
+  RULE_OPTIONS.forEach(option => {
+    catalog[`rule.${option.key}.name`] = option.name;
+    catalog[`rule.${option.key}.desc`] = option.desc;
+  });
+  RULE_PRESETS.forEach(preset => { catalog[`preset.${preset.id}`] = preset.name; });
+  AI_LEVELS.forEach(level => {
+    catalog[`ai.${level.id}.name`] = level.name;
+    catalog[`ai.${level.id}.desc`] = level.desc;
+  });
+  STAGES.forEach(stage => {
+    catalog[`stage.${stage.id}.name`] = stage.name;
+    catalog[`stage.${stage.id}.intro`] = stage.intro;
+    catalog[`stage.${stage.id}.twist`] = stage.twist;
+    catalog[`stage.${stage.id}.goal`] = stage.goal.desc;
+    catalog[`stage.${stage.id}.fact.title`] = stage.fact.title;
+    stage.fact.lines.forEach((line, i) => { catalog[`stage.${stage.id}.fact.${i}`] = line; });
+    stage.opponents.forEach((name, i) => { catalog[`stage.${stage.id}.opponent.${i}`] = name; });
+  });
+  TUTORIAL_STEPS.forEach(step => {
+    catalog[`tutorial.${step.id}.title`] = step.title;
+    catalog[`tutorial.${step.id}.text`] = step.text;
+    catalog[`tutorial.${step.id}.done`] = step.done;
+  });
+  PUZZLE_PACKS.forEach(pack => {
+    catalog[`puzzlePack.${pack.id}.name`] = pack.name;
+    pack.puzzles.forEach(puzzle => { catalog[`puzzle.${puzzle.id}.title`] = puzzle.title; });
+  });
+  QUESTS.forEach(quest => { catalog[`quest.${quest.id}.desc`] = quest.desc; });
+  THEMES.forEach(theme => {
+    catalog[`theme.${theme.id}.name`] = theme.name;
+    catalog[`theme.${theme.id}.desc`] = theme.desc;
+  });
+  return catalog;
+};
+
+const CATALOGS: Record<Lang, Record<string, string>> = {
+  'zh-CN': { ...dataCatalog(), ...zhCN },
+  'zh-TW': zhTW,
+  en,
+};
+
+export type MessageParams = Record<string, string | number | GameMessage>;
+
+export interface Translator {
+  (key: MessageKey, params?: MessageParams): string;
+  lang: Lang;
+  /** For keys built at run time, such as `item.p1.name`. */
+  text: (key: string, params?: MessageParams) => string;
+  /** A game message, or several read one after another. */
+  message: (message: GameMessage | GameMessage[]) => string;
+  /** The message with some of its placeholders filled by elements rather than text. */
+  rich: (key: MessageKey, nodes: Record<string, ReactNode>) => ReactNode[];
+}
+
+// Missing from the chosen catalog falls back to Simplified Chinese, then to the key itself
+const lookup = (lang: Lang, key: string) => CATALOGS[lang][key] ?? CATALOGS[DEFAULT_LANG][key] ?? key;
+
+export const createTranslator = (lang: Lang): Translator => {
+  const separator = LANGUAGES.find(language => language.id === lang)!.separator;
+  // `{count}` is the value itself; `{count|card|cards}` picks a word by whether it is 1
+  const text = (key: string, params: MessageParams = {}): string =>
+    lookup(lang, key).replace(/\{(\w+)(?:\|([^|}]*)\|([^}]*))?\}/g, (placeholder, name: string, one?: string, other?: string) => {
+      const value = params[name];
+      if (value === undefined) return placeholder;
+      if (one !== undefined) return value === 1 ? one : other!;
+      return typeof value === 'object' ? text(value.key, value.params) : String(value);
+    });
+  const message = (message: GameMessage | GameMessage[]) =>
+    (Array.isArray(message) ? message : [message]).map(part => text(part.key, part.params)).join(separator).trim();
+  const rich = (key: MessageKey, nodes: Record<string, ReactNode>) =>
+    lookup(lang, key).split(/\{(\w+)\}/).map((part, i) => i % 2 === 1 ? createElement(Fragment, { key: i }, nodes[part]) : part);
+
+  return Object.assign((key: MessageKey, params?: MessageParams) => text(key, params), { lang, text, message, rich });
+};
+
+export const I18nContext = createContext<Translator>(createTranslator(DEFAULT_LANG));
+
+export const useT = (): Translator => useContext(I18nContext);
+
+/** The preset's name when the rules match one, otherwise 'custom rules'. */
+export const rulesName = (t: Translator, rules: RuleSet): string => {
+  const preset = findPreset(rules);
+  return preset ? t.text(`preset.${preset.id}`) : t('rules.custom');
+};
@@ -0,0 +1,374 @@
+/**
+ * Simplified Chinese, the language the game was written in and the one every
+ * other catalog is checked against. Names and descriptions of items, rules,
+ * AI levels and campaign stages are not repeated here: they live with their
+ * data and are added to this catalog from there.
+ */
+export const zhCN = {
+  'app.title': 'Kiki 的锦绣中国·8点中国',
+
+  'game.text': '{text}',
+  'game.welcome': '欢迎来玩 Kiki 的锦绣中国·8点中国',
+  'game.stageIntro': '{name}：{intro}',
+  'game.thinking': '{name} 正在思考...',
+  'game.yourTurn': '{name}的回合，请出牌。',
+  'game.handEmptied': '{name}清空了所有手牌！',
+  'game.crazyEight': '{name}打出了疯狂 8 点，正在选择花色...',
+  'game.drawTwo': '{name}打出了 2！{next}需要摸 {count} 张牌。',
+  'game.skip': '{name}打出了 Q，跳过{skipped}的回合。',
+  'game.reverse': '{name}打出了 A，出牌方向反转！',
+  'game.blocked': '牌局僵持：',
+  'game.points': '{name} {points} 分 ',
+  'game.penaltyDrawn': '{name}被罚摸了 {count} 张牌。',
+  'game.nothingToDraw': '没有牌可以摸了，跳过回合。',
+  'game.reshuffled': '弃牌堆已洗回摸牌堆。',
+  'game.drewPlayable': '{name}摸了 {count} 张牌，摸到了能出的牌。',
+  'game.drew': '{name}摸了 {count} 张牌。',
+  'game.suitChosen': '{name}选择了 {suit}。',
+  'game.itemUsed': '{name}使用了{item}！',
+  'game.matchRound': '第 {n} 局，{dealer}发牌。',
+
+  'item.p1.effect': '{name}摸了 5 张牌。',
+  'item.p3.effect': '消除了 {count} 张手牌。',
+  'item.p4.effect': '山河助力，直接获胜！',
+  'item.p5.effect': '看到了{name}的手牌。',
+  'item.p6.effect': '花色指向了 {suit}。',
+
+  'room.notFound': '找不到房间 {code}。',
+  'room.inProgress': '这个房间的牌局正在进行，请等这局结束。',
+  'room.full': '房间已经坐满了。',
+  'room.cannotResume': '无法回到之前的房间。',
+  'room.notInRoom': '你不在房间里。',
+  'room.hostOnly': '只有房主可以开始游戏。',
+  'room.alreadyStarted': '牌局已经开始了。',
+  'room.notStarted': '牌局还没有开始。',
+  'room.noItems': '在线对战中不能使用道具。',
+  'room.illegalMove': '现在不能这样出牌。',
+  'room.invalidRules': '无法识别这些规则。',
+  'room.badMessage': '无法识别的消息。',
+
+  'list.separator': '、',
+  'seat.you': '你',
+  'seat.ai': 'AI',
+  'seat.player': '玩家',
+  'seat.cards': '{count} 张',
+  'seat.label': '{name}，{count} 张牌',
+
+  'suit.hearts': '红心',
+  'suit.diamonds': '方块',
+  'suit.clubs': '梅花',
+  'suit.spades': '黑桃',
+
+  'card.name': '{suit} {rank}',
+  'card.back': '背面朝上的牌',
+
+  'rules.title': '《8点中国》规则 · {preset}',
+  'rules.custom': '自定义规则',
+  'rules.handSize': '初始每人发 {two} 张牌，三至四人 {four} 张，五至六人 {six} 张。',
+  'rules.match': '出牌需匹配花色或点数。',
+  'rules.eight': '{eight} 是万能牌，可随时打出并指定新花色。',
+  'rules.eightName': '数字 8',
+  'rules.drawOne': '无牌可出时需从摸牌堆摸一张。',
+  'rules.option': '{name}：{desc}',
+  'rules.reshuffle': '摸牌堆用完时，弃牌堆（保留最上面一张）洗匀后作为新的摸牌堆。',
+  'rules.blocked': '若无人能出牌也无牌可摸，手牌点数较低者获胜（8 = 50 分，人头牌 = 10 分，其余按点数）。',
+  'rules.goal': '率先清空手牌者获胜。',
+  'rules.stars': '每局游戏结束均可获得 {star}，获胜奖励翻倍！',
+
+  'shop.title': '锦绣商店',
+  'shop.redeemed': '🎉 你已获得【{name}】！',
+  'shop.starsLeft': '剩余星星：{stars} ★',
+  'shop.cost': '消耗 {cost} 颗星',
+  'shop.owned': '已拥有',
+  'shop.redeem': '兑换',
+  'shop.back': '返回游戏',
+
+  'home.welcome': '欢迎来玩',
+  'home.tagline': '领略大好山河，体验经典纸牌乐趣。',
+  'home.start': '开始游戏',
+  'home.campaign': '锦绣之旅',
+  'home.tutorial': '新手教程',
+  'home.tutorialBonus': '+{stars} ★',
+  'home.puzzles': '残局挑战',
+  'home.stats': '我的战绩',
+  'home.themes': '牌面主题',
+  'home.language': '语言',
+  'home.seedPlaceholder': '牌局编号（可选）',
+  'home.daily': '每日牌局',
+  'home.namePlaceholder': '你的名字',
+  'home.createRoomHint': '用当前的人数、难度和规则开一个在线房间',
+  'home.createRoom': '创建房间',
+  'home.roomCodePlaceholder': '房间号',
+  'home.join': '加入',
+  'home.players': '玩家人数',
+  'home.toggleSeat': '点击切换 AI / 真人',
+  'home.difficulty': 'AI 难度',
+  'home.casualHint': '休闲模式可以悔棋，但不会获得星星，也不能使用道具',
+  'home.casual': '休闲模式（可以悔棋）',
+  'home.guideHint': '导游 Kiki 会点评出牌、回答该出哪张牌，并在输掉后帮你复盘',
+  'home.guide': '导游 Kiki 陪玩解说',
+  'home.fourColorHint': '方块换成蓝色、梅花换成绿色，四种花色一眼就能分清',
+  'home.fourColor': '四色牌',
+  'home.reduceMotionHint': '关掉发牌、出牌时的动画',
+  'home.reduceMotion': '减少动画',
+  'home.mute': '静音',
+  'home.unmute': '打开声音',
+  'home.sfxVolume': '音效',
+  'home.musicVolume': '音乐',
+  'home.match': '比赛',
+  'home.matchSingle': '单局',
+  'home.matchTarget': '{target} 分',
+  'home.matchHint': '打到目标分数为止：每局赢家拿走其他人手里剩下的牌分（8 = 50 分，人头牌 = 10 分，其余按点数），发牌人每局轮换',
+  'home.continueMatch': '继续比赛 · 第 {n} 局',
+
+  'header.goal': '目标：{goal}',
+  'header.reconnectingHint': '连接中断，正在重新连接',
+  'header.reconnecting': '重新连接中…',
+  'header.room': '房间',
+  'header.seedHint': '输入牌局编号并回车，重新开始这一局',
+  'header.seed': '牌局',
+  'header.puzzleMoves': '已走 {made}/{moves} 步',
+  'header.leaveRoom': '离开房间',
+  'header.home': '返回主页',
+  'header.match': '第 {n} 局 · {score}/{target} 分',
+  'header.matchHint': '查看比分',
+
+  'table.deck': '摸牌堆 ({count})',
+  'table.discard': '弃牌堆',
+  'table.direction': '出牌方向 {arrow}',
+  'table.undoHint': '撤回你上一步之前的所有出牌',
+  'table.undo': '悔棋',
+  'table.askGuideHint': '问问导游 Kiki 该出哪张牌',
+  'table.askGuide': '问导游',
+  'table.hint': '提示 ({count})',
+  'table.hintHint': '看看哪张牌最好出，以及为什么（H）',
+  'table.noHints': '这局的提示用完了，可以去锦绣商店买锦囊',
+  'table.hintFailed': '锦囊没能打开。请检查网络后再试。',
+  'table.guideSays': '导游 Kiki：{text}',
+  'table.rules': '游戏规则',
+  'table.hand': '你的手牌',
+  'table.deckLabel': '摸牌堆，还剩 {count} 张',
+  'table.discardLabel': '弃牌堆，最上面是 {card}',
+  'table.wildSuit': '，当前花色 {suit}',
+  'table.keysHint': '键盘：← → 选牌，回车出牌，D 摸牌，H 提示',
+
+  'handoff.passTo': '请把设备交给',
+  'handoff.ready': '我准备好了',
+
+  'suitPicker.title': '疯狂 8 点！',
+  'suitPicker.prompt': '请选择接下来的花色：',
+  'suitPicker.hinted': '提示：指定{suit}',
+
+  'hint.goOut': '打出 {card}，最后一张出完就赢了！',
+  'hint.stackTwo': '打出 {card}，把罚牌叠到 {total} 张，交给{name}去摸',
+  'hint.attack': '{name}快出完了，打出 {card} 拦一拦！',
+  'hint.lacks': '{name}好像没有{suit}了，打出 {card} 让对方难跟',
+  'hint.saveEight': '留着 8！你有 {count} 张{suit}，先打 {card}',
+  'hint.keepSuit': '打出 {card}，你手里有 {count} 张{suit}，下一轮也好接',
+  'hint.shed': '打出 {card}，先把点数大的牌出掉',
+  'hint.play': '打出 {card}，它正好能接上',
+  'hint.eight': '只有 8 能出：打出 {card}，然后指定{suit}',
+  'hint.suit': '指定{suit}：你手里这个花色最多，有 {count} 张',
+  'hint.suitLacks': '指定{suit}：{name}好像没有这个花色',
+  'hint.takePenalty': '没有 2 可以接，只能摸 {count} 张了',
+  'hint.draw': '没有能出的牌，摸一张吧',
+
+  'puzzles.title': '残局挑战',
+  'puzzles.progress': '已解开 {solved}/{total}',
+  'puzzles.intro': '每道题都摆好了所有人的手牌和摸牌堆，对手的牌也亮在桌上。不管对手怎么应对，都要在限定的步数内出完手牌。出牌和摸牌各算一步，出 8 后选花色不算。',
+  'puzzles.label': '{title}，{moves} 步获胜，已得 {stars} 颗星',
+  'puzzles.winIn': '{moves} 步之内获胜',
+  'puzzles.home': '回到首页',
+  'puzzles.goal': '残局挑战：{moves} 步之内出完手牌！',
+  'puzzles.solved': '解开了！',
+  'puzzles.failed': '差一点！',
+  'puzzles.rating': '{stars} 颗星',
+  'puzzles.ratingHint': '第一次就解开得三颗星，三次之内解开得两颗星。',
+  'puzzles.failedHint': '没能在 {moves} 步之内出完手牌。想想对手会怎么应对，再试一次吧。',
+  'puzzles.next': '下一题',
+  'puzzles.retry': '再试一次',
+  'puzzles.all': '所有残局',
+
+  'quests.title': '任务板',
+  'quests.daily': '每日任务',
+  'quests.weekly': '每周任务',
+  'quests.resets': '北京时间零点换新',
+  'quests.progress': '{done}/{target}',
+  'quests.reward': '+{stars} ★',
+  'quests.claim': '领取 {stars} ★',
+  'quests.claimed': '已领取',
+  'quests.which': '赚星星的对局都算数；休闲模式和联机房间不计入。',
+
+  'tutorial.title': '新手教程',
+  'tutorial.step': '第 {n}/{total} 步',
+  'tutorial.offScript': '先照着提示做这一步哦。',
+  'tutorial.next': '下一步',
+  'tutorial.finish': '完成教程',
+  'tutorial.quit': '退出教程',
+  'tutorial.opponent': '导游 Kiki',
+  'tutorial.completeTitle': '教程完成！',
+  'tutorial.bonus': '奖励 {stars} 颗星星，已经放进你的钱包。',
+  'tutorial.replayed': '温故而知新！教程奖励只发一次，这次就不再发了。',
+  'tutorial.claiming': '正在领取教程奖励……',
+  'tutorial.claimFailed': '教程奖励没能领取。请检查网络，再完成一次教程就能领到。',
+  'tutorial.play': '开始游戏',
+  'tutorial.home': '回到首页',
+
+  'over.draw': '平局',
+  'over.youWon': '你赢了！',
+  'over.playerWon': '{name}赢了！',
+  'over.youLost': '你输了',
+  'over.cleared': '太棒了，{name}清空了所有手牌。',
+  'over.beaten': '再接再厉，{name} 棋高一着。',
+  'over.goalMet': '目标达成！',
+  'over.settleFailed': '这局没能和服务器结算，星星没有入账。请检查网络。',
+  'over.goalMissed': '目标未达成',
+  'over.unlocked': '解锁了{stage}牌背和景点介绍',
+  'over.nextStop': '，下一站：{stage}',
+  'over.journeyDone': '，锦绣之旅全部完成！',
+  'over.waitForHost': '等待房主开始下一局 · 离开房间',
+  'over.playAgain': '再玩一局',
+  'over.nextStage': '前往下一站：{stage}',
+  'over.retry': '再挑战一次',
+  'over.replay': '回放',
+  'over.map': '地图',
+  'over.label': '本局结束',
+
+  'replay.label': '回放',
+  'replay.start': '回到开局',
+  'replay.prev': '上一步',
+  'replay.next': '下一步',
+  'replay.end': '跳到结局',
+  'replay.close': '结束回放',
+
+  'match.title': '比分',
+  'match.target': '目标 {target} 分',
+  'match.round': '第 {n} 局',
+  'match.dealer': '发牌人',
+  'match.dealerMark': '发',
+  'match.total': '总分',
+  'match.close': '返回游戏',
+  'match.youWon': '你赢得了比赛！',
+  'match.playerWon': '{name}赢得了比赛！',
+  'match.bonus': '+{stars} ★',
+  'match.next': '开始第 {n} 局',
+  'match.newMatch': '再来一场比赛',
+
+  'lobby.share': '把房间号告诉朋友',
+  'lobby.setup': '{rules} · AI {level}',
+  'lobby.emptySeat': '空位 · 开始后由 AI 代替',
+  'lobby.host': '房主',
+  'lobby.leave': '离开房间',
+  'lobby.start': '开始游戏',
+  'lobby.waiting': '等待房主开始',
+  'lobby.label': '在线房间',
+
+  'timer.hint': '时间到了会由 AI 代为出牌',
+
+  'target.cards': '选择 {count} 张要消除的手牌（{picked}/{count}）',
+  'target.confirm': '确定',
+  'target.suit': '指定花色：',
+  'target.opponent': '选择对手：',
+  'target.cancel': '取消',
+
+  'campaign.title': '锦绣之旅',
+  'campaign.progress': '已通过 {cleared} / {total}',
+  'campaign.stage': '第 {n} 站',
+  'campaign.opponents': '对手：{names} · AI {level}',
+  'campaign.goal': '目标：{goal}',
+  'campaign.again': '再玩',
+  'campaign.go': '出发',
+  'campaign.fact': '景点介绍',
+  'campaign.backInUse': '牌背使用中',
+  'campaign.useBack': '用作牌背',
+  'campaign.home': '返回主页',
+
+  'fact.close': '知道啦',
+
+  'update.offlineReady': '已经可以离线玩了',
+  'update.ok': '好的',
+  'update.available': '有新版本了',
+  'update.reload': '更新',
+  'update.later': '稍后',
+
+  'stats.title': '我的战绩',
+  'stats.exportHint': '下载 JSON 文件，给爸爸妈妈或老师看',
+  'stats.export': '导出',
+  'stats.backToList': '返回列表',
+  'stats.seed': '牌局编号：{seed}',
+  'stats.time': '时间：{time}',
+  'stats.result': '结果：{result}',
+  'stats.opponents': '对手：{names}',
+  'stats.setup': '规则：{rules} · AI {level}',
+  'stats.stage': '锦绣之旅：{stage}',
+  'stats.casual': '休闲模式',
+  'stats.free': '自由对局',
+  'stats.turns': '回合数：{turns} · 打出 8：{eights} 张',
+  'stats.stars': '获得星星：{stars} ★',
+  'stats.noMoves': '这局比较早，只保留了结果，没有保留每一步。',
+  'stats.played': '总局数',
+  'stats.winRate': '胜率',
+  'stats.winRateValue': '{won} 胜 · {percent}',
+  'stats.streak': '连胜',
+  'stats.streakValue': '{current}（最佳 {best}）',
+  'stats.averageTurns': '平均回合',
+  'stats.eights': '打出 8',
+  'stats.earned': '获得星星',
+  'stats.spent': '花掉星星',
+  'stats.draws': '平局',
+  'stats.byDifficulty': '按难度',
+  'stats.byRules': '按规则',
+  'stats.items': '用过的道具',
+  'stats.noRecords': '还没有记录',
+  'stats.noItems': '还没有用过',
+  'stats.history': '对局记录',
+  'stats.empty': '玩完一局就会出现在这里。',
+  'stats.listTurns': '{turns} 回合 · +{stars} ★',
+  'stats.home': '返回主页',
+
+  'themes.title': '牌面主题',
+  'themes.done': '好了',
+  'themes.unlockItem': '在锦绣商店用 {cost} ★ 兑换',
+  'themes.unlockStage': '通过{stage}后获得',
+  'themes.unlockWins': '赢满 {count} 局后获得（已赢 {won} 局）',
+
+  'result.won': '胜',
+  'result.lost': '负',
+  'result.draw': '平',
+
+  'log.deal': '发牌：每人 {count} 张，翻开 {card}。',
+  'log.play': '{name}打出 {card}。',
+  'log.drawNone': '{name}无牌可摸，跳过。',
+  'log.drawCards': '{name}摸了 {cards}。',
+  'log.drawCount': '{name}摸了 {count} 张牌。',
+  'log.chooseSuit': '{name}把花色指定为 {suit}。',
+  'log.useItem': '{name}使用了{item}。',
+
+  'guide.welcome': '欢迎来到{place}！先看看手里有哪些花色吧。',
+  'guide.comment.eight': '{line}疯狂 8 点，像{place}的天气一样说变就变！',
+  'guide.comment.two': '{line}小心，罚摸的牌越叠越高了。',
+  'guide.comment.queen': '{line}有人被跳过，只能在{place}多看一会儿风景。',
+  'guide.comment.ace': '{line}方向反转，我们掉头往回走！',
+  'guide.comment.suit': '{line}大家手里还有 {suit} 吗？',
+  'guide.comment.bigDraw': '{line}手牌一下子多了起来，别灰心。',
+  'guide.opponent': '对手',
+  'guide.advice.over': '这局已经结束了，再来一局吧！',
+  'guide.advice.wait': '还没轮到你，先看看{name}怎么出。',
+  'guide.advice.suit': '选 {suit} 吧，你手里这个花色最多。',
+  'guide.advice.eight': '只剩 8 能出了，打出 {card}，再指定一个你有的花色。',
+  'guide.advice.play': '试试打出 {card}：留住 8 点，把它们用在关键时刻。',
+  'guide.advice.penalty': '没有 2 可以接，只好摸 {count} 张了。',
+  'guide.advice.draw': '没有能出的牌，摸一张吧。',
+  'guide.review.playing': '比赛还在进行中，加油！',
+  'guide.review.won': '漂亮！你像登上{place}之巅一样赢下了这局。',
+  'guide.review.winner': '{name}先出完了牌。',
+  'guide.review.draw': '这局打成了平局。',
+  'guide.review.lost': '{outcome}{reasons}。下次再来！',
+  'guide.reason.drew': '你一共摸了 {count} 张牌，手牌太多就很难先出完',
+  'guide.reason.eightsLeft': '结束时你手里还压着 {count} 张 8，万能牌要及时用出去',
+  'guide.reason.eightsEarly': '8 点用得有点早，留一张到最后更稳',
+  'guide.reason.luck': '这局牌运不太好，对手的花色刚好接得上',
+  'guide.reason.separator': '；',
+};
+
+export type MessageKey = keyof typeof zhCN;
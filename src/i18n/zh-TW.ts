@@ -0,0 +1,532 @@
+import { MessageKey } from './zh-CN';
+
+export const zhTW: Record<MessageKey, string> & Record<string, string> = {
+  'app.title': 'Kiki 的錦繡中國·8點中國',
+
+  'game.text': '{text}',
+  'game.welcome': '歡迎來玩 Kiki 的錦繡中國·8點中國',
+  'game.stageIntro': '{name}：{intro}',
+  'game.thinking': '{name} 正在思考...',
+  'game.yourTurn': '{name}的回合，請出牌。',
+  'game.handEmptied': '{name}清空了所有手牌！',
+  'game.crazyEight': '{name}打出了瘋狂 8 點，正在選擇花色...',
+  'game.drawTwo': '{name}打出了 2！{next}需要摸 {count} 張牌。',
+  'game.skip': '{name}打出了 Q，跳過{skipped}的回合。',
+  'game.reverse': '{name}打出了 A，出牌方向反轉！',
+  'game.blocked': '牌局僵持：',
+  'game.points': '{name} {points} 分 ',
+  'game.penaltyDrawn': '{name}被罰摸了 {count} 張牌。',
+  'game.nothingToDraw': '沒有牌可以摸了，跳過回合。',
+  'game.reshuffled': '棄牌堆已洗回摸牌堆。',
+  'game.drewPlayable': '{name}摸了 {count} 張牌，摸到了能出的牌。',
+  'game.drew': '{name}摸了 {count} 張牌。',
+  'game.suitChosen': '{name}選擇了 {suit}。',
+  'game.itemUsed': '{name}使用了{item}！',
+  'game.matchRound': '第 {n} 局，{dealer}發牌。',
+
+  'item.p1.effect': '{name}摸了 5 張牌。',
+  'item.p3.effect': '消除了 {count} 張手牌。',
+  'item.p4.effect': '山河助力，直接獲勝！',
+  'item.p5.effect': '看到了{name}的手牌。',
+  'item.p6.effect': '花色指向了 {suit}。',
+
+  'room.notFound': '找不到房間 {code}。',
+  'room.inProgress': '這個房間的牌局正在進行，請等這局結束。',
+  'room.full': '房間已經坐滿了。',
+  'room.cannotResume': '無法回到之前的房間。',
+  'room.notInRoom': '你不在房間裡。',
+  'room.hostOnly': '只有房主可以開始遊戲。',
+  'room.alreadyStarted': '牌局已經開始了。',
+  'room.notStarted': '牌局還沒有開始。',
+  'room.noItems': '線上對戰中不能使用道具。',
+  'room.illegalMove': '現在不能這樣出牌。',
+  'room.invalidRules': '無法識別這些規則。',
+  'room.badMessage': '無法識別的訊息。',
+
+  'list.separator': '、',
+  'seat.you': '你',
+  'seat.ai': 'AI',
+  'seat.player': '玩家',
+  'seat.cards': '{count} 張',
+  'seat.label': '{name}，{count} 張牌',
+
+  'suit.hearts': '紅心',
+  'suit.diamonds': '方塊',
+  'suit.clubs': '梅花',
+  'suit.spades': '黑桃',
+
+  'card.name': '{suit} {rank}',
+  'card.back': '背面朝上的牌',
+
+  'rules.title': '《8點中國》規則 · {preset}',
+  'rules.custom': '自訂規則',
+  'rules.handSize': '初始每人發 {two} 張牌，三至四人 {four} 張，五至六人 {six} 張。',
+  'rules.match': '出牌需配對花色或點數。',
+  'rules.eight': '{eight} 是萬能牌，可隨時打出並指定新花色。',
+  'rules.eightName': '數字 8',
+  'rules.drawOne': '無牌可出時需從摸牌堆摸一張。',
+  'rules.option': '{name}：{desc}',
+  'rules.reshuffle': '摸牌堆用完時，棄牌堆（保留最上面一張）洗勻後作為新的摸牌堆。',
+  'rules.blocked': '若無人能出牌也無牌可摸，手牌點數較低者獲勝（8 = 50 分，人頭牌 = 10 分，其餘按點數）。',
+  'rules.goal': '率先清空手牌者獲勝。',
+  'rules.stars': '每局遊戲結束均可獲得 {star}，獲勝獎勵翻倍！',
+
+  'shop.title': '錦繡商店',
+  'shop.redeemed': '🎉 你已獲得【{name}】！',
+  'shop.starsLeft': '剩餘星星：{stars} ★',
+  'shop.cost': '消耗 {cost} 顆星',
+  'shop.owned': '已擁有',
+  'shop.redeem': '兌換',
+  'shop.back': '返回遊戲',
+
+  'home.welcome': '歡迎來玩',
+  'home.tagline': '領略大好山河，體驗經典紙牌樂趣。',
+  'home.start': '開始遊戲',
+  'home.campaign': '錦繡之旅',
+  'home.tutorial': '新手教學',
+  'home.tutorialBonus': '+{stars} ★',
+  'home.puzzles': '殘局挑戰',
+  'home.stats': '我的戰績',
+  'home.themes': '牌面主題',
+  'home.language': '語言',
+  'home.seedPlaceholder': '牌局編號（可選）',
+  'home.daily': '每日牌局',
+  'home.namePlaceholder': '你的名字',
+  'home.createRoomHint': '用目前的人數、難度和規則開一個線上房間',
+  'home.createRoom': '建立房間',
+  'home.roomCodePlaceholder': '房間號',
+  'home.join': '加入',
+  'home.players': '玩家人數',
+  'home.toggleSeat': '點擊切換 AI / 真人',
+  'home.difficulty': 'AI 難度',
+  'home.casualHint': '休閒模式可以悔棋，但不會獲得星星，也不能使用道具',
+  'home.casual': '休閒模式（可以悔棋）',
+  'home.guideHint': '導遊 Kiki 會點評出牌、回答該出哪張牌，並在輸掉後幫你覆盤',
+  'home.guide': '導遊 Kiki 陪玩解說',
+  'home.fourColorHint': '方塊換成藍色、梅花換成綠色，四種花色一眼就能分清',
+  'home.fourColor': '四色牌',
+  'home.reduceMotionHint': '關掉發牌、出牌時的動畫',
+  'home.reduceMotion': '減少動畫',
+  'home.mute': '靜音',
+  'home.unmute': '打開聲音',
+  'home.sfxVolume': '音效',
+  'home.musicVolume': '音樂',
+  'home.match': '比賽',
+  'home.matchSingle': '單局',
+  'home.matchTarget': '{target} 分',
+  'home.matchHint': '打到目標分數為止：每局贏家拿走其他人手裡剩下的牌分（8 = 50 分，人頭牌 = 10 分，其餘按點數），發牌人每局輪換',
+  'home.continueMatch': '繼續比賽 · 第 {n} 局',
+
+  'header.goal': '目標：{goal}',
+  'header.reconnectingHint': '連線中斷，正在重新連線',
+  'header.reconnecting': '重新連線中…',
+  'header.room': '房間',
+  'header.seedHint': '輸入牌局編號並按 Enter，重新開始這一局',
+  'header.seed': '牌局',
+  'header.puzzleMoves': '已走 {made}/{moves} 步',
+  'header.leaveRoom': '離開房間',
+  'header.home': '返回主頁',
+  'header.match': '第 {n} 局 · {score}/{target} 分',
+  'header.matchHint': '查看比分',
+
+  'table.deck': '摸牌堆 ({count})',
+  'table.discard': '棄牌堆',
+  'table.direction': '出牌方向 {arrow}',
+  'table.undoHint': '撤回你上一步之前的所有出牌',
+  'table.undo': '悔棋',
+  'table.askGuideHint': '問問導遊 Kiki 該出哪張牌',
+  'table.askGuide': '問導遊',
+  'table.hint': '提示 ({count})',
+  'table.hintHint': '看看哪張牌最好出，以及為什麼（H）',
+  'table.noHints': '這局的提示用完了，可以去錦繡商店買錦囊',
+  'table.hintFailed': '錦囊沒能打開。請檢查網路後再試。',
+  'table.guideSays': '導遊 Kiki：{text}',
+  'table.rules': '遊戲規則',
+  'table.hand': '你的手牌',
+  'table.deckLabel': '摸牌堆，還剩 {count} 張',
+  'table.discardLabel': '棄牌堆，最上面是 {card}',
+  'table.wildSuit': '，目前花色 {suit}',
+  'table.keysHint': '鍵盤：← → 選牌，Enter 出牌，D 摸牌，H 提示',
+
+  'handoff.passTo': '請把裝置交給',
+  'handoff.ready': '我準備好了',
+
+  'suitPicker.title': '瘋狂 8 點！',
+  'suitPicker.prompt': '請選擇接下來的花色：',
+  'suitPicker.hinted': '提示：指定{suit}',
+
+  'hint.goOut': '打出 {card}，最後一張出完就贏了！',
+  'hint.stackTwo': '打出 {card}，把罰牌疊到 {total} 張，交給{name}去摸',
+  'hint.attack': '{name}快出完了，打出 {card} 攔一攔！',
+  'hint.lacks': '{name}好像沒有{suit}了，打出 {card} 讓對方難跟',
+  'hint.saveEight': '留著 8！你有 {count} 張{suit}，先打 {card}',
+  'hint.keepSuit': '打出 {card}，你手裡有 {count} 張{suit}，下一輪也好接',
+  'hint.shed': '打出 {card}，先把點數大的牌出掉',
+  'hint.play': '打出 {card}，它正好能接上',
+  'hint.eight': '只有 8 能出：打出 {card}，然後指定{suit}',
+  'hint.suit': '指定{suit}：你手裡這個花色最多，有 {count} 張',
+  'hint.suitLacks': '指定{suit}：{name}好像沒有這個花色',
+  'hint.takePenalty': '沒有 2 可以接，只能摸 {count} 張了',
+  'hint.draw': '沒有能出的牌，摸一張吧',
+
+  'puzzles.title': '殘局挑戰',
+  'puzzles.progress': '已解開 {solved}/{total}',
+  'puzzles.intro': '每道題都擺好了所有人的手牌和摸牌堆，對手的牌也亮在桌上。不管對手怎麼應對，都要在限定的步數內出完手牌。出牌和摸牌各算一步，出 8 後選花色不算。',
+  'puzzles.label': '{title}，{moves} 步獲勝，已得 {stars} 顆星',
+  'puzzles.winIn': '{moves} 步之內獲勝',
+  'puzzles.home': '回到首頁',
+  'puzzles.goal': '殘局挑戰：{moves} 步之內出完手牌！',
+  'puzzles.solved': '解開了！',
+  'puzzles.failed': '差一點！',
+  'puzzles.rating': '{stars} 顆星',
+  'puzzles.ratingHint': '第一次就解開得三顆星，三次之內解開得兩顆星。',
+  'puzzles.failedHint': '沒能在 {moves} 步之內出完手牌。想想對手會怎麼應對，再試一次吧。',
+  'puzzles.next': '下一題',
+  'puzzles.retry': '再試一次',
+  'puzzles.all': '所有殘局',
+  'puzzlePack.first-steps.name': '初試身手',
+  'puzzlePack.crazy-eights.name': '花樣殘局',
+  'puzzle.first-steps-1.title': '一步到位',
+  'puzzle.first-steps-2.title': '先出哪張',
+  'puzzle.first-steps-3.title': '三連出',
+  'puzzle.crazy-eights-1.title': '8 點定花色',
+  'puzzle.crazy-eights-2.title': '8 上加 8',
+  'puzzle.crazy-eights-3.title': '罰牌連環',
+  'puzzle.crazy-eights-4.title': '一口氣跳過',
+
+  'quests.title': '任務板',
+  'quests.daily': '每日任務',
+  'quests.weekly': '每週任務',
+  'quests.resets': '北京時間零點換新',
+  'quests.progress': '{done}/{target}',
+  'quests.reward': '+{stars} ★',
+  'quests.claim': '領取 {stars} ★',
+  'quests.claimed': '已領取',
+  'quests.which': '賺星星的對局都算數；休閒模式和連線房間不計入。',
+  'quest.dailyWin.desc': '贏一局',
+  'quest.dailyPlay3.desc': '打完 3 局',
+  'quest.dailyEightLast.desc': '最後一張牌出 8，贏下一局',
+  'quest.dailyNoDraw.desc': '一張牌也不摸，贏下一局',
+  'quest.dailyHard.desc': '戰勝困難的電腦',
+  'quest.dailyQuick.desc': '出牌和摸牌不超過 8 次就贏一局',
+  'quest.dailyCampaign.desc': '在錦繡之旅贏一局',
+  'quest.weeklyWin5.desc': '贏 5 局',
+  'quest.weeklyPlay10.desc': '打完 10 局',
+  'quest.weeklyEightLast3.desc': '最後一張牌出 8，贏 3 局',
+  'quest.weeklyNoDraw2.desc': '一張牌也不摸，贏 2 局',
+  'quest.weeklyHard3.desc': '戰勝困難的電腦 3 次',
+  'quest.stage-huashan.desc': '在華山戰勝電腦',
+  'quest.stage-terracotta.desc': '在兵馬俑戰勝電腦',
+  'quest.stage-westlake.desc': '在西湖戰勝電腦',
+  'quest.stage-guilin.desc': '在桂林戰勝電腦',
+  'quest.stage-huangshan.desc': '在黃山戰勝電腦',
+  'quest.stage-jiuzhaigou.desc': '在九寨溝戰勝電腦',
+
+  'tutorial.title': '新手教學',
+  'tutorial.step': '第 {n}/{total} 步',
+  'tutorial.offScript': '先照著提示做這一步喔。',
+  'tutorial.next': '下一步',
+  'tutorial.finish': '完成教學',
+  'tutorial.quit': '退出教學',
+  'tutorial.opponent': '導遊 Kiki',
+  'tutorial.completeTitle': '教學完成！',
+  'tutorial.bonus': '獎勵 {stars} 顆星星，已經放進你的錢包。',
+  'tutorial.replayed': '溫故而知新！教學獎勵只發一次，這次就不再發了。',
+  'tutorial.claiming': '正在領取教學獎勵……',
+  'tutorial.claimFailed': '教學獎勵沒能領取。請檢查網路，再完成一次教學就能領到。',
+  'tutorial.play': '開始遊戲',
+  'tutorial.home': '回到首頁',
+  'tutorial.matchSuit.title': '跟花色',
+  'tutorial.matchSuit.text': '棄牌堆最上面是紅心 5。出一張同花色的牌就能接上：點一下你的紅心 9。',
+  'tutorial.matchSuit.done': '出得好！同花色的牌總能接上。',
+  'tutorial.matchRank.title': '跟點數',
+  'tutorial.matchRank.text': '這次是梅花 7，你手裡沒有梅花。不過點數相同也能出：打出方塊 7。',
+  'tutorial.matchRank.done': '沒錯，花色和點數，對上一樣就行。',
+  'tutorial.playEight.title': '瘋狂 8 點',
+  'tutorial.playEight.text': '黑桃 4 你接不上，但 8 什麼時候都能出。打出紅心 8！',
+  'tutorial.playEight.done': '8 是萬能牌，要留到最需要的時候。',
+  'tutorial.chooseSuit.title': '指定花色',
+  'tutorial.chooseSuit.text': '出了 8 就能指定下一個花色。你手裡有三張方塊，就選方塊吧。',
+  'tutorial.chooseSuit.done': '現在下家只能出方塊或者 8 了。',
+  'tutorial.draw.title': '摸牌',
+  'tutorial.draw.text': '梅花 10 你一張也接不上。點一下摸牌堆，摸一張牌。',
+  'tutorial.draw.done': '接不上就摸牌，然後輪到下家。',
+  'tutorial.useItem.title': '使用道具',
+  'tutorial.useItem.text': '對手只剩兩張牌了！點左邊的長城明信片，讓下家摸 5 張。這張是借你練習的，平時可以在錦繡商店用星星換。',
+  'tutorial.useItem.done': '道具用在關鍵時刻，能扭轉整局。',
+
+  'over.draw': '平局',
+  'over.youWon': '你贏了！',
+  'over.playerWon': '{name}贏了！',
+  'over.youLost': '你輸了',
+  'over.cleared': '太棒了，{name}清空了所有手牌。',
+  'over.beaten': '再接再厲，{name} 棋高一著。',
+  'over.goalMet': '目標達成！',
+  'over.settleFailed': '這局沒能和伺服器結算，星星沒有入帳。請檢查網路。',
+  'over.goalMissed': '目標未達成',
+  'over.unlocked': '解鎖了{stage}牌背和景點介紹',
+  'over.nextStop': '，下一站：{stage}',
+  'over.journeyDone': '，錦繡之旅全部完成！',
+  'over.waitForHost': '等待房主開始下一局 · 離開房間',
+  'over.playAgain': '再玩一局',
+  'over.nextStage': '前往下一站：{stage}',
+  'over.retry': '再挑戰一次',
+  'over.replay': '回放',
+  'over.map': '地圖',
+  'over.label': '本局結束',
+
+  'replay.label': '回放',
+  'replay.start': '回到開局',
+  'replay.prev': '上一步',
+  'replay.next': '下一步',
+  'replay.end': '跳到結局',
+  'replay.close': '結束回放',
+
+  'match.title': '比分',
+  'match.target': '目標 {target} 分',
+  'match.round': '第 {n} 局',
+  'match.dealer': '發牌人',
+  'match.dealerMark': '發',
+  'match.total': '總分',
+  'match.close': '返回遊戲',
+  'match.youWon': '你贏得了比賽！',
+  'match.playerWon': '{name}贏得了比賽！',
+  'match.bonus': '+{stars} ★',
+  'match.next': '開始第 {n} 局',
+  'match.newMatch': '再來一場比賽',
+
+  'lobby.share': '把房間號告訴朋友',
+  'lobby.setup': '{rules} · AI {level}',
+  'lobby.emptySeat': '空位 · 開始後由 AI 代替',
+  'lobby.host': '房主',
+  'lobby.leave': '離開房間',
+  'lobby.start': '開始遊戲',
+  'lobby.waiting': '等待房主開始',
+  'lobby.label': '線上房間',
+
+  'timer.hint': '時間到了會由 AI 代為出牌',
+
+  'target.cards': '選擇 {count} 張要消除的手牌（{picked}/{count}）',
+  'target.confirm': '確定',
+  'target.suit': '指定花色：',
+  'target.opponent': '選擇對手：',
+  'target.cancel': '取消',
+
+  'campaign.title': '錦繡之旅',
+  'campaign.progress': '已通過 {cleared} / {total}',
+  'campaign.stage': '第 {n} 站',
+  'campaign.opponents': '對手：{names} · AI {level}',
+  'campaign.goal': '目標：{goal}',
+  'campaign.again': '再玩',
+  'campaign.go': '出發',
+  'campaign.fact': '景點介紹',
+  'campaign.backInUse': '牌背使用中',
+  'campaign.useBack': '用作牌背',
+  'campaign.home': '返回主頁',
+
+  'fact.close': '知道啦',
+
+  'update.offlineReady': '已經可以離線玩了',
+  'update.ok': '好的',
+  'update.available': '有新版本了',
+  'update.reload': '更新',
+  'update.later': '稍後',
+
+  'stats.title': '我的戰績',
+  'stats.exportHint': '下載 JSON 檔案，給爸爸媽媽或老師看',
+  'stats.export': '匯出',
+  'stats.backToList': '返回列表',
+  'stats.seed': '牌局編號：{seed}',
+  'stats.time': '時間：{time}',
+  'stats.result': '結果：{result}',
+  'stats.opponents': '對手：{names}',
+  'stats.setup': '規則：{rules} · AI {level}',
+  'stats.stage': '錦繡之旅：{stage}',
+  'stats.casual': '休閒模式',
+  'stats.free': '自由對局',
+  'stats.turns': '回合數：{turns} · 打出 8：{eights} 張',
+  'stats.stars': '獲得星星：{stars} ★',
+  'stats.noMoves': '這局比較早，只保留了結果，沒有保留每一步。',
+  'stats.played': '總局數',
+  'stats.winRate': '勝率',
+  'stats.winRateValue': '{won} 勝 · {percent}',
+  'stats.streak': '連勝',
+  'stats.streakValue': '{current}（最佳 {best}）',
+  'stats.averageTurns': '平均回合',
+  'stats.eights': '打出 8',
+  'stats.earned': '獲得星星',
+  'stats.spent': '花掉星星',
+  'stats.draws': '平局',
+  'stats.byDifficulty': '按難度',
+  'stats.byRules': '按規則',
+  'stats.items': '用過的道具',
+  'stats.noRecords': '還沒有紀錄',
+  'stats.noItems': '還沒有用過',
+  'stats.history': '對局紀錄',
+  'stats.empty': '玩完一局就會出現在這裡。',
+  'stats.listTurns': '{turns} 回合 · +{stars} ★',
+  'stats.home': '返回主頁',
+
+  'themes.title': '牌面主題',
+  'themes.done': '好了',
+  'themes.unlockItem': '在錦繡商店用 {cost} ★ 兌換',
+  'themes.unlockStage': '通過{stage}後獲得',
+  'themes.unlockWins': '贏滿 {count} 局後獲得（已贏 {won} 局）',
+
+  'result.won': '勝',
+  'result.lost': '負',
+  'result.draw': '平',
+
+  'log.deal': '發牌：每人 {count} 張，翻開 {card}。',
+  'log.play': '{name}打出 {card}。',
+  'log.drawNone': '{name}無牌可摸，跳過。',
+  'log.drawCards': '{name}摸了 {cards}。',
+  'log.drawCount': '{name}摸了 {count} 張牌。',
+  'log.chooseSuit': '{name}把花色指定為 {suit}。',
+  'log.useItem': '{name}使用了{item}。',
+
+  'guide.welcome': '歡迎來到{place}！先看看手裡有哪些花色吧。',
+  'guide.comment.eight': '{line}瘋狂 8 點，像{place}的天氣一樣說變就變！',
+  'guide.comment.two': '{line}小心，罰摸的牌越疊越高了。',
+  'guide.comment.queen': '{line}有人被跳過，只能在{place}多看一會兒風景。',
+  'guide.comment.ace': '{line}方向反轉，我們掉頭往回走！',
+  'guide.comment.suit': '{line}大家手裡還有 {suit} 嗎？',
+  'guide.comment.bigDraw': '{line}手牌一下子多了起來，別灰心。',
+  'guide.opponent': '對手',
+  'guide.advice.over': '這局已經結束了，再來一局吧！',
+  'guide.advice.wait': '還沒輪到你，先看看{name}怎麼出。',
+  'guide.advice.suit': '選 {suit} 吧，你手裡這個花色最多。',
+  'guide.advice.eight': '只剩 8 能出了，打出 {card}，再指定一個你有的花色。',
+  'guide.advice.play': '試試打出 {card}：留住 8 點，把它們用在關鍵時刻。',
+  'guide.advice.penalty': '沒有 2 可以接，只好摸 {count} 張了。',
+  'guide.advice.draw': '沒有能出的牌，摸一張吧。',
+  'guide.review.playing': '比賽還在進行中，加油！',
+  'guide.review.won': '漂亮！你像登上{place}之巔一樣贏下了這局。',
+  'guide.review.winner': '{name}先出完了牌。',
+  'guide.review.draw': '這局打成了平局。',
+  'guide.review.lost': '{outcome}{reasons}。下次再來！',
+  'guide.reason.drew': '你一共摸了 {count} 張牌，手牌太多就很難先出完',
+  'guide.reason.eightsLeft': '結束時你手裡還壓著 {count} 張 8，萬用牌要及時用出去',
+  'guide.reason.eightsEarly': '8 點用得有點早，留一張到最後更穩',
+  'guide.reason.luck': '這局牌運不太好，對手的花色剛好接得上',
+  'guide.reason.separator': '；',
+
+  'item.p1.name': '長城明信片',
+  'item.p1.desc': '免單/挽救：下家摸 5 張牌（每出 3 手可再用）',
+  'item.p2.name': '兵馬俑模型',
+  'item.p2.desc': '被動：每局必得 2 顆星',
+  'item.p3.name': '西湖絲綢',
+  'item.p3.desc': '消耗：選 2 張手牌消除（每局一次）',
+  'item.p4.name': '錦繡山河畫卷',
+  'item.p4.desc': '神力：直接獲得本局勝利（每局一次）',
+  'item.p5.name': '九寨溝明鏡',
+  'item.p5.desc': '看清一位對手的手牌，直到你出下一手',
+  'item.p6.name': '司南',
+  'item.p6.desc': '指定目前花色，然後接著出牌（每局一次）',
+  'item.p7.name': '剪紙牌面',
+  'item.p7.desc': '卡牌主題：紅紙鏤空的窗花牌面和牌背',
+  'item.p8.name': '京劇臉譜牌面',
+  'item.p8.desc': '卡牌主題：J、Q、K 換上京劇臉譜',
+  'item.p9.name': '錦囊妙計',
+  'item.p9.desc': '免費提示用完後，每個錦囊再給一次提示',
+
+  'theme.classic.name': '經典紅金',
+  'theme.classic.desc': '白底牌面，紅色牌背',
+  'theme.largePrint.name': '大字版',
+  'theme.largePrint.desc': '特大的點數和花色，小朋友一眼就能看清',
+  'theme.papercut.name': '剪紙',
+  'theme.papercut.desc': '紅紙鏤空的窗花牌面和牌背',
+  'theme.opera.name': '京劇臉譜',
+  'theme.opera.desc': 'J、Q、K 換上京劇臉譜，戲台做牌桌',
+  'theme.porcelain.name': '青花瓷',
+  'theme.porcelain.desc': '青花描邊的瓷白牌面，通關錦繡之旅後獲得',
+  'theme.ink.name': '水墨',
+  'theme.ink.desc': '宣紙牌面配山水牌背，贏滿 20 局後獲得',
+
+  'rule.drawTwo.name': '2 罰摸兩張',
+  'rule.drawTwo.desc': '打出 2 後，下家需摸 2 張牌並跳過回合。',
+  'rule.stackDrawTwo.name': '2 可以疊加',
+  'rule.stackDrawTwo.desc': '被罰時可以再打一張 2，把罰牌疊加給下家。',
+  'rule.skipQueen.name': 'Q 跳過',
+  'rule.skipQueen.desc': '打出 Q 後，跳過下家的回合。',
+  'rule.reverseAce.name': 'A 反轉',
+  'rule.reverseAce.desc': '打出 A 後出牌方向反轉（三人以上時生效）。',
+  'rule.drawUntilPlayable.name': '摸到能出為止',
+  'rule.drawUntilPlayable.desc': '無牌可出時一直摸牌，直到摸到能出的牌。',
+  'rule.noEightFinish.name': '8 不能收尾',
+  'rule.noEightFinish.desc': '最後一張牌不能是 8。',
+
+  'preset.classic': '經典規則',
+  'preset.family': '家庭規則',
+  'preset.marathon': '馬拉松',
+
+  'ai.easy.name': '簡單',
+  'ai.easy.desc': '隨便出一張能出的牌。',
+  'ai.normal.name': '普通',
+  'ai.normal.desc': '會留著 8、記牌，還會挑你缺的花色。',
+  'ai.hard.name': '困難',
+  'ai.hard.desc': '會推算你手裡的牌，反覆模擬後再出牌。',
+
+  'stage.huashan.name': '華山',
+  'stage.huashan.intro': '自古華山一條路，小心腳下哦！',
+  'stage.huashan.twist': '經典規則，先熟悉熟悉山路。',
+  'stage.huashan.goal': '贏下這一局',
+  'stage.huashan.fact.title': '西嶽華山',
+  'stage.huashan.fact.0': '華山在陝西省華陰市，是「五嶽」中的西嶽。',
+  'stage.huashan.fact.1': '它以「險」聞名天下，人們常說「自古華山一條路」。',
+  'stage.huashan.fact.2': '長空棧道貼著懸崖修建，走在上面腳下就是萬丈深谷。',
+  'stage.huashan.opponent.0': '山道挑夫',
+
+  'stage.terracotta.name': '兵馬俑',
+  'stage.terracotta.intro': '全軍列陣，看你能撐幾個回合！',
+  'stage.terracotta.twist': '打出 2 罰摸兩張，還可以疊加。',
+  'stage.terracotta.goal': '在 15 手之內獲勝',
+  'stage.terracotta.fact.title': '秦始皇陵兵馬俑',
+  'stage.terracotta.fact.0': '兵馬俑在陝西西安臨潼，是秦始皇陵的陪葬坑。',
+  'stage.terracotta.fact.1': '1974 年，幾位農民打井時偶然發現了它們。',
+  'stage.terracotta.fact.2': '坑裡有約 8000 個陶俑，每一個的臉都長得不一樣。',
+  'stage.terracotta.opponent.0': '秦軍將軍',
+
+  'stage.westlake.name': '西湖',
+  'stage.westlake.intro': '欲把西湖比西子，我們三人來一局。',
+  'stage.westlake.twist': '三人同遊：Q 跳過下家，A 讓方向反轉。',
+  'stage.westlake.goal': '在三人局中獲勝',
+  'stage.westlake.fact.title': '杭州西湖',
+  'stage.westlake.fact.0': '西湖在浙江省杭州市，斷橋、雷峰塔、蘇堤都在湖邊。',
+  'stage.westlake.fact.1': '一元人民幣背面印的就是西湖的「三潭印月」。',
+  'stage.westlake.fact.2': '蘇東坡曾寫詩把西湖比作美人西施。',
+  'stage.westlake.opponent.0': '斷橋書生',
+  'stage.westlake.opponent.1': '白娘子',
+
+  'stage.guilin.name': '桂林',
+  'stage.guilin.intro': '灕江水長，摸牌可要摸個夠喲。',
+  'stage.guilin.twist': '無牌可出時一直摸牌，直到能出為止。',
+  'stage.guilin.goal': '獲勝，而且全局摸牌不超過 8 張',
+  'stage.guilin.fact.title': '桂林山水',
+  'stage.guilin.fact.0': '桂林在廣西，人們說「桂林山水甲天下」。',
+  'stage.guilin.fact.1': '這裡的山是石灰岩被雨水溶蝕出來的，叫喀斯特地貌。',
+  'stage.guilin.fact.2': '二十元人民幣背面就是灕江邊的山水風光。',
+  'stage.guilin.opponent.0': '灕江漁翁',
+
+  'stage.huangshan.name': '黃山',
+  'stage.huangshan.intro': '歡迎歡迎！不過想登頂，可沒那麼容易。',
+  'stage.huangshan.twist': '2 罰摸可疊加，Q 跳過下家。',
+  'stage.huangshan.goal': '用一張 8 打出最後一張牌獲勝',
+  'stage.huangshan.fact.title': '安徽黃山',
+  'stage.huangshan.fact.0': '黃山在安徽省南部，奇松、怪石、雲海、溫泉被稱為「四絕」。',
+  'stage.huangshan.fact.1': '迎客松長在玉屏樓旁，像伸出手臂歡迎客人。',
+  'stage.huangshan.fact.2': '明代徐霞客說：「登黃山，天下無山。」',
+  'stage.huangshan.opponent.0': '迎客松',
+
+  'stage.jiuzhaigou.name': '九寨溝',
+  'stage.jiuzhaigou.intro': '最後一站啦，四個人一起比一比！',
+  'stage.jiuzhaigou.twist': '馬拉松規則，四人同桌。',
+  'stage.jiuzhaigou.goal': '不使用道具，贏下四人局',
+  'stage.jiuzhaigou.fact.title': '四川九寨溝',
+  'stage.jiuzhaigou.fact.0': '九寨溝在四川省阿壩州，因溝裡有九個藏族村寨而得名。',
+  'stage.jiuzhaigou.fact.1': '湖水清得能看見水底，五彩池會呈現藍、綠、黃好幾種顏色。',
+  'stage.jiuzhaigou.fact.2': '諾日朗瀑布很寬，附近的森林裡還住著大熊貓。',
+  'stage.jiuzhaigou.opponent.0': '大熊貓',
+  'stage.jiuzhaigou.opponent.1': '藏族阿媽',
+  'stage.jiuzhaigou.opponent.2': '五彩池精靈',
+};
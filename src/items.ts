@@ -0,0 +1,164 @@
+import { GameMessage, GameState, Inventory, ItemTarget, SeatId } from './types';
+import { getSuitSymbol } from './constants';
+
+/**
+ * The shop catalog and what every item does. The client renders it, the
+ * server prices purchases from it and the engine runs the effects, so all
+ * three always agree. Adding an item means adding an entry here.
+ */
+
+/** What a player has to pick when using an item. */
+export type ItemTargetKind =
+  | { type: 'cards'; count: number }
+  | { type: 'suit' }
+  | { type: 'opponent' };
+
+/** Engine operations an effect may use. The engine passes them in, so items stay plain data. */
+export interface ItemEffects {
+  dealCards: (state: GameState, seatId: SeatId, count: number) => GameState;
+  /** Moves cards from a hand to the bottom of the discard pile, where they wait to be reshuffled. */
+  discardFromHand: (state: GameState, seatId: SeatId, cardIds: string[]) => GameState;
+  win: (state: GameState, seatId: SeatId) => GameState;
+  nextSeat: (state: GameState, seatId: SeatId) => SeatId;
+  seatName: (state: GameState, seatId: SeatId) => string;
+}
+
+export interface ItemUse {
+  state: GameState;
+  seat: SeatId;
+  /** Already checked against the item's `target` kind. */
+  target: ItemTarget;
+  fx: ItemEffects;
+}
+
+export interface ItemUseRules {
+  target?: ItemTargetKind;
+  /** Only on the user's own turn. */
+  ownTurn?: boolean;
+  /** Uses allowed per seat in one game. */
+  perGame?: number;
+  /** Moves the user has to make before using it again. */
+  cooldown?: number;
+  /** Shows the target's hand to the user until the user's next move. */
+  reveals?: boolean;
+  /** Any further condition on the game. */
+  when?: (state: GameState, seat: SeatId) => boolean;
+  /** The effect, and a line saying what it did. */
+  apply: (use: ItemUse) => { state: GameState; message: GameMessage };
+}
+
+export interface Item {
+  id: string;
+  name: string;
+  cost: number;
+  icon: string;
+  desc: string;
+  /** The most a player may own at once; the shop stops selling beyond it. */
+  maxOwned?: number;
+  /** How an active item is used. Items without it are passive. */
+  use?: ItemUseRules;
+  /** Passive: adjusts the stars a finished game earns. */
+  stars?: (earned: number, won: boolean) => number;
+  /** A deck theme this item unlocks. It does nothing during a game. */
+  theme?: string;
+  /** Spent for one hint once a game's free hints run out. */
+  hint?: boolean;
+}
+
+export const ITEMS: Item[] = [
+  {
+    id: 'p1', name: '长城明信片', cost: 3, icon: '🏯', desc: '免单/挽救：下家摸 5 张牌（每出 3 手可再用）',
+    use: {
+      ownTurn: true,
+      cooldown: 3,
+      apply: ({ state, seat, fx }) => {
+        const target = fx.nextSeat(state, seat);
+        return {
+          state: fx.dealCards(state, target, 5),
+          message: { key: 'item.p1.effect', params: { name: fx.seatName(state, target) } },
+        };
+      },
+    },
+  },
+  {
+    id: 'p2', name: '兵马俑模型', cost: 5, icon: '🗿', desc: '被动：每局必得 2 颗星',
+    maxOwned: 1,
+    stars: earned => Math.max(earned, 2),
+  },
+  {
+    id: 'p3', name: '西湖丝绸', cost: 10, icon: '🧣', desc: '消耗：选 2 张手牌消除（每局一次）',
+    use: {
+      target: { type: 'cards', count: 2 },
+      ownTurn: true,
+      perGame: 1,
+      apply: ({ state, seat, target, fx }) => ({
+        state: fx.discardFromHand(state, seat, target.cardIds!),
+        message: { key: 'item.p3.effect', params: { count: target.cardIds!.length } },
+      }),
+    },
+  },
+  {
+    id: 'p4', name: '锦绣山河画卷', cost: 20, icon: '📜', desc: '神力：直接获得本局胜利（每局一次）',
+    use: {
+      ownTurn: true,
+      perGame: 1,
+      apply: ({ state, seat, fx }) => ({ state: fx.win(state, seat), message: { key: 'item.p4.effect' } }),
+    },
+  },
+  {
+    id: 'p5', name: '九寨沟明镜', cost: 4, icon: '🪞', desc: '看清一位对手的手牌，直到你出下一手',
+    use: {
+      target: { type: 'opponent' },
+      ownTurn: true,
+      cooldown: 2,
+      reveals: true,
+      apply: ({ state, target, fx }) => ({
+        state,
+        message: { key: 'item.p5.effect', params: { name: fx.seatName(state, target.seat!) } },
+      }),
+    },
+  },
+  {
+    id: 'p6', name: '司南', cost: 6, icon: '🧭', desc: '指定当前花色，然后接着出牌（每局一次）',
+    use: {
+      target: { type: 'suit' },
+      ownTurn: true,
+      perGame: 1,
+      // Facing a draw-two the penalty comes first
+      when: state => state.pendingDraw === 0,
+      apply: ({ state, target }) => ({
+        state: { ...state, wildSuit: target.suit! },
+        message: { key: 'item.p6.effect', params: { suit: getSuitSymbol(target.suit!) } },
+      }),
+    },
+  },
+  {
+    id: 'p7', name: '剪纸牌面', cost: 8, icon: '✂️', desc: '卡牌主题：红纸镂空的窗花牌面和牌背',
+    maxOwned: 1,
+    theme: 'papercut',
+  },
+  {
+    id: 'p8', name: '京剧脸谱牌面', cost: 15, icon: '🎭', desc: '卡牌主题：J、Q、K 换上京剧脸谱',
+    maxOwned: 1,
+    theme: 'opera',
+  },
+  {
+    id: 'p9', name: '锦囊妙计', cost: 2, icon: '💡', desc: '免费提示用完后，每个锦囊再给一次提示',
+    hint: true,
+  },
+];
+
+export const findItem = (id: string): Item | undefined => ITEMS.find(item => item.id === id);
+
+/** Whether the shop may sell `item` to someone who owns `inventory`. */
+export const canOwnMore = (item: Item, inventory: Inventory): boolean =>
+  item.maxOwned === undefined || (inventory[item.id] ?? 0) < item.maxOwned;
+
+/**
+ * Reward mechanism: 2 stars for winning, 1 star for losing, then every owned
+ * passive item (like the Terracotta model) gets its say.
+ */
+export const starsForGame = (won: boolean, inventory: Inventory): number =>
+  ITEMS.reduce((earned, item) =>
+    item.stars && (inventory[item.id] ?? 0) > 0 ? item.stars(earned, won) : earned,
+  won ? 2 : 1);
@@ -0,0 +1,66 @@
+import { Difficulty, GameState, Match, MatchRound, RuleSet, SeatConfig, SeatId } from './types';
+import { getHandPoints } from './constants';
+import { getDealer } from './engine';
+
+/**
+ * Matches: free games played round after round until someone reaches the
+ * target score. Each round's winner takes the points left in everyone else's
+ * hand (8 = 50, face cards 10, the rest their face value), and the deal moves
+ * one seat along the table every round.
+ */
+
+/** The scores a match can be played to. */
+export const MATCH_TARGETS = [100, 250, 500];
+
+export const createMatch = (target: number, table: SeatConfig[], rules: RuleSet, difficulty: Difficulty): Match =>
+  ({ target, table, rules, difficulty, rounds: [], serverMatchId: null });
+
+/** The last seat deals the first round, so the first seat leads it; then the deal passes along. */
+export const dealerFor = (table: { id: SeatId }[], round: number): SeatId =>
+  table[(table.length - 1 + round) % table.length].id;
+
+/** Who deals the round after those already played. */
+export const nextDealer = (match: Match): SeatId => dealerFor(match.table, match.rounds.length);
+
+/** What each seat scored in a finished game. A draw scores nothing for anyone. */
+export const roundPoints = (state: GameState): Record<SeatId, number> => {
+  const points: Record<SeatId, number> = Object.fromEntries(state.seats.map(seat => [seat.id, 0]));
+  if (state.status === 'won' && state.winner) {
+    points[state.winner] = state.seats
+      .filter(seat => seat.id !== state.winner)
+      .reduce((sum, seat) => sum + getHandPoints(seat.hand), 0);
+  }
+  return points;
+};
+
+export const createRound = (state: GameState): MatchRound => ({
+  seed: state.seed,
+  dealer: getDealer(state),
+  winner: state.winner,
+  points: roundPoints(state),
+});
+
+export const recordRound = (match: Match, state: GameState): Match =>
+  ({ ...match, rounds: [...match.rounds, createRound(state)] });
+
+/** Takes back the latest round, when undo reopens the game it came from. */
+export const forgetLastRound = (match: Match): Match =>
+  ({ ...match, rounds: match.rounds.slice(0, -1) });
+
+export const matchScores = (match: Pick<Match, 'table' | 'rounds'>): Record<SeatId, number> =>
+  Object.fromEntries(match.table.map(seat => [
+    seat.id,
+    match.rounds.reduce((sum, round) => sum + (round.points[seat.id] ?? 0), 0),
+  ]));
+
+/** The leader once anyone has reached the target; a tie at the top plays on. */
+export const matchWinner = (match: Pick<Match, 'target' | 'table' | 'rounds'>): SeatId | null => {
+  const scores = matchScores(match);
+  const best = Math.max(...Object.values(scores));
+  const leaders = Object.keys(scores).filter(id => scores[id] === best);
+  return best >= match.target && leaders.length === 1 ? leaders[0] : null;
+};
+
+/** Stars for winning a match, on top of those from its rounds: one for every 50 points played to. */
+export const matchStars = (won: boolean, target: number): number =>
+  won ? Math.floor(target / 50) : 0;
@@ -0,0 +1,99 @@
+import { ClientMessage, ServerMessage } from './types';
+
+/**
+ * Client for online rooms (`server/rooms.ts`). The socket reconnects on its
+ * own and resumes the player's seat with the token the server handed out,
+ * so a dropped connection or a page reload does not cost the game.
+ */
+
+export type OnlineStatus = 'connecting' | 'open' | 'closed';
+
+export interface OnlineConnection {
+  send: (message: ClientMessage) => void;
+  /** Leaves the room for good and stops reconnecting. */
+  close: () => void;
+}
+
+interface ResumeTicket {
+  code: string;
+  token: string;
+}
+
+// Per tab, so two tabs in one browser can sit at the same table
+const RESUME_KEY = 'kiki-crazy-eights/room';
+const RECONNECT_MS = [500, 1000, 2000, 5000];
+
+const loadTicket = (): ResumeTicket | null => {
+  try {
+    return JSON.parse(sessionStorage.getItem(RESUME_KEY) ?? 'null');
+  } catch {
+    return null;
+  }
+};
+
+/** Whether this tab was in a room it can go back to. */
+export const canResume = () => loadTicket() !== null;
+
+export const connectOnline = (
+  onMessage: (message: ServerMessage) => void,
+  onStatus: (status: OnlineStatus) => void,
+): OnlineConnection => {
+  let socket: WebSocket;
+  let attempts = 0;
+  let closed = false;
+  let resuming = false;
+  // Messages sent while (re)connecting go out once the socket opens
+  const queue: ClientMessage[] = [];
+
+  const send = (message: ClientMessage) => {
+    if (socket.readyState === WebSocket.OPEN) socket.send(JSON.stringify(message));
+    else queue.push(message);
+  };
+
+  const open = () => {
+    onStatus('connecting');
+    socket = new WebSocket(`${location.protocol === 'https:' ? 'wss' : 'ws'}://${location.host}/ws`);
+
+    socket.onopen = () => {
+      attempts = 0;
+      onStatus('open');
+      const ticket = loadTicket();
+      if (ticket) {
+        resuming = true;
+        socket.send(JSON.stringify({ type: 'resume', ...ticket }));
+      }
+      queue.splice(0).forEach(send);
+    };
+
+    socket.onmessage = event => {
+      const message = JSON.parse(event.data) as ServerMessage;
+      if (message.type === 'joined') {
+        resuming = false;
+        sessionStorage.setItem(RESUME_KEY, JSON.stringify({ code: message.room.code, token: message.token }));
+      } else if (message.type === 'error' && resuming) {
+        // The room is gone; nothing to go back to
+        resuming = false;
+        sessionStorage.removeItem(RESUME_KEY);
+      }
+      onMessage(message);
+    };
+
+    socket.onclose = () => {
+      if (closed) return;
+      onStatus('closed');
+      setTimeout(open, RECONNECT_MS[Math.min(attempts++, RECONNECT_MS.length - 1)]);
+    };
+  };
+
+  open();
+
+  return {
+    send,
+    close: () => {
+      closed = true;
+      sessionStorage.removeItem(RESUME_KEY);
+      if (socket.readyState === WebSocket.OPEN) socket.send(JSON.stringify({ type: 'leave' }));
+      socket.close();
+    },
+  };
+};
@@ -0,0 +1,135 @@
+import { Arrangement, GameState, PuzzleProgress, RuleSet, SeatId } from '../types';
+import { SUITS } from '../constants';
+import { arrangeGame, createTable, MAX_SEATS, MIN_SEATS, TableNames } from '../engine';
+import { CLASSIC_RULES, parseRules } from '../rules';
+import { SearchLimitError, shortestWin } from './solver';
+import firstSteps from './packs/first-steps.json';
+import crazyEights from './packs/crazy-eights.json';
+
+/**
+ * 残局挑战: hand-made positions to win in a set number of moves. Each
+ * position is written out in full, from every hand to the order of the
+ * draw pile, and packs live as JSON next to this file. `checkPuzzle`
+ * proves a puzzle can be won in exactly its number of moves, however the
+ * other seats reply; `npm run puzzles` runs it over every pack.
+ */
+
+export interface Puzzle extends Arrangement {
+  id: string;
+  title: string;
+  /** Your plays and draws allowed; the shortest forced win takes exactly this many. */
+  moves: number;
+  /** Changes to the classic rules. */
+  rules?: Partial<RuleSet>;
+}
+
+export interface PuzzlePack {
+  id: string;
+  name: string;
+  puzzles: Puzzle[];
+}
+
+export const PUZZLE_PACKS = [firstSteps, crazyEights] as PuzzlePack[];
+
+export const findPuzzle = (id: string | null): Puzzle | undefined =>
+  PUZZLE_PACKS.flatMap(pack => pack.puzzles).find(puzzle => puzzle.id === id);
+
+/** The puzzle after `puzzle` in its pack, if any. */
+export const nextPuzzle = (puzzle: Puzzle): Puzzle | undefined => {
+  const pack = PUZZLE_PACKS.find(pack => pack.puzzles.includes(puzzle));
+  return pack?.puzzles[pack.puzzles.indexOf(puzzle) + 1];
+};
+
+export const puzzleRules = (puzzle: Puzzle): RuleSet => ({ ...CLASSIC_RULES, ...puzzle.rules });
+
+/** The position, with you in the first seat and every other seat played by the AI. */
+export const puzzleGame = (puzzle: Puzzle, names?: TableNames): GameState => {
+  const table = createTable(puzzle.hands.slice(1).map(() => 'ai'), names);
+  return arrangeGame({ ...puzzle, exactDeck: true }, puzzleRules(puzzle), table);
+};
+
+/** Plays and draws `seat` has made so far. */
+export const movesMade = (state: GameState, seat: SeatId): number =>
+  state.log.filter(entry => (entry.type === 'play' || entry.type === 'draw') && entry.seat === seat).length;
+
+/** Solved once `seat` wins; failed once it cannot within the limit any more. */
+export const puzzleOutcome = (state: GameState, puzzle: Puzzle, seat: SeatId): 'solved' | 'failed' | null => {
+  if (state.status === 'won' && state.winner === seat) return 'solved';
+  if (state.status !== 'playing' && state.status !== 'waiting_for_suit') return 'failed';
+  return movesMade(state, seat) >= puzzle.moves ? 'failed' : null;
+};
+
+/** Three stars for solving it first time, two within three tries, one after that. */
+export const puzzleStars = (tries: number): number => tries <= 1 ? 3 : tries <= 3 ? 2 : 1;
+
+/** Keeps the better of the new and any earlier rating. */
+export const recordPuzzle = (progress: PuzzleProgress, puzzleId: string, stars: number): PuzzleProgress =>
+  (progress.stars[puzzleId] ?? 0) >= stars ? progress : { ...progress, stars: { ...progress.stars, [puzzleId]: stars } };
+
+/** A JSON object's fields, as opposed to an array, null or a plain value. */
+export const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isCardList = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every(id => typeof id === 'string');
+
+/**
+ * Everything wrong with a puzzle as authored, or nothing when it is fine:
+ * its shape, its cards, and whether the shortest forced win takes exactly
+ * `moves`. Only a puzzle that passes is safe to cast to `Puzzle`.
+ */
+export const checkPuzzle = (raw: unknown): string[] => {
+  const problems: string[] = [];
+  const { id, title, moves, hands, starter, deck, wildSuit, rules } = isRecord(raw) ? raw : {};
+  if (typeof id !== 'string' || id === '') problems.push('id must be a non-empty string');
+  if (typeof title !== 'string' || title === '') problems.push('title must be a non-empty string');
+  if (typeof moves !== 'number' || !Number.isInteger(moves) || moves < 1) problems.push('moves must be a whole number of at least 1');
+  if (
+    !Array.isArray(hands) || hands.length < MIN_SEATS || hands.length > MAX_SEATS
+    || !hands.every((hand: unknown) => isCardList(hand) && hand.length > 0)
+  ) {
+    problems.push(`hands must be ${MIN_SEATS} to ${MAX_SEATS} lists of card ids, none of them empty`);
+  }
+  if (typeof starter !== 'string') problems.push('starter must be a card id');
+  if (deck !== undefined && !isCardList(deck)) problems.push('deck must be a list of card ids');
+  if (wildSuit !== undefined && (!SUITS.some(suit => suit === wildSuit) || !String(starter).startsWith('8-'))) {
+    problems.push('wildSuit must be a suit, and only follows an 8');
+  }
+  if (parseRules(rules) === null) problems.push('rules may only switch known rules on or off');
+  if (problems.length > 0) return problems;
+
+  const puzzle = raw as Puzzle;
+  let state: GameState;
+  try {
+    state = puzzleGame(puzzle);
+  } catch (err) {
+    return [(err as Error).message];
+  }
+  try {
+    const shortest = shortestWin(state, state.seats[0].id, puzzle.moves);
+    if (shortest === null) problems.push(`cannot be won for certain in ${puzzle.moves} moves`);
+    else if (shortest < puzzle.moves) problems.push(`can already be won for certain in ${shortest} moves`);
+  } catch (err) {
+    if (!(err instanceof SearchLimitError)) throw err;
+    problems.push(err.message);
+  }
+  return problems;
+};
+
+/** `checkPuzzle` over a whole pack, with problems keyed by puzzle; ids must be unique across `others` too. */
+export const checkPack = (raw: unknown, others: PuzzlePack[] = []): Record<string, string[]> => {
+  const { id, name, puzzles } = isRecord(raw) ? raw : {};
+  if (typeof id !== 'string' || typeof name !== 'string' || !Array.isArray(puzzles)) {
+    return { [typeof id === 'string' ? id : '?']: ['a pack needs an id, a name and a list of puzzles'] };
+  }
+  const taken = new Set(others.filter(pack => pack.id !== id).flatMap(pack => pack.puzzles.map(puzzle => puzzle.id)));
+  const report: Record<string, string[]> = {};
+  puzzles.forEach((puzzle: unknown, i: number) => {
+    const key = isRecord(puzzle) && typeof puzzle.id === 'string' ? puzzle.id : `#${i + 1}`;
+    const problems = checkPuzzle(puzzle);
+    if (taken.has(key)) problems.push('id is used by another puzzle');
+    taken.add(key);
+    if (problems.length > 0) report[key] = problems;
+  });
+  return report;
+};
@@ -0,0 +1,58 @@
+import { GameAction, GameState, SeatId } from '../types';
+import { applyAction, legalMoves } from '../engine';
+
+/**
+ * Proves puzzles. A puzzle is solved only when you go out within its move
+ * limit whatever the other seats do, so every reply they could make is
+ * tried; your own plays and draws count against the limit, naming a suit
+ * after an 8 does not.
+ */
+
+/** Positions a search may visit before it gives up, so a badly authored puzzle cannot hang the check. */
+export const SEARCH_LIMIT = 200_000;
+
+export class SearchLimitError extends Error {
+  constructor() {
+    super(`Search gave up after ${SEARCH_LIMIT} positions`);
+  }
+}
+
+const countsAsMove = (action: GameAction) => action.type === 'play' || action.type === 'draw';
+
+const createSearch = () => {
+  let visited = 0;
+  const forcesWin = (state: GameState, seat: SeatId, moves: number): boolean => {
+    if (++visited > SEARCH_LIMIT) throw new SearchLimitError();
+    if (state.status === 'won') return state.winner === seat;
+    if (state.status === 'draw') return false;
+
+    const options = legalMoves(state, state.currentTurn);
+    if (state.currentTurn !== seat) return options.every(action => forcesWin(applyAction(state, action), seat, moves));
+    return options.some(action => {
+      const left = countsAsMove(action) ? moves - 1 : moves;
+      return left >= 0 && forcesWin(applyAction(state, action), seat, left);
+    });
+  };
+  return forcesWin;
+};
+
+/** Whether `seat` can go out within `moves` more plays and draws, however the others reply. */
+export const forcesWin = (state: GameState, seat: SeatId, moves: number): boolean => createSearch()(state, seat, moves);
+
+/** A move for `seat` that keeps a forced win within `moves`, or null when none does. */
+export const winningMove = (state: GameState, seat: SeatId, moves: number): GameAction | null => {
+  if (state.currentTurn !== seat) return null;
+  const search = createSearch();
+  return legalMoves(state, seat).find(action => {
+    const left = countsAsMove(action) ? moves - 1 : moves;
+    return left >= 0 && search(applyAction(state, action), seat, left);
+  }) ?? null;
+};
+
+/** The fewest plays and draws that force a win, up to `limit`; null when it takes more. */
+export const shortestWin = (state: GameState, seat: SeatId, limit: number): number | null => {
+  for (let moves = 1; moves <= limit; moves++) {
+    if (forcesWin(state, seat, moves)) return moves;
+  }
+  return null;
+};
@@ -0,0 +1,166 @@
+import { Difficulty, GameState, QuestBoard, SeatId } from './types';
+import { createSeededRng } from './rng';
+import { STAGES } from './campaign';
+
+/**
+ * 每日任务 and 每周任务: small goals that pay stars on top of the games
+ * themselves. Everyone gets the same quests on the same day, picked from
+ * the date alone, so the server can check a claim against its own schedule.
+ * Days and weeks turn over at midnight Beijing time.
+ */
+
+export type QuestPeriod = 'daily' | 'weekly';
+
+/** A finished game, as quests see it. */
+export interface QuestGame {
+  state: GameState;
+  seat: SeatId;
+  difficulty: Difficulty;
+  stageId: string | null;
+}
+
+export interface Quest {
+  id: string;
+  period: QuestPeriod;
+  desc: string;
+  /** Games that have to count before the reward can be claimed. */
+  target: number;
+  stars: number;
+  /** Whether a finished game counts towards the quest. */
+  counts: (game: QuestGame) => boolean;
+}
+
+const won = ({ state, seat }: QuestGame) => state.status === 'won' && state.winner === seat;
+
+const movesBy = ({ state, seat }: QuestGame) =>
+  state.log.filter(entry => entry.type !== 'deal' && entry.seat === seat);
+
+const endedOnEight = (game: QuestGame) => {
+  const last = movesBy(game).filter(entry => entry.type === 'play').pop();
+  return won(game) && last?.type === 'play' && last.card.rank === '8';
+};
+
+const neverDrew = (game: QuestGame) =>
+  won(game) && !movesBy(game).some(entry => entry.type === 'draw' && entry.cards.length > 0);
+
+const beatHard = (game: QuestGame) => won(game) && game.difficulty === 'hard';
+
+// A quick win is one where you made no more than this many plays and draws
+const QUICK_MOVES = 8;
+
+export const QUESTS: Quest[] = [
+  { id: 'dailyWin', period: 'daily', desc: '赢一局', target: 1, stars: 2, counts: won },
+  { id: 'dailyPlay3', period: 'daily', desc: '打完 3 局', target: 3, stars: 2, counts: () => true },
+  { id: 'dailyEightLast', period: 'daily', desc: '最后一张牌出 8，赢下一局', target: 1, stars: 3, counts: endedOnEight },
+  { id: 'dailyNoDraw', period: 'daily', desc: '一张牌也不摸，赢下一局', target: 1, stars: 3, counts: neverDrew },
+  { id: 'dailyHard', period: 'daily', desc: '战胜困难的电脑', target: 1, stars: 3, counts: beatHard },
+  {
+    id: 'dailyQuick',
+    period: 'daily',
+    desc: `出牌和摸牌不超过 ${QUICK_MOVES} 次就赢一局`,
+    target: 1,
+    stars: 3,
+    counts: game => won(game) && movesBy(game).filter(entry => entry.type === 'play' || entry.type === 'draw').length <= QUICK_MOVES,
+  },
+  { id: 'dailyCampaign', period: 'daily', desc: '在锦绣之旅赢一局', target: 1, stars: 2, counts: game => won(game) && game.stageId !== null },
+  { id: 'weeklyWin5', period: 'weekly', desc: '赢 5 局', target: 5, stars: 5, counts: won },
+  { id: 'weeklyPlay10', period: 'weekly', desc: '打完 10 局', target: 10, stars: 4, counts: () => true },
+  { id: 'weeklyEightLast3', period: 'weekly', desc: '最后一张牌出 8，赢 3 局', target: 3, stars: 6, counts: endedOnEight },
+  { id: 'weeklyNoDraw2', period: 'weekly', desc: '一张牌也不摸，赢 2 局', target: 2, stars: 6, counts: neverDrew },
+  { id: 'weeklyHard3', period: 'weekly', desc: '战胜困难的电脑 3 次', target: 3, stars: 6, counts: beatHard },
+  ...STAGES.map((stage): Quest => ({
+    id: `stage-${stage.id}`,
+    period: 'weekly',
+    desc: `在${stage.name}战胜电脑`,
+    target: 1,
+    stars: 4,
+    counts: game => won(game) && game.stageId === stage.id,
+  })),
+];
+
+export const findQuest = (id: string): Quest | undefined => QUESTS.find(quest => quest.id === id);
+
+const isStageQuest = (quest: Quest) => quest.id.startsWith('stage-');
+
+/** How many quests each period draws from which part of the pool. */
+const SCHEDULE: { period: QuestPeriod; pool: Quest[]; count: number }[] = [
+  { period: 'daily', pool: QUESTS.filter(quest => quest.period === 'daily'), count: 3 },
+  { period: 'weekly', pool: QUESTS.filter(quest => quest.period === 'weekly' && !isStageQuest(quest)), count: 2 },
+  { period: 'weekly', pool: QUESTS.filter(isStageQuest), count: 1 },
+];
+
+const BEIJING_OFFSET_MS = 8 * 60 * 60 * 1000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** The Beijing calendar day `date` falls on, as YYYY-MM-DD. */
+export const questDay = (date: Date = new Date()): string =>
+  new Date(date.getTime() + BEIJING_OFFSET_MS).toISOString().slice(0, 10);
+
+/** The Monday that starts the Beijing week `date` falls in, as YYYY-MM-DD. */
+export const questWeek = (date: Date = new Date()): string => {
+  const local = new Date(date.getTime() + BEIJING_OFFSET_MS);
+  const sinceMonday = (local.getUTCDay() + 6) % 7;
+  return new Date(local.getTime() - sinceMonday * DAY_MS).toISOString().slice(0, 10);
+};
+
+/** The key of the day or week `date` falls in. */
+export const questPeriodKey = (period: QuestPeriod, date: Date = new Date()): string =>
+  period === 'daily' ? questDay(date) : questWeek(date);
+
+/** When the day or week `key` names begins and ends, for matching timestamps against it. */
+export const questPeriodRange = (period: QuestPeriod, key: string): { from: Date; to: Date } => {
+  const from = new Date(Date.parse(`${key}T00:00:00Z`) - BEIJING_OFFSET_MS);
+  return { from, to: new Date(from.getTime() + (period === 'daily' ? 1 : 7) * DAY_MS) };
+};
+
+/** The quests on the board at `date`: the same for everyone, picked by hashing the day or week. */
+export const scheduledQuests = (date: Date = new Date()): Quest[] =>
+  SCHEDULE.flatMap(({ period, pool, count }, slot) => {
+    const rng = createSeededRng(`quests/${slot}/${questPeriodKey(period, date)}`);
+    const shuffled = [...pool];
+    for (let i = shuffled.length - 1; i > 0; i--) {
+      const j = Math.floor(rng() * (i + 1));
+      [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+    }
+    return shuffled.slice(0, count);
+  });
+
+export const createQuestBoard = (date: Date = new Date()): QuestBoard => ({
+  day: questDay(date),
+  week: questWeek(date),
+  progress: {},
+  claimed: [],
+});
+
+/** The board as it stands at `date`: a new day clears the daily quests and a new week the weekly ones. */
+export const rollQuests = (board: QuestBoard, date: Date = new Date()): QuestBoard => {
+  const day = questDay(date);
+  const week = questWeek(date);
+  if (board.day === day && board.week === week) return board;
+  const kept = (id: string) => findQuest(id)?.period === 'daily' ? board.day === day : board.week === week;
+  return {
+    day,
+    week,
+    progress: Object.fromEntries(Object.entries(board.progress).filter(([id]) => kept(id))),
+    claimed: board.claimed.filter(kept),
+  };
+};
+
+/** Counts a finished game towards the quests on the board when it ended. */
+export const recordQuestGame = (board: QuestBoard, game: QuestGame, date: Date = new Date()): QuestBoard => {
+  const rolled = rollQuests(board, date);
+  const counted = scheduledQuests(date).filter(quest => quest.counts(game));
+  if (counted.length === 0) return rolled;
+  return {
+    ...rolled,
+    progress: { ...rolled.progress, ...Object.fromEntries(counted.map(quest => [quest.id, (rolled.progress[quest.id] ?? 0) + 1])) },
+  };
+};
+
+export const questDone = (board: QuestBoard, quest: Quest): boolean => (board.progress[quest.id] ?? 0) >= quest.target;
+
+export const canClaimQuest = (board: QuestBoard, quest: Quest): boolean =>
+  questDone(board, quest) && !board.claimed.includes(quest.id);
+
+export const claimQuest = (board: QuestBoard, questId: string): QuestBoard =>
+  board.claimed.includes(questId) ? board : { ...board, claimed: [...board.claimed, questId] };
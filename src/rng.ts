@@ -0,0 +1,49 @@
+/**
+ * Seedable pseudo-random numbers, so a deal can be replayed from its seed.
+ * The generator is mulberry32: its whole state is one 32-bit integer, which
+ * lets `GameState` carry it around as plain data.
+ */
+
+export type Rng = () => number;
+
+export interface SeededRng extends Rng {
+  /** The generator's current state; `createRng(rng.getState())` continues the sequence. */
+  getState: () => number;
+}
+
+export const createRng = (state: number): SeededRng => {
+  let s = state >>> 0;
+  const rng = (() => {
+    s = (s + 0x6d2b79f5) >>> 0;
+    let t = s;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  }) as SeededRng;
+  rng.getState = () => s;
+  return rng;
+};
+
+/** Turns a typed-in seed into the generator's starting state (FNV-1a). */
+export const hashSeed = (seed: string): number => {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < seed.length; i++) {
+    h ^= seed.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+};
+
+export const createSeededRng = (seed: string): SeededRng => createRng(hashSeed(seed));
+
+/** Seeds are short upper-case codes so they are easy to read out and type. */
+export const normalizeSeed = (seed: string): string => seed.trim().toUpperCase();
+
+export const randomSeed = (): string =>
+  Math.floor(Math.random() * 36 ** 6).toString(36).toUpperCase().padStart(6, '0');
+
+/** Everyone who plays on the same calendar day gets the same deal. */
+export const dailySeed = (date: Date = new Date()): string => {
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `DAILY-${date.getFullYear()}${pad(date.getMonth() + 1)}${pad(date.getDate())}`;
+};
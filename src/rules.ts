@@ -0,0 +1,68 @@
+import { RuleSet } from './types';
+
+/**
+ * House-rule variants. The engine reads the `RuleSet` stored on `GameState`,
+ * and the rules panel and home-screen picker render from the same tables
+ * below, so the text a child reads always matches how the game plays.
+ */
+
+export const CLASSIC_RULES: RuleSet = {
+  drawTwo: false,
+  stackDrawTwo: false,
+  skipQueen: false,
+  reverseAce: false,
+  drawUntilPlayable: false,
+  noEightFinish: false,
+};
+
+export interface RulePreset {
+  id: string;
+  name: string;
+  rules: RuleSet;
+}
+
+export const RULE_PRESETS: RulePreset[] = [
+  { id: 'classic', name: '经典规则', rules: CLASSIC_RULES },
+  {
+    id: 'family',
+    name: '家庭规则',
+    rules: { drawTwo: true, stackDrawTwo: true, skipQueen: true, reverseAce: true, drawUntilPlayable: false, noEightFinish: true },
+  },
+  {
+    id: 'marathon',
+    name: '马拉松',
+    rules: { drawTwo: true, stackDrawTwo: true, skipQueen: true, reverseAce: true, drawUntilPlayable: true, noEightFinish: true },
+  },
+];
+
+export interface RuleOption {
+  key: keyof RuleSet;
+  name: string;
+  desc: string;
+  /** Another rule this one only makes sense together with. */
+  requires?: keyof RuleSet;
+}
+
+export const RULE_OPTIONS: RuleOption[] = [
+  { key: 'drawTwo', name: '2 罚摸两张', desc: '打出 2 后，下家需摸 2 张牌并跳过回合。' },
+  { key: 'stackDrawTwo', name: '2 可以叠加', desc: '被罚时可以再打一张 2，把罚牌叠加给下家。', requires: 'drawTwo' },
+  { key: 'skipQueen', name: 'Q 跳过', desc: '打出 Q 后，跳过下家的回合。' },
+  { key: 'reverseAce', name: 'A 反转', desc: '打出 A 后出牌方向反转（三人以上时生效）。' },
+  { key: 'drawUntilPlayable', name: '摸到能出为止', desc: '无牌可出时一直摸牌，直到摸到能出的牌。' },
+  { key: 'noEightFinish', name: '8 不能收尾', desc: '最后一张牌不能是 8。' },
+];
+
+/**
+ * Rules sent by a client, laid over the classic ones. Only known rules may
+ * appear, each switched on or off; anything else gives null. Sending none
+ * means classic rules.
+ */
+export const parseRules = (value: unknown): RuleSet | null => {
+  if (value === undefined) return CLASSIC_RULES;
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) return null;
+  const known = Object.entries(value).every(([key, on]) => Object.hasOwn(CLASSIC_RULES, key) && typeof on === 'boolean');
+  return known ? { ...CLASSIC_RULES, ...value } : null;
+};
+
+export const findPreset = (rules: RuleSet): RulePreset | undefined =>
+  RULE_PRESETS.find(preset => RULE_OPTIONS.every(({ key }) => preset.rules[key] === rules[key]));
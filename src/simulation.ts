@@ -0,0 +1,268 @@
+import { Difficulty, GameState, Inventory, RuleSet, SeatConfig, SeatId } from './types';
+import { applyAction, createGame, isGameOver } from './engine';
+import { getAiLevel } from './ai';
+import { starsForGame } from './items';
+import { dealerFor } from './match';
+import { findPreset } from './rules';
+import { createSeededRng } from './rng';
+
+/**
+ * Headless games between AI seats, for balancing the rules, the AI levels,
+ * items and star rewards with numbers rather than guesses. Nothing here
+ * touches React or the DOM; `scripts/simulate.ts` is the command line
+ * around it.
+ */
+
+export interface SimSeat {
+  level: Difficulty;
+  /** Items the seat may spend each game, the way AI seats do in real games. */
+  items: Inventory;
+}
+
+export interface SimConfig {
+  /** Game `i` is dealt from `${seed}-${i}`, so a run can be repeated exactly. */
+  seed: string;
+  games: number;
+  rules: RuleSet;
+  seats: SimSeat[];
+}
+
+export interface SimGame {
+  seed: string;
+  dealer: SeatId;
+  /** Null for a drawn or stalled game. */
+  winner: SeatId | null;
+  /** Plays and draws, counted the way the stats page counts them. */
+  turns: number;
+  /** The draw pile was empty at some point. */
+  deckRanOut: boolean;
+  /** Stopped at the move limit instead of finishing. */
+  stalled: boolean;
+  itemsUsed: Record<SeatId, Inventory>;
+}
+
+export interface Interval {
+  low: number;
+  high: number;
+}
+
+export interface SeatReport {
+  seat: SeatId;
+  level: Difficulty;
+  items: Inventory;
+  wins: number;
+  winRate: number;
+  winInterval: Interval;
+  /** Stars the seat's wallet would collect per game, passive items included. */
+  averageStars: number;
+  itemsUsed: Inventory;
+}
+
+export interface SimReport {
+  games: number;
+  rules: RuleSet;
+  /** The rule preset's id, or 'custom'. */
+  preset: string;
+  seats: SeatReport[];
+  draws: number;
+  stalled: number;
+  averageTurns: number;
+  turnsInterval: Interval;
+  deckRanOut: number;
+  deckRanOutRate: number;
+  deckRanOutInterval: Interval;
+}
+
+/** How much a seat's items moved its win rate: this run against the same deals played without items. */
+export interface ItemImpact {
+  seat: SeatId;
+  withItems: number;
+  withoutItems: number;
+  difference: number;
+  interval: Interval;
+}
+
+// Easy seats draw at random even when they could play, so their games can wander for a long time
+const MAX_ACTIONS = 5000;
+
+// 95% confidence
+const Z = 1.96;
+
+export const simTable = (config: Pick<SimConfig, 'seats'>): SeatConfig[] =>
+  config.seats.map((seat, i) => ({ id: `seat-${i}`, name: `${getAiLevel(seat.level).id} ${i + 1}`, kind: 'ai' }));
+
+/** Plays game `index` of the run. The deal passes round the table from game to game, as in a match. */
+export const playSimGame = (config: SimConfig, index: number): SimGame => {
+  const table = simTable(config);
+  const seed = `${config.seed}-${index}`;
+  const dealer = dealerFor(table, index);
+  const rng = createSeededRng(`${seed}/ai`);
+  const inventories = config.seats.map(seat => ({ ...seat.items }));
+
+  let state: GameState = createGame(seed, config.rules, table, dealer);
+  let deckRanOut = false;
+  let actions = 0;
+  while (!isGameOver(state) && actions < MAX_ACTIONS) {
+    const i = table.findIndex(seat => seat.id === state.currentTurn);
+    const { strategy } = getAiLevel(config.seats[i].level);
+    const item = strategy.chooseItem(state, state.currentTurn, inventories[i]);
+    const action = item ?? strategy.chooseAction(state, state.currentTurn, rng);
+    if (!action) break;
+    if (item) inventories[i][item.itemId]--;
+    state = applyAction(state, action);
+    deckRanOut ||= state.deck.length === 0;
+    actions++;
+  }
+
+  const itemsUsed: Record<SeatId, Inventory> = Object.fromEntries(table.map(seat => [seat.id, {}]));
+  state.log.forEach(entry => {
+    if (entry.type !== 'useItem') return;
+    itemsUsed[entry.seat][entry.itemId] = (itemsUsed[entry.seat][entry.itemId] ?? 0) + 1;
+  });
+
+  return {
+    seed,
+    dealer,
+    winner: state.status === 'won' ? state.winner : null,
+    turns: state.log.filter(entry => entry.type === 'play' || entry.type === 'draw').length,
+    deckRanOut,
+    stalled: !isGameOver(state),
+    itemsUsed,
+  };
+};
+
+/** Calls `onGame` after every game, e.g. to show progress. */
+export const runSimulation = (config: SimConfig, onGame?: (game: SimGame, index: number) => void): SimGame[] =>
+  Array.from({ length: config.games }, (_, i) => {
+    const game = playSimGame(config, i);
+    onGame?.(game, i);
+    return game;
+  });
+
+/** The Wilson score interval for `successes` out of `n`, which behaves near 0% and 100% where the normal one does not. */
+export const wilsonInterval = (successes: number, n: number, z = Z): Interval => {
+  if (n === 0) return { low: 0, high: 1 };
+  const p = successes / n;
+  const centre = p + z * z / (2 * n);
+  const spread = z * Math.sqrt(p * (1 - p) / n + z * z / (4 * n * n));
+  const scale = 1 + z * z / n;
+  return { low: Math.max(0, (centre - spread) / scale), high: Math.min(1, (centre + spread) / scale) };
+};
+
+const meanInterval = (values: number[], z = Z): Interval => {
+  const n = values.length;
+  if (n < 2) return { low: values[0] ?? 0, high: values[0] ?? 0 };
+  const mean = values.reduce((sum, v) => sum + v, 0) / n;
+  const variance = values.reduce((sum, v) => sum + (v - mean) ** 2, 0) / (n - 1);
+  const spread = z * Math.sqrt(variance / n);
+  return { low: mean - spread, high: mean + spread };
+};
+
+const addInventory = (total: Inventory, more: Inventory) => {
+  Object.entries(more).forEach(([itemId, count]) => { total[itemId] = (total[itemId] ?? 0) + count; });
+};
+
+export const summarizeSimulation = (config: SimConfig, games: SimGame[]): SimReport => {
+  const n = games.length;
+  const turns = games.map(game => game.turns);
+  const deckRanOut = games.filter(game => game.deckRanOut).length;
+
+  const seats = simTable(config).map((seat, i): SeatReport => {
+    const { level, items } = config.seats[i];
+    const wins = games.filter(game => game.winner === seat.id).length;
+    const stars = games.reduce((sum, game) => sum + starsForGame(game.winner === seat.id, items), 0);
+    const itemsUsed: Inventory = {};
+    games.forEach(game => addInventory(itemsUsed, game.itemsUsed[seat.id]));
+    return {
+      seat: seat.id,
+      level,
+      items,
+      wins,
+      winRate: n > 0 ? wins / n : 0,
+      winInterval: wilsonInterval(wins, n),
+      averageStars: n > 0 ? stars / n : 0,
+      itemsUsed,
+    };
+  });
+
+  return {
+    games: n,
+    rules: config.rules,
+    preset: findPreset(config.rules)?.id ?? 'custom',
+    seats,
+    draws: games.filter(game => game.winner === null && !game.stalled).length,
+    stalled: games.filter(game => game.stalled).length,
+    averageTurns: n > 0 ? turns.reduce((sum, t) => sum + t, 0) / n : 0,
+    turnsInterval: meanInterval(turns),
+    deckRanOut,
+    deckRanOutRate: n > 0 ? deckRanOut / n : 0,
+    deckRanOutInterval: wilsonInterval(deckRanOut, n),
+  };
+};
+
+/** The same run with every seat's items taken away: the control for `itemImpact`. */
+export const withoutItems = (config: SimConfig): SimConfig => ({
+  ...config,
+  seats: config.seats.map(seat => ({ ...seat, items: {} })),
+});
+
+/**
+ * Each seat's win rate with its items less its win rate on the same deals
+ * without them, with a normal-approximation interval for the difference.
+ */
+export const itemImpact = (withItems: SimReport, control: SimReport): ItemImpact[] =>
+  withItems.seats.map((seat, i) => {
+    const base = control.seats[i];
+    const difference = seat.winRate - base.winRate;
+    const spread = Z * Math.sqrt(
+      seat.winRate * (1 - seat.winRate) / Math.max(withItems.games, 1)
+      + base.winRate * (1 - base.winRate) / Math.max(control.games, 1),
+    );
+    return {
+      seat: seat.seat,
+      withItems: seat.winRate,
+      withoutItems: base.winRate,
+      difference,
+      interval: { low: difference - spread, high: difference + spread },
+    };
+  });
+
+const inventoryText = (inventory: Inventory): string =>
+  Object.entries(inventory).filter(([, count]) => count > 0).map(([itemId, count]) => `${itemId}=${count}`).join(' ');
+
+const csvRow = (values: (string | number | boolean)[]) =>
+  values.map(value => {
+    const text = typeof value === 'number' ? String(Math.round(value * 10000) / 10000) : String(value);
+    return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  }).join(',');
+
+/** One row per seat; the whole-run figures repeat on every row so each row stands alone in a spreadsheet. */
+export const reportToCsv = (report: SimReport, impact: ItemImpact[] | null = null): string => {
+  const header = [
+    'seat', 'level', 'items', 'games', 'wins', 'win_rate', 'win_low', 'win_high', 'avg_stars', 'items_used',
+    'item_impact', 'impact_low', 'impact_high',
+    'preset', 'draws', 'stalled', 'avg_turns', 'turns_low', 'turns_high', 'deck_ran_out_rate', 'deck_low', 'deck_high',
+  ];
+  const rows = report.seats.map((seat, i) => [
+    seat.seat, seat.level, inventoryText(seat.items), report.games, seat.wins,
+    seat.winRate, seat.winInterval.low, seat.winInterval.high, seat.averageStars, inventoryText(seat.itemsUsed),
+    impact?.[i].difference ?? '', impact?.[i].interval.low ?? '', impact?.[i].interval.high ?? '',
+    report.preset, report.draws, report.stalled,
+    report.averageTurns, report.turnsInterval.low, report.turnsInterval.high,
+    report.deckRanOutRate, report.deckRanOutInterval.low, report.deckRanOutInterval.high,
+  ]);
+  return [header, ...rows].map(csvRow).join('\n') + '\n';
+};
+
+/** One row per game, for analysis elsewhere. */
+export const gamesToCsv = (games: SimGame[]): string => {
+  const header = ['seed', 'dealer', 'winner', 'turns', 'deck_ran_out', 'stalled', 'items_used'];
+  const rows = games.map(game => [
+    game.seed, game.dealer, game.winner ?? '', game.turns, game.deckRanOut, game.stalled,
+    Object.entries(game.itemsUsed)
+      .filter(([, used]) => Object.keys(used).length > 0)
+      .map(([seat, used]) => `${seat}:${inventoryText(used)}`)
+      .join('; '),
+  ]);
+  return [header, ...rows].map(csvRow).join('\n') + '\n';
+};
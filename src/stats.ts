@@ -0,0 +1,123 @@
+import { Difficulty, GameAction, GameRecord, GameState, Inventory, PlayerStats, SeatId } from './types';
+import { applyAction, createGame, getDealer, logActions } from './engine';
+import { findPreset } from './rules';
+
+/**
+ * Player statistics, all derived from the history of finished games plus
+ * what was spent in the shop. Only the most recent games keep their moves,
+ * so the save stays small however long the history grows.
+ */
+
+/** How many of the latest games keep their moves for the details page. */
+export const DETAILED_GAMES = 50;
+
+export interface GameContext {
+  difficulty: Difficulty;
+  stageId: string | null;
+  casual: boolean;
+  starsEarned: number;
+}
+
+export const createGameRecord = (state: GameState, seat: SeatId, context: GameContext, finishedAt = new Date()): GameRecord => {
+  const mine = state.log.filter(entry => entry.type !== 'deal' && entry.seat === seat);
+  const itemsUsed: Inventory = {};
+  mine.forEach(entry => {
+    if (entry.type === 'useItem') itemsUsed[entry.itemId] = (itemsUsed[entry.itemId] ?? 0) + 1;
+  });
+
+  return {
+    seed: state.seed,
+    finishedAt: finishedAt.toISOString(),
+    rules: state.rules,
+    table: state.seats.map(({ id, name, kind }) => ({ id, name, kind })),
+    dealer: getDealer(state),
+    ...context,
+    result: state.status === 'draw' ? 'draw' : state.winner === seat ? 'won' : 'lost',
+    winner: state.winner,
+    turns: state.log.filter(entry => entry.type === 'play' || entry.type === 'draw').length,
+    eightsPlayed: mine.filter(entry => entry.type === 'play' && entry.card.rank === '8').length,
+    itemsUsed,
+    actions: logActions(state),
+  };
+};
+
+export const recordGame = (stats: PlayerStats, record: GameRecord): PlayerStats => {
+  const history = [...stats.history, record];
+  const detailedFrom = history.length - DETAILED_GAMES;
+  return {
+    ...stats,
+    history: history.map((game, i) => i < detailedFrom && game.actions ? { ...game, actions: null } : game),
+  };
+};
+
+/** Takes the latest game back out, when an undo reopens it. */
+export const forgetLastGame = (stats: PlayerStats): PlayerStats => ({ ...stats, history: stats.history.slice(0, -1) });
+
+export const recordSpending = (stats: PlayerStats, stars: number): PlayerStats => ({
+  ...stats,
+  starsSpent: stats.starsSpent + stars,
+});
+
+/** The game as it ended, rebuilt from its moves; null once they are no longer kept. */
+export const replayRecord = (record: GameRecord): GameState | null =>
+  record.actions && record.actions.reduce<GameState>(applyAction, createGame(record.seed, record.rules, record.table, record.dealer));
+
+export interface Tally {
+  played: number;
+  won: number;
+}
+
+export interface StatsSummary extends Tally {
+  draws: number;
+  byDifficulty: Record<string, Tally>;
+  /** Keyed by preset id, or 'custom'. */
+  byRules: Record<string, Tally>;
+  currentStreak: number;
+  bestStreak: number;
+  averageTurns: number;
+  eightsPlayed: number;
+  itemsUsed: Inventory;
+  starsEarned: number;
+  starsSpent: number;
+}
+
+const tally = (groups: Record<string, Tally>, key: string, won: boolean) => {
+  const group = groups[key] ??= { played: 0, won: 0 };
+  group.played++;
+  if (won) group.won++;
+};
+
+export const summarize = ({ history, starsSpent }: PlayerStats): StatsSummary => {
+  const summary: StatsSummary = {
+    played: 0, won: 0, draws: 0, byDifficulty: {}, byRules: {}, currentStreak: 0, bestStreak: 0,
+    averageTurns: 0, eightsPlayed: 0, itemsUsed: {}, starsEarned: 0, starsSpent,
+  };
+
+  history.forEach(game => {
+    const won = game.result === 'won';
+    summary.played++;
+    if (won) summary.won++;
+    if (game.result === 'draw') summary.draws++;
+    tally(summary.byDifficulty, game.difficulty, won);
+    tally(summary.byRules, findPreset(game.rules)?.id ?? 'custom', won);
+    summary.currentStreak = won ? summary.currentStreak + 1 : 0;
+    summary.bestStreak = Math.max(summary.bestStreak, summary.currentStreak);
+    summary.averageTurns += game.turns;
+    summary.eightsPlayed += game.eightsPlayed;
+    Object.entries(game.itemsUsed).forEach(([itemId, count]) => {
+      summary.itemsUsed[itemId] = (summary.itemsUsed[itemId] ?? 0) + count;
+    });
+    summary.starsEarned += game.starsEarned;
+  });
+  if (summary.played > 0) summary.averageTurns = Math.round(summary.averageTurns / summary.played);
+
+  return summary;
+};
+
+/** The stats as a JSON file for parents and teachers: the totals, then every game without its moves. */
+export const exportStats = (stats: PlayerStats): string =>
+  JSON.stringify({
+    exportedAt: new Date().toISOString(),
+    summary: summarize(stats),
+    games: stats.history.map(({ actions, ...game }) => game),
+  }, null, 2);
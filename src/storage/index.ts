@@ -0,0 +1,9 @@
+import { SaveData, StorageAdapter } from '../types';
+import { migrate } from './migrations';
+
+export { createSaveData, migrate, SAVE_VERSION } from './migrations';
+export { createLocalStorage } from './localStorage';
+
+/** Loads through `storage` and upgrades the result to the current schema. */
+export const loadSave = async (storage: StorageAdapter): Promise<SaveData> =>
+  migrate(await storage.load());
@@ -0,0 +1,23 @@
+import { SaveData, StorageAdapter } from '../types';
+
+const STORAGE_KEY = 'kiki-crazy-eights/save';
+
+/** Browser saves, kept as one JSON document in localStorage. */
+export const createLocalStorage = (key: string = STORAGE_KEY): StorageAdapter => ({
+  load: async () => {
+    try {
+      const raw = window.localStorage.getItem(key);
+      return raw ? JSON.parse(raw) : null;
+    } catch {
+      // Private mode or a corrupted entry: start fresh rather than crash
+      return null;
+    }
+  },
+  save: async (data: SaveData) => {
+    try {
+      window.localStorage.setItem(key, JSON.stringify(data));
+    } catch {
+      // Quota exceeded or storage disabled; progress just won't survive a reload
+    }
+  },
+});
@@ -0,0 +1,137 @@
+import { Card, GameAction, RuleSet, SaveData, SeatConfig } from '../types';
+import { CLASSIC_RULES } from '../rules';
+import { DEFAULT_DIFFICULTY } from '../ai';
+import { applyAction, createGame } from '../engine';
+import { ITEMS } from '../items';
+import { createQuestBoard } from '../quests';
+
+/**
+ * Save schema versions. Whenever `SaveData` (or the `GameState` inside it)
+ * changes shape, bump `SAVE_VERSION` and add a step to `MIGRATIONS` that
+ * upgrades data written by the previous version, so old saves keep loading.
+ */
+
+export const SAVE_VERSION = 10;
+
+export const createSaveData = (): SaveData => ({
+  version: SAVE_VERSION,
+  profileId: null,
+  stars: 0,
+  inventory: Object.fromEntries(ITEMS.map(item => [item.id, 0])),
+  settings: {
+    difficulty: DEFAULT_DIFFICULTY,
+    rules: CLASSIC_RULES,
+    opponentKinds: ['ai'],
+    casual: false,
+    guide: false,
+    cardBack: null,
+    deckTheme: 'classic',
+    language: 'zh-CN',
+    matchTarget: null,
+    fourColorDeck: false,
+    reduceMotion: false,
+    sfxVolume: 0.8,
+    musicVolume: 0.4,
+    muted: false,
+  },
+  campaign: { cleared: [] },
+  tutorial: { completed: false },
+  quests: createQuestBoard(),
+  puzzles: { stars: {} },
+  stats: { history: [], starsSpent: 0 },
+  match: null,
+  game: null,
+});
+
+/** A save's fields before it is known to be current; each step narrows only what it reads. */
+type SaveFields = Record<string, unknown>;
+
+type Migration = (data: SaveFields) => SaveFields;
+
+/** The parts of a v2 game in progress the v3 step replays: its deal, and the actions taken since. */
+type V2Game = {
+  state: SaveFields & { seed: string; rules: RuleSet; seats: SeatConfig[]; deck: Card[]; discardPile: Card[] };
+  actions: GameAction[];
+};
+
+const isRecord = (value: unknown): value is SaveFields =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/** A record's fields, or none when it is missing or not a record at all. */
+const fieldsOf = (value: unknown): SaveFields => isRecord(value) ? value : {};
+
+/** `MIGRATIONS[n]` turns version `n` data into version `n + 1`. */
+const MIGRATIONS: Record<number, Migration> = {
+  // v2: server profiles. Games saved before then have no move log, so they can only finish offline.
+  1: data => ({
+    ...data,
+    profileId: null,
+    game: isRecord(data.game) ? { ...data.game, actions: [], serverGameId: null } : null,
+  }),
+  // v3: the move log moved into `GameState`. Replaying the old action list from the deal rebuilds
+  // it; games from before v2 kept no actions, so theirs stays empty and they cannot be replayed.
+  2: data => {
+    if (!isRecord(data.game)) return data;
+    const { actions, ...game } = data.game as V2Game;
+    const { seed, rules, seats, deck, discardPile } = game.state;
+    const table = seats.map(({ id, name, kind }) => ({ id, name, kind }));
+    const replayed = actions.reduce(applyAction, createGame(seed, rules, table));
+    const reached = replayed.deck.length === deck.length && replayed.discardPile.length === discardPile.length;
+    return { ...data, game: { ...game, state: { ...game.state, log: reached ? replayed.log : [] } } };
+  },
+  // v4: the campaign map. Everything saved so far was a free game.
+  3: data => ({
+    ...data,
+    campaign: { cleared: [] },
+    game: isRecord(data.game) ? { ...data.game, stageId: null } : null,
+  }),
+  // v5: stats. Nothing was recorded before, so they start from zero.
+  4: data => ({ ...data, stats: { history: [], starsSpent: 0 } }),
+  // v6: translated messages. The line an unfinished game was showing stays as it was written.
+  5: data => ({
+    ...data,
+    settings: { ...fieldsOf(data.settings), language: 'zh-CN' },
+    game: isRecord(data.game) ? {
+      ...data.game,
+      state: { ...fieldsOf(data.game.state), message: [{ key: 'game.text', params: { text: fieldsOf(data.game.state).message } }] },
+    } : null,
+  }),
+  // v7: matches. None was being played before.
+  6: data => ({ ...data, match: null }),
+  // v8: the tutorial. Its bonus is still there for everyone to earn.
+  7: data => ({ ...data, tutorial: { completed: false } }),
+  // v9: quests. Games finished before then counted towards none.
+  8: data => ({ ...data, quests: createQuestBoard() }),
+  // v10: puzzles, all of them still unsolved.
+  9: data => ({ ...data, puzzles: { stars: {} } }),
+};
+
+/**
+ * Upgrades whatever was stored to the current schema. Anything unreadable,
+ * or written by a newer build than this one, falls back to a fresh save.
+ */
+export const migrate = (raw: unknown): SaveData => {
+  if (!isRecord(raw) || typeof raw.version !== 'number' || raw.version > SAVE_VERSION) {
+    return createSaveData();
+  }
+
+  let data = raw;
+  for (let version = raw.version; version < SAVE_VERSION; version++) {
+    const step = MIGRATIONS[version];
+    if (!step) return createSaveData();
+    data = { ...step(data), version: version + 1 };
+  }
+
+  // Fill in anything a hand-edited or partial save left out
+  const defaults = createSaveData();
+  return {
+    ...defaults,
+    ...data,
+    inventory: { ...defaults.inventory, ...fieldsOf(data.inventory) },
+    settings: {
+      ...defaults.settings,
+      ...fieldsOf(data.settings),
+      rules: { ...defaults.settings.rules, ...fieldsOf(fieldsOf(data.settings).rules) },
+    },
+  } as SaveData;
+};
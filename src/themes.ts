@@ -0,0 +1,171 @@
+import { createContext, useContext } from 'react';
+import { CampaignProgress, Inventory, PlayerStats, Rank, Suit } from './types';
+
+/**
+ * Deck themes: how card faces and backs are drawn, the colour of each suit
+ * and the table the game is played on. Some are everyone's, some are sold
+ * in the shop as items, and some are earned by playing.
+ */
+
+export type ThemeUnlock =
+  | { type: 'free' }
+  /** Owning this shop item. */
+  | { type: 'item'; itemId: string }
+  /** Clearing this campaign stage. */
+  | { type: 'stage'; stageId: string }
+  /** Winning this many games. */
+  | { type: 'wins'; count: number };
+
+export interface Theme {
+  id: string;
+  name: string;
+  icon: string;
+  desc: string;
+  unlock: ThemeUnlock;
+  face: {
+    /** The card's paper and edge. */
+    className: string;
+    /** A frame drawn just inside the edge. */
+    frame?: string;
+    /** Pictures that replace the suit symbol on court cards. */
+    courts?: Partial<Record<Rank, string>>;
+    /** Big ranks and symbols for young or tired eyes. */
+    large?: boolean;
+  };
+  back: {
+    /** The back's picture; a landmark back chosen on the campaign map covers it. */
+    image: string | null;
+    className: string;
+    /** The character in the back's centre panel. */
+    motif: string;
+  };
+  /** Any CSS colour, per suit. */
+  suits: Record<Suit, string>;
+  /** Diamonds and clubs in the four-colour deck. */
+  fourColor: { diamonds: string; clubs: string };
+  /** The page behind the table, and the picture on it. */
+  felt: string;
+  table: string;
+}
+
+const CLASSIC_SUITS: Record<Suit, string> = { hearts: '#ef4444', diamonds: '#ef4444', clubs: '#111827', spades: '#111827' };
+const CLASSIC_FOUR_COLOR = { diamonds: '#2563eb', clubs: '#047857' };
+
+export const THEMES: Theme[] = [
+  {
+    id: 'classic',
+    name: '经典红金',
+    icon: '🀄',
+    desc: '白底牌面，红色牌背',
+    unlock: { type: 'free' },
+    face: { className: 'bg-white border-gray-200' },
+    back: { image: null, className: 'bg-red-900 border-yellow-600', motif: '华' },
+    suits: CLASSIC_SUITS,
+    fourColor: CLASSIC_FOUR_COLOR,
+    felt: '#450a0a',
+    table: '/art/tiananmen.svg',
+  },
+  {
+    id: 'largePrint',
+    name: '大字版',
+    icon: '🔍',
+    desc: '特大的点数和花色，小朋友一眼就能看清',
+    unlock: { type: 'free' },
+    face: { className: 'bg-white border-gray-900', large: true },
+    back: { image: null, className: 'bg-red-900 border-yellow-500', motif: '华' },
+    suits: { hearts: '#dc2626', diamonds: '#dc2626', clubs: '#000000', spades: '#000000' },
+    fourColor: { diamonds: '#1d4ed8', clubs: '#047857' },
+    felt: '#450a0a',
+    table: '/art/tiananmen.svg',
+  },
+  {
+    id: 'papercut',
+    name: '剪纸',
+    icon: '✂️',
+    desc: '红纸镂空的窗花牌面和牌背',
+    unlock: { type: 'item', itemId: 'p7' },
+    face: { className: 'bg-amber-50 border-red-700', frame: 'border-2 border-dashed border-red-700/50' },
+    back: { image: '/art/themes/papercut-back.svg', className: 'bg-red-700 border-red-800', motif: '福' },
+    suits: { hearts: '#b91c1c', diamonds: '#b91c1c', clubs: '#1c1917', spades: '#1c1917' },
+    fourColor: { diamonds: '#c2410c', clubs: '#15803d' },
+    felt: '#7f1d1d',
+    table: '/art/themes/papercut-back.svg',
+  },
+  {
+    id: 'opera',
+    name: '京剧脸谱',
+    icon: '🎭',
+    desc: 'J、Q、K 换上京剧脸谱，戏台做牌桌',
+    unlock: { type: 'item', itemId: 'p8' },
+    face: {
+      className: 'bg-orange-50 border-yellow-600',
+      frame: 'border border-yellow-600/60',
+      courts: { J: '/art/themes/opera-j.svg', Q: '/art/themes/opera-q.svg', K: '/art/themes/opera-k.svg' },
+    },
+    back: { image: '/art/themes/opera-back.svg', className: 'bg-stone-900 border-yellow-600', motif: '戏' },
+    suits: { hearts: '#c81e1e', diamonds: '#c81e1e', clubs: '#1c1917', spades: '#1c1917' },
+    fourColor: CLASSIC_FOUR_COLOR,
+    felt: '#1c1210',
+    table: '/art/themes/opera-back.svg',
+  },
+  {
+    id: 'porcelain',
+    name: '青花瓷',
+    icon: '🏺',
+    desc: '青花描边的瓷白牌面，通关锦绣之旅后获得',
+    unlock: { type: 'stage', stageId: 'jiuzhaigou' },
+    face: { className: 'bg-slate-50 border-blue-900', frame: 'border-2 border-double border-blue-800/60' },
+    back: { image: '/art/themes/porcelain-back.svg', className: 'bg-slate-50 border-blue-900', motif: '瓷' },
+    // Underglaze red and cobalt blue
+    suits: { hearts: '#b91c1c', diamonds: '#b91c1c', clubs: '#1e3a8a', spades: '#1e3a8a' },
+    fourColor: { diamonds: '#c2410c', clubs: '#0f766e' },
+    felt: '#0c1a3a',
+    table: '/art/westlake.svg',
+  },
+  {
+    id: 'ink',
+    name: '水墨',
+    icon: '🖌️',
+    desc: '宣纸牌面配山水牌背，赢满 20 局后获得',
+    unlock: { type: 'wins', count: 20 },
+    face: { className: 'bg-[#f5efe0] border-stone-400 font-serif', frame: 'border border-stone-400/60' },
+    back: { image: '/art/themes/ink-back.svg', className: 'bg-[#f3ecdc] border-stone-500', motif: '墨' },
+    suits: { hearts: '#9f1239', diamonds: '#9f1239', clubs: '#1c1917', spades: '#1c1917' },
+    fourColor: { diamonds: '#b45309', clubs: '#3f6212' },
+    felt: '#1f2320',
+    table: '/art/guilin.svg',
+  },
+];
+
+export const DEFAULT_THEME = THEMES[0];
+
+export const findTheme = (id: string | null): Theme | undefined => THEMES.find(theme => theme.id === id);
+
+/** What a theme's unlock is checked against. */
+export interface ThemeProgress {
+  inventory: Inventory;
+  campaign: CampaignProgress;
+  stats: PlayerStats;
+}
+
+export const gamesWon = (stats: PlayerStats): number => stats.history.filter(game => game.result === 'won').length;
+
+export const isThemeUnlocked = (theme: Theme, { inventory, campaign, stats }: ThemeProgress): boolean => {
+  const { unlock } = theme;
+  switch (unlock.type) {
+    case 'free': return true;
+    case 'item': return (inventory[unlock.itemId] ?? 0) > 0;
+    case 'stage': return campaign.cleared.includes(unlock.stageId);
+    case 'wins': return gamesWon(stats) >= unlock.count;
+  }
+};
+
+/** The theme the cards are drawn in: the chosen one while it is still unlocked, else the default. */
+export const activeTheme = (id: string, progress: ThemeProgress): Theme => {
+  const theme = findTheme(id);
+  return theme && isThemeUnlocked(theme, progress) ? theme : DEFAULT_THEME;
+};
+
+export const ThemeContext = createContext<Theme>(DEFAULT_THEME);
+
+export const useTheme = (): Theme => useContext(ThemeContext);
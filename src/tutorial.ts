@@ -0,0 +1,124 @@
+import { Arrangement, GameAction, GameState, Inventory, SeatConfig, Suit } from './types';
+import { arrangeGame, DEFAULT_TABLE } from './engine';
+import { CLASSIC_RULES } from './rules';
+
+/**
+ * 新手教程: a few set-up hands that each teach one thing. Every step waits
+ * for exactly one move, so the lesson cannot wander off, and finishing the
+ * whole tutorial the first time pays a star bonus.
+ */
+
+/** The one move a step waits for. */
+export type TutorialMove =
+  | { type: 'play'; cardId: string }
+  | { type: 'chooseSuit'; suit: Suit }
+  | { type: 'draw' }
+  | { type: 'useItem'; itemId: string };
+
+export interface TutorialStep {
+  id: string;
+  title: string;
+  /** What to do, and why. */
+  text: string;
+  /** Said once the move is made. */
+  done: string;
+  /** The table the step starts from; without one it carries on from the step before. */
+  arrangement?: Arrangement;
+  expects: TutorialMove;
+}
+
+/** Stars for finishing the tutorial, paid once. */
+export const TUTORIAL_STARS = 5;
+
+/** Items lent for the lesson; the player's own wallet is not touched. */
+export const TUTORIAL_ITEMS: Inventory = { p1: 1 };
+
+export const TUTORIAL_STEPS: TutorialStep[] = [
+  {
+    id: 'matchSuit',
+    title: '跟花色',
+    text: '弃牌堆最上面是红心 5。出一张同花色的牌就能接上：点一下你的红心 9。',
+    done: '出得好！同花色的牌总能接上。',
+    arrangement: {
+      hands: [['9-hearts', 'K-spades', '3-clubs', 'J-diamonds'], ['4-clubs', '10-spades', '6-diamonds', 'A-clubs', '7-spades']],
+      starter: '5-hearts',
+    },
+    expects: { type: 'play', cardId: '9-hearts' },
+  },
+  {
+    id: 'matchRank',
+    title: '跟点数',
+    text: '这次是梅花 7，你手里没有梅花。不过点数相同也能出：打出方块 7。',
+    done: '没错，花色和点数，对上一样就行。',
+    arrangement: {
+      hands: [['7-diamonds', '2-spades', 'Q-hearts', '4-spades'], ['5-diamonds', 'J-clubs', '9-spades', '3-hearts', 'K-clubs']],
+      starter: '7-clubs',
+    },
+    expects: { type: 'play', cardId: '7-diamonds' },
+  },
+  {
+    id: 'playEight',
+    title: '疯狂 8 点',
+    text: '黑桃 4 你接不上，但 8 什么时候都能出。打出红心 8！',
+    done: '8 是万能牌，要留到最需要的时候。',
+    arrangement: {
+      hands: [['8-hearts', 'K-diamonds', '3-diamonds', '10-diamonds'], ['6-spades', 'Q-spades', '2-clubs', 'A-hearts', '9-clubs']],
+      starter: '4-spades',
+    },
+    expects: { type: 'play', cardId: '8-hearts' },
+  },
+  {
+    id: 'chooseSuit',
+    title: '指定花色',
+    text: '出了 8 就能指定下一个花色。你手里有三张方块，就选方块吧。',
+    done: '现在下家只能出方块或者 8 了。',
+    expects: { type: 'chooseSuit', suit: 'diamonds' },
+  },
+  {
+    id: 'draw',
+    title: '摸牌',
+    text: '梅花 10 你一张也接不上。点一下摸牌堆，摸一张牌。',
+    done: '接不上就摸牌，然后轮到下家。',
+    arrangement: {
+      hands: [['2-hearts', '6-diamonds', 'J-hearts'], ['4-hearts', 'Q-diamonds', '7-hearts', '5-spades']],
+      starter: '10-clubs',
+      deck: ['5-clubs'],
+    },
+    expects: { type: 'draw' },
+  },
+  {
+    id: 'useItem',
+    title: '使用道具',
+    text: '对手只剩两张牌了！点左边的长城明信片，让下家摸 5 张。这张是借你练习的，平时可以在锦绣商店用星星换。',
+    done: '道具用在关键时刻，能扭转整局。',
+    arrangement: {
+      hands: [['3-hearts', '9-spades', 'J-clubs'], ['5-spades', 'Q-clubs']],
+      starter: 'K-hearts',
+    },
+    expects: { type: 'useItem', itemId: 'p1' },
+  },
+];
+
+/** You against the guide, who never moves while a step is waiting. */
+export const tutorialTable = (you: string, guide: string): SeatConfig[] => [
+  { ...DEFAULT_TABLE[0], name: you },
+  { ...DEFAULT_TABLE[1], name: guide },
+];
+
+/** The table for `step`: its own arrangement, or the game the step before left. */
+export const tutorialGame = (step: TutorialStep, previous: GameState, table: SeatConfig[]): GameState =>
+  step.arrangement
+    ? { ...arrangeGame(step.arrangement, CLASSIC_RULES, table), message: [{ key: `tutorial.${step.id}.title` }] }
+    : previous;
+
+/** Whether `action` is the move `step` is waiting for. */
+export const isExpectedMove = (step: TutorialStep, action: GameAction): boolean => {
+  const { expects } = step;
+  if (action.type !== expects.type) return false;
+  switch (expects.type) {
+    case 'play': return action.type === 'play' && action.cardId === expects.cardId;
+    case 'chooseSuit': return action.type === 'chooseSuit' && action.suit === expects.suit;
+    case 'draw': return true;
+    case 'useItem': return action.type === 'useItem' && action.itemId === expects.itemId;
+  }
+};
@@ -1,3 +1,5 @@
+import { Rng } from './rng';
+
 export type Suit = 'hearts' | 'diamonds' | 'clubs' | 'spades';
 export type Rank = 'A' | '2' | '3' | '4' | '5' | '6' | '7' | '8' | '9' | '10' | 'J' | 'Q' | 'K';
 
@@ -7,14 +9,364 @@ export interface Card {
   rank: Rank;
 }
 
-export type GameStatus = 'playing' | 'player_won' | 'ai_won' | 'waiting_for_suit';
+export type SeatId = string;
+
+/** Who sits in a seat: someone at this device, the computer, or a player online. */
+export type SeatKind = 'human' | 'ai' | 'remote';
+
+export interface SeatConfig {
+  id: SeatId;
+  name: string;
+  kind: SeatKind;
+}
+
+export interface Seat extends SeatConfig {
+  hand: Card[];
+}
+
+export interface RuleSet {
+  /** A 2 makes the next player draw two cards. */
+  drawTwo: boolean;
+  /** A player facing a draw-two may pass it on with another 2. */
+  stackDrawTwo: boolean;
+  /** A Q skips the next player. */
+  skipQueen: boolean;
+  /** An A reverses the direction of play when more than two seats are in. */
+  reverseAce: boolean;
+  /** Drawing continues until a playable card turns up. */
+  drawUntilPlayable: boolean;
+  /** An 8 may not be a player's final card. */
+  noEightFinish: boolean;
+}
+
+export type GameStatus = 'playing' | 'waiting_for_suit' | 'won' | 'draw';
 
 export interface GameState {
   deck: Card[];
   discardPile: Card[];
-  playerHand: Card[];
-  aiHand: Card[];
-  currentTurn: 'player' | 'ai';
+  /** Seats in turn order. */
+  seats: Seat[];
+  currentTurn: SeatId;
+  /** 1 walks `seats` forwards, -1 backwards after a reverse. */
+  direction: 1 | -1;
   status: GameStatus;
+  winner: SeatId | null;
   wildSuit: Suit | null;
+  rules: RuleSet;
+  /** Cards owed by the seat to move after one or more draw-twos. */
+  pendingDraw: number;
+  /** What just happened and whose turn it is, shown one part after another. */
+  message: GameMessage[];
+  /** The code this deal was shuffled from; replaying it gives the same deal. */
+  seed: string;
+  /** State of the seeded generator, for any shuffling after the deal. */
+  rngState: number;
+  /** How many times the discard pile has been shuffled back into the deck. */
+  reshuffles: number;
+  /** True when the game ended because nobody could play or draw. */
+  blocked: boolean;
+  /**
+   * Suits each seat seemed to lack: they drew rather than follow them. This
+   * is public information, so any player (or AI) may read it.
+   */
+  suspectedVoids: Record<SeatId, Suit[]>;
+  /** The deal, then every accepted action in order. */
+  log: LogEntry[];
 }
+
+/** A position set up card by card rather than shuffled, for lessons and puzzles. Cards are named by id, e.g. `8-hearts`. */
+export interface Arrangement {
+  /** Each seat's hand, in table order. */
+  hands: string[][];
+  /** The face-up card on the discard pile. */
+  starter: string;
+  /** The next cards to be drawn, top first. The rest of the deck comes after them in a fixed order. */
+  deck?: string[];
+  /** The suit an 8 named, when the starter is one. */
+  wildSuit?: Suit;
+  /** Leave out the cards nobody named, so the deck is exactly `deck`. */
+  exactDeck?: boolean;
+}
+
+/**
+ * A line of game text as a catalog key plus the values to fill in, so each
+ * player reads it in their own language. A value may be a message itself.
+ */
+export interface GameMessage {
+  key: string;
+  params?: Record<string, string | number | GameMessage>;
+}
+
+/** What the player picked when using an item: cards from their hand, a suit or another seat. */
+export interface ItemTarget {
+  cardIds?: string[];
+  suit?: Suit;
+  seat?: SeatId;
+}
+
+export type GameAction =
+  | { type: 'play'; seat: SeatId; cardId: string }
+  | { type: 'draw'; seat: SeatId }
+  | { type: 'chooseSuit'; seat: SeatId; suit: Suit }
+  | { type: 'useItem'; seat: SeatId; itemId: string; target?: ItemTarget };
+
+export type UseItemAction = Extract<GameAction, { type: 'useItem' }>;
+
+/** One line of the move log: what an action did, not just what was asked for. */
+export type LogEntry =
+  /** Games logged before dealers were recorded have none: the last seat dealt. */
+  | { type: 'deal'; seats: SeatId[]; handSize: number; starter: Card; dealer?: SeatId }
+  | { type: 'play'; seat: SeatId; card: Card }
+  /** Empty when there was nothing left to draw and the turn passed. */
+  | { type: 'draw'; seat: SeatId; cards: Card[] }
+  | { type: 'chooseSuit'; seat: SeatId; suit: Suit }
+  | { type: 'useItem'; seat: SeatId; itemId: string; target?: ItemTarget };
+
+export type Difficulty = 'easy' | 'normal' | 'hard';
+
+/** Shop items an AI seat may spend during one game, by item id. */
+export type Inventory = Record<string, number>;
+
+export interface AiStrategy {
+  /** The next play, draw or suit choice for `seat`, or null when it is not its turn. */
+  chooseAction: (state: GameState, seat: SeatId, rng: Rng) => GameAction | null;
+  /** An item to use before moving, or null to keep them. */
+  chooseItem: (state: GameState, seat: SeatId, inventory: Inventory) => UseItemAction | null;
+}
+
+/** What the tour guide is asked for: a remark on the last move, a post-game review, or advice. */
+export type GuideTopic = 'comment' | 'review' | 'advice';
+
+export interface GuideRequest {
+  topic: GuideTopic;
+  /** Whose side the guide is on. */
+  seat: SeatId;
+  /** The game as `seat` may see it (`viewFor`), never the full state. */
+  view: GameState;
+  /** The language to answer in; Simplified Chinese when missing. */
+  lang?: Lang;
+}
+
+/** Writes the tour guide's lines: Gemini behind the server, or the offline stand-in. */
+export interface GuideProvider {
+  ask: (request: GuideRequest) => Promise<string>;
+}
+
+/** A sound effect, named for the game event that sets it off. */
+export type SoundCue = 'deal' | 'play' | 'draw' | 'eight' | 'chooseSuit' | 'item' | 'win' | 'lose';
+
+/** Background music in the style of one landmark, from the registry in `audio/music`. */
+export type MusicThemeId = 'teahouse' | 'mountain' | 'palace' | 'lake' | 'river' | 'army';
+
+/** The languages the game is translated into. */
+export type Lang = 'zh-CN' | 'zh-TW' | 'en';
+
+export interface Settings {
+  difficulty: Difficulty;
+  rules: RuleSet;
+  /** Everyone after you at the table, in turn order. */
+  opponentKinds: SeatKind[];
+  /** Casual games allow undo but earn no stars. */
+  casual: boolean;
+  /** Whether the tour guide comments on the game. */
+  guide: boolean;
+  /** The campaign stage whose landmark decorates card backs, or null for the deck theme's own back. */
+  cardBack: string | null;
+  /** The deck theme for faces, backs, suit colours and the table, from `themes.ts`. */
+  deckTheme: string;
+  language: Lang;
+  /** Free games are played as matches to this many points, or one at a time when null. */
+  matchTarget: number | null;
+  /** Blue diamonds and green clubs, so no two suits share a colour. */
+  fourColorDeck: boolean;
+  /** Skip animations even when the system does not ask for it. */
+  reduceMotion: boolean;
+  /** Sound effects and music each from 0 to 1; muting keeps both levels for later. */
+  sfxVolume: number;
+  musicVolume: number;
+  muted: boolean;
+}
+
+/** How far the player has travelled on the campaign map. */
+export interface CampaignProgress {
+  /** Stage ids, in the order they were cleared. */
+  cleared: string[];
+}
+
+/** Whether the tutorial's one-time star bonus has been paid out. */
+export interface TutorialProgress {
+  completed: boolean;
+}
+
+/** The best rating earned on each solved puzzle, from 1 to 3 stars, by puzzle id. */
+export interface PuzzleProgress {
+  stars: Record<string, number>;
+}
+
+/** Progress on the current daily and weekly quests. */
+export interface QuestBoard {
+  /** The Beijing day and the Monday of the week the counts below belong to, as YYYY-MM-DD. */
+  day: string;
+  week: string;
+  /** Games counted so far, by quest id. */
+  progress: Record<string, number>;
+  /** Quests whose reward has been collected. */
+  claimed: string[];
+}
+
+/** A game in progress, with everything needed to pick it up exactly where it stopped. */
+export interface SavedGame {
+  state: GameState;
+  /** The server's record of this game, when playing online. */
+  serverGameId: string | null;
+  aiInventory: Record<SeatId, Inventory>;
+  viewerId: SeatId;
+  aiRngState: number;
+  /** The campaign stage being played, or null for a free game. */
+  stageId: string | null;
+}
+
+/** One finished round of a match. */
+export interface MatchRound {
+  seed: string;
+  dealer: SeatId;
+  winner: SeatId | null;
+  /** What each seat scored: the winner takes the points left in everyone else's hand. */
+  points: Record<SeatId, number>;
+}
+
+/** Free games played round after round until someone reaches the target score. */
+export interface Match {
+  target: number;
+  /** The same seats in the same order every round; the deal moves along them. */
+  table: SeatConfig[];
+  rules: RuleSet;
+  difficulty: Difficulty;
+  /** Oldest first. */
+  rounds: MatchRound[];
+  /** The server's record of the match, when it keeps the wallet. */
+  serverMatchId: string | null;
+}
+
+/** One finished game, from the host's side of the table. */
+export interface GameRecord {
+  seed: string;
+  /** ISO timestamp. */
+  finishedAt: string;
+  rules: RuleSet;
+  table: SeatConfig[];
+  /** Missing from records kept before dealers were: the last seat dealt. */
+  dealer?: SeatId;
+  difficulty: Difficulty;
+  stageId: string | null;
+  casual: boolean;
+  result: 'won' | 'lost' | 'draw';
+  winner: SeatId | null;
+  /** Plays and draws by everyone at the table. */
+  turns: number;
+  eightsPlayed: number;
+  itemsUsed: Inventory;
+  starsEarned: number;
+  /** The moves, to show the game again; only kept for the most recent games. */
+  actions: GameAction[] | null;
+}
+
+/** Everything the stats screen is built from. */
+export interface PlayerStats {
+  /** Oldest first. */
+  history: GameRecord[];
+  starsSpent: number;
+}
+
+/** Everything kept across reloads, tagged with the schema version it was written in. */
+export interface SaveData {
+  version: number;
+  /** The server profile that owns the wallet, once one has been created. */
+  profileId: string | null;
+  stars: number;
+  inventory: Inventory;
+  settings: Settings;
+  campaign: CampaignProgress;
+  tutorial: TutorialProgress;
+  quests: QuestBoard;
+  puzzles: PuzzleProgress;
+  stats: PlayerStats;
+  /** The match being played, kept between its rounds. */
+  match: Match | null;
+  game: SavedGame | null;
+}
+
+/** Where saves live: localStorage in the browser, SQLite on the server. */
+export interface StorageAdapter {
+  load: () => Promise<unknown>;
+  save: (data: SaveData) => Promise<void>;
+}
+
+/** A player's account on the server, which owns the authoritative wallet. */
+export interface Profile {
+  id: string;
+  name: string;
+  stars: number;
+  inventory: Inventory;
+}
+
+export interface Purchase {
+  id: number;
+  itemId: string;
+  cost: number;
+  createdAt: string;
+}
+
+/** How a server-tracked game was set up, enough to deal it again identically. */
+export interface GameSetup {
+  seed: string;
+  rules: RuleSet;
+  opponentKinds: SeatKind[];
+  difficulty: Difficulty;
+  /** Who dealt, for a match round; the last seat when missing. */
+  dealer?: SeatId;
+  /** The campaign stage played, whose rules and table then come from the stage. */
+  stageId?: string;
+}
+
+export interface GameResult {
+  winner: SeatId | null;
+  starsEarned: number;
+  /** The bonus for winning the match this game decided, otherwise 0. */
+  matchStarsEarned: number;
+  profile: Profile;
+}
+
+/** Someone sitting in an online room, as every player in it sees them. */
+export interface RoomPlayer {
+  seatId: SeatId;
+  name: string;
+  connected: boolean;
+}
+
+/** An online room before and between games. Empty seats are filled with AIs at the start. */
+export interface RoomInfo {
+  code: string;
+  hostSeatId: SeatId;
+  seatCount: number;
+  rules: RuleSet;
+  difficulty: Difficulty;
+  players: RoomPlayer[];
+  playing: boolean;
+}
+
+export type ClientMessage =
+  | { type: 'create'; name: string; seatCount: number; rules: RuleSet; difficulty: Difficulty }
+  | { type: 'join'; code: string; name: string }
+  | { type: 'resume'; code: string; token: string }
+  | { type: 'start' }
+  | { type: 'action'; action: GameAction }
+  | { type: 'leave' };
+
+export type ServerMessage =
+  /** Sent to a player who joined or resumed; `token` lets them resume after a dropped connection. */
+  | { type: 'joined'; seatId: SeatId; token: string; room: RoomInfo }
+  | { type: 'room'; room: RoomInfo }
+  /** The game as this player may see it, and when the current turn times out (epoch ms), if it does. */
+  | { type: 'state'; state: GameState; turnDeadline: number | null }
+  | { type: 'error'; message: GameMessage };
@@ -2,14 +2,43 @@ import tailwindcss from '@tailwindcss/vite';
 import react from '@vitejs/plugin-react';
 import path from 'path';
 import {defineConfig, loadEnv} from 'vite';
+import {VitePWA} from 'vite-plugin-pwa';
 
 export default defineConfig(({mode}) => {
   const env = loadEnv(mode, '.', '');
   return {
-    plugins: [react(), tailwindcss()],
-    define: {
-      'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-    },
+    plugins: [
+      react(),
+      tailwindcss(),
+      // Installable and playable offline: the service worker precaches the build,
+      // the landmark art in public/art and the bundled fonts. The API and rooms
+      // stay network-only, and the app already falls back to its local save.
+      VitePWA({
+        registerType: 'prompt',
+        includeAssets: ['icons/*', 'art/*'],
+        manifest: {
+          name: 'Kiki 的锦绣中国·8点中国',
+          short_name: '8点中国',
+          description: '领略大好山河，体验经典纸牌乐趣。',
+          lang: 'zh-CN',
+          start_url: '/',
+          display: 'standalone',
+          orientation: 'any',
+          background_color: '#450a0a',
+          theme_color: '#7f1d1d',
+          icons: [
+            {src: 'icons/pwa-64x64.png', sizes: '64x64', type: 'image/png'},
+            {src: 'icons/pwa-192x192.png', sizes: '192x192', type: 'image/png'},
+            {src: 'icons/pwa-512x512.png', sizes: '512x512', type: 'image/png'},
+            {src: 'icons/maskable-icon-512x512.png', sizes: '512x512', type: 'image/png', purpose: 'maskable'},
+          ],
+        },
+        workbox: {
+          globPatterns: ['**/*.{js,css,html,svg,png,ico,woff2}'],
+          navigateFallbackDenylist: [/^\/api/, /^\/ws/],
+        },
+      }),
+    ],
     resolve: {
       alias: {
         '@': path.resolve(__dirname, '.'),
@@ -19,6 +48,11 @@ export default defineConfig(({mode}) => {
       // HMR is disabled in AI Studio via DISABLE_HMR env var.
       // Do not modifyâfile watching is disabled to prevent flickering during agent edits.
       hmr: process.env.DISABLE_HMR !== 'true',
+      // The Express API (`npm run server`) owns profiles, the star wallet and online rooms.
+      proxy: {
+        '/api': `http://localhost:${env.PORT || 3001}`,
+        '/ws': { target: `ws://localhost:${env.PORT || 3001}`, ws: true },
+      },
     },
   };
 });